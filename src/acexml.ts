@@ -0,0 +1,248 @@
+import { AltitudeConstraint, FlightType, NavaidType, RouteType, Runway } from './types.js';
+import { XmlElement, XmlWriter } from './xml.js';
+
+export type AceXmlWaypointType = NavaidType | 'User';
+
+export interface AceXmlPosition {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+}
+
+export interface AceXmlWaypoint {
+  id: string;
+  type: AceXmlWaypointType;
+  position?: AceXmlPosition;
+  speedMax?: number;
+  altitudeDescription?: AltitudeConstraint;
+  altitude?: number;
+  airway?: string;
+  departureProcedure?: string;
+  arrivalProcedure?: string;
+  runway?: Runway;
+  icao?: { region?: string; ident: string };
+}
+
+export interface AceXmlFlightPlan {
+  title: string;
+  fpType: FlightType;
+  routeType: RouteType;
+  cruisingAlt: number;
+  departureId: string;
+  departureLLA: string;
+  destinationId: string;
+  destinationLLA: string;
+  description?: string;
+  departurePosition?: string;
+  waypoints: AceXmlWaypoint[];
+}
+
+type TextRule = (text: string) => string | undefined;
+
+interface ElementRule {
+  name: string;
+  optional?: boolean;
+  repeated?: boolean;
+  text?: TextRule;
+  attributes?: Record<string, TextRule>;
+  children?: ElementRule[];
+}
+
+const NUMBER_REGEX = /^-?\d+(?:\.\d+)?$/;
+
+const number = (min: number, max: number, integer = false): TextRule => text => {
+  const value = Number(text);
+  if (!NUMBER_REGEX.test(text) || (integer && !Number.isInteger(value))) {
+    return `"${text}" is not ${integer ? 'an integer' : 'a number'}`;
+  }
+  return value < min || value > max ? `${text} is outside ${min} to ${max}` : undefined;
+};
+
+const oneOf = (...values: string[]): TextRule => text =>
+  values.includes(text) ? undefined : `"${text}" is not one of ${values.join(', ')}`;
+
+const pattern = (regex: RegExp, description: string): TextRule => text =>
+  regex.test(text) ? undefined : `"${text}" is not ${description}`;
+
+const position: TextRule = text => {
+  const parts = text.split(',');
+  if (parts.length !== 3 || parts.some(part => !NUMBER_REGEX.test(part))) {
+    return `"${text}" is not "latitude,longitude,altitude" in decimal degrees and feet`;
+  }
+  const [latitude = 0, longitude = 0] = parts.map(Number);
+  return Math.abs(latitude) > 90 || Math.abs(longitude) > 180 ? `"${text}" is out of range` : undefined;
+};
+
+const IDENT = pattern(/^[A-Z0-9]{1,12}$/, 'an identifier of 1-12 upper-case letters or digits');
+const ANY_TEXT: TextRule = () => undefined;
+
+export const PLN_SCHEMA: ElementRule = {
+  name: 'SimBase.Document',
+  attributes: { Type: oneOf('AceXML'), version: oneOf('2,0') },
+  children: [
+    { name: 'Descr', text: oneOf('FlightPlan') },
+    {
+      name: 'FlightPlan.FlightPlan',
+      children: [
+        {
+          name: 'AppVersion',
+          children: [
+            { name: 'AppVersionMajor', text: number(0, 99, true) },
+            { name: 'AppVersionMinor', text: number(0, 99, true) }
+          ]
+        },
+        { name: 'Title', text: pattern(/\S/, 'a title') },
+        { name: 'FPType', text: oneOf('VFR', 'IFR') },
+        { name: 'RouteType', text: oneOf('Direct', 'VOR', 'LowAlt', 'HighAlt') },
+        { name: 'CruisingAlt', text: number(0, 60000) },
+        { name: 'DepartureID', text: IDENT },
+        { name: 'DepartureLLA', text: position },
+        { name: 'DestinationID', text: IDENT },
+        { name: 'DestinationLLA', text: position },
+        { name: 'Descr', optional: true, text: ANY_TEXT },
+        { name: 'DeparturePosition', optional: true, text: pattern(/\S/, 'a parking spot or runway') },
+        {
+          name: 'ATCWaypointList',
+          children: [{
+            name: 'ATCWaypoint',
+            repeated: true,
+            attributes: { id: IDENT },
+            children: [
+              { name: 'ATCWaypointType', text: oneOf('Airport', 'VOR', 'NDB', 'Intersection', 'User') },
+              { name: 'WorldPosition', optional: true, text: position },
+              { name: 'SpeedMaxFP', optional: true, text: number(1, 999, true) },
+              { name: 'AltDescFP', optional: true, text: oneOf('AT', 'AT_OR_ABOVE', 'AT_OR_BELOW') },
+              { name: 'Alt1FP', optional: true, text: number(0, 60000) },
+              { name: 'ATCAirway', optional: true, text: pattern(/^[A-Z0-9]{2,7}$/, 'an airway identifier') },
+              { name: 'DepartureFP', optional: true, text: pattern(/^[A-Z0-9]{2,7}$/, 'a procedure name') },
+              { name: 'ArrivalFP', optional: true, text: pattern(/^[A-Z0-9]{2,7}$/, 'a procedure name') },
+              { name: 'RunwayNumberFP', optional: true, text: number(1, 36, true) },
+              { name: 'RunwayDesignatorFP', optional: true, text: oneOf('NONE', 'LEFT', 'RIGHT', 'CENTER') },
+              {
+                name: 'ICAO',
+                optional: true,
+                children: [
+                  { name: 'ICAORegion', optional: true, text: pattern(/^[A-Z0-9]{2}$/, 'a two-character ICAO region') },
+                  { name: 'ICAOIdent', text: IDENT }
+                ]
+              }
+            ]
+          }]
+        }
+      ]
+    }
+  ]
+};
+
+const element = XmlWriter.element;
+
+export class AceXmlDocument {
+  static toElement(plan: AceXmlFlightPlan): XmlElement {
+    const optional = (name: string, value: string | number | undefined): XmlElement[] =>
+      value === undefined ? [] : [element(name, value)];
+
+    return element('SimBase.Document', [
+      element('Descr', 'FlightPlan'),
+      element('FlightPlan.FlightPlan', [
+        element('AppVersion', [element('AppVersionMajor', 1), element('AppVersionMinor', 0)]),
+        element('Title', plan.title),
+        element('FPType', plan.fpType),
+        element('RouteType', plan.routeType),
+        element('CruisingAlt', plan.cruisingAlt),
+        element('DepartureID', plan.departureId),
+        element('DepartureLLA', plan.departureLLA),
+        element('DestinationID', plan.destinationId),
+        element('DestinationLLA', plan.destinationLLA),
+        ...optional('Descr', plan.description),
+        ...optional('DeparturePosition', plan.departurePosition),
+        element('ATCWaypointList', plan.waypoints.map(waypoint => element('ATCWaypoint', [
+          element('ATCWaypointType', waypoint.type),
+          ...optional('WorldPosition', waypoint.position
+            && `${waypoint.position.latitude},${waypoint.position.longitude},${waypoint.position.altitude}`),
+          ...optional('SpeedMaxFP', waypoint.speedMax),
+          ...optional('AltDescFP', waypoint.altitudeDescription),
+          ...optional('Alt1FP', waypoint.altitude),
+          ...optional('ATCAirway', waypoint.airway),
+          ...optional('DepartureFP', waypoint.departureProcedure),
+          ...optional('ArrivalFP', waypoint.arrivalProcedure),
+          ...optional('RunwayNumberFP', waypoint.runway?.number),
+          ...optional('RunwayDesignatorFP', waypoint.runway?.designator),
+          ...(waypoint.icao
+            ? [element('ICAO', [...optional('ICAORegion', waypoint.icao.region), element('ICAOIdent', waypoint.icao.ident)])]
+            : [])
+        ], { id: waypoint.id })))
+      ])
+    ], { Type: 'AceXML', version: '2,0' });
+  }
+
+  static serialize(plan: AceXmlFlightPlan): string {
+    return XmlWriter.serialize(this.toElement(plan));
+  }
+}
+
+export class PlnSchema {
+  static validate(root: XmlElement): string[] {
+    const issues: string[] = [];
+    if (root.name !== PLN_SCHEMA.name) {
+      return [`Root element is <${root.name}>, expected <${PLN_SCHEMA.name}>`];
+    }
+    this.validateElement(root, PLN_SCHEMA, root.name, issues);
+    return issues;
+  }
+
+  private static validateElement(element: XmlElement, rule: ElementRule, path: string, issues: string[]): void {
+    Object.entries(rule.attributes ?? {}).forEach(([name, check]) => {
+      const value = element.attributes[name];
+      const problem = value === undefined ? 'is missing' : check(value);
+      if (problem) {
+        issues.push(`${path} attribute ${name}${value === undefined ? ' ' : ': '}${problem}`);
+      }
+    });
+
+    if (rule.children) {
+      if (element.text.trim()) {
+        issues.push(`${path} should only contain elements, not text`);
+      }
+      this.validateChildren(element, rule.children, path, issues);
+      return;
+    }
+
+    if (element.children.length > 0) {
+      issues.push(`${path} should only contain text, not <${element.children[0]?.name}>`);
+    }
+    const problem = rule.text?.(element.text);
+    if (problem) {
+      issues.push(`${path}: ${problem}`);
+    }
+  }
+
+  private static validateChildren(element: XmlElement, rules: ElementRule[], path: string, issues: string[]): void {
+    const seen = new Set<ElementRule>();
+    const counts = new Map<string, number>();
+    const missing = (from: number, to?: number) => rules.slice(from, to)
+      .filter(rule => !rule.optional && !seen.has(rule))
+      .forEach(rule => issues.push(`${path} is missing <${rule.name}>`));
+    let next = 0;
+
+    element.children.forEach(child => {
+      const count = (counts.get(child.name) ?? 0) + 1;
+      counts.set(child.name, count);
+      const index = rules.findIndex((rule, i) => i >= next && rule.name === child.name);
+      const rule = rules[index];
+
+      if (!rule) {
+        issues.push(rules.some(candidate => candidate.name === child.name)
+          ? `${path}/${child.name} is repeated or out of order`
+          : `${path} has unexpected element <${child.name}>`);
+        return;
+      }
+
+      missing(next, index);
+      seen.add(rule);
+      next = rule.repeated ? index : index + 1;
+      this.validateElement(child, rule, `${path}/${child.name}${rule.repeated ? `[${count}]` : ''}`, issues);
+    });
+
+    missing(next);
+  }
+}
@@ -0,0 +1,137 @@
+export interface AircraftProfile {
+  id: string;
+  name: string;
+  cruiseSpeed: number;
+  cruiseFuelFlow: number;
+  climbSpeed: number;
+  climbRate: number;
+  climbFuelFlow: number;
+  descentSpeed: number;
+  descentRate: number;
+  descentFuelFlow: number;
+  taxiFuel: number;
+  usableFuel: number;
+  reserveMinutes: number;
+}
+
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export const DEFAULT_AIRCRAFT_PROFILES: AircraftProfile[] = [
+  {
+    id: 'c172', name: 'Cessna 172S', cruiseSpeed: 110, cruiseFuelFlow: 8.5,
+    climbSpeed: 75, climbRate: 700, climbFuelFlow: 11, descentSpeed: 110, descentRate: 500, descentFuelFlow: 6,
+    taxiFuel: 1.1, usableFuel: 53, reserveMinutes: 45
+  },
+  {
+    id: 'pa28', name: 'Piper PA-28-181 Archer', cruiseSpeed: 120, cruiseFuelFlow: 9.5,
+    climbSpeed: 80, climbRate: 650, climbFuelFlow: 12, descentSpeed: 120, descentRate: 500, descentFuelFlow: 7,
+    taxiFuel: 1, usableFuel: 48, reserveMinutes: 45
+  },
+  {
+    id: 'sr22', name: 'Cirrus SR22', cruiseSpeed: 170, cruiseFuelFlow: 17,
+    climbSpeed: 110, climbRate: 1000, climbFuelFlow: 24, descentSpeed: 170, descentRate: 700, descentFuelFlow: 12,
+    taxiFuel: 1.5, usableFuel: 92, reserveMinutes: 45
+  }
+];
+
+const STORAGE_KEY = 'sv2msfs-aircraft-profiles';
+
+const LIMITS: Array<[keyof AircraftProfile, string, number, number]> = [
+  ['cruiseSpeed', 'Cruise TAS', 1, 999],
+  ['cruiseFuelFlow', 'Cruise fuel flow', 0, 9999],
+  ['climbSpeed', 'Climb TAS', 1, 999],
+  ['climbRate', 'Climb rate', 1, 20000],
+  ['climbFuelFlow', 'Climb fuel flow', 0, 9999],
+  ['descentSpeed', 'Descent TAS', 1, 999],
+  ['descentRate', 'Descent rate', 1, 20000],
+  ['descentFuelFlow', 'Descent fuel flow', 0, 9999],
+  ['taxiFuel', 'Taxi fuel', 0, 99999],
+  ['usableFuel', 'Usable fuel', 0, 99999],
+  ['reserveMinutes', 'Reserve', 0, 600]
+];
+
+export class MemoryStorage implements KeyValueStorage {
+  private readonly values = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+}
+
+export class AircraftProfiles {
+  constructor(private readonly storage: KeyValueStorage = new MemoryStorage()) {}
+
+  static local(): AircraftProfiles {
+    return new AircraftProfiles(typeof localStorage === 'undefined' ? new MemoryStorage() : localStorage);
+  }
+
+  static validate(profile: AircraftProfile): AircraftProfile {
+    if (!profile.name.trim()) {
+      throw new Error('Aircraft profiles need a name');
+    }
+    LIMITS.forEach(([key, label, min, max]) => {
+      const value = profile[key];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        throw new Error(`${label} must be between ${min} and ${max}`);
+      }
+    });
+    if (profile.taxiFuel > profile.usableFuel) {
+      throw new Error('Taxi fuel cannot exceed usable fuel');
+    }
+    return { ...profile, name: profile.name.trim() };
+  }
+
+  list(): AircraftProfile[] {
+    const saved = this.saved();
+    const defaults = DEFAULT_AIRCRAFT_PROFILES.map(profile => saved.find(entry => entry.id === profile.id) ?? profile);
+    return [...defaults, ...saved.filter(entry => !DEFAULT_AIRCRAFT_PROFILES.some(profile => profile.id === entry.id))];
+  }
+
+  get(id: string): AircraftProfile | undefined {
+    return this.list().find(profile => profile.id === id);
+  }
+
+  save(profile: Omit<AircraftProfile, 'id'>, id?: string): AircraftProfile {
+    const entry = AircraftProfiles.validate({ ...profile, id: id ?? this.createId(profile.name) });
+    this.write([...this.saved().filter(saved => saved.id !== entry.id), entry]);
+    return entry;
+  }
+
+  remove(id: string): void {
+    this.write(this.saved().filter(profile => profile.id !== id));
+  }
+
+  isDefault(id: string): boolean {
+    return DEFAULT_AIRCRAFT_PROFILES.some(profile => profile.id === id);
+  }
+
+  private saved(): AircraftProfile[] {
+    try {
+      const data: unknown = JSON.parse(this.storage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(data) ? data as AircraftProfile[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(profiles: AircraftProfile[]): void {
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  }
+
+  private createId(name: string): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'aircraft';
+    const ids = new Set(this.list().map(profile => profile.id));
+    let id = base;
+    for (let n = 2; ids.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+}
@@ -0,0 +1,466 @@
+import { ConversionError, Waypoint } from './types.js';
+import { GeoMath } from './geo.js';
+import { RouteAnalyzer } from './analysis.js';
+import { RouteFormatter } from './converter.js';
+import { MapBounds } from './basemap.js';
+import { FEET_PER_METRE, TerrainModel } from './terrain.js';
+
+export const FLAGGED_AIRSPACE_CLASSES = ['B', 'C', 'D', 'CTR', 'R', 'P'];
+const ARC_STEP_DEGREES = 5;
+const SEGMENT_NM = 10;
+
+export type AltitudeReference = 'MSL' | 'AGL' | 'SFC' | 'FL' | 'UNL';
+
+export interface AltitudeLimit {
+  value: number;
+  reference: AltitudeReference;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Airspace {
+  name: string;
+  type: string;
+  floor: AltitudeLimit;
+  ceiling: AltitudeLimit;
+  points: GeoPoint[];
+}
+
+export interface CrossingPoint extends GeoPoint {
+  distance: number;
+}
+
+export interface AirspaceCrossing {
+  airspace: Airspace;
+  position: number;
+  from: string;
+  to: string;
+  altitude: number;
+  entry?: CrossingPoint;
+  exit?: CrossingPoint;
+}
+
+export interface AirspaceCheckOptions {
+  cruiseAltitude: number;
+  classes?: string[];
+  terrain?: TerrainModel;
+}
+
+interface Vector {
+  x: number;
+  y: number;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  R: 'Restricted area',
+  P: 'Prohibited area',
+  Q: 'Danger area',
+  W: 'Warning area',
+  CTR: 'Control zone',
+  TMZ: 'Transponder mandatory zone',
+  RMZ: 'Radio mandatory zone',
+  GP: 'Glider prohibited area'
+};
+
+const LIMIT_REGEX = /^(\d+(?:\.\d+)?)\s*(FT|F|M)?\s*(AMSL|MSL|AGL|AGND|GND|SFC|ASFC)?$/;
+const COORDINATE = '(\\d{1,3}):(\\d{1,2}(?:\\.\\d+)?)(?::(\\d{1,2}(?:\\.\\d+)?))?\\s*([NSEW])';
+const POINT_REGEX = new RegExp(`^${COORDINATE}[\\s,]*${COORDINATE}$`, 'i');
+
+export class AirspaceLimits {
+  static parse(text: string): AltitudeLimit {
+    const value = text.trim().toUpperCase();
+    if (['SFC', 'GND', '0'].includes(value)) {
+      return { value: 0, reference: 'SFC' };
+    }
+    if (['UNL', 'UNLTD', 'UNLIM', 'UNLIMITED'].includes(value)) {
+      return { value: 0, reference: 'UNL' };
+    }
+
+    const flightLevel = value.match(/^FL\s*(\d{1,3})$/);
+    if (flightLevel) {
+      return { value: Number(flightLevel[1]), reference: 'FL' };
+    }
+
+    const match = value.match(LIMIT_REGEX);
+    if (!match) {
+      throw new Error(`Invalid airspace altitude "${text.trim()}". Use SFC, UNL, FL95, 2500 MSL or 1500 AGL.`);
+    }
+    const [, number = '0', unit, datum] = match;
+    const feet = Math.round(Number(number) * (unit === 'M' ? FEET_PER_METRE : 1));
+    return { value: feet, reference: datum && ['AGL', 'AGND', 'GND', 'SFC', 'ASFC'].includes(datum) ? 'AGL' : 'MSL' };
+  }
+
+  static feet(limit: AltitudeLimit, ground = 0): number {
+    switch (limit.reference) {
+      case 'SFC': return ground;
+      case 'UNL': return Infinity;
+      case 'FL': return limit.value * 100;
+      case 'AGL': return ground + limit.value;
+      default: return limit.value;
+    }
+  }
+
+  static format(limit: AltitudeLimit): string {
+    switch (limit.reference) {
+      case 'SFC': return 'SFC';
+      case 'UNL': return 'UNL';
+      case 'FL': return `FL${limit.value.toString().padStart(3, '0')}`;
+      default: return `${limit.value} ft ${limit.reference}`;
+    }
+  }
+}
+
+export class AirspaceDatabase {
+  constructor(readonly airspaces: Airspace[] = []) {}
+
+  static fromOpenAir(text: string): AirspaceDatabase {
+    const airspaces: Airspace[] = [];
+    let current: Airspace | undefined;
+    let center: GeoPoint | undefined;
+    let clockwise = true;
+    let lineNumber = 0;
+
+    const finish = () => {
+      if (current) {
+        if (current.points.length < 3) {
+          throw new Error(`Airspace ${current.name} has fewer than 3 points`);
+        }
+        airspaces.push(current);
+      }
+      current = undefined;
+      center = undefined;
+      clockwise = true;
+    };
+    const airspace = (command: string): Airspace => {
+      if (!current) {
+        throw new Error(`${command} before the first AC record`);
+      }
+      return current;
+    };
+    const arcCenter = (): GeoPoint => {
+      if (!center) {
+        throw new Error('Arc without a V X= centre');
+      }
+      return center;
+    };
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      lineNumber++;
+      const line = rawLine.replace(/\*.*$/, '').trim();
+      if (!line) {
+        continue;
+      }
+      const [command = '', ...rest] = line.split(/\s+/);
+      const argument = rest.join(' ');
+
+      try {
+        switch (command.toUpperCase()) {
+          case 'AC':
+            finish();
+            current = { name: 'Unnamed airspace', type: argument.toUpperCase(), floor: { value: 0, reference: 'SFC' }, ceiling: { value: 0, reference: 'UNL' }, points: [] };
+            break;
+          case 'AN':
+            airspace(command).name = argument;
+            break;
+          case 'AL':
+            airspace(command).floor = AirspaceLimits.parse(argument);
+            break;
+          case 'AH':
+            airspace(command).ceiling = AirspaceLimits.parse(argument);
+            break;
+          case 'DP':
+            airspace(command).points.push(this.parsePoint(argument));
+            break;
+          case 'V': {
+            const [key = '', value = ''] = argument.split('=').map(part => part.trim());
+            if (key.toUpperCase() === 'X') {
+              center = this.parsePoint(value);
+            } else if (key.toUpperCase() === 'D') {
+              clockwise = value !== '-';
+            }
+            break;
+          }
+          case 'DC':
+            airspace(command).points.push(...this.arc(arcCenter(), this.parseNumber(argument), 0, 360, true));
+            break;
+          case 'DA': {
+            const [radius = '', start = '', end = ''] = argument.split(',');
+            airspace(command).points.push(...this.arc(arcCenter(), this.parseNumber(radius), this.parseNumber(start), this.parseNumber(end), clockwise));
+            break;
+          }
+          case 'DB': {
+            const [first = '', second = ''] = argument.split(',');
+            const start = this.parsePoint(first);
+            const end = this.parsePoint(second);
+            const origin = arcCenter();
+            const radius = GeoMath.distanceNm(origin.latitude, origin.longitude, start.latitude, start.longitude);
+            const from = GeoMath.initialBearing(origin.latitude, origin.longitude, start.latitude, start.longitude);
+            const to = GeoMath.initialBearing(origin.latitude, origin.longitude, end.latitude, end.longitude);
+            airspace(command).points.push(start, ...this.arc(origin, radius, from, to, clockwise).slice(1, -1), end);
+            break;
+          }
+        }
+      } catch (error) {
+        throw new Error(`OpenAir line ${lineNumber}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    finish();
+    return new AirspaceDatabase(airspaces);
+  }
+
+  static fromGeoJson(text: string): AirspaceDatabase {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Airspace file is not valid JSON');
+    }
+    const collection = data as { type?: string; features?: unknown };
+    if (collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+      throw new Error('Airspace GeoJSON must be a FeatureCollection');
+    }
+
+    const airspaces: Airspace[] = [];
+    (collection.features as Array<{ properties?: Record<string, unknown>; geometry?: { type?: string; coordinates?: unknown } }>)
+      .forEach((feature, index) => {
+        const properties = feature.properties ?? {};
+        const property = (...names: string[]) => names.map(name => properties[name]).find(value => value !== undefined && value !== null);
+        const limit = (value: unknown, fallback: AltitudeLimit) =>
+          value === undefined ? fallback : typeof value === 'number' ? { value, reference: 'MSL' as const } : AirspaceLimits.parse(String(value));
+        const name = String(property('name', 'NAME') ?? `Airspace ${index + 1}`);
+
+        const geometry = feature.geometry;
+        const polygons = geometry?.type === 'Polygon'
+          ? [geometry.coordinates]
+          : geometry?.type === 'MultiPolygon' && Array.isArray(geometry.coordinates) ? geometry.coordinates as unknown[] : [];
+        polygons.forEach(polygon => {
+          const ring = Array.isArray(polygon) ? polygon[0] as unknown : undefined;
+          if (!Array.isArray(ring) || ring.length < 3) {
+            throw new Error(`Airspace ${name} has no polygon outline`);
+          }
+          airspaces.push({
+            name,
+            type: String(property('class', 'icaoClass', 'type', 'CLASS', 'TYPE') ?? 'OTHER').toUpperCase(),
+            floor: limit(property('floor', 'lower', 'lowerLimit', 'LOWER'), { value: 0, reference: 'SFC' }),
+            ceiling: limit(property('ceiling', 'upper', 'upperLimit', 'UPPER'), { value: 0, reference: 'UNL' }),
+            points: (ring as Array<[number, number]>).map(([longitude, latitude]) => ({ latitude, longitude }))
+          });
+        });
+      });
+    return new AirspaceDatabase(airspaces);
+  }
+
+  static load(fileName: string, text: string): AirspaceDatabase {
+    return /\.(geo)?json$/i.test(fileName) || text.trimStart().startsWith('{') ? this.fromGeoJson(text) : this.fromOpenAir(text);
+  }
+
+  static describe(airspace: Airspace): string {
+    const label = TYPE_LABELS[airspace.type] ?? `Class ${airspace.type}`;
+    return `${label} ${airspace.name}`;
+  }
+
+  static bounds(airspace: Airspace): MapBounds {
+    const lats = airspace.points.map(point => point.latitude);
+    const lons = airspace.points.map(point => point.longitude);
+    return { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLon: Math.min(...lons), maxLon: Math.max(...lons) };
+  }
+
+  static contains(airspace: Airspace, latitude: number, longitude: number): boolean {
+    let inside = false;
+    const points = airspace.points;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const a = points[i] as GeoPoint;
+      const b = points[j] as GeoPoint;
+      if ((a.latitude > latitude) !== (b.latitude > latitude)
+        && longitude < (b.longitude - a.longitude) * (latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  merge(other: AirspaceDatabase): AirspaceDatabase {
+    return new AirspaceDatabase([...this.airspaces, ...other.airspaces]);
+  }
+
+  within(bounds: MapBounds): Airspace[] {
+    return this.airspaces.filter(airspace => {
+      const box = AirspaceDatabase.bounds(airspace);
+      return box.minLat <= bounds.maxLat && box.maxLat >= bounds.minLat && box.minLon <= bounds.maxLon && box.maxLon >= bounds.minLon;
+    });
+  }
+
+  private static parsePoint(text: string): GeoPoint {
+    const match = text.trim().match(POINT_REGEX);
+    if (!match) {
+      throw new Error(`Invalid coordinate "${text.trim()}". Use DD:MM:SS N DDD:MM:SS W.`);
+    }
+    const [, latD = '', latM = '', latS = '0', latH = '', lonD = '', lonM = '', lonS = '0', lonH = ''] = match;
+    const decimal = (d: string, m: string, s: string, hemisphere: string) =>
+      (Number(d) + Number(m) / 60 + Number(s) / 3600) * (/[SW]/i.test(hemisphere) ? -1 : 1);
+    return { latitude: decimal(latD, latM, latS || '0', latH), longitude: decimal(lonD, lonM, lonS || '0', lonH) };
+  }
+
+  private static parseNumber(text: string): number {
+    const value = Number(text.trim());
+    if (text.trim() === '' || Number.isNaN(value)) {
+      throw new Error(`Invalid number "${text.trim()}"`);
+    }
+    return value;
+  }
+
+  private static arc(center: GeoPoint, radius: number, start: number, end: number, clockwise: boolean): GeoPoint[] {
+    const sweep = clockwise ? ((end - start) % 360 + 360) % 360 || 360 : -(((start - end) % 360 + 360) % 360 || 360);
+    const steps = Math.max(1, Math.ceil(Math.abs(sweep) / ARC_STEP_DEGREES));
+    return Array.from({ length: steps + 1 }, (_, i) =>
+      GeoMath.destination(center.latitude, center.longitude, start + sweep * i / steps, radius));
+  }
+}
+
+export class AirspaceChecker {
+  static crossings(waypoints: Waypoint[], airspaces: AirspaceDatabase, options: AirspaceCheckOptions): AirspaceCrossing[] {
+    const classes = options.classes ?? FLAGGED_AIRSPACE_CLASSES;
+    const candidates = airspaces.airspaces.filter(airspace => classes.includes(airspace.type));
+    const positioned = waypoints
+      .map((waypoint, position) => ({ waypoint, position }))
+      .filter(({ waypoint }) => waypoint.latitude !== undefined && waypoint.longitude !== undefined);
+    const crossings: AirspaceCrossing[] = [];
+
+    for (let i = 1; i < positioned.length; i++) {
+      const { waypoint: from } = positioned[i - 1] as { waypoint: Waypoint };
+      const { waypoint: to, position } = positioned[i] as { waypoint: Waypoint; position: number };
+      const start = { latitude: from.latitude as number, longitude: from.longitude as number };
+      const end = { latitude: to.latitude as number, longitude: to.longitude as number };
+      const altitude = RouteAnalyzer.legAltitude(from, to, options.cruiseAltitude);
+      const points = this.segmentPoints(start, end);
+      const legBounds: MapBounds = {
+        minLat: Math.min(...points.map(point => point.latitude)),
+        maxLat: Math.max(...points.map(point => point.latitude)),
+        minLon: Math.min(...points.map(point => point.longitude)),
+        maxLon: Math.max(...points.map(point => point.longitude))
+      };
+
+      new AirspaceDatabase(candidates).within(legBounds).forEach(airspace => {
+        this.insideIntervals(airspace, points).forEach(([entry, exit]) => {
+          const middle = this.pointAt(points, (entry.distance + exit.distance) / 2);
+          const ground = options.terrain?.elevationAt(middle.latitude, middle.longitude) ?? 0;
+          if (altitude < AirspaceLimits.feet(airspace.floor, ground) || altitude >= AirspaceLimits.feet(airspace.ceiling, ground)) {
+            return;
+          }
+          const crossing: AirspaceCrossing = {
+            airspace, position, from: RouteAnalyzer.waypointLabel(from), to: RouteAnalyzer.waypointLabel(to), altitude
+          };
+          const total = points[points.length - 1]?.distance ?? 0;
+          if (entry.distance > 1e-6) {
+            crossing.entry = entry;
+          }
+          if (exit.distance < total - 1e-6) {
+            crossing.exit = exit;
+          }
+          crossings.push(crossing);
+        });
+      });
+    }
+
+    return crossings;
+  }
+
+  static check(waypoints: Waypoint[], airspaces: AirspaceDatabase, options: AirspaceCheckOptions): ConversionError[] {
+    return this.crossings(waypoints, airspaces, options).map(crossing => {
+      const { airspace } = crossing;
+      const where = (point: CrossingPoint) =>
+        `at ${RouteFormatter.formatWaypoint({ type: 'GPS', latitude: point.latitude, longitude: point.longitude })} (${point.distance.toFixed(1)} NM after ${crossing.from})`;
+      const path = [
+        crossing.entry ? `enters ${where(crossing.entry)}` : `starts inside`,
+        crossing.exit ? `leaves ${where(crossing.exit)}` : `ends inside`
+      ].join(' and ');
+      return {
+        message: `Leg ${crossing.from} → ${crossing.to} at ${crossing.altitude} ft ${path} ${AirspaceDatabase.describe(airspace)} ` +
+          `(${AirspaceLimits.format(airspace.floor)} to ${AirspaceLimits.format(airspace.ceiling)})`,
+        severity: 'warning' as const,
+        position: crossing.position
+      };
+    });
+  }
+
+  private static segmentPoints(start: GeoPoint, end: GeoPoint): CrossingPoint[] {
+    const distance = GeoMath.distanceNm(start.latitude, start.longitude, end.latitude, end.longitude);
+    const count = Math.max(1, Math.ceil(distance / SEGMENT_NM));
+    return Array.from({ length: count + 1 }, (_, i) => ({
+      ...GeoMath.intermediatePoint(start.latitude, start.longitude, end.latitude, end.longitude, i / count),
+      distance: distance * i / count
+    }));
+  }
+
+  private static pointAt(points: CrossingPoint[], distance: number): CrossingPoint {
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1] as CrossingPoint;
+      const b = points[i] as CrossingPoint;
+      if (distance <= b.distance || i === points.length - 1) {
+        const t = b.distance === a.distance ? 0 : (distance - a.distance) / (b.distance - a.distance);
+        return {
+          latitude: a.latitude + (b.latitude - a.latitude) * t,
+          longitude: a.longitude + (b.longitude - a.longitude) * t,
+          distance
+        };
+      }
+    }
+    return points[0] as CrossingPoint;
+  }
+
+  private static insideIntervals(airspace: Airspace, points: CrossingPoint[]): Array<[CrossingPoint, CrossingPoint]> {
+    const first = points[0] as CrossingPoint;
+    const last = points[points.length - 1] as CrossingPoint;
+    const transitions: number[] = [];
+
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1] as CrossingPoint;
+      const b = points[i] as CrossingPoint;
+      const scale = Math.cos(GeoMath.toRadians((a.latitude + b.latitude) / 2));
+      airspace.points.forEach((p, k) => {
+        const q = airspace.points[(k + 1) % airspace.points.length] as GeoPoint;
+        const vector = (point: GeoPoint): Vector => ({ x: point.longitude * scale, y: point.latitude });
+        const t = this.intersect(vector(a), vector(b), vector(p), vector(q));
+        if (t !== undefined) {
+          transitions.push(a.distance + (b.distance - a.distance) * t);
+        }
+      });
+    }
+    transitions.sort((x, y) => x - y);
+
+    const intervals: Array<[CrossingPoint, CrossingPoint]> = [];
+    let inside = AirspaceDatabase.contains(airspace, first.latitude, first.longitude);
+    let entry = inside ? first : undefined;
+    transitions.forEach(distance => {
+      if (inside && entry) {
+        intervals.push([entry, this.pointAt(points, distance)]);
+        entry = undefined;
+      } else {
+        entry = this.pointAt(points, distance);
+      }
+      inside = !inside;
+    });
+    if (inside && entry) {
+      intervals.push([entry, last]);
+    }
+    return intervals.filter(([a, b]) => b.distance - a.distance > 1e-6);
+  }
+
+  private static intersect(a: Vector, b: Vector, p: Vector, q: Vector): number | undefined {
+    const r = { x: b.x - a.x, y: b.y - a.y };
+    const s = { x: q.x - p.x, y: q.y - p.y };
+    const denominator = r.x * s.y - r.y * s.x;
+    if (denominator === 0) {
+      return undefined;
+    }
+    const dx = p.x - a.x;
+    const dy = p.y - a.y;
+    const t = (dx * s.y - dy * s.x) / denominator;
+    const u = (dx * r.y - dy * r.x) / denominator;
+    return t >= 0 && t < 1 && u >= 0 && u < 1 ? t : undefined;
+  }
+}
@@ -0,0 +1,125 @@
+import { FlightPlan } from './types.js';
+import { AirspaceChecker, AirspaceCrossing, AirspaceDatabase, AirspaceLimits } from './airspace.js';
+import { TerrainModel } from './terrain.js';
+import { RouteFormatter } from './converter.js';
+
+const COLUMNS = ['Leg', 'Airspace', 'Floor', 'Ceiling', 'Alt', 'Entry', 'Exit'];
+
+export class AirspacePanel {
+  private readonly fileInput: HTMLInputElement;
+  private readonly clearButton: HTMLButtonElement;
+  private readonly status: HTMLParagraphElement;
+  private readonly table: HTMLDivElement;
+  private airspaces: AirspaceDatabase | undefined;
+  private files: string[] = [];
+
+  constructor(private readonly container: HTMLElement, private readonly onChange: () => void = () => {}) {
+    this.container.innerHTML = `
+      <h3 class="navlog-title">Airspace</h3>
+      <div class="airspace-toolbar">
+        <label class="action-button secondary airspace-load">
+          📂 Load OpenAir / GeoJSON
+          <input type="file" data-airspace="files" accept=".txt,.air,.openair,.json,.geojson" multiple>
+        </label>
+        <button type="button" class="action-button secondary" data-airspace="clear" disabled>Clear</button>
+      </div>
+      <p class="navlog-note" data-airspace="status">No airspace loaded. Load OpenAir or GeoJSON files to check the route against Class B, C, D, restricted and prohibited areas.</p>
+      <div class="navlog-table"></div>
+    `;
+
+    this.fileInput = this.container.querySelector('[data-airspace="files"]') as HTMLInputElement;
+    this.clearButton = this.container.querySelector('[data-airspace="clear"]') as HTMLButtonElement;
+    this.status = this.container.querySelector('[data-airspace="status"]') as HTMLParagraphElement;
+    this.table = this.container.querySelector('.navlog-table') as HTMLDivElement;
+
+    this.fileInput.addEventListener('change', () => {
+      void this.load(Array.from(this.fileInput.files ?? []));
+      this.fileInput.value = '';
+    });
+    this.clearButton.addEventListener('click', () => {
+      this.airspaces = undefined;
+      this.files = [];
+      this.table.innerHTML = '';
+      this.clearButton.disabled = true;
+      this.status.textContent = 'No airspace loaded.';
+      this.onChange();
+    });
+  }
+
+  get database(): AirspaceDatabase | undefined {
+    return this.airspaces;
+  }
+
+  update(plan: FlightPlan, terrain: TerrainModel): AirspaceCrossing[] {
+    this.table.innerHTML = '';
+    if (!this.airspaces) {
+      return [];
+    }
+
+    const crossings = AirspaceChecker.crossings(plan.waypoints, this.airspaces, { cruiseAltitude: plan.cruisingAlt ?? 3500, terrain });
+    this.status.textContent = `${this.summary()} ${crossings.length === 0
+      ? 'The route stays clear of Class B, C, D, restricted and prohibited areas.'
+      : `⚠️ The route penetrates ${crossings.length} airspace volume(s).`}`;
+    if (crossings.length > 0) {
+      this.renderTable(crossings);
+    }
+    return crossings;
+  }
+
+  clear(): void {
+    this.table.innerHTML = '';
+  }
+
+  private async load(files: File[]): Promise<void> {
+    if (files.length === 0) {
+      return;
+    }
+    try {
+      let airspaces = this.airspaces ?? new AirspaceDatabase();
+      for (const file of files) {
+        airspaces = airspaces.merge(AirspaceDatabase.load(file.name, await file.text()));
+        this.files.push(file.name);
+      }
+      this.airspaces = airspaces;
+      this.clearButton.disabled = false;
+      this.status.textContent = this.summary();
+      this.onChange();
+    } catch (error) {
+      this.status.textContent = `Failed to load airspace: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  }
+
+  private summary(): string {
+    return `${this.airspaces?.airspaces.length ?? 0} airspace(s) from ${this.files.join(', ')}.`;
+  }
+
+  private renderTable(crossings: AirspaceCrossing[]): void {
+    const table = document.createElement('table');
+    const header = table.createTHead().insertRow();
+    COLUMNS.forEach(column => {
+      const cell = document.createElement('th');
+      cell.textContent = column;
+      header.appendChild(cell);
+    });
+
+    const point = (value: AirspaceCrossing['entry']) => value
+      ? `${RouteFormatter.formatWaypoint({ type: 'GPS', latitude: value.latitude, longitude: value.longitude })} (+${value.distance.toFixed(1)} NM)`
+      : 'inside';
+    const body = table.createTBody();
+    crossings.forEach(crossing => {
+      const row = body.insertRow();
+      [
+        `${crossing.from} → ${crossing.to}`,
+        AirspaceDatabase.describe(crossing.airspace),
+        AirspaceLimits.format(crossing.airspace.floor),
+        AirspaceLimits.format(crossing.airspace.ceiling),
+        String(crossing.altitude),
+        point(crossing.entry),
+        point(crossing.exit)
+      ].forEach(value => {
+        row.insertCell().textContent = value;
+      });
+    });
+    this.table.appendChild(table);
+  }
+}
@@ -0,0 +1,242 @@
+import { Waypoint, AirwayFix, NavaidType, ConversionError } from './types.js';
+import { GeoMath } from './geo.js';
+import { CsvParser } from './csv.js';
+import { NavDatabase } from './navdata.js';
+import { AIRWAYS_CSV } from './data/airways.js';
+
+export interface AirwayExpansion {
+  waypoints: Waypoint[];
+  sources: number[];
+  errors: ConversionError[];
+  warnings: ConversionError[];
+}
+
+const NAVAID_TYPES: NavaidType[] = ['Airport', 'VOR', 'NDB', 'Intersection'];
+const REQUIRED_COLUMNS = ['airway', 'sequence', 'ident', 'latitude', 'longitude'];
+const AIRWAY_IDENT_REGEX = /^[VJTQ]\d{1,4}$/;
+
+export class AirwayDatabase {
+  private static bundledDatabase: AirwayDatabase | undefined;
+  private readonly airways = new Map<string, AirwayFix[]>();
+
+  constructor(fixes: AirwayFix[] = []) {
+    fixes.forEach(fix => {
+      const existing = this.airways.get(fix.airway) ?? [];
+      existing.push(fix);
+      this.airways.set(fix.airway, existing);
+    });
+    this.airways.forEach(route => route.sort((a, b) => a.sequence - b.sequence));
+  }
+
+  static bundled(): AirwayDatabase {
+    if (!this.bundledDatabase) {
+      this.bundledDatabase = this.fromCsv(AIRWAYS_CSV);
+    }
+    return this.bundledDatabase;
+  }
+
+  static fromCsv(csv: string): AirwayDatabase {
+    const rows = CsvParser.parseRecords(csv, REQUIRED_COLUMNS, 'Airway');
+
+    const fixes = rows.map((row, index) => {
+      const field = (column: string) => row[column] ?? '';
+      const lineNumber = index + 2;
+
+      const airway = field('airway').toUpperCase();
+      const ident = field('ident').toUpperCase();
+      if (!airway || !ident) {
+        throw new Error(`Missing airway or ident on line ${lineNumber}`);
+      }
+
+      const sequence = parseFloat(field('sequence'));
+      const latitude = parseFloat(field('latitude'));
+      const longitude = parseFloat(field('longitude'));
+      if (Number.isNaN(sequence)) {
+        throw new Error(`Invalid sequence on line ${lineNumber}`);
+      }
+      if (Number.isNaN(latitude) || Number.isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        throw new Error(`Invalid coordinates on line ${lineNumber}`);
+      }
+
+      return {
+        airway,
+        sequence,
+        ident,
+        type: NAVAID_TYPES.find(type => type.toLowerCase() === field('type').toLowerCase()) ?? 'Intersection',
+        latitude,
+        longitude,
+        region: field('region').toUpperCase()
+      };
+    });
+
+    return new AirwayDatabase(fixes);
+  }
+
+  static looksLikeAirway(token: string): boolean {
+    return AIRWAY_IDENT_REGEX.test(token.toUpperCase());
+  }
+
+  has(airway: string): boolean {
+    return this.airways.has(airway.toUpperCase());
+  }
+
+  fixes(airway: string): AirwayFix[] {
+    return this.airways.get(airway.toUpperCase()) ?? [];
+  }
+
+  expandRoute(waypoints: Waypoint[], navdata: NavDatabase = NavDatabase.bundled()): AirwayExpansion {
+    const expanded: Waypoint[] = [];
+    const sources: number[] = [];
+    const errors: ConversionError[] = [];
+    const warnings: ConversionError[] = [];
+    let i = 0;
+
+    while (i < waypoints.length) {
+      const waypoint = waypoints[i];
+      if (!waypoint) {
+        i++;
+        continue;
+      }
+
+      const name = waypoint.type === 'NAMED' && waypoint.latitude === undefined ? waypoint.name ?? '' : '';
+      const previous = expanded[expanded.length - 1];
+      const next = waypoints[i + 1];
+      const known = this.has(name);
+      if (!known) {
+        // Airway-shaped idents such as T82 are also airports; only an unresolvable one between two fixes is an airway.
+        if (AirwayDatabase.looksLikeAirway(name) && previous && next && navdata.lookup(name).length === 0) {
+          errors.push(this.error(`Unknown airway "${name}"`, i, name));
+        } else {
+          expanded.push({ ...waypoint });
+          sources.push(i);
+        }
+        i++;
+        continue;
+      }
+
+      if (!previous || !next) {
+        errors.push(this.error(`Airway "${name}" needs an entry fix before it and an exit fix after it`, i, name));
+        i++;
+        continue;
+      }
+
+      if (next.type === 'NAMED' && next.name && this.has(next.name)) {
+        errors.push(this.error(`Airway "${name}" must be followed by an exit fix, not airway "${next.name}"`, i, name));
+        i++;
+        continue;
+      }
+
+      const route = this.fixes(name);
+      const entry = this.locate(route, previous, navdata);
+      const exit = this.locate(route, next, navdata);
+
+      if (entry === undefined || exit === undefined) {
+        const missing = entry === undefined ? previous : next;
+        errors.push(this.error(
+          `${this.describe(missing)} is not on airway "${name}" and has no known position to join it from`,
+          i,
+          name
+        ));
+        i++;
+        continue;
+      }
+
+      if (entry.index === exit.index) {
+        errors.push(this.error(`Entry and exit of airway "${name}" are the same fix ${route[entry.index]?.ident}`, i, name));
+        i++;
+        continue;
+      }
+
+      if (!entry.onAirway) {
+        const joinFix = route[entry.index];
+        if (joinFix) {
+          warnings.push(this.error(`${this.describe(previous)} is not on airway "${name}"; joining at ${joinFix.ident}`, i, name));
+          expanded.push(this.fixToWaypoint(joinFix));
+          sources.push(i);
+        }
+      }
+
+      const step = exit.index > entry.index ? 1 : -1;
+      for (let j = entry.index + step; j !== exit.index; j += step) {
+        const fix = route[j];
+        if (fix) {
+          expanded.push({ ...this.fixToWaypoint(fix), airway: name.toUpperCase() });
+          sources.push(i);
+        }
+      }
+
+      const exitFix = route[exit.index];
+      if (exitFix && exit.onAirway) {
+        expanded.push({ ...this.fixToWaypoint(exitFix), ...next, airway: name.toUpperCase(), type: 'NAMED', name: exitFix.ident });
+        sources.push(i + 1);
+        i += 2;
+      } else if (exitFix) {
+        warnings.push(this.error(`${this.describe(next)} is not on airway "${name}"; leaving at ${exitFix.ident}`, i, name));
+        expanded.push({ ...this.fixToWaypoint(exitFix), airway: name.toUpperCase() });
+        sources.push(i);
+        i++;
+      }
+    }
+
+    return { waypoints: expanded, sources, errors, warnings };
+  }
+
+  private locate(
+    route: AirwayFix[],
+    waypoint: Waypoint,
+    navdata: NavDatabase
+  ): { index: number; onAirway: boolean } | undefined {
+    if (waypoint.type === 'NAMED' && waypoint.name) {
+      const index = route.findIndex(fix => fix.ident === waypoint.name);
+      if (index !== -1) {
+        return { index, onAirway: true };
+      }
+    }
+
+    let latitude = waypoint.latitude;
+    let longitude = waypoint.longitude;
+    if ((latitude === undefined || longitude === undefined) && waypoint.name) {
+      const record = navdata.lookup(waypoint.name)[0];
+      latitude = record?.latitude;
+      longitude = record?.longitude;
+    }
+    if (latitude === undefined || longitude === undefined) {
+      return undefined;
+    }
+    const target = { latitude, longitude };
+
+    let best = -1;
+    let bestDistance = Infinity;
+    route.forEach((fix, index) => {
+      const distance = GeoMath.distanceNm(fix.latitude, fix.longitude, target.latitude, target.longitude);
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+
+    return best === -1 ? undefined : { index: best, onAirway: false };
+  }
+
+  private fixToWaypoint(fix: AirwayFix): Waypoint {
+    const waypoint: Waypoint = {
+      type: 'NAMED',
+      name: fix.ident,
+      waypointType: fix.type,
+      latitude: fix.latitude,
+      longitude: fix.longitude
+    };
+    if (fix.region) {
+      waypoint.region = fix.region;
+    }
+    return waypoint;
+  }
+
+  private describe(waypoint: Waypoint): string {
+    return waypoint.name ? `"${waypoint.name}"` : 'GPS point';
+  }
+
+  private error(message: string, position: number, input: string): ConversionError {
+    return { message: `${message} (position ${position + 1}).`, position, input };
+  }
+}
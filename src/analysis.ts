@@ -0,0 +1,153 @@
+import { Waypoint } from './types.js';
+import { GeoMath } from './geo.js';
+import { MagneticModel } from './magvar.js';
+import { RouteFormatter } from './converter.js';
+
+export interface AnalysisOptions {
+  trueAirspeed?: number;
+  windDirection?: number;
+  windSpeed?: number;
+  date?: Date;
+  magneticModel?: MagneticModel;
+}
+
+export interface LegAnalysis {
+  from: string;
+  to: string;
+  distance: number;
+  trueCourse: number;
+  magneticVariation: number;
+  magneticCourse: number;
+  trueHeading?: number;
+  magneticHeading?: number;
+  groundSpeed?: number;
+  ete?: number;
+  cumulativeDistance: number;
+  cumulativeTime?: number;
+}
+
+export interface RouteAnalysis {
+  legs: LegAnalysis[];
+  totalDistance: number;
+  totalTime?: number;
+  unpositioned: string[];
+}
+
+export class RouteAnalyzer {
+  static normalizeDegrees(degrees: number): number {
+    return ((degrees % 360) + 360) % 360;
+  }
+
+  static waypointLabel(waypoint: Waypoint): string {
+    if (waypoint.name) {
+      return waypoint.name;
+    }
+    return RouteFormatter.formatWaypoint(waypoint);
+  }
+
+  static legAltitude(from: Waypoint, to: Waypoint, cruiseAltitude: number): number {
+    return Math.min(from.altitude ?? cruiseAltitude, to.altitude ?? cruiseAltitude);
+  }
+
+  static windCorrection(
+    trueCourse: number,
+    trueAirspeed: number,
+    windDirection: number,
+    windSpeed: number
+  ): { trueHeading: number; groundSpeed: number } {
+    if (trueAirspeed <= 0) {
+      throw new Error('True airspeed must be greater than zero');
+    }
+
+    const windAngle = GeoMath.toRadians(windDirection - trueCourse);
+    const crosswind = windSpeed * Math.sin(windAngle);
+    if (Math.abs(crosswind) >= trueAirspeed) {
+      throw new Error(`Crosswind of ${Math.round(Math.abs(crosswind))} kt exceeds true airspeed of ${trueAirspeed} kt`);
+    }
+
+    const correction = Math.asin(crosswind / trueAirspeed);
+    const groundSpeed = trueAirspeed * Math.cos(correction) - windSpeed * Math.cos(windAngle);
+    if (groundSpeed <= 0) {
+      throw new Error(`Headwind of ${windSpeed} kt leaves no ground speed at ${trueAirspeed} kt TAS`);
+    }
+
+    return {
+      trueHeading: this.normalizeDegrees(trueCourse + GeoMath.toDegrees(correction)),
+      groundSpeed
+    };
+  }
+
+  static analyze(waypoints: Waypoint[], options: AnalysisOptions = {}): RouteAnalysis {
+    const model = options.magneticModel ?? MagneticModel.bundled();
+    const date = options.date ?? new Date();
+    const { trueAirspeed, windDirection = 0, windSpeed = 0 } = options;
+
+    const unpositioned: string[] = [];
+    const positioned = waypoints.filter(waypoint => {
+      if (waypoint.latitude === undefined || waypoint.longitude === undefined) {
+        unpositioned.push(this.waypointLabel(waypoint));
+        return false;
+      }
+      return true;
+    });
+
+    const legs: LegAnalysis[] = [];
+    let cumulativeDistance = 0;
+    let cumulativeTime = 0;
+
+    for (let i = 1; i < positioned.length; i++) {
+      const from = positioned[i - 1] as Waypoint;
+      const to = positioned[i] as Waypoint;
+      const lat1 = from.latitude as number;
+      const lon1 = from.longitude as number;
+      const lat2 = to.latitude as number;
+      const lon2 = to.longitude as number;
+
+      const distance = GeoMath.distanceNm(lat1, lon1, lat2, lon2);
+      const trueCourse = GeoMath.initialBearing(lat1, lon1, lat2, lon2);
+      const magneticVariation = model.declination(lat1, lon1, date);
+      cumulativeDistance += distance;
+
+      const leg: LegAnalysis = {
+        from: this.waypointLabel(from),
+        to: this.waypointLabel(to),
+        distance,
+        trueCourse,
+        magneticVariation,
+        magneticCourse: this.normalizeDegrees(trueCourse - magneticVariation),
+        cumulativeDistance
+      };
+
+      if (trueAirspeed !== undefined) {
+        const { trueHeading, groundSpeed } = this.windCorrection(trueCourse, trueAirspeed, windDirection, windSpeed);
+        const ete = distance / groundSpeed;
+        cumulativeTime += ete;
+        leg.trueHeading = trueHeading;
+        leg.magneticHeading = this.normalizeDegrees(trueHeading - magneticVariation);
+        leg.groundSpeed = groundSpeed;
+        leg.ete = ete;
+        leg.cumulativeTime = cumulativeTime;
+      }
+
+      legs.push(leg);
+    }
+
+    const analysis: RouteAnalysis = { legs, totalDistance: cumulativeDistance, unpositioned };
+    if (trueAirspeed !== undefined) {
+      analysis.totalTime = cumulativeTime;
+    }
+    return analysis;
+  }
+
+  static formatCourse(degrees: number): string {
+    const rounded = Math.round(degrees) % 360;
+    return `${(rounded === 0 ? 360 : rounded).toString().padStart(3, '0')}°`;
+  }
+
+  static formatDuration(hours: number): string {
+    const totalMinutes = Math.round(hours * 60);
+    const h = Math.floor(totalMinutes / 60);
+    const m = totalMinutes % 60;
+    return `${h}:${m.toString().padStart(2, '0')}`;
+  }
+}
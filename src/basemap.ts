@@ -0,0 +1,179 @@
+import { BASEMAP_GEOJSON } from './data/basemap.js';
+
+export type BasemapKind = 'coast' | 'border' | 'water';
+
+export interface BasemapFeature {
+  name: string;
+  kind: BasemapKind;
+  closed: boolean;
+  lines: Array<Array<[number, number]>>;
+}
+
+export interface MapBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+interface GeoJsonObject {
+  type?: string;
+  features?: GeoJsonObject[];
+  geometry?: GeoJsonObject | null;
+  geometries?: GeoJsonObject[];
+  properties?: Record<string, unknown> | null;
+  coordinates?: unknown;
+}
+
+const BASEMAP_KINDS: BasemapKind[] = ['coast', 'border', 'water'];
+
+export class Basemap {
+  private static bundledBasemap: Basemap | undefined;
+
+  constructor(readonly features: BasemapFeature[] = []) {}
+
+  static bundled(): Basemap {
+    if (!this.bundledBasemap) {
+      this.bundledBasemap = this.fromGeoJson(BASEMAP_GEOJSON);
+    }
+    return this.bundledBasemap;
+  }
+
+  static fromGeoJson(geojson: string): Basemap {
+    let root: GeoJsonObject;
+    try {
+      root = JSON.parse(geojson) as GeoJsonObject;
+    } catch {
+      throw new Error('Basemap is not valid GeoJSON');
+    }
+
+    const features: BasemapFeature[] = [];
+    const collect = (object: GeoJsonObject, properties: Record<string, unknown>) => {
+      switch (object.type) {
+        case 'FeatureCollection':
+          (object.features ?? []).forEach(feature => collect(feature, {}));
+          return;
+        case 'Feature':
+          if (object.geometry) {
+            collect(object.geometry, object.properties ?? {});
+          }
+          return;
+        case 'GeometryCollection':
+          (object.geometries ?? []).forEach(geometry => collect(geometry, properties));
+          return;
+      }
+
+      const lines = this.geometryLines(object);
+      if (lines.length === 0) {
+        return;
+      }
+
+      const kind = BASEMAP_KINDS.find(candidate => candidate === properties.kind) ?? 'border';
+      features.push({
+        name: typeof properties.name === 'string' ? properties.name : '',
+        kind,
+        closed: object.type === 'Polygon' || object.type === 'MultiPolygon',
+        lines
+      });
+    };
+
+    collect(root, {});
+    if (features.length === 0) {
+      throw new Error('Basemap has no Polygon or LineString features');
+    }
+    return new Basemap(features);
+  }
+
+  within(bounds: MapBounds): BasemapFeature[] {
+    return this.features.filter(feature => feature.lines.some(line => {
+      const lons = line.map(([lon]) => lon);
+      const lats = line.map(([, lat]) => lat);
+      return Math.min(...lons) <= bounds.maxLon && Math.max(...lons) >= bounds.minLon
+        && Math.min(...lats) <= bounds.maxLat && Math.max(...lats) >= bounds.minLat;
+    }));
+  }
+
+  private static geometryLines(geometry: GeoJsonObject): Array<Array<[number, number]>> {
+    const coordinates = geometry.coordinates;
+    switch (geometry.type) {
+      case 'LineString':
+        return [this.positions(coordinates)];
+      case 'MultiLineString':
+      case 'Polygon':
+        return this.asArray(coordinates).map(line => this.positions(line));
+      case 'MultiPolygon':
+        return this.asArray(coordinates).flatMap(polygon => this.asArray(polygon).map(line => this.positions(line)));
+      default:
+        return [];
+    }
+  }
+
+  private static asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+  }
+
+  private static positions(value: unknown): Array<[number, number]> {
+    return this.asArray(value).map(position => {
+      const [lon, lat] = this.asArray(position);
+      if (typeof lon !== 'number' || typeof lat !== 'number') {
+        throw new Error('Basemap contains an invalid position');
+      }
+      return [lon, lat];
+    });
+  }
+}
+
+export class MapProjection {
+  private readonly scale: number;
+  private readonly xScale: number;
+  private readonly offsetX: number;
+  private readonly offsetY: number;
+
+  constructor(readonly bounds: MapBounds, readonly width: number, readonly height: number) {
+    const midLatitude = (bounds.minLat + bounds.maxLat) / 2;
+    this.xScale = Math.cos(midLatitude * Math.PI / 180);
+    const spanX = (bounds.maxLon - bounds.minLon) * this.xScale;
+    const spanY = bounds.maxLat - bounds.minLat;
+    this.scale = Math.min(width / spanX, height / spanY);
+    this.offsetX = (width - spanX * this.scale) / 2;
+    this.offsetY = (height - spanY * this.scale) / 2;
+  }
+
+  static boundsOf(points: Array<{ latitude: number; longitude: number }>, minSpan = 0.5, padding = 0.1): MapBounds {
+    if (points.length === 0) {
+      throw new Error('Cannot frame a map without positioned waypoints');
+    }
+
+    const lats = points.map(point => point.latitude);
+    const lons = points.map(point => point.longitude);
+    const frame = (min: number, max: number) => {
+      const span = Math.max(max - min, minSpan);
+      const centre = (min + max) / 2;
+      const half = span * (0.5 + padding);
+      return [centre - half, centre + half];
+    };
+
+    const [minLat = 0, maxLat = 0] = frame(Math.min(...lats), Math.max(...lats));
+    const [minLon = 0, maxLon = 0] = frame(Math.min(...lons), Math.max(...lons));
+    return { minLat, maxLat, minLon, maxLon };
+  }
+
+  project(latitude: number, longitude: number): { x: number; y: number } {
+    return {
+      x: this.offsetX + (longitude - this.bounds.minLon) * this.xScale * this.scale,
+      y: this.offsetY + (this.bounds.maxLat - latitude) * this.scale
+    };
+  }
+
+  unproject(x: number, y: number): { latitude: number; longitude: number } {
+    return {
+      latitude: this.bounds.maxLat - (y - this.offsetY) / this.scale,
+      longitude: this.bounds.minLon + (x - this.offsetX) / (this.xScale * this.scale)
+    };
+  }
+
+  gridStep(maxLines = 8): number {
+    const span = Math.max(this.bounds.maxLat - this.bounds.minLat, this.bounds.maxLon - this.bounds.minLon);
+    return [0.25, 0.5, 1, 2, 5, 10, 30].find(step => span / step <= maxLines) ?? 30;
+  }
+}
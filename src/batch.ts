@@ -0,0 +1,105 @@
+import { ConversionError, PlnOptions } from './types.js';
+import { RouteConverter, ConversionResult } from './pipeline.js';
+import { FlightPlanExporter } from './exporters.js';
+import { FlightPlanImporters } from './importer.js';
+import { ZipArchive } from './zip.js';
+import { NameTemplates } from './naming.js';
+
+export interface BatchInput {
+  name: string;
+  text: string;
+  file?: boolean;
+}
+
+const BATCH_FILE_NAME_TEMPLATE = '{name}.{ext}';
+
+export type BatchStatus = 'ok' | 'warning' | 'error';
+
+export interface BatchItem {
+  name: string;
+  status: BatchStatus;
+  waypoints: number;
+  errors: ConversionError[];
+  warnings: ConversionError[];
+  fileName?: string;
+  content?: string;
+}
+
+export class BatchConverter {
+  static splitRoutes(text: string): string[] {
+    const blocks = text.split(/\r?\n[ \t]*\r?\n/).map(block => block.trim()).filter(Boolean);
+    if (blocks.length > 1) {
+      return blocks;
+    }
+    return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  }
+
+  static parse(input: BatchInput): ConversionResult {
+    const importer = input.file ? FlightPlanImporters.standard().detect(input.name, input.text) : undefined;
+    return importer ? RouteConverter.fromWaypoints(importer.import(input.text)) : RouteConverter.parse(input.text);
+  }
+
+  static convert(
+    inputs: BatchInput[],
+    exporter: FlightPlanExporter,
+    options: PlnOptions = {},
+    fileNameTemplate = BATCH_FILE_NAME_TEMPLATE
+  ): BatchItem[] {
+    const used = new Set<string>();
+
+    return inputs.map((input, index) => {
+      const fallback = input.name || `Route ${index + 1}`;
+      let parsed: ConversionResult;
+      try {
+        parsed = this.parse(input);
+      } catch (error) {
+        return this.failed(fallback, [{ message: error instanceof Error ? error.message : 'Failed to read file', severity: 'error' }]);
+      }
+
+      const result = RouteConverter.generate(RouteConverter.validate(parsed, options), options);
+      if (result.errors.length > 0 || result.plan === undefined) {
+        return this.failed(fallback, result.errors, result.warnings);
+      }
+
+      const base = input.file ? input.name.replace(/\.[^.]*$/, '') || input.name : `${result.plan.departureId}-${result.plan.arrivalId}`;
+      let content: string;
+      let fileName: string;
+      try {
+        content = exporter.export(result.plan);
+        fileName = NameTemplates.fileName(fileNameTemplate, { plan: result.plan, extension: exporter.extension, name: base });
+      } catch (error) {
+        return this.failed(fallback, [{ message: error instanceof Error ? error.message : 'Export failed', severity: 'error' }], result.warnings);
+      }
+
+      return {
+        name: input.name || result.plan.title,
+        status: result.warnings.length > 0 ? 'warning' : 'ok',
+        waypoints: result.sourceWaypoints.length,
+        errors: [],
+        warnings: result.warnings,
+        fileName: this.uniqueName(fileName, exporter.extension, used),
+        content
+      };
+    });
+  }
+
+  static archive(items: BatchItem[], date?: Date): Uint8Array {
+    return ZipArchive.build(items
+      .filter(item => item.fileName !== undefined && item.content !== undefined)
+      .map(item => ({ name: item.fileName as string, content: item.content as string })), date);
+  }
+
+  private static failed(name: string, errors: ConversionError[], warnings: ConversionError[] = []): BatchItem {
+    return { name, status: 'error', waypoints: 0, errors, warnings };
+  }
+
+  private static uniqueName(fileName: string, extension: string, used: Set<string>): string {
+    const base = fileName.slice(0, -(extension.length + 1));
+    let name = fileName;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base}-${n}.${extension}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  }
+}
@@ -0,0 +1,101 @@
+import { BatchConverter, BatchItem } from './batch.js';
+import { FlightPlanExporter } from './exporters.js';
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = { ok: '✅ OK', warning: '⚠️ Warnings', error: '❌ Failed' };
+
+export class BatchPanel {
+  private readonly summary: HTMLParagraphElement;
+  private readonly table: HTMLDivElement;
+  private readonly downloadAllButton: HTMLButtonElement;
+  private items: BatchItem[] = [];
+  private exporter: FlightPlanExporter | undefined;
+
+  constructor(private readonly container: HTMLElement) {
+    this.container.innerHTML = `
+      <h3 class="batch-title">Batch Results</h3>
+      <p class="batch-summary"></p>
+      <div class="batch-table"></div>
+      <button type="button" class="action-button" data-batch="downloadAll">📦 Download all (.zip)</button>
+    `;
+
+    this.summary = this.container.querySelector('.batch-summary') as HTMLParagraphElement;
+    this.table = this.container.querySelector('.batch-table') as HTMLDivElement;
+    this.downloadAllButton = this.container.querySelector('[data-batch="downloadAll"]') as HTMLButtonElement;
+    this.downloadAllButton.addEventListener('click', () => this.downloadAll());
+
+    this.container.classList.add('hidden');
+  }
+
+  show(items: BatchItem[], exporter: FlightPlanExporter): void {
+    this.items = items;
+    this.exporter = exporter;
+    this.container.classList.remove('hidden');
+
+    const converted = items.filter(item => item.content !== undefined).length;
+    this.summary.textContent = `Converted ${converted} of ${items.length} route(s) to ${exporter.label}`;
+    this.downloadAllButton.disabled = converted === 0;
+    this.renderTable();
+  }
+
+  clear(): void {
+    this.items = [];
+    this.exporter = undefined;
+    this.container.classList.add('hidden');
+  }
+
+  private renderTable(): void {
+    this.table.innerHTML = '';
+    const table = document.createElement('table');
+    const header = table.createTHead().insertRow();
+    ['#', 'Route', 'Status', 'Waypoints', 'Messages', ''].forEach(column => {
+      const cell = document.createElement('th');
+      cell.textContent = column;
+      header.appendChild(cell);
+    });
+
+    const body = table.createTBody();
+    this.items.forEach((item, index) => {
+      const row = body.insertRow();
+      row.className = `batch-row ${item.status}`;
+      row.insertCell().textContent = String(index + 1);
+      row.insertCell().textContent = item.fileName ? `${item.name} → ${item.fileName}` : item.name;
+      row.insertCell().textContent = STATUS_LABELS[item.status];
+      row.insertCell().textContent = item.status === 'error' ? '—' : String(item.waypoints);
+
+      const messages = row.insertCell();
+      messages.className = 'batch-messages';
+      messages.textContent = [...item.errors, ...item.warnings].map(error => error.message).join('\n');
+
+      const actions = row.insertCell();
+      if (item.content !== undefined && item.fileName !== undefined) {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'library-button';
+        button.textContent = 'Download';
+        button.addEventListener('click', () => this.download(
+          new Blob([item.content as string], { type: this.exporter?.mimeType ?? 'text/plain' }),
+          item.fileName as string
+        ));
+        actions.appendChild(button);
+      }
+    });
+
+    this.table.appendChild(table);
+  }
+
+  private downloadAll(): void {
+    const archive = BatchConverter.archive(this.items);
+    this.download(new Blob([archive.buffer as ArrayBuffer], { type: 'application/zip' }), 'flightplans.zip');
+  }
+
+  private download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
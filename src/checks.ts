@@ -0,0 +1,185 @@
+import { ConversionError, Waypoint } from './types.js';
+import { RouteFormatter } from './converter.js';
+import { GeoMath } from './geo.js';
+
+export const LONG_LEG_NM = 500;
+export const FAR_FROM_AIRPORTS_NM = 250;
+const DOUBLE_BACK_DEGREES = 150;
+const DUPLICATE_NM = 0.1;
+
+type LocatedWaypoint = Waypoint & { latitude: number; longitude: number };
+
+const HEMISPHERES = {
+  latitude: { positive: ['N', 'northern'], negative: ['S', 'southern'] },
+  longitude: { positive: ['E', 'eastern'], negative: ['W', 'western'] }
+} as const;
+
+export class RouteChecker {
+  static check(waypoints: Waypoint[]): ConversionError[] {
+    const flips = this.hemisphereFlips(waypoints);
+    const flipped = new Set(flips.map(flip => flip.position));
+
+    return [
+      ...flips,
+      ...this.duplicates(waypoints),
+      ...this.longLegs(waypoints, flipped),
+      ...this.doubleBacks(waypoints, flipped),
+      ...this.farFromAirports(waypoints, flipped)
+    ].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  }
+
+  private static hemisphereFlips(waypoints: Waypoint[]): ConversionError[] {
+    const warnings: ConversionError[] = [];
+
+    waypoints.forEach((waypoint, index) => {
+      const neighbours = [waypoints[index - 1], waypoints[index + 1]].filter(this.isLocated);
+      if (waypoint.type !== 'GPS' || !this.isLocated(waypoint) || neighbours.length === 0) {
+        return;
+      }
+
+      (['latitude', 'longitude'] as const).forEach(axis => {
+        const value = waypoint[axis];
+        if (value === 0 || !neighbours.every(neighbour => Math.sign(neighbour[axis]) === -Math.sign(value))) {
+          return;
+        }
+
+        const mirrored = { ...waypoint, [axis]: -value };
+        const distances = neighbours.map(neighbour => this.distance(waypoint, neighbour));
+        const mirroredTotal = neighbours.reduce((total, neighbour) => total + this.distance(mirrored, neighbour), 0);
+        if (Math.min(...distances) <= LONG_LEG_NM || mirroredTotal * 2 > distances.reduce((a, b) => a + b, 0)) {
+          return;
+        }
+
+        const [from, to] = value > 0
+          ? [HEMISPHERES[axis].positive, HEMISPHERES[axis].negative]
+          : [HEMISPHERES[axis].negative, HEMISPHERES[axis].positive];
+        const replacement = RouteFormatter.formatWaypoint(mirrored) + RouteFormatter.formatConstraint(mirrored);
+        warnings.push({
+          message: `${this.label(waypoint)} is in the ${from[1]} hemisphere but the waypoints around it are ${to[1]}. Did you mean ${to[0]} instead of ${from[0]}?`,
+          severity: 'warning',
+          position: index,
+          fixes: [{ title: `Change to ${replacement}`, replacement }]
+        });
+      });
+    });
+
+    return warnings;
+  }
+
+  private static duplicates(waypoints: Waypoint[]): ConversionError[] {
+    const warnings: ConversionError[] = [];
+
+    for (let i = 1; i < waypoints.length; i++) {
+      const previous = waypoints[i - 1];
+      const current = waypoints[i];
+      if (!previous || !current) {
+        continue;
+      }
+
+      const sameName = previous.type === 'NAMED' && current.type === 'NAMED'
+        && previous.name?.toUpperCase() === current.name?.toUpperCase();
+      const samePlace = this.isLocated(previous) && this.isLocated(current) && this.distance(previous, current) < DUPLICATE_NM;
+      if (sameName || samePlace) {
+        warnings.push({ message: `${this.label(current)} appears twice in a row`, severity: 'warning', position: i });
+      }
+    }
+
+    return warnings;
+  }
+
+  private static longLegs(waypoints: Waypoint[], flipped: Set<number | undefined>): ConversionError[] {
+    const warnings: ConversionError[] = [];
+
+    for (let i = 1; i < waypoints.length; i++) {
+      const from = waypoints[i - 1];
+      const to = waypoints[i];
+      if (!this.isLocated(from) || !this.isLocated(to) || flipped.has(i - 1) || flipped.has(i)) {
+        continue;
+      }
+
+      const distance = this.distance(from, to);
+      if (distance > LONG_LEG_NM) {
+        warnings.push({
+          message: `Leg ${this.label(from)} → ${this.label(to)} is ${Math.round(distance)} NM long. Check the coordinates.`,
+          severity: 'warning',
+          position: i
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  private static doubleBacks(waypoints: Waypoint[], flipped: Set<number | undefined>): ConversionError[] {
+    const warnings: ConversionError[] = [];
+
+    for (let i = 1; i < waypoints.length - 1; i++) {
+      const [previous, current, next] = [waypoints[i - 1], waypoints[i], waypoints[i + 1]];
+      if (!this.isLocated(previous) || !this.isLocated(current) || !this.isLocated(next) || flipped.has(i)) {
+        continue;
+      }
+      if (this.distance(previous, current) < 1 || this.distance(current, next) < 1) {
+        continue;
+      }
+
+      const inbound = GeoMath.initialBearing(previous.latitude, previous.longitude, current.latitude, current.longitude);
+      const outbound = GeoMath.initialBearing(current.latitude, current.longitude, next.latitude, next.longitude);
+      const turn = Math.abs(((outbound - inbound + 540) % 360) - 180);
+      if (turn > DOUBLE_BACK_DEGREES) {
+        warnings.push({
+          message: `Route doubles back at ${this.label(current)} (${Math.round(turn)}° turn)`,
+          severity: 'warning',
+          position: i
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  private static farFromAirports(waypoints: Waypoint[], flipped: Set<number | undefined>): ConversionError[] {
+    const airports = [waypoints[0], waypoints[waypoints.length - 1]]
+      .filter(this.isLocated)
+      .filter(waypoint => waypoint.waypointType === 'Airport')
+      .filter((airport, index, all) => all.indexOf(airport) === index);
+    if (airports.length === 0) {
+      return [];
+    }
+
+    const [departure, arrival] = airports;
+    const limit = Math.max(FAR_FROM_AIRPORTS_NM, departure && arrival ? this.distance(departure, arrival) : 0);
+    const names = [...new Set(airports.map(airport => this.label(airport)))].join(' and ');
+    const warnings: ConversionError[] = [];
+
+    waypoints.forEach((waypoint, index) => {
+      if (waypoint.type !== 'GPS' || !this.isLocated(waypoint) || flipped.has(index)) {
+        return;
+      }
+      const nearest = Math.min(...airports.map(airport => this.distance(waypoint, airport)));
+      if (nearest > limit) {
+        warnings.push({
+          message: `${this.label(waypoint)} is ${Math.round(nearest)} NM from ${names}`,
+          severity: 'warning',
+          position: index
+        });
+      }
+    });
+
+    return warnings;
+  }
+
+  private static isLocated(this: void, waypoint: Waypoint | undefined): waypoint is LocatedWaypoint {
+    return waypoint?.latitude !== undefined && waypoint.longitude !== undefined;
+  }
+
+  private static distance(a: LocatedWaypoint, b: LocatedWaypoint): number {
+    return GeoMath.distanceNm(a.latitude, a.longitude, b.latitude, b.longitude);
+  }
+
+  private static label(waypoint: Waypoint): string {
+    if (waypoint.name) {
+      return waypoint.name;
+    }
+    return waypoint.type === 'GPS' && this.isLocated(waypoint) ? RouteFormatter.formatWaypoint(waypoint) : 'GPS waypoint';
+  }
+}
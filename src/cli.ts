@@ -0,0 +1,303 @@
+import { PlnOptions, FlightPlan, FlightType, RouteType, ConversionError } from './types.js';
+import { RouteCheckData, RouteConverter } from './pipeline.js';
+import { FlightPlanExporter, FlightPlanExporters } from './exporters.js';
+import { NameTemplates } from './naming.js';
+import { DEFAULT_TERRAIN_CLEARANCE, ElevationGrid, TerrainModel } from './terrain.js';
+import { AirspaceDatabase } from './airspace.js';
+import { FLIGHT_TYPES, ROUTE_TYPES } from './validation.js';
+
+export interface CliIo {
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, content: string): Promise<void>;
+  makeDirectory(path: string): Promise<void>;
+  readStdin(): Promise<string>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+export interface CliArguments {
+  command: string;
+  inputs: string[];
+  out?: string;
+  name: string;
+  exporter: FlightPlanExporter;
+  terrain?: string;
+  airspaces: string[];
+  check: boolean;
+  strict: boolean;
+  help: boolean;
+  options: PlnOptions;
+}
+
+export const EXIT_OK = 0;
+export const EXIT_CONVERSION_ERROR = 1;
+export const EXIT_USAGE_ERROR = 2;
+
+const STDIN = '-';
+const VALUE_OPTIONS = [
+  'out', 'name', 'format', 'flight-type', 'route-type', 'altitude', 'title', 'description',
+  'departure-runway', 'departure-parking', 'arrival-runway', 'waypoint-names', 'terrain-clearance', 'terrain', 'airspace'
+];
+const SHORT_OPTIONS: Record<string, string> = { o: 'out', h: 'help' };
+
+export const USAGE = `Usage: sv2msfs convert [options] [files...]
+
+Converts SkyVector route files to MSFS 2024 .PLN files (or another format
+chosen with --format). Reads stdin and writes the flight plan to stdout when
+no files (or "-") are given.
+
+Options:
+  -o, --out <dir>              Write flight plans to this directory (default: next to each input)
+      --name <pattern>         Output file name; {name} is the input file name, {dep}, {arr}, {date},
+                               {time}, {title} and {ext} come from the plan (default: {name}.<extension>)
+      --format <format>        ${FlightPlanExporters.standard().all.map(exporter => exporter.id).join(', ')} (default: msfs2024)
+      --check                  Validate only; do not write any files
+      --strict                 Treat warnings (long legs, hemisphere flips, ...) as errors
+      --flight-type <VFR|IFR>  Flight rules (default: VFR)
+      --route-type <type>      Direct, VOR, LowAlt or HighAlt (default: Direct)
+      --altitude <feet>        Cruising altitude (default: 3500)
+      --title <text>           Flight plan title
+      --description <text>     Flight plan description
+      --departure-runway <rwy> Departure runway, e.g. 07 or 28L
+      --departure-parking <id> Departure parking spot
+      --arrival-runway <rwy>   Arrival runway
+      --waypoint-names <tmpl>  User waypoint ids; {n}, {index}, {lat} and {lon} (default: WP{n})
+      --terrain-clearance <ft> Warn about legs with less terrain clearance (default: off, ${DEFAULT_TERRAIN_CLEARANCE} with --terrain)
+      --terrain <file.asc>     ESRI ASCII elevation grid in metres, checked before the bundled grid
+      --airspace <file>        OpenAir or GeoJSON airspace file; warn about Class B/C/D, restricted
+                               and prohibited areas on the route (repeatable)
+  -h, --help                   Show this help
+
+Exit codes: 0 success, 1 conversion or validation errors, 2 usage errors.
+`;
+
+export class Cli {
+  static parseArguments(argv: string[]): CliArguments {
+    const values: Record<string, string> = {};
+    const inputs: string[] = [];
+    const airspaces: string[] = [];
+    let check = false;
+    let strict = false;
+    let help = false;
+    let command = '';
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i] ?? '';
+
+      if (arg === STDIN || !arg.startsWith('-')) {
+        if (!command) {
+          command = arg;
+        } else {
+          inputs.push(arg);
+        }
+        continue;
+      }
+
+      const [flag = '', inline] = arg.replace(/^--?/, '').split(/=(.*)/s);
+      const option = arg.startsWith('--') ? flag : SHORT_OPTIONS[flag];
+
+      if (option === 'help') {
+        help = true;
+      } else if (option === 'check') {
+        check = true;
+      } else if (option === 'strict') {
+        strict = true;
+      } else if (option && VALUE_OPTIONS.includes(option)) {
+        const value = inline ?? argv[++i];
+        if (value === undefined) {
+          throw new Error(`Option --${option} requires a value`);
+        }
+        if (option === 'airspace') {
+          airspaces.push(value);
+        } else {
+          values[option] = value;
+        }
+      } else {
+        throw new Error(`Unknown option "${arg}"`);
+      }
+    }
+
+    const altitude = values.altitude;
+    if (altitude !== undefined && !/^\d+$/.test(altitude)) {
+      throw new Error(`Invalid altitude "${altitude}"`);
+    }
+
+    const clearance = values['terrain-clearance'];
+    if (clearance !== undefined && !/^\d+$/.test(clearance)) {
+      throw new Error(`Invalid terrain clearance "${clearance}"`);
+    }
+
+    const exporter = FlightPlanExporters.standard().get(values.format ?? 'msfs2024');
+
+    return {
+      command,
+      inputs,
+      out: values.out,
+      name: values.name ?? `{name}.${exporter.extension}`,
+      exporter,
+      terrain: values.terrain,
+      airspaces,
+      check,
+      strict,
+      help,
+      options: {
+        title: values.title,
+        description: values.description,
+        flightType: this.flightType(values['flight-type']),
+        routeType: this.routeType(values['route-type']),
+        cruisingAltitude: altitude !== undefined ? Number(altitude) : undefined,
+        departureRunway: values['departure-runway'],
+        departureParking: values['departure-parking'],
+        arrivalRunway: values['arrival-runway'],
+        userWaypointTemplate: values['waypoint-names'],
+        terrainClearance: clearance !== undefined
+          ? Number(clearance)
+          : values.terrain !== undefined ? DEFAULT_TERRAIN_CLEARANCE : undefined,
+        warningsAsErrors: strict || undefined
+      }
+    };
+  }
+
+  static outputPath(input: string, pattern: string, out?: string, plan?: FlightPlan, extension = 'pln'): string {
+    const separator = Math.max(input.lastIndexOf('/'), input.lastIndexOf('\\'));
+    const directory = separator === -1 ? '' : input.slice(0, separator + 1);
+    const file = input.slice(separator + 1);
+    const name = input === STDIN ? 'route' : file.replace(/\.[^.]*$/, '') || file;
+    const target = plan ? NameTemplates.fileName(pattern, { plan, extension, name }) : pattern.replace(/\{name\}/g, name);
+
+    if (out !== undefined) {
+      return out.replace(/[/\\]+$/, '') + '/' + target;
+    }
+    return directory + target;
+  }
+
+  static formatErrors(label: string, errors: ConversionError[]): string {
+    return errors.map(error => `${label}: ${error.severity ?? 'error'}: ${error.message}\n`).join('');
+  }
+
+  static async run(argv: string[], io: CliIo): Promise<number> {
+    let args: CliArguments;
+    try {
+      args = this.parseArguments(argv);
+    } catch (error) {
+      io.stderr(`sv2msfs: ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+      return EXIT_USAGE_ERROR;
+    }
+
+    if (args.help) {
+      io.stdout(USAGE);
+      return EXIT_OK;
+    }
+    if (args.command !== 'convert') {
+      io.stderr(`sv2msfs: ${args.command ? `unknown command "${args.command}"` : 'missing command'}\n\n${USAGE}`);
+      return EXIT_USAGE_ERROR;
+    }
+
+    const inputs = args.inputs.length > 0 ? args.inputs : [STDIN];
+    if (inputs.filter(input => input === STDIN).length > 1) {
+      io.stderr('sv2msfs: stdin can only be read once\n');
+      return EXIT_USAGE_ERROR;
+    }
+
+    const data: RouteCheckData = {};
+    if (args.terrain !== undefined) {
+      try {
+        data.terrain = TerrainModel.bundled().withGrid(ElevationGrid.fromAsciiGrid(await io.readFile(args.terrain)));
+      } catch (error) {
+        io.stderr(`sv2msfs: cannot load terrain grid ${args.terrain} (${error instanceof Error ? error.message : error})\n`);
+        return EXIT_USAGE_ERROR;
+      }
+    }
+    for (const file of args.airspaces) {
+      try {
+        const airspaces = AirspaceDatabase.load(file, await io.readFile(file));
+        data.airspaces = data.airspaces ? data.airspaces.merge(airspaces) : airspaces;
+      } catch (error) {
+        io.stderr(`sv2msfs: cannot load airspace file ${file} (${error instanceof Error ? error.message : error})\n`);
+        return EXIT_USAGE_ERROR;
+      }
+    }
+
+    if (args.out !== undefined && !args.check) {
+      try {
+        await io.makeDirectory(args.out);
+      } catch (error) {
+        io.stderr(`sv2msfs: cannot create output directory ${args.out}: ${error instanceof Error ? error.message : error}\n`);
+        return EXIT_CONVERSION_ERROR;
+      }
+    }
+
+    let exitCode = EXIT_OK;
+    for (const input of inputs) {
+      const label = input === STDIN ? '<stdin>' : input;
+
+      let text: string;
+      try {
+        text = input === STDIN ? await io.readStdin() : await io.readFile(input);
+      } catch (error) {
+        io.stderr(`${label}: error: cannot read file (${error instanceof Error ? error.message : error})\n`);
+        exitCode = EXIT_CONVERSION_ERROR;
+        continue;
+      }
+
+      const result = RouteConverter.convert(text, args.options, undefined, undefined, data);
+      io.stderr(this.formatErrors(label, result.warnings));
+
+      if (result.errors.length > 0 || result.plan === undefined) {
+        io.stderr(this.formatErrors(label, result.errors));
+        exitCode = EXIT_CONVERSION_ERROR;
+        continue;
+      }
+
+      let output: string;
+      try {
+        output = args.exporter.export(result.plan);
+      } catch (error) {
+        io.stderr(`${label}: error: ${error instanceof Error ? error.message : error}\n`);
+        exitCode = EXIT_CONVERSION_ERROR;
+        continue;
+      }
+
+      if (args.check) {
+        const notation = result.notations.length > 0 ? `; coordinates: ${result.notations.join(', ')}` : '';
+        io.stdout(`${label}: OK (${result.waypoints.length} waypoints${notation})\n`);
+      } else if (input === STDIN && args.out === undefined) {
+        io.stdout(output);
+      } else {
+        let path = '';
+        try {
+          path = this.outputPath(input, args.name, args.out, result.plan, args.exporter.extension);
+          await io.writeFile(path, output);
+          io.stdout(`${label} -> ${path}\n`);
+        } catch (error) {
+          io.stderr(`${label}: error: cannot write ${path || args.name} (${error instanceof Error ? error.message : error})\n`);
+          exitCode = EXIT_CONVERSION_ERROR;
+        }
+      }
+    }
+
+    return exitCode;
+  }
+
+  private static flightType(value: string | undefined): FlightType | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const type = FLIGHT_TYPES.find(candidate => candidate === value.toUpperCase());
+    if (!type) {
+      throw new Error(`Invalid flight type "${value}". Use ${FLIGHT_TYPES.join(' or ')}.`);
+    }
+    return type;
+  }
+
+  private static routeType(value: string | undefined): RouteType | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const type = ROUTE_TYPES.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+    if (!type) {
+      throw new Error(`Invalid route type "${value}". Use ${ROUTE_TYPES.join(', ')}.`);
+    }
+    return type;
+  }
+}
@@ -1,178 +1,433 @@
-import { Waypoint, FlightPlan, ConversionError } from './types.js';
+import { Waypoint, WaypointConstraint, FlightPlan, PlnOptions, Runway, RouteToken, SourceSpan } from './types.js';
+import { CoordinateNotations, DDMMSS_NOTATION } from './notation.js';
+import { DEFAULT_USER_WAYPOINT_TEMPLATE, MAX_USER_WAYPOINT_ID, NameTemplates } from './naming.js';
+import { AceXmlDocument, AceXmlFlightPlan, AceXmlWaypoint } from './acexml.js';
+import { XmlWriter } from './xml.js';
 
-const LAT_REGEX = /^(\d{2})(\d{2})(\d{2})([NS])$/;
-const LON_REGEX = /^(\d{3})(\d{2})(\d{2})([EW])$/;
-const COMBO_REGEX = /^(\d{6}[NS]\d{7}[EW])$/;
+export interface ParsedRoute {
+  waypoints: Waypoint[];
+  spans: SourceSpan[];
+  notations: Array<string | undefined>;
+}
+
+const PROCEDURE_REGEX = /^([A-Z0-9]{2,5})\.([A-Z0-9]{2,7})$/;
+const WAYPOINT_NAME_REGEX = /^[A-Z0-9]{1,12}$/i;
+const CONSTRAINT_REGEX = /^(?:N(\d{4}))?([AF]\d{3})?(\d{3,5})?(?:S(\d{2,3}))?([+-])?$/;
+const DDMMSS_REGISTRY = new CoordinateNotations([DDMMSS_NOTATION]);
 
 export class CoordinateConverter {
   static skyVectorToDecimal(coord: string): number {
-    const latMatch = coord.match(LAT_REGEX);
-    const lonMatch = coord.match(LON_REGEX);
-    
-    if (!latMatch && !lonMatch) {
+    const reading = DDMMSS_REGISTRY.read(coord);
+    const value = reading?.latitude ?? reading?.longitude;
+    if (value === undefined || (reading?.latitude !== undefined && reading.longitude !== undefined)) {
       throw new Error(`Invalid coordinate format: ${coord}`);
     }
-    
-    const match = latMatch || lonMatch;
-    if (!match) {
-      throw new Error(`Invalid coordinate format: ${coord}`);
+    return value;
+  }
+
+  static decimalToSkyVector(decimal: number, type: 'latitude' | 'longitude'): string {
+    const limit = type === 'latitude' ? 90 : 180;
+    if (!Number.isFinite(decimal) || Math.abs(decimal) > limit) {
+      throw new Error(`${type === 'latitude' ? 'Latitude' : 'Longitude'} out of range: ${decimal}`);
     }
-    
-    const [, degStr, minStr, secStr, hemisphere] = match;
-    const deg = parseInt(degStr, 10);
-    const minutes = parseInt(minStr, 10);
-    const seconds = parseInt(secStr, 10);
-    
-    if (minutes >= 60 || seconds >= 60) {
-      throw new Error(`Invalid minutes/seconds in coordinate: ${coord}`);
+
+    const totalSeconds = Math.round(Math.abs(decimal) * 3600);
+    const deg = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    const hemisphere = type === 'latitude'
+      ? (decimal < 0 ? 'S' : 'N')
+      : (decimal < 0 ? 'W' : 'E');
+
+    const pad = (value: number, width: number) => value.toString().padStart(width, '0');
+
+    return `${pad(deg, type === 'latitude' ? 2 : 3)}${pad(minutes, 2)}${pad(seconds, 2)}${hemisphere}`;
+  }
+}
+
+export class RouteParser {
+  static splitAnnotation(token: string): [string, string | undefined] {
+    const slash = token.indexOf('/');
+    if (slash === -1) {
+      return [token, undefined];
     }
-    
-    if (latMatch && (deg > 90)) {
-      throw new Error(`Latitude degrees out of range: ${coord}`);
+    return [token.substring(0, slash), token.substring(slash + 1)];
+  }
+
+  static splitName(token: string): [string, string | undefined] {
+    const colon = token.indexOf(':');
+    if (colon === -1) {
+      return [token, undefined];
     }
-    
-    if (lonMatch && (deg > 180)) {
-      throw new Error(`Longitude degrees out of range: ${coord}`);
+    const name = token.substring(colon + 1);
+    if (!WAYPOINT_NAME_REGEX.test(name)) {
+      throw new Error(`Invalid waypoint name ':${name}'. Names must be 1-12 letters or digits.`);
     }
-    
-    let decimal = deg + minutes / 60 + seconds / 3600;
-    
-    if (hemisphere === 'S' || hemisphere === 'W') {
-      decimal = -decimal;
+    return [token.substring(0, colon), name.toUpperCase()];
+  }
+
+  static parseConstraint(annotation: string): WaypointConstraint {
+    const text = annotation.trim().toUpperCase();
+    const match = text.match(CONSTRAINT_REGEX);
+    if (!text || !match) {
+      throw new Error(`Invalid waypoint constraint: /${annotation}. Expected e.g. /A045, /5500, /S120 or /N0120A045.`);
     }
-    
-    return Math.round(decimal * 1000000) / 1000000;
+
+    const [, icaoSpeed, level, plainFeet, knots, modifier] = match;
+    const constraint: WaypointConstraint = {};
+
+    if (icaoSpeed || knots) {
+      constraint.speed = parseInt(icaoSpeed ?? knots ?? '', 10);
+      if (constraint.speed < 1 || constraint.speed > 999) {
+        throw new Error(`Invalid speed restriction: /${annotation}. Speed must be 1-999 knots.`);
+      }
+    }
+
+    if (level || plainFeet) {
+      const altitude = level
+        ? parseInt(level.substring(1), 10) * 100
+        : parseInt(plainFeet ?? '', 10);
+      if (altitude > 60000) {
+        throw new Error(`Invalid altitude restriction: /${annotation}. Altitude must be 0-60000 ft.`);
+      }
+      constraint.altitude = altitude;
+      constraint.altitudeConstraint = modifier === '+' ? 'AT_OR_ABOVE' : modifier === '-' ? 'AT_OR_BELOW' : 'AT';
+    } else if (modifier) {
+      throw new Error(`Invalid waypoint constraint: /${annotation}. "${modifier}" requires an altitude.`);
+    }
+
+    return constraint;
   }
-}
 
-export class RouteParser {
-  static parseSourceRoute(text: string): Waypoint[] {
-    const tokens = text.trim().split(/\s+/);
+  static parseSourceRoute(text: string, notations: CoordinateNotations = CoordinateNotations.standard()): Waypoint[] {
+    return this.parseSourceRouteWithSpans(text, notations).waypoints;
+  }
+
+  static tokenize(text: string): RouteToken[] {
+    return Array.from(text.matchAll(/\S+/g), match => ({
+      text: match[0],
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length
+    }));
+  }
+
+  static parseSourceRouteWithSpans(
+    text: string,
+    notations: CoordinateNotations = CoordinateNotations.standard()
+  ): ParsedRoute {
+    const sourceTokens = this.tokenize(text);
+    const tokens = sourceTokens.map(token => token.text);
     const waypoints: Waypoint[] = [];
+    const spans: SourceSpan[] = [];
+    const detected: Array<string | undefined> = [];
+    const push = (waypoint: Waypoint, first: number, last: number, notation?: string) => {
+      waypoints.push(waypoint);
+      spans.push({ start: sourceTokens[first]?.start ?? 0, end: sourceTokens[last]?.end ?? 0 });
+      detected.push(notation);
+    };
     let i = 0;
     
     while (i < tokens.length) {
-      const token = tokens[i]?.trim();
-      if (!token) {
+      const rawToken = tokens[i];
+      if (!rawToken) {
         i++;
         continue;
       }
+
+      const [labelled, annotation] = this.splitAnnotation(rawToken);
+      const [token, label] = this.splitName(labelled);
       
-      if (COMBO_REGEX.test(token)) {
-        const lat = token.substring(0, 7);
-        const lon = token.substring(7);
-        const latDecimal = CoordinateConverter.skyVectorToDecimal(lat);
-        const lonDecimal = CoordinateConverter.skyVectorToDecimal(lon);
-        waypoints.push({
+      const reading = notations.read(token);
+      if (reading?.latitude !== undefined && reading.longitude !== undefined) {
+        push(this.withName(this.withConstraint({
           type: 'GPS',
-          latitude: latDecimal,
-          longitude: lonDecimal
-        });
+          latitude: reading.latitude,
+          longitude: reading.longitude
+        }, annotation), label), i, i, reading.notation);
         i++;
         continue;
       }
-      
-      if (LAT_REGEX.test(token)) {
+
+      if (reading?.latitude !== undefined) {
+        if (annotation !== undefined) {
+          throw new Error(`Constraint on latitude '${token}' must follow the longitude`);
+        }
+        if (label !== undefined) {
+          throw new Error(`Name on latitude '${token}' must follow the longitude`);
+        }
         if (i + 1 >= tokens.length) {
           throw new Error(`Latitude '${token}' missing longitude`);
         }
-        const lonToken = tokens[i + 1]?.trim();
-        if (!lonToken || !LON_REGEX.test(lonToken)) {
+        const [lonLabelled, lonAnnotation] = this.splitAnnotation(tokens[i + 1] ?? '');
+        const [lonToken, lonLabel] = this.splitName(lonLabelled);
+        const lonReading = lonToken ? notations.read(lonToken) : undefined;
+        if (lonReading?.longitude === undefined || lonReading.latitude !== undefined) {
           throw new Error(`Latitude '${token}' not followed by valid longitude`);
         }
-        const latDecimal = CoordinateConverter.skyVectorToDecimal(token);
-        const lonDecimal = CoordinateConverter.skyVectorToDecimal(lonToken);
-        waypoints.push({
+        push(this.withName(this.withConstraint({
           type: 'GPS',
-          latitude: latDecimal,
-          longitude: lonDecimal
-        });
+          latitude: reading.latitude,
+          longitude: lonReading.longitude
+        }, lonAnnotation), lonLabel), i, i + 1, reading.notation === lonReading.notation
+          ? reading.notation
+          : `${reading.notation}, ${lonReading.notation}`);
         i += 2;
         continue;
       }
+
+      if (reading?.longitude !== undefined) {
+        throw new Error(`Longitude '${token}' must follow a latitude`);
+      }
+
+      if (label !== undefined) {
+        throw new Error(`Only coordinates can be given a name; '${token}' is already an identifier`);
+      }
       
-      waypoints.push({
+      const procedure = token.toUpperCase().match(PROCEDURE_REGEX);
+      if (procedure) {
+        const [, airport = '', name = ''] = procedure;
+        const waypoint: Waypoint = { type: 'NAMED', name: airport };
+        if (waypoints.length === 0) {
+          waypoint.departureProcedure = name;
+        } else if (i === tokens.length - 1) {
+          waypoint.arrivalProcedure = name;
+        } else {
+          throw new Error(`Procedure '${token}' must be attached to the departure or arrival airport`);
+        }
+        push(this.withConstraint(waypoint, annotation), i, i);
+        i++;
+        continue;
+      }
+
+      push(this.withConstraint({
         type: 'NAMED',
         name: token.toUpperCase()
-      });
+      }, annotation), i, i);
       i++;
     }
     
-    return waypoints;
+    return { waypoints, spans, notations: detected };
+  }
+
+  private static withConstraint(waypoint: Waypoint, annotation: string | undefined): Waypoint {
+    return annotation === undefined ? waypoint : { ...waypoint, ...this.parseConstraint(annotation) };
+  }
+
+  private static withName(waypoint: Waypoint, name: string | undefined): Waypoint {
+    return name === undefined ? waypoint : { ...waypoint, name };
+  }
+}
+
+export class RouteFormatter {
+  static formatWaypoint(waypoint: Waypoint): string {
+    if (waypoint.type === 'GPS') {
+      if (waypoint.latitude === undefined || waypoint.longitude === undefined) {
+        throw new Error('GPS waypoint is missing coordinates');
+      }
+      const coordinate = CoordinateConverter.decimalToSkyVector(waypoint.latitude, 'latitude') +
+        CoordinateConverter.decimalToSkyVector(waypoint.longitude, 'longitude');
+      return waypoint.name && WAYPOINT_NAME_REGEX.test(waypoint.name) ? `${coordinate}:${waypoint.name.toUpperCase()}` : coordinate;
+    }
+
+    if (!waypoint.name) {
+      throw new Error('Named waypoint is missing an identifier');
+    }
+    const procedure = waypoint.departureProcedure ?? waypoint.arrivalProcedure;
+    return procedure ? `${waypoint.name.toUpperCase()}.${procedure}` : waypoint.name.toUpperCase();
+  }
+
+  static formatConstraint(waypoint: WaypointConstraint): string {
+    let annotation = '';
+    if (waypoint.altitude !== undefined) {
+      annotation += waypoint.altitude % 100 === 0
+        ? `A${(waypoint.altitude / 100).toString().padStart(3, '0')}`
+        : waypoint.altitude.toString();
+    }
+    if (waypoint.speed !== undefined) {
+      annotation += `S${waypoint.speed}`;
+    }
+    if (waypoint.altitude !== undefined && waypoint.altitudeConstraint === 'AT_OR_ABOVE') {
+      annotation += '+';
+    } else if (waypoint.altitude !== undefined && waypoint.altitudeConstraint === 'AT_OR_BELOW') {
+      annotation += '-';
+    }
+    return annotation ? `/${annotation}` : '';
+  }
+
+  static formatRoute(waypoints: Waypoint[]): string {
+    const tokens: string[] = [];
+
+    waypoints.forEach((waypoint, index) => {
+      const next = waypoints[index + 1];
+      if (waypoint.airway && next?.airway === waypoint.airway) {
+        return;
+      }
+      if (waypoint.airway) {
+        tokens.push(waypoint.airway);
+      }
+      tokens.push(this.formatWaypoint(waypoint) + this.formatConstraint(waypoint));
+    });
+
+    return tokens.join(' ');
   }
 }
 
 export class PlnGenerator {
   static escapeXml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
+    return XmlWriter.escape(text);
   }
   
-  static generatePln(waypoints: Waypoint[]): string {
-    const namedWaypoints = waypoints.filter(wp => wp.type === 'NAMED');
-    const gpsWaypoints = waypoints.filter(wp => wp.type === 'GPS');
-    
-    const departureId = namedWaypoints[0]?.name || 'UNKNOWN';
-    const arrivalId = namedWaypoints[namedWaypoints.length - 1]?.name || 'UNKNOWN';
-    
-    let departureLLA = '0,0,0';
-    let destinationLLA = '0,0,0';
-    
-    if (gpsWaypoints.length > 0) {
-      const firstGps = gpsWaypoints[0];
-      const lastGps = gpsWaypoints[gpsWaypoints.length - 1];
-      if (firstGps && firstGps.latitude !== undefined && firstGps.longitude !== undefined) {
-        departureLLA = `${firstGps.latitude},${firstGps.longitude},0`;
+  static parseRunway(runway: string): Runway {
+    const match = runway.trim().toUpperCase().match(/^(?:RW|RWY)?\s*(\d{1,2})([LRC])?$/);
+    const number = match ? parseInt(match[1] ?? '', 10) : NaN;
+    if (!match || number < 1 || number > 36) {
+      throw new Error(`Invalid runway: ${runway}. Expected 1-36 with optional L, R or C.`);
+    }
+
+    const designators: Record<string, Runway['designator']> = { L: 'LEFT', R: 'RIGHT', C: 'CENTER' };
+    return {
+      number,
+      designator: match[2] ? designators[match[2]] ?? 'NONE' : 'NONE'
+    };
+  }
+
+  static formatLLA(waypoint: Waypoint | undefined): string {
+    if (!waypoint || waypoint.latitude === undefined || waypoint.longitude === undefined) {
+      return '0,0,0';
+    }
+    return `${waypoint.latitude},${waypoint.longitude},${waypoint.elevation ?? 0}`;
+  }
+
+  static buildFlightPlan(waypoints: Waypoint[], options: PlnOptions = {}): FlightPlan {
+    const departure = waypoints[0];
+    const destination = waypoints[waypoints.length - 1];
+
+    const departureId = (departure?.type === 'NAMED' && departure.name) || 'UNKNOWN';
+    const arrivalId = (destination?.type === 'NAMED' && destination.name) || 'UNKNOWN';
+
+    const plan: FlightPlan = {
+      title: options.title?.trim() || `${departureId} to ${arrivalId}`,
+      departureId,
+      arrivalId,
+      departureLLA: this.formatLLA(departure),
+      destinationLLA: this.formatLLA(destination),
+      waypoints,
+      fpType: options.flightType ?? 'VFR',
+      routeType: options.routeType ?? 'Direct',
+      cruisingAlt: options.cruisingAltitude ?? 3500
+    };
+
+    if (options.cruiseSpeed !== undefined) {
+      plan.cruiseSpeed = options.cruiseSpeed;
+    }
+    const userWaypointTemplate = options.userWaypointTemplate?.trim();
+    if (userWaypointTemplate) {
+      plan.userWaypointTemplate = userWaypointTemplate;
+    }
+    const description = options.description?.trim();
+    if (description) {
+      plan.description = description;
+    }
+    const departurePosition = options.departureParking?.trim() || options.departureRunway?.trim().toUpperCase();
+    if (departurePosition) {
+      plan.departurePosition = departurePosition;
+    }
+    if (options.departureRunway) {
+      plan.departureRunway = this.parseRunway(options.departureRunway);
+    }
+    if (options.arrivalRunway) {
+      plan.arrivalRunway = this.parseRunway(options.arrivalRunway);
+    }
+
+    return plan;
+  }
+
+  static waypointIds(plan: FlightPlan, maxLength = MAX_USER_WAYPOINT_ID): string[] {
+    const template = plan.userWaypointTemplate ?? DEFAULT_USER_WAYPOINT_TEMPLATE;
+    const used = new Set(plan.waypoints
+      .filter(waypoint => waypoint.type === 'NAMED' && waypoint.name)
+      .map(waypoint => waypoint.name?.toUpperCase()));
+    let sequence = 0;
+
+    return plan.waypoints.map((waypoint, index) => {
+      if (waypoint.type === 'NAMED' && waypoint.name) {
+        return waypoint.name;
       }
-      if (lastGps && lastGps.latitude !== undefined && lastGps.longitude !== undefined) {
-        destinationLLA = `${lastGps.latitude},${lastGps.longitude},0`;
+
+      const name = waypoint.name ?? NameTemplates.userWaypointId(template, waypoint, ++sequence, index);
+      const base = name.toUpperCase().replace(/[^A-Z0-9]/g, '').substring(0, maxLength) || `WP${index + 1}`.substring(0, maxLength);
+
+      let id = base;
+      for (let n = 2; used.has(id); n++) {
+        const suffix = String(n);
+        id = base.substring(0, maxLength - suffix.length) + suffix;
       }
-    }
-    
-    const lines: string[] = [
-      '<?xml version="1.0" encoding="UTF-8"?>',
-      '<SimBase.Document Type="AceXML" version="2,0">',
-      '  <Descr>FlightPlan</Descr>',
-      '  <FlightPlan.FlightPlan>',
-      '    <AppVersion>',
-      '      <AppVersionMajor>1</AppVersionMajor>',
-      '      <AppVersionMinor>0</AppVersionMinor>',
-      '    </AppVersion>',
-      `    <Title>${this.escapeXml(departureId)} to ${this.escapeXml(arrivalId)}</Title>`,
-      '    <FPType>VFR</FPType>',
-      '    <RouteType>Direct</RouteType>',
-      '    <CruisingAlt>3500</CruisingAlt>',
-      `    <DepartureID>${this.escapeXml(departureId)}</DepartureID>`,
-      `    <DepartureLLA>${departureLLA}</DepartureLLA>`,
-      `    <DestinationID>${this.escapeXml(arrivalId)}</DestinationID>`,
-      `    <DestinationLLA>${destinationLLA}</DestinationLLA>`,
-      '    <ATCWaypointList>'
-    ];
-    
+      used.add(id);
+      return id;
+    });
+  }
+
+  static generatePln(waypoints: Waypoint[], options: PlnOptions = {}): string {
+    return this.generateFlightPlan(this.buildFlightPlan(waypoints, options));
+  }
+
+  static buildDocument(plan: FlightPlan): AceXmlFlightPlan {
+    const { waypoints, departureRunway, arrivalRunway } = plan;
+    const ids = this.waypointIds(plan);
+    const routing = (waypoint: Waypoint): Partial<AceXmlWaypoint> => ({
+      speedMax: waypoint.speed,
+      altitudeDescription: waypoint.altitude === undefined ? undefined : waypoint.altitudeConstraint ?? 'AT',
+      altitude: waypoint.altitude,
+      airway: waypoint.airway,
+      departureProcedure: waypoint.departureProcedure,
+      arrivalProcedure: waypoint.arrivalProcedure
+    });
+    const document: AceXmlFlightPlan = {
+      title: plan.title,
+      fpType: plan.fpType ?? 'VFR',
+      routeType: plan.routeType ?? 'Direct',
+      cruisingAlt: plan.cruisingAlt ?? 3500,
+      departureId: plan.departureId,
+      departureLLA: plan.departureLLA,
+      destinationId: plan.arrivalId,
+      destinationLLA: plan.destinationLLA,
+      description: plan.description || undefined,
+      departurePosition: plan.departurePosition || undefined,
+      waypoints: []
+    };
+
     waypoints.forEach((waypoint, index) => {
+      const { latitude, longitude } = waypoint;
       if (waypoint.type === 'NAMED' && waypoint.name) {
-        lines.push(`      <ATCWaypoint id="${this.escapeXml(waypoint.name)}">`);
-        lines.push('        <ATCWaypointType>Airport</ATCWaypointType>');
-        lines.push('        <ICAO>');
-        lines.push(`          <ICAOIdent>${this.escapeXml(waypoint.name)}</ICAOIdent>`);
-        lines.push('        </ICAO>');
-        lines.push('      </ATCWaypoint>');
-      } else if (waypoint.type === 'GPS' && waypoint.latitude !== undefined && waypoint.longitude !== undefined) {
-        lines.push(`      <ATCWaypoint id="WP${index + 1}">`);
-        lines.push('        <ATCWaypointType>User</ATCWaypointType>');
-        lines.push(`        <WorldPosition>${waypoint.latitude},${waypoint.longitude},0</WorldPosition>`);
-        lines.push('      </ATCWaypoint>');
+        const type = waypoint.waypointType ?? 'Airport';
+        const runway = index === 0 ? departureRunway : index === waypoints.length - 1 ? arrivalRunway : undefined;
+        document.waypoints.push({
+          id: waypoint.name,
+          type,
+          position: latitude === undefined || longitude === undefined ? undefined : {
+            latitude,
+            longitude,
+            altitude: waypoint.altitude ?? (type === 'Airport' ? waypoint.elevation ?? 0 : 0)
+          },
+          ...routing(waypoint),
+          runway: type === 'Airport' ? runway : undefined,
+          icao: { region: waypoint.region || undefined, ident: waypoint.name }
+        });
+      } else if (waypoint.type === 'GPS' && latitude !== undefined && longitude !== undefined) {
+        document.waypoints.push({
+          id: ids[index] ?? `WP${index + 1}`,
+          type: 'User',
+          position: { latitude, longitude, altitude: waypoint.altitude ?? 0 },
+          ...routing(waypoint)
+        });
       }
     });
-    
-    lines.push('    </ATCWaypointList>');
-    lines.push('  </FlightPlan.FlightPlan>');
-    lines.push('</SimBase.Document>');
-    
-    return lines.join('\n');
+
+    return document;
+  }
+
+  static generateFlightPlan(plan: FlightPlan): string {
+    return AceXmlDocument.serialize(this.buildDocument(plan));
   }
 }
\ No newline at end of file
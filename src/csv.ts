@@ -0,0 +1,56 @@
+export type CsvRecord = Record<string, string>;
+
+export class CsvParser {
+  static parseRecords(csv: string, requiredColumns: string[], label: string): CsvRecord[] {
+    const lines = csv.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const header = lines.shift();
+    if (!header) {
+      throw new Error(`${label} CSV is empty`);
+    }
+
+    const columns = this.parseLine(header).map(column => column.trim().toLowerCase());
+    const missing = requiredColumns.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`${label} CSV is missing column(s): ${missing.join(', ')}`);
+    }
+
+    return lines.map(line => {
+      const values = this.parseLine(line);
+      const record: CsvRecord = {};
+      columns.forEach((column, index) => {
+        record[column] = values[index]?.trim() ?? '';
+      });
+      return record;
+    });
+  }
+
+  static parseLine(line: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        values.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    values.push(current);
+    return values;
+  }
+}
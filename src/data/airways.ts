@@ -0,0 +1,18 @@
+// Starter airway dataset bundled with the app. Each row is one fix on an
+// airway, listed in sequence order; fix positions are carried inline so the
+// airway table does not depend on the navaid table.
+export const AIRWAYS_CSV = `airway,sequence,ident,type,latitude,longitude,region
+V3,10,PHL,VOR,39.876700,-75.240700,K6
+V3,20,ARD,VOR,40.253400,-74.908400,K6
+V3,30,SBJ,VOR,40.582900,-74.741700,K6
+V143,10,EMI,VOR,39.495100,-76.978600,K6
+V143,20,HAR,VOR,40.302300,-77.069900,K6
+V143,30,SEG,VOR,40.790300,-76.882900,K6
+V162,10,HAR,VOR,40.302300,-77.069900,K6
+V162,20,RAV,VOR,40.553300,-76.599300,K6
+V162,30,ETX,VOR,40.580800,-75.682600,K6
+J60,10,PSB,VOR,40.916400,-77.992900,K6
+J60,20,RAV,VOR,40.553300,-76.599300,K6
+J60,30,SBJ,VOR,40.582900,-74.741700,K6
+J60,40,JFK,VOR,40.632900,-73.771400,K6
+`;
@@ -0,0 +1,67 @@
+// Coarse vector outlines bundled for the offline route map, as a GeoJSON
+// FeatureCollection with [longitude, latitude] positions. The shapes are
+// simplified for orientation only; any GeoJSON file of Polygon or LineString
+// features (e.g. Natural Earth) can be loaded with Basemap.fromGeoJson instead.
+export const BASEMAP_GEOJSON = `{
+  "type": "FeatureCollection",
+  "features": [
+    {
+      "type": "Feature",
+      "properties": { "name": "United States", "kind": "coast" },
+      "geometry": {
+        "type": "Polygon",
+        "coordinates": [[
+          [-124.7, 48.4], [-124.1, 46.2], [-124.4, 43.0], [-124.4, 40.4], [-122.5, 37.8],
+          [-121.9, 36.6], [-120.6, 34.6], [-118.5, 34.0], [-117.1, 32.5], [-114.7, 32.7],
+          [-111.1, 31.3], [-108.2, 31.3], [-108.2, 31.8], [-106.5, 31.8], [-104.5, 29.6],
+          [-103.0, 29.0], [-101.4, 29.8], [-99.5, 27.5], [-97.4, 25.9], [-97.4, 27.8],
+          [-95.0, 29.3], [-93.8, 29.7], [-91.0, 29.2], [-89.2, 29.2], [-88.0, 30.7],
+          [-85.0, 29.7], [-84.0, 30.1], [-82.8, 27.8], [-81.8, 26.1], [-80.9, 25.2],
+          [-80.1, 25.8], [-80.6, 28.4], [-81.4, 30.7], [-79.9, 32.8], [-77.9, 33.9],
+          [-75.5, 35.2], [-76.0, 36.9], [-75.2, 38.0], [-75.0, 38.8], [-74.9, 38.9],
+          [-74.0, 40.5], [-71.9, 41.1], [-70.0, 41.7], [-70.6, 42.6], [-70.2, 43.7],
+          [-67.0, 44.8], [-67.8, 47.1], [-69.2, 47.4], [-71.5, 45.0], [-74.7, 45.0],
+          [-76.3, 44.2], [-79.0, 43.3], [-79.0, 42.8], [-82.5, 42.0], [-82.4, 43.0],
+          [-82.5, 45.3], [-84.5, 46.5], [-89.5, 48.0], [-95.2, 49.0], [-123.0, 49.0],
+          [-124.7, 48.4]
+        ]]
+      }
+    },
+    {
+      "type": "Feature",
+      "properties": { "name": "Pennsylvania", "kind": "border" },
+      "geometry": {
+        "type": "Polygon",
+        "coordinates": [[
+          [-80.52, 39.72], [-80.52, 41.98], [-79.76, 42.27], [-79.76, 42.0], [-75.36, 42.0],
+          [-75.07, 41.6], [-74.69, 41.36], [-75.13, 40.99], [-75.2, 40.58], [-74.72, 40.15],
+          [-75.14, 39.88], [-75.42, 39.8], [-75.79, 39.72], [-80.52, 39.72]
+        ]]
+      }
+    },
+    {
+      "type": "Feature",
+      "properties": { "name": "Lake Erie", "kind": "water" },
+      "geometry": {
+        "type": "Polygon",
+        "coordinates": [[
+          [-83.5, 41.7], [-82.7, 41.4], [-81.7, 41.5], [-80.5, 41.95], [-79.8, 42.3],
+          [-78.9, 42.8], [-80.2, 42.8], [-81.5, 42.6], [-82.5, 42.0], [-83.1, 42.0],
+          [-83.5, 41.7]
+        ]]
+      }
+    },
+    {
+      "type": "Feature",
+      "properties": { "name": "Lake Ontario", "kind": "water" },
+      "geometry": {
+        "type": "Polygon",
+        "coordinates": [[
+          [-79.8, 43.3], [-79.0, 43.3], [-77.5, 43.25], [-76.2, 43.5], [-76.3, 44.2],
+          [-77.2, 44.0], [-78.5, 43.9], [-79.4, 43.65], [-79.8, 43.3]
+        ]]
+      }
+    }
+  ]
+}
+`;
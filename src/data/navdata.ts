@@ -0,0 +1,46 @@
+// Starter navigation dataset bundled with the app. Columns follow the
+// OurAirports/ARINC-style layout read by NavDatabase.fromCsv; elevation is in
+// feet MSL and region is the ICAO region code used by MSFS.
+export const NAVDATA_CSV = `ident,type,name,latitude,longitude,elevation,region
+P34,Airport,Mifflin County,40.677600,-77.626700,819,K6
+N68,Airport,Franklin County Regional,39.972900,-77.643300,694,K6
+KMDT,Airport,Harrisburg International,40.193500,-76.763400,310,K6
+KCXY,Airport,Capital City,40.217100,-76.851500,347,K6
+KLNS,Airport,Lancaster,40.121700,-76.296100,403,K6
+KTHV,Airport,York,39.917000,-76.873000,495,K6
+KUNV,Airport,University Park,40.849300,-77.848700,1239,K6
+KIPT,Airport,Williamsport Regional,41.241800,-76.921100,529,K6
+KAOO,Airport,Altoona-Blair County,40.296400,-78.320000,1504,K6
+KSEG,Airport,Penn Valley,40.820600,-76.863900,450,K6
+KPHL,Airport,Philadelphia International,39.871900,-75.241100,36,K6
+KPIT,Airport,Pittsburgh International,40.491500,-80.232900,1203,K6
+KJFK,Airport,John F Kennedy International,40.639800,-73.778900,13,K6
+KBOS,Airport,General Edward Lawrence Logan International,42.365600,-71.009600,20,K6
+KDCA,Airport,Ronald Reagan Washington National,38.852100,-77.037700,15,K6
+KIAD,Airport,Washington Dulles International,38.944500,-77.455800,313,K6
+KBWI,Airport,Baltimore/Washington International,39.175400,-76.668300,143,K6
+KORD,Airport,Chicago O'Hare International,41.978600,-87.904800,672,K5
+KLAX,Airport,Los Angeles International,33.942500,-118.408100,128,K2
+KSFO,Airport,San Francisco International,37.618800,-122.375000,13,K2
+KSEA,Airport,Seattle-Tacoma International,47.450200,-122.308800,433,K1
+KDEN,Airport,Denver International,39.861700,-104.673100,5434,K2
+KATL,Airport,Hartsfield-Jackson Atlanta International,33.636700,-84.428100,1026,K7
+KDFW,Airport,Dallas/Fort Worth International,32.896800,-97.038000,607,K4
+KMIA,Airport,Miami International,25.793200,-80.290600,8,K7
+EGLL,Airport,London Heathrow,51.470600,-0.461900,83,EG
+LRP,VOR,Lancaster,40.119900,-76.291200,390,K6
+HAR,VOR,Harrisburg,40.302300,-77.069900,1290,K6
+SEG,VOR,Selinsgrove,40.790300,-76.882900,800,K6
+PSB,VOR,Philipsburg,40.916400,-77.992900,2450,K6
+EMI,VOR,Westminster,39.495100,-76.978600,860,K6
+RAV,VOR,Ravine,40.553300,-76.599300,1700,K6
+SBJ,VOR,Solberg,40.582900,-74.741700,190,K6
+ETX,VOR,East Texas,40.580800,-75.682600,650,K6
+HNK,VOR,Hancock,42.063200,-75.316300,2060,K6
+JFK,VOR,Kennedy,40.632900,-73.771400,10,K6
+DCA,VOR,Washington,38.859400,-77.036300,10,K6
+BOS,VOR,Boston,42.357400,-70.989500,10,K6
+ORD,VOR,Chicago O'Hare,41.987700,-87.905300,650,K5
+LAX,VOR,Los Angeles,33.933100,-118.432000,180,K2
+BUNTS,Intersection,BUNTS,40.094300,-75.858500,0,K6
+`;
@@ -0,0 +1,28 @@
+// Coarse elevation grid bundled for the offline terrain check, in ESRI ASCII grid
+// format with values in metres. Each 0.125° cell holds a hand-simplified figure
+// for the highest terrain in that cell across central and eastern Pennsylvania,
+// enough to exercise the check on the sample routes. SRTM-derived tiles exported
+// as ESRI ASCII grids can be loaded with ElevationGrid.fromAsciiGrid instead.
+export const TERRAIN_GRID = `ncols 32
+nrows 16
+xllcorner -79.0
+yllcorner 39.5
+cellsize 0.125
+NODATA_value -9999
+830 800 780 770 780 790 820 840 850 850 830 800 780 770 780 630 520 360 590 600 380 500 630 510 620 590 600 500 540 630 620 570
+790 760 740 730 730 750 780 800 810 800 790 760 740 730 330 540 630 470 420 610 570 320 540 630 620 590 620 570 540 600 630 570
+740 710 690 680 690 700 730 750 760 760 740 710 470 630 540 330 580 610 410 470 630 540 330 580 620 590 530 630 540 600 620 610
+720 690 670 660 670 680 710 730 740 740 720 590 360 510 630 500 390 600 590 360 520 630 490 390 620 590 530 520 630 600 620 610
+740 710 690 680 690 710 730 750 760 760 440 620 560 310 560 620 450 440 620 560 300 560 620 440 620 620 550 420 420 420 420 420
+790 760 740 730 740 750 780 800 590 610 400 490 630 520 350 590 600 390 490 630 520 360 590 600 390 500 630 420 160 190 210 210
+830 800 780 770 780 800 820 480 410 610 580 340 530 630 470 410 610 580 330 540 630 470 420 610 570 150 130 140 160 190 210 210
+830 810 790 780 780 310 570 620 430 460 630 550 320 570 620 420 460 630 540 520 570 610 210 200 170 150 200 140 160 380 380 380
+800 770 750 740 630 510 370 600 600 370 510 630 500 380 600 590 370 510 130 140 170 200 210 200 170 150 380 380 380 380 380 380
+740 720 700 320 550 630 460 430 620 570 310 550 620 450 430 400 160 140 130 140 170 200 190 190 170 380 380 380 380 380 380 380
+720 480 630 530 340 580 610 400 480 630 530 350 180 210 210 190 160 140 130 100 110 130 160 180 190 190 170 150 130 110 90 90
+590 350 520 630 490 400 610 580 150 130 620 620 620 620 210 190 170 140 120 100 90 130 110 130 150 170 190 190 40 40 40 40
+620 550 310 560 620 210 200 180 620 130 250 620 110 140 160 180 190 190 170 150 130 100 90 90 100 120 150 170 40 40 40 40
+500 630 140 160 190 210 200 180 150 140 120 100 90 90 110 130 150 180 190 190 180 160 130 110 90 90 100 120 40 40 40 40
+140 130 140 160 190 210 160 180 190 190 170 150 120 100 90 90 100 120 150 170 190 190 180 160 140 110 100 90 40 40 40 40
+140 130 120 100 90 90 110 130 160 180 190 190 180 160 130 110 90 90 100 120 140 170 180 190 180 170 140 120 40 40 40 40
+`;
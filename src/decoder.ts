@@ -0,0 +1,129 @@
+import { SourceSpan } from './types.js';
+import { RouteParser } from './converter.js';
+
+export type RouteInputFormat = 'route' | 'icao' | 'skyvector-url';
+
+export interface SpeedLevel {
+  speed?: number;
+  altitude?: number;
+}
+
+export interface DecodedRoute extends SpeedLevel {
+  format: RouteInputFormat;
+  route: string;
+  offsets: number[];
+}
+
+const SKYVECTOR_URL_REGEX = /^(?:https?:\/\/)?(?:www\.)?skyvector\.com(?:[/?#]|$)/i;
+const SPEED_LEVEL_REGEX = /^(?:N(\d{4})|K(\d{4})|M(\d{3}))(?:([AF])(\d{3})|([SM])(\d{4})|VFR)$/;
+const KMH_TO_KNOTS = 0.539957;
+const METERS_TO_FEET = 1 / 0.3048;
+
+export class RouteDecoder {
+  static isSkyVectorUrl(text: string): boolean {
+    return SKYVECTOR_URL_REGEX.test(text.trim());
+  }
+
+  static parseSpeedLevel(group: string): SpeedLevel | undefined {
+    const match = group.toUpperCase().match(SPEED_LEVEL_REGEX);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, knots, kmh, mach, feetUnit, feet, metricUnit, meters] = match;
+    const result: SpeedLevel = {};
+    if (feetUnit && feet) {
+      result.altitude = parseInt(feet, 10) * 100;
+    } else if (metricUnit && meters) {
+      result.altitude = Math.round(parseInt(meters, 10) * 10 * METERS_TO_FEET);
+    }
+
+    if (knots) {
+      result.speed = parseInt(knots, 10);
+    } else if (kmh) {
+      result.speed = Math.round(parseInt(kmh, 10) * KMH_TO_KNOTS);
+    } else if (mach) {
+      const temperature = Math.max(216.65, 288.15 - 0.0019812 * (result.altitude ?? 0));
+      result.speed = Math.round(parseInt(mach, 10) / 100 * 661.47 * Math.sqrt(temperature / 288.15));
+    }
+    return result;
+  }
+
+  static decode(text: string): DecodedRoute {
+    const { route, offsets, url } = this.isSkyVectorUrl(text)
+      ? { ...this.extractPlan(text), url: true }
+      : { route: text, offsets: text.split('').map((_, index) => index), url: false };
+
+    const chars = route.split('');
+    const positions = [...offsets];
+    const tokens = RouteParser.tokenize(route);
+    const isIcao = tokens.some(token => token.text.toUpperCase() === 'DCT' || this.parseSpeedLevel(token.text));
+    const decoded: DecodedRoute = { format: url ? 'skyvector-url' : isIcao ? 'icao' : 'route', route: '', offsets: [] };
+
+    [...tokens].reverse().forEach(token => {
+      const upper = token.text.toUpperCase();
+      const speedLevel = this.parseSpeedLevel(token.text);
+      if (speedLevel || upper === 'DCT' || (isIcao && (upper === 'IFR' || upper === 'VFR'))) {
+        chars.fill(' ', token.start, token.end);
+        if (speedLevel) {
+          decoded.speed = speedLevel.speed;
+          decoded.altitude = speedLevel.altitude;
+        }
+        return;
+      }
+
+      const [base, annotation] = RouteParser.splitAnnotation(token.text);
+      const change = annotation !== undefined ? this.parseSpeedLevel(annotation) : undefined;
+      if (change) {
+        const start = token.start + base.length + 1;
+        const constraint = (change.speed !== undefined ? `N${String(change.speed).padStart(4, '0')}` : '')
+          + (change.altitude !== undefined ? `A${String(Math.round(change.altitude / 100)).padStart(3, '0')}` : '');
+        chars.splice(start, token.end - start, ...constraint.split(''));
+        positions.splice(start, token.end - start, ...constraint.split('').map((_, k) => offsets[Math.min(start + k, token.end - 1)] ?? start));
+      }
+    });
+
+    decoded.route = chars.join('');
+    decoded.offsets = positions;
+    return decoded;
+  }
+
+  static sourceSpan(decoded: DecodedRoute, span: SourceSpan): SourceSpan {
+    const start = decoded.offsets[span.start] ?? span.start;
+    const last = decoded.offsets[span.end - 1];
+    return { start, end: last === undefined ? span.end : last + 1 };
+  }
+
+  private static extractPlan(text: string): { route: string; offsets: number[] } {
+    const match = /[?&#]fpl=([^&#\s]*)/.exec(text);
+    if (!match?.[1]) {
+      throw new Error('SkyVector link does not contain a flight plan (fpl=...)');
+    }
+
+    const value = match[1];
+    const base = match.index + match[0].length - value.length;
+    let route = '';
+    const offsets: number[] = [];
+
+    for (let i = 0; i < value.length;) {
+      const escapes = value.substring(i).match(/^%[0-7][0-9A-Fa-f]|^(?:%[89A-Fa-f][0-9A-Fa-f])+/)?.[0];
+      if (escapes) {
+        let decoded: string;
+        try {
+          decoded = decodeURIComponent(escapes);
+        } catch {
+          throw new Error(`SkyVector link has invalid percent-encoding: ${escapes}`);
+        }
+        route += decoded;
+        offsets.push(...decoded.split('').map(() => base + i));
+        i += escapes.length;
+        continue;
+      }
+      route += value[i] === '+' ? ' ' : value[i];
+      offsets.push(base + i);
+      i++;
+    }
+
+    return { route, offsets };
+  }
+}
@@ -0,0 +1,87 @@
+import { ConversionError, PlnOptions, QuickFix, Severity, SourceSpan } from './types.js';
+import { RouteParser } from './converter.js';
+import { CoordinateNotations } from './notation.js';
+import { RouteConverter } from './pipeline.js';
+
+export interface RouteDiagnostic {
+  severity: Severity;
+  message: string;
+  span?: SourceSpan;
+  fixes: QuickFix[];
+}
+
+const COORDINATE_PAIR = '\\d{4,6}(?:\\.\\d+)?[NS]\\d{5,7}(?:\\.\\d+)?[EW]';
+const GLUED_REGEX = new RegExp(`^(?:${COORDINATE_PAIR}){2,}$`);
+const PAIR_REGEX = new RegExp(COORDINATE_PAIR, 'g');
+
+export class RouteDiagnostics {
+  static analyze(text: string, options: PlnOptions = {}): RouteDiagnostic[] {
+    if (!text.trim()) {
+      return [];
+    }
+
+    // Terrain and airspace checks are too slow for every keystroke; they run when the route is converted.
+    const result = RouteConverter.validate(RouteConverter.parse(text), { ...options, terrainClearance: undefined });
+    const editable = result.format !== 'skyvector-url';
+    const diagnostic = (error: ConversionError): RouteDiagnostic => ({
+      severity: error.severity ?? 'error',
+      message: error.message,
+      span: error.span,
+      fixes: editable && error.span
+        ? [...(error.fixes ?? []), ...this.quickFixes(text.substring(error.span.start, error.span.end))]
+        : []
+    });
+
+    return [...result.errors, ...result.warnings].map(diagnostic);
+  }
+
+  static quickFixes(token: string): QuickFix[] {
+    const [base, annotation] = RouteParser.splitAnnotation(token);
+    const suffix = annotation === undefined ? '' : `/${annotation}`;
+    const fixes: QuickFix[] = [];
+
+    if (GLUED_REGEX.test(base)) {
+      const parts = base.match(PAIR_REGEX) ?? [];
+      fixes.push({ title: `Split into ${parts.length} coordinates`, replacement: parts.join(' ') + suffix });
+    }
+
+    const match = base.toUpperCase().match(/^(\d+)([NSEW])$/);
+    if (match) {
+      const [, digits = '', hemisphere = ''] = match;
+      const latitude = hemisphere === 'N' || hemisphere === 'S';
+      const padded = latitude
+        ? [digits.length === 3 || digits.length === 5 ? `${digits}0` : '', digits.length === 7 && digits.startsWith('0') ? digits.slice(1) : '']
+        : [digits.length === 4 || digits.length === 6 ? `0${digits}` : ''];
+      padded.filter(Boolean).forEach(candidate => {
+        fixes.push({ title: `Pad to ${candidate}${hemisphere}`, replacement: `${candidate}${hemisphere}${suffix}` });
+      });
+
+      const swapped = latitude ? ['W', 'E'] : ['N', 'S'];
+      swapped.forEach(letter => {
+        fixes.push({ title: `Change to ${digits}${letter}`, replacement: `${digits}${letter}${suffix}` });
+      });
+    }
+
+    const seen = new Set<string>();
+    return fixes.filter(fix => {
+      const [candidate = ''] = RouteParser.splitAnnotation(fix.replacement);
+      if (seen.has(fix.replacement) || candidate === base || !candidate.split(' ').every(part => this.isCoordinate(part))) {
+        return false;
+      }
+      seen.add(fix.replacement);
+      return true;
+    });
+  }
+
+  static applyFix(text: string, span: SourceSpan, fix: QuickFix): string {
+    return text.slice(0, span.start) + fix.replacement + text.slice(span.end);
+  }
+
+  private static isCoordinate(token: string): boolean {
+    try {
+      return CoordinateNotations.standard().read(token) !== undefined;
+    } catch {
+      return false;
+    }
+  }
+}
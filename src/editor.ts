@@ -0,0 +1,240 @@
+import { SourceSpan, Waypoint } from './types.js';
+import { RouteFormatter } from './converter.js';
+import { RouteDecoder } from './decoder.js';
+import { GeoMath } from './geo.js';
+
+export type RouteListener = (waypoints: Waypoint[]) => void;
+
+interface RouteDraft {
+  waypoints: Waypoint[];
+  text?: string;
+  spans: SourceSpan[];
+}
+
+const URL_SEPARATOR_REGEX = /^(?:\+|%20)+$/i;
+
+export class RouteEditor {
+  private history: RouteDraft[];
+  private cursor = 0;
+  private readonly listeners: RouteListener[] = [];
+
+  constructor(waypoints: Waypoint[] = [], private readonly historyLimit = 100) {
+    this.history = [{ waypoints: this.copy(waypoints), spans: [] }];
+  }
+
+  static nearestLeg(waypoints: Waypoint[], latitude: number, longitude: number): number | undefined {
+    let best: number | undefined;
+    let bestDetour = Infinity;
+
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const from = waypoints[i];
+      const to = waypoints[i + 1];
+      if (from?.latitude === undefined || from.longitude === undefined || to?.latitude === undefined || to.longitude === undefined) {
+        continue;
+      }
+
+      const detour = GeoMath.distanceNm(from.latitude, from.longitude, latitude, longitude)
+        + GeoMath.distanceNm(latitude, longitude, to.latitude, to.longitude)
+        - GeoMath.distanceNm(from.latitude, from.longitude, to.latitude, to.longitude);
+      if (detour < bestDetour) {
+        best = i;
+        bestDetour = detour;
+      }
+    }
+
+    return best;
+  }
+
+  get waypoints(): Waypoint[] {
+    return this.copy(this.current.waypoints);
+  }
+
+  get canUndo(): boolean {
+    return this.cursor > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.cursor < this.history.length - 1;
+  }
+
+  onChange(listener: RouteListener): void {
+    this.listeners.push(listener);
+  }
+
+  toRouteString(): string {
+    return this.current.text ?? RouteFormatter.formatRoute(this.current.waypoints);
+  }
+
+  load(waypoints: Waypoint[], text?: string, spans: SourceSpan[] = []): boolean {
+    const draft: RouteDraft = { waypoints: this.copy(waypoints), text, spans: [...spans] };
+    if (RouteFormatter.formatRoute(waypoints) === RouteFormatter.formatRoute(this.current.waypoints)) {
+      this.history[this.cursor] = draft;
+      return false;
+    }
+    if (this.current.waypoints.length === 0 && this.history.length === 1) {
+      this.history = [draft];
+      return true;
+    }
+    this.commit(draft, false);
+    return true;
+  }
+
+  insert(index: number, waypoint: Waypoint): void {
+    if (!Number.isInteger(index) || index < 0 || index > this.current.waypoints.length) {
+      throw new Error(`Cannot insert a waypoint at position ${index + 1}`);
+    }
+    this.commit(this.insertAt(this.current, index, { ...waypoint }, this.format(waypoint)));
+  }
+
+  remove(index: number): void {
+    this.require(index);
+    this.commit(this.removeAt(this.current, index));
+  }
+
+  move(from: number, to: number): void {
+    const waypoint = this.require(from);
+    this.require(to);
+    if (from === to) {
+      return;
+    }
+    const span = this.current.spans[from];
+    const token = this.editable(this.current) && span ? this.current.text?.slice(span.start, span.end) : undefined;
+    this.commit(this.insertAt(this.removeAt(this.current, from), to, { ...waypoint }, token ?? this.format(waypoint)));
+  }
+
+  moveTo(index: number, latitude: number, longitude: number): void {
+    const waypoint = this.require(index);
+    if (waypoint.type !== 'GPS') {
+      throw new Error(`Only user waypoints can be moved; "${waypoint.name}" is a named waypoint`);
+    }
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new Error('Waypoint position is out of range');
+    }
+    const moved = { ...waypoint, latitude, longitude };
+    this.commit(this.replaceAt(this.current, index, moved, this.format(moved)));
+  }
+
+  undo(): boolean {
+    if (!this.canUndo) {
+      return false;
+    }
+    this.cursor--;
+    this.notify();
+    return true;
+  }
+
+  redo(): boolean {
+    if (!this.canRedo) {
+      return false;
+    }
+    this.cursor++;
+    this.notify();
+    return true;
+  }
+
+  private get current(): RouteDraft {
+    return this.history[this.cursor] ?? { waypoints: [], spans: [] };
+  }
+
+  private require(index: number): Waypoint {
+    const waypoint = this.current.waypoints[index];
+    if (!waypoint) {
+      throw new Error(`No waypoint at position ${index + 1}`);
+    }
+    return waypoint;
+  }
+
+  private commit(draft: RouteDraft, notify = true): void {
+    this.history = this.history.slice(0, this.cursor + 1);
+    this.history.push(draft);
+    if (this.history.length > this.historyLimit + 1) {
+      this.history.shift();
+    }
+    this.cursor = this.history.length - 1;
+    if (notify) {
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    const waypoints = this.waypoints;
+    this.listeners.forEach(listener => listener(waypoints));
+  }
+
+  private copy(waypoints: Waypoint[]): Waypoint[] {
+    return waypoints.map(waypoint => ({ ...waypoint }));
+  }
+
+  private editable(draft: RouteDraft): draft is RouteDraft & { text: string } {
+    return draft.text !== undefined && draft.spans.length === draft.waypoints.length;
+  }
+
+  private format(waypoint: Waypoint): string {
+    const token = RouteFormatter.formatWaypoint(waypoint) + RouteFormatter.formatConstraint(waypoint);
+    return this.current.text !== undefined && RouteDecoder.isSkyVectorUrl(this.current.text) ? encodeURIComponent(token) : token;
+  }
+
+  private separator(draft: RouteDraft & { text: string }): string {
+    if (!RouteDecoder.isSkyVectorUrl(draft.text)) {
+      return ' ';
+    }
+    const gaps = draft.spans.slice(1)
+      .map((span, index) => draft.text.slice(draft.spans[index]?.end, span.start))
+      .filter(gap => URL_SEPARATOR_REGEX.test(gap))
+      .sort((a, b) => a.length - b.length);
+    return gaps[0] ?? '%20';
+  }
+
+  private replaceAt(draft: RouteDraft, index: number, waypoint: Waypoint, token: string): RouteDraft {
+    const waypoints = this.copy(draft.waypoints);
+    waypoints[index] = waypoint;
+    const span = draft.spans[index];
+    if (!this.editable(draft) || !span) {
+      return { waypoints, spans: [] };
+    }
+
+    const shift = token.length - (span.end - span.start);
+    const spans = draft.spans.map((other, position) => position === index
+      ? { start: span.start, end: span.start + token.length }
+      : other.start >= span.end ? { start: other.start + shift, end: other.end + shift } : other);
+    return { waypoints, text: draft.text.slice(0, span.start) + token + draft.text.slice(span.end), spans };
+  }
+
+  private removeAt(draft: RouteDraft, index: number): RouteDraft {
+    const waypoints = this.copy(draft.waypoints);
+    waypoints.splice(index, 1);
+    const span = draft.spans[index];
+    if (!this.editable(draft) || !span) {
+      return { waypoints, spans: [] };
+    }
+
+    const previous = draft.spans[index - 1];
+    const next = draft.spans[index + 1];
+    const start = !next && previous ? previous.end : span.start;
+    const end = next ? next.start : span.end;
+    const spans = draft.spans.filter((_, position) => position !== index).map(other => other.start >= end
+      ? { start: other.start - (end - start), end: other.end - (end - start) }
+      : other);
+    return { waypoints, text: draft.text.slice(0, start) + draft.text.slice(end), spans };
+  }
+
+  private insertAt(draft: RouteDraft, index: number, waypoint: Waypoint, token: string): RouteDraft {
+    const waypoints = this.copy(draft.waypoints);
+    waypoints.splice(index, 0, waypoint);
+    if (!this.editable(draft)) {
+      return { waypoints, spans: [] };
+    }
+
+    const separator = draft.spans.length > 0 ? this.separator(draft) : '';
+    const next = draft.spans[index];
+    const previous = draft.spans[index - 1];
+    const position = next?.start ?? previous?.end ?? draft.text.length;
+    const inserted = next ? token + separator : separator + token;
+    const start = next ? position : position + separator.length;
+    const spans = draft.spans.map(other => other.start >= position && next
+      ? { start: other.start + inserted.length, end: other.end + inserted.length }
+      : other);
+    spans.splice(index, 0, { start, end: start + token.length });
+    return { waypoints, text: draft.text.slice(0, position) + inserted + draft.text.slice(position), spans };
+  }
+}
@@ -0,0 +1,337 @@
+import { FlightPlan, Waypoint, NavaidType, Runway } from './types.js';
+import { PlnGenerator } from './converter.js';
+import { XmlElement, XmlWriter } from './xml.js';
+
+export interface FlightPlanExporter {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  export(plan: FlightPlan): string;
+}
+
+const AIRAC_REFERENCE = Date.UTC(2020, 0, 2);
+const AIRAC_PERIOD = 28 * 24 * 60 * 60 * 1000;
+const FEET_TO_METERS = 0.3048;
+
+const element = XmlWriter.element;
+
+const optional = (name: string, value: string | number | undefined): XmlElement[] =>
+  value === undefined || value === '' ? [] : [element(name, value)];
+
+const navaidType = (waypoint: Waypoint): NavaidType | undefined =>
+  waypoint.type === 'GPS' ? undefined : waypoint.waypointType ?? 'Airport';
+
+const identifiers = (plan: FlightPlan, maxLength?: number): (index: number) => string => {
+  const ids = PlnGenerator.waypointIds(plan, maxLength);
+  return index => ids[index] ?? `WP${index + 1}`;
+};
+
+const altitude = (waypoint: Waypoint): number | undefined =>
+  waypoint.altitude ?? (navaidType(waypoint) === 'Airport' ? waypoint.elevation : undefined);
+
+const position = (waypoint: Waypoint, id: string, format: string): { latitude: number; longitude: number } => {
+  if (waypoint.latitude === undefined || waypoint.longitude === undefined) {
+    throw new Error(`${id} has no known position; ${format} needs coordinates for every waypoint`);
+  }
+  return { latitude: waypoint.latitude, longitude: waypoint.longitude };
+};
+
+const runwayName = (runway: Runway): string =>
+  String(runway.number).padStart(2, '0') + (runway.designator === 'NONE' ? '' : runway.designator.charAt(0));
+
+const procedures = (plan: FlightPlan): { sid?: string; star?: string } => ({
+  sid: plan.waypoints.find(waypoint => waypoint.departureProcedure)?.departureProcedure,
+  star: plan.waypoints.find(waypoint => waypoint.arrivalProcedure)?.arrivalProcedure
+});
+
+export const MSFS2024_EXPORTER: FlightPlanExporter = {
+  id: 'msfs2024',
+  label: 'MSFS 2024 (.pln)',
+  extension: 'pln',
+  mimeType: 'application/xml',
+  export: plan => PlnGenerator.generateFlightPlan(plan)
+};
+
+export const MSFS2020_EXPORTER: FlightPlanExporter = {
+  id: 'msfs2020',
+  label: 'MSFS 2020 (.pln)',
+  extension: 'pln',
+  mimeType: 'application/xml',
+  export(plan) {
+    const ident = identifiers(plan);
+    const dms = (value: number, axis: 'latitude' | 'longitude'): string => {
+      const hemisphere = axis === 'latitude' ? (value < 0 ? 'S' : 'N') : (value < 0 ? 'W' : 'E');
+      const hundredths = Math.round(Math.abs(value) * 360000);
+      const degrees = Math.floor(hundredths / 360000);
+      const minutes = Math.floor((hundredths % 360000) / 6000);
+      return `${hemisphere}${degrees}° ${minutes}' ${((hundredths % 6000) / 100).toFixed(2)}"`;
+    };
+    const worldPosition = (waypoint: Waypoint | undefined): string => {
+      const feet = waypoint ? altitude(waypoint) ?? 0 : 0;
+      return `${dms(waypoint?.latitude ?? 0, 'latitude')},${dms(waypoint?.longitude ?? 0, 'longitude')},`
+        + `${feet < 0 ? '-' : '+'}${Math.abs(feet).toFixed(2).padStart(9, '0')}`;
+    };
+
+    const { waypoints } = plan;
+    const atcWaypoint = (waypoint: Waypoint, index: number): XmlElement[] => {
+      const type = navaidType(waypoint);
+      if (!type && (waypoint.latitude === undefined || waypoint.longitude === undefined)) {
+        return [];
+      }
+      const hasPosition = waypoint.latitude !== undefined && waypoint.longitude !== undefined;
+      const runway = index === 0 ? plan.departureRunway : index === waypoints.length - 1 ? plan.arrivalRunway : undefined;
+      const onRunway = runway !== undefined && type === 'Airport';
+      return [element('ATCWaypoint', [
+        element('ATCWaypointType', type ?? 'User'),
+        ...optional('WorldPosition', hasPosition ? worldPosition(waypoint) : undefined),
+        ...optional('ATCAirway', waypoint.airway),
+        ...optional('DepartureFP', waypoint.departureProcedure),
+        ...optional('ArrivalFP', waypoint.arrivalProcedure),
+        ...optional('RunwayNumberFP', onRunway ? runway.number : undefined),
+        ...optional('RunwayDesignatorFP', onRunway ? runway.designator : undefined),
+        ...(type && waypoint.name ? [element('ICAO', [...optional('ICAORegion', waypoint.region), element('ICAOIdent', waypoint.name)])] : [])
+      ], { id: ident(index) })];
+    };
+
+    return XmlWriter.serialize(element('SimBase.Document', [
+      element('Descr', 'AceXML Document'),
+      element('FlightPlan.FlightPlan', [
+        element('Title', plan.title),
+        element('FPType', plan.fpType ?? 'VFR'),
+        element('RouteType', plan.routeType ?? 'Direct'),
+        element('CruisingAlt', (plan.cruisingAlt ?? 3500).toFixed(3)),
+        element('DepartureID', plan.departureId),
+        element('DepartureLLA', worldPosition(waypoints[0])),
+        element('DestinationID', plan.arrivalId),
+        element('DestinationLLA', worldPosition(waypoints[waypoints.length - 1])),
+        element('Descr', plan.description ?? `${plan.departureId}, ${plan.arrivalId}`),
+        ...optional('DeparturePosition', plan.departurePosition),
+        element('AppVersion', [element('AppVersionMajor', 11), element('AppVersionBuild', 282174)]),
+        ...waypoints.flatMap(atcWaypoint)
+      ])
+    ], { Type: 'AceXML', version: '1,0' }), '    ');
+  }
+};
+
+export const GARMIN_FPL_EXPORTER: FlightPlanExporter = {
+  id: 'garmin',
+  label: 'Garmin (.fpl)',
+  extension: 'fpl',
+  mimeType: 'application/xml',
+  export(plan) {
+    const ident = identifiers(plan, 6);
+    const types: Record<NavaidType, string> = { Airport: 'AIRPORT', VOR: 'VOR', NDB: 'NDB', Intersection: 'INT' };
+    const points = plan.waypoints.map((waypoint, index) => {
+      const type = navaidType(waypoint);
+      return {
+        identifier: ident(index).toUpperCase().replace(/[^A-Z0-9]/g, '').substring(0, 6),
+        type: type ? types[type] : 'USER WAYPOINT',
+        country: type ? waypoint.region ?? '' : '',
+        ...position(waypoint, ident(index), 'Garmin FPL')
+      };
+    });
+
+    const seen = new Set<string>();
+    const table = points.filter(point => {
+      const key = `${point.identifier}|${point.type}|${point.country}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+    return XmlWriter.serialize(element('flight-plan', [
+      element('waypoint-table', table.map(point => element('waypoint', [
+        element('identifier', point.identifier),
+        element('type', point.type),
+        element('country-code', point.country),
+        element('lat', point.latitude),
+        element('lon', point.longitude),
+        element('comment')
+      ]))),
+      element('route', [
+        element('route-name', plan.title.toUpperCase().replace(/[^A-Z0-9 ]/g, '').replace(/\s+/g, ' ').substring(0, 25).trim()),
+        element('flight-plan-index', 1),
+        ...points.map(point => element('route-point', [
+          element('waypoint-identifier', point.identifier),
+          element('waypoint-type', point.type),
+          element('waypoint-country-code', point.country)
+        ]))
+      ])
+    ], { xmlns: 'http://www8.garmin.com/xmlschemas/FlightPlan/v1' }));
+  }
+};
+
+export const XPLANE_FMS_EXPORTER: FlightPlanExporter = {
+  id: 'xplane',
+  label: 'X-Plane 11/12 (.fms)',
+  extension: 'fms',
+  mimeType: 'text/plain',
+  export(plan) {
+    const ident = identifiers(plan);
+    const codes: Record<NavaidType, number> = { Airport: 1, NDB: 2, VOR: 3, Intersection: 11 };
+    const { waypoints } = plan;
+    const first = waypoints[0];
+    const last = waypoints[waypoints.length - 1];
+    const fromAirport = first !== undefined && navaidType(first) === 'Airport';
+    const toAirport = last !== undefined && waypoints.length > 1 && navaidType(last) === 'Airport';
+    const { sid, star } = procedures(plan);
+
+    const lines = ['I', '1100 Version', `CYCLE ${FlightPlanExporters.airacCycle(new Date())}`];
+    if (first) {
+      lines.push(`${fromAirport ? 'ADEP' : 'DEP'} ${ident(0)}`);
+    }
+    if (fromAirport && plan.departureRunway) {
+      lines.push(`DEPRWY RW${runwayName(plan.departureRunway)}`);
+    }
+    if (sid) {
+      lines.push(`SID ${sid}`);
+    }
+    if (last) {
+      lines.push(`${toAirport ? 'ADES' : 'DES'} ${ident(waypoints.length - 1)}`);
+    }
+    if (toAirport && plan.arrivalRunway) {
+      lines.push(`DESRWY RW${runwayName(plan.arrivalRunway)}`);
+    }
+    if (star) {
+      lines.push(`STAR ${star}`);
+    }
+    lines.push(`NUMENR ${waypoints.length}`);
+
+    waypoints.forEach((waypoint, index) => {
+      const type = navaidType(waypoint);
+      const { latitude, longitude } = position(waypoint, ident(index), 'X-Plane FMS');
+      const via = index === 0 && fromAirport ? 'ADEP'
+        : index === waypoints.length - 1 && toAirport ? 'ADES'
+        : waypoint.airway ?? 'DRCT';
+      lines.push([
+        type ? codes[type] : 28,
+        ident(index),
+        via,
+        (altitude(waypoint) ?? 0).toFixed(6),
+        latitude.toFixed(6),
+        longitude.toFixed(6)
+      ].join(' '));
+    });
+
+    return lines.join('\n') + '\n';
+  }
+};
+
+export const GPX_EXPORTER: FlightPlanExporter = {
+  id: 'gpx',
+  label: 'GPX 1.1 route (.gpx)',
+  extension: 'gpx',
+  mimeType: 'application/gpx+xml',
+  export(plan) {
+    const ident = identifiers(plan);
+    const points = plan.waypoints.map((waypoint, index) => {
+      const { latitude, longitude } = position(waypoint, ident(index), 'GPX');
+      const feet = altitude(waypoint);
+      return element('rtept', [
+        ...optional('ele', feet === undefined ? undefined : (feet * FEET_TO_METERS).toFixed(1)),
+        element('name', ident(index)),
+        ...optional('desc', waypoint.airway && `via ${waypoint.airway}`),
+        element('type', navaidType(waypoint) ?? 'User')
+      ], { lat: String(latitude), lon: String(longitude) });
+    });
+
+    return XmlWriter.serialize(element('gpx', [
+      element('rte', [element('name', plan.title), ...optional('desc', plan.description), ...points])
+    ], { version: '1.1', creator: 'SkyVector to MSFS 2024', xmlns: 'http://www.topografix.com/GPX/1/1' }));
+  }
+};
+
+export const LNM_EXPORTER: FlightPlanExporter = {
+  id: 'lnm',
+  label: 'Little Navmap (.lnmpln)',
+  extension: 'lnmpln',
+  mimeType: 'application/xml',
+  export(plan) {
+    const ident = identifiers(plan);
+    const types: Record<NavaidType, string> = { Airport: 'AIRPORT', VOR: 'VOR', NDB: 'NDB', Intersection: 'WAYPOINT' };
+    const pos = (waypoint: Waypoint, index: number): XmlElement => {
+      const { latitude, longitude } = position(waypoint, ident(index), 'Little Navmap');
+      return element('Pos', '', { Lon: longitude.toFixed(6), Lat: latitude.toFixed(6), Alt: (altitude(waypoint) ?? 0).toFixed(2) });
+    };
+    const procedure = (name: string, procedureName: string | undefined, runway: Runway | undefined): XmlElement[] =>
+      procedureName ? [element(name, [element('Name', procedureName), ...optional('Runway', runway && runwayName(runway))])] : [];
+    const { waypoints } = plan;
+    const { sid, star } = procedures(plan);
+    const first = waypoints[0];
+
+    return XmlWriter.serialize(element('LittleNavmap', [
+      element('Flightplan', [
+        element('Header', [
+          element('FlightplanType', plan.fpType ?? 'VFR'),
+          element('CruisingAlt', plan.cruisingAlt ?? 3500),
+          element('FileVersion', '1.0'),
+          element('Documentation', 'https://www.littlenavmap.org/lnmpln.html')
+        ]),
+        ...(first ? [element('Departure', [pos(first, 0), ...optional('Start', plan.departurePosition)])] : []),
+        ...(sid || star
+          ? [element('Procedures', [...procedure('SID', sid, plan.departureRunway), ...procedure('STAR', star, plan.arrivalRunway)])]
+          : []),
+        element('Waypoints', waypoints.map((waypoint, index) => {
+          const type = navaidType(waypoint);
+          return element('Waypoint', [
+            element('Ident', ident(index)),
+            ...optional('Region', type ? waypoint.region : undefined),
+            ...optional('Airway', waypoint.airway),
+            element('Type', type ? types[type] : 'USER'),
+            pos(waypoint, index)
+          ]);
+        }))
+      ])
+    ], {
+      'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      'xsi:noNamespaceSchemaLocation': 'https://www.littlenavmap.org/schema/lnmpln.xsd'
+    }));
+  }
+};
+
+export class FlightPlanExporters {
+  private static standardRegistry: FlightPlanExporters | undefined;
+  private readonly exporters: FlightPlanExporter[] = [];
+
+  constructor(exporters: FlightPlanExporter[] = []) {
+    exporters.forEach(exporter => this.register(exporter));
+  }
+
+  static standard(): FlightPlanExporters {
+    if (!this.standardRegistry) {
+      this.standardRegistry = new FlightPlanExporters([
+        MSFS2024_EXPORTER, MSFS2020_EXPORTER, GARMIN_FPL_EXPORTER, XPLANE_FMS_EXPORTER, GPX_EXPORTER, LNM_EXPORTER
+      ]);
+    }
+    return this.standardRegistry;
+  }
+
+  static airacCycle(date: Date): string {
+    const cycle = Math.floor((date.getTime() - AIRAC_REFERENCE) / AIRAC_PERIOD);
+    const year = new Date(AIRAC_REFERENCE + cycle * AIRAC_PERIOD).getUTCFullYear();
+    const firstOfYear = Math.ceil((Date.UTC(year, 0, 1) - AIRAC_REFERENCE) / AIRAC_PERIOD);
+    return String(year % 100).padStart(2, '0') + String(cycle - firstOfYear + 1).padStart(2, '0');
+  }
+
+  register(exporter: FlightPlanExporter): void {
+    if (this.exporters.some(existing => existing.id === exporter.id)) {
+      throw new Error(`Exporter "${exporter.id}" is already registered`);
+    }
+    this.exporters.push(exporter);
+  }
+
+  get all(): FlightPlanExporter[] {
+    return [...this.exporters];
+  }
+
+  get(id: string): FlightPlanExporter {
+    const exporter = this.exporters.find(candidate => candidate.id === id.toLowerCase());
+    if (!exporter) {
+      throw new Error(`Unknown export format "${id}". Available formats: ${this.exporters.map(candidate => candidate.id).join(', ')}`);
+    }
+    return exporter;
+  }
+}
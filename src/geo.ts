@@ -0,0 +1,74 @@
+export const EARTH_RADIUS_NM = 3440.065;
+
+export class GeoMath {
+  static toRadians(degrees: number): number {
+    return degrees * Math.PI / 180;
+  }
+
+  static toDegrees(radians: number): number {
+    return radians * 180 / Math.PI;
+  }
+
+  static distanceNm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const phi1 = this.toRadians(lat1);
+    const phi2 = this.toRadians(lat2);
+    const dPhi = this.toRadians(lat2 - lat1);
+    const dLambda = this.toRadians(lon2 - lon1);
+
+    const a = Math.sin(dPhi / 2) ** 2 +
+      Math.cos(phi1) * Math.cos(phi2) * Math.sin(dLambda / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_NM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  static initialBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const phi1 = this.toRadians(lat1);
+    const phi2 = this.toRadians(lat2);
+    const dLambda = this.toRadians(lon2 - lon1);
+
+    const y = Math.sin(dLambda) * Math.cos(phi2);
+    const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLambda);
+
+    return (this.toDegrees(Math.atan2(y, x)) + 360) % 360;
+  }
+
+  static intermediatePoint(lat1: number, lon1: number, lat2: number, lon2: number, fraction: number): { latitude: number; longitude: number } {
+    const phi1 = this.toRadians(lat1);
+    const phi2 = this.toRadians(lat2);
+    const lambda1 = this.toRadians(lon1);
+    const lambda2 = this.toRadians(lon2);
+    const delta = this.distanceNm(lat1, lon1, lat2, lon2) / EARTH_RADIUS_NM;
+    if (delta === 0) {
+      return { latitude: lat1, longitude: lon1 };
+    }
+
+    const a = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+    const b = Math.sin(fraction * delta) / Math.sin(delta);
+    const x = a * Math.cos(phi1) * Math.cos(lambda1) + b * Math.cos(phi2) * Math.cos(lambda2);
+    const y = a * Math.cos(phi1) * Math.sin(lambda1) + b * Math.cos(phi2) * Math.sin(lambda2);
+    const z = a * Math.sin(phi1) + b * Math.sin(phi2);
+
+    return {
+      latitude: this.toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+      longitude: this.toDegrees(Math.atan2(y, x))
+    };
+  }
+
+  static destination(lat: number, lon: number, bearing: number, distanceNm: number): { latitude: number; longitude: number } {
+    const phi1 = this.toRadians(lat);
+    const lambda1 = this.toRadians(lon);
+    const theta = this.toRadians(bearing);
+    const delta = distanceNm / EARTH_RADIUS_NM;
+
+    const phi2 = Math.asin(Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta));
+    const lambda2 = lambda1 + Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+      Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+    );
+
+    return {
+      latitude: this.toDegrees(phi2),
+      longitude: ((this.toDegrees(lambda2) + 540) % 360) - 180
+    };
+  }
+}
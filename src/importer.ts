@@ -0,0 +1,494 @@
+import { Waypoint, WaypointConstraint, AltitudeConstraint, FlightPlan, NavaidType, FlightType, RouteType } from './types.js';
+import { XmlParser, XmlElement } from './xml.js';
+import { GeoMath } from './geo.js';
+
+export interface WorldPosition {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+}
+
+const NAVAID_TYPES: NavaidType[] = ['Airport', 'VOR', 'NDB', 'Intersection'];
+const FLIGHT_TYPES: FlightType[] = ['VFR', 'IFR'];
+const ROUTE_TYPES: RouteType[] = ['Direct', 'VOR', 'LowAlt', 'HighAlt'];
+const ALTITUDE_CONSTRAINTS: AltitudeConstraint[] = ['AT', 'AT_OR_ABOVE', 'AT_OR_BELOW'];
+
+const GENERATED_ID_REGEX = /^WP\d+$/;
+const DMS_REGEX = /^([NSEW])\s*(\d+(?:\.\d+)?)°?\s*(?:(\d+(?:\.\d+)?)'?\s*)?(?:(\d+(?:\.\d+)?)"?)?$/;
+
+export class PlnParser {
+  static isPln(text: string): boolean {
+    return /<SimBase\.Document[\s>]/.test(text) || /<FlightPlan\.FlightPlan[\s>]/.test(text);
+  }
+
+  static parsePosition(value: string): WorldPosition {
+    const parts = value.split(',').map(part => part.trim());
+    if (parts.length < 2) {
+      throw new Error(`Invalid world position: ${value}`);
+    }
+
+    const latitude = this.parseAngle(parts[0] ?? '', 'latitude');
+    const longitude = this.parseAngle(parts[1] ?? '', 'longitude');
+    const altitude = parts[2] ? parseFloat(parts[2]) : 0;
+
+    if (Number.isNaN(altitude)) {
+      throw new Error(`Invalid altitude in world position: ${value}`);
+    }
+
+    return { latitude, longitude, altitude };
+  }
+
+  static parsePln(text: string): FlightPlan {
+    const root = XmlParser.parse(text);
+    const plan = root.name === 'FlightPlan.FlightPlan'
+      ? root
+      : XmlParser.findChild(root, 'FlightPlan.FlightPlan');
+
+    if (!plan) {
+      throw new Error('PLN file does not contain a FlightPlan.FlightPlan element');
+    }
+
+    const departureId = XmlParser.childText(plan, 'DepartureID') ?? '';
+    const arrivalId = XmlParser.childText(plan, 'DestinationID') ?? '';
+    const waypointList = XmlParser.findChild(plan, 'ATCWaypointList') ?? plan;
+    const waypoints = XmlParser.findChildren(waypointList, 'ATCWaypoint').map(element => this.parseWaypoint(element));
+
+    const flightPlan: FlightPlan = {
+      title: XmlParser.childText(plan, 'Title') ?? `${departureId} to ${arrivalId}`,
+      departureId,
+      arrivalId,
+      departureLLA: XmlParser.childText(plan, 'DepartureLLA') ?? '',
+      destinationLLA: XmlParser.childText(plan, 'DestinationLLA') ?? '',
+      waypoints
+    };
+
+    const fpType = FLIGHT_TYPES.find(type => type === XmlParser.childText(plan, 'FPType'));
+    if (fpType) {
+      flightPlan.fpType = fpType;
+    }
+    const routeType = ROUTE_TYPES.find(type => type === XmlParser.childText(plan, 'RouteType'));
+    if (routeType) {
+      flightPlan.routeType = routeType;
+    }
+    const cruisingAlt = parseFloat(XmlParser.childText(plan, 'CruisingAlt') ?? '');
+    if (!Number.isNaN(cruisingAlt)) {
+      flightPlan.cruisingAlt = cruisingAlt;
+    }
+    const description = XmlParser.childText(plan, 'Descr');
+    if (description) {
+      flightPlan.description = description;
+    }
+
+    return flightPlan;
+  }
+
+  private static parseWaypoint(element: XmlElement): Waypoint {
+    const waypointType = XmlParser.childText(element, 'ATCWaypointType') ?? 'User';
+    const worldPosition = XmlParser.childText(element, 'WorldPosition');
+    const position = worldPosition ? this.parsePosition(worldPosition) : undefined;
+
+    if (waypointType === 'User') {
+      if (!position) {
+        throw new Error(`User waypoint "${element.attributes.id ?? ''}" has no WorldPosition`);
+      }
+      const constraint = this.parseConstraint(element);
+      if (constraint.altitude === undefined && position.altitude !== 0) {
+        constraint.altitude = position.altitude;
+        constraint.altitudeConstraint = 'AT';
+      }
+      const id = element.attributes.id;
+      return {
+        type: 'GPS',
+        ...(id && !GENERATED_ID_REGEX.test(id) ? { name: id } : {}),
+        latitude: position.latitude,
+        longitude: position.longitude,
+        ...constraint
+      };
+    }
+
+    const icao = XmlParser.findChild(element, 'ICAO');
+    const name = (icao && XmlParser.childText(icao, 'ICAOIdent')) || element.attributes.id;
+    if (!name) {
+      throw new Error(`${waypointType} waypoint has no identifier`);
+    }
+
+    const waypoint: Waypoint = {
+      type: 'NAMED',
+      name: name.toUpperCase(),
+      ...this.parseConstraint(element),
+      ...this.parseRouting(element)
+    };
+    const navaidType = NAVAID_TYPES.find(type => type === waypointType);
+    if (navaidType) {
+      waypoint.waypointType = navaidType;
+    }
+    const region = icao && XmlParser.childText(icao, 'ICAORegion');
+    if (region) {
+      waypoint.region = region;
+    }
+    if (position) {
+      waypoint.latitude = position.latitude;
+      waypoint.longitude = position.longitude;
+    }
+    return waypoint;
+  }
+
+  private static parseRouting(element: XmlElement): Pick<Waypoint, 'airway' | 'departureProcedure' | 'arrivalProcedure'> {
+    const routing: Pick<Waypoint, 'airway' | 'departureProcedure' | 'arrivalProcedure'> = {};
+    const airway = XmlParser.childText(element, 'ATCAirway');
+    const departureProcedure = XmlParser.childText(element, 'DepartureFP');
+    const arrivalProcedure = XmlParser.childText(element, 'ArrivalFP');
+    if (airway) {
+      routing.airway = airway;
+    }
+    if (departureProcedure) {
+      routing.departureProcedure = departureProcedure;
+    }
+    if (arrivalProcedure) {
+      routing.arrivalProcedure = arrivalProcedure;
+    }
+    return routing;
+  }
+
+  private static parseConstraint(element: XmlElement): WaypointConstraint {
+    const constraint: WaypointConstraint = {};
+
+    const speed = parseFloat(XmlParser.childText(element, 'SpeedMaxFP') ?? '');
+    if (speed > 0) {
+      constraint.speed = speed;
+    }
+
+    const altitude = parseFloat(XmlParser.childText(element, 'Alt1FP') ?? '');
+    if (!Number.isNaN(altitude)) {
+      constraint.altitude = altitude;
+      constraint.altitudeConstraint = ALTITUDE_CONSTRAINTS.find(
+        type => type === XmlParser.childText(element, 'AltDescFP')
+      ) ?? 'AT';
+    }
+
+    return constraint;
+  }
+
+  private static parseAngle(value: string, type: 'latitude' | 'longitude'): number {
+    let decimal: number;
+
+    const match = value.match(DMS_REGEX);
+    if (match) {
+      const [, hemisphere = '', degStr = '0', minStr = '0', secStr = '0'] = match;
+      const validHemispheres = type === 'latitude' ? ['N', 'S'] : ['E', 'W'];
+      if (!validHemispheres.includes(hemisphere)) {
+        throw new Error(`Invalid ${type} hemisphere: ${value}`);
+      }
+      decimal = parseFloat(degStr) + parseFloat(minStr) / 60 + parseFloat(secStr) / 3600;
+      if (hemisphere === 'S' || hemisphere === 'W') {
+        decimal = -decimal;
+      }
+    } else if (/^[+-]?\d+(?:\.\d+)?$/.test(value)) {
+      decimal = parseFloat(value);
+    } else {
+      throw new Error(`Invalid ${type}: ${value}`);
+    }
+
+    const limit = type === 'latitude' ? 90 : 180;
+    if (Math.abs(decimal) > limit) {
+      throw new Error(`${type === 'latitude' ? 'Latitude' : 'Longitude'} out of range: ${value}`);
+    }
+
+    return Math.round(decimal * 1000000) / 1000000;
+  }
+}
+
+export interface FlightPlanImporter {
+  id: string;
+  label: string;
+  extensions: string[];
+  sniff(text: string): boolean;
+  import(text: string): Waypoint[];
+}
+
+const METERS_TO_FEET = 1 / 0.3048;
+const TRACK_SPACING_NM = 2;
+
+const coordinate = (value: string | undefined, type: 'latitude' | 'longitude', format: string): number => {
+  const decimal = parseFloat(value ?? '');
+  if (Number.isNaN(decimal) || Math.abs(decimal) > (type === 'latitude' ? 90 : 180)) {
+    throw new Error(`Invalid ${type} in ${format} file: ${value ?? '(missing)'}`);
+  }
+  return Math.round(decimal * 1000000) / 1000000;
+};
+
+const located = (
+  type: NavaidType | undefined,
+  ident: string,
+  latitude: number,
+  longitude: number
+): Waypoint => {
+  const waypoint: Waypoint = type
+    ? { type: 'NAMED', name: ident.toUpperCase(), waypointType: type, latitude, longitude }
+    : { type: 'GPS', latitude, longitude };
+  if (!type && ident) {
+    waypoint.name = ident;
+  }
+  return waypoint;
+};
+
+const withProcedures = (waypoints: Waypoint[], format: string, sid?: string, star?: string): Waypoint[] => {
+  if (waypoints.length === 0) {
+    throw new Error(`${format} file contains no waypoints`);
+  }
+  const first = waypoints[0];
+  const last = waypoints[waypoints.length - 1];
+  if (sid && first?.type === 'NAMED') {
+    first.departureProcedure = sid;
+  }
+  if (star && last?.type === 'NAMED' && waypoints.length > 1) {
+    last.arrivalProcedure = star;
+  }
+  return waypoints;
+};
+
+const thinTrack = (waypoints: Waypoint[]): Waypoint[] => {
+  let previous: Waypoint | undefined;
+  return waypoints.filter((waypoint, index) => {
+    const keep = !previous || index === waypoints.length - 1 || GeoMath.distanceNm(
+      previous.latitude ?? 0, previous.longitude ?? 0, waypoint.latitude ?? 0, waypoint.longitude ?? 0
+    ) >= TRACK_SPACING_NM;
+    if (keep) {
+      previous = waypoint;
+    }
+    return keep;
+  });
+};
+
+export const PLN_IMPORTER: FlightPlanImporter = {
+  id: 'pln',
+  label: 'MSFS .PLN',
+  extensions: ['pln'],
+  sniff: text => PlnParser.isPln(text),
+  import: text => PlnParser.parsePln(text).waypoints
+};
+
+export const GPX_IMPORTER: FlightPlanImporter = {
+  id: 'gpx',
+  label: 'GPX',
+  extensions: ['gpx'],
+  sniff: text => /<gpx[\s>]/.test(text),
+  import(text) {
+    const root = XmlParser.parse(text);
+    if (root.name !== 'gpx') {
+      throw new Error('GPX file does not contain a gpx element');
+    }
+
+    const route = XmlParser.findChild(root, 'rte');
+    const track = XmlParser.findChild(root, 'trk');
+    const points = route
+      ? XmlParser.findChildren(route, 'rtept')
+      : track
+        ? XmlParser.findChildren(track, 'trkseg').flatMap(segment => XmlParser.findChildren(segment, 'trkpt'))
+        : XmlParser.findChildren(root, 'wpt');
+
+    const waypoints = points.map(element => {
+      const name = XmlParser.childText(element, 'name')?.trim() ?? '';
+      const type = NAVAID_TYPES.find(candidate => candidate === XmlParser.childText(element, 'type')?.trim());
+      const waypoint = located(
+        type && /^[A-Z0-9]{2,5}$/i.test(name) ? type : undefined,
+        name,
+        coordinate(element.attributes.lat, 'latitude', 'GPX'),
+        coordinate(element.attributes.lon, 'longitude', 'GPX')
+      );
+      const elevation = parseFloat(XmlParser.childText(element, 'ele') ?? '');
+      if (!Number.isNaN(elevation)) {
+        waypoint.elevation = Math.round(elevation * METERS_TO_FEET);
+      }
+      return waypoint;
+    });
+
+    return withProcedures(route || !track ? waypoints : thinTrack(waypoints), 'GPX');
+  }
+};
+
+export const GARMIN_FPL_IMPORTER: FlightPlanImporter = {
+  id: 'garmin',
+  label: 'Garmin FPL',
+  extensions: ['fpl'],
+  sniff: text => /<flight-plan[\s>]/.test(text),
+  import(text) {
+    const types: Record<string, NavaidType> = { AIRPORT: 'Airport', VOR: 'VOR', NDB: 'NDB', INT: 'Intersection', 'INT-VRP': 'Intersection' };
+    const root = XmlParser.parse(text);
+    const table = XmlParser.findChild(root, 'waypoint-table');
+    const route = XmlParser.findChild(root, 'route');
+    if (root.name !== 'flight-plan' || !table || !route) {
+      throw new Error('Garmin FPL file needs a waypoint-table and a route');
+    }
+
+    const key = (ident: string | undefined, type: string | undefined, country: string | undefined) =>
+      `${ident?.trim() ?? ''}|${type?.trim() ?? ''}|${country?.trim() ?? ''}`;
+    const entries = new Map(XmlParser.findChildren(table, 'waypoint').map(element => [
+      key(XmlParser.childText(element, 'identifier'), XmlParser.childText(element, 'type'), XmlParser.childText(element, 'country-code')),
+      element
+    ]));
+
+    const waypoints = XmlParser.findChildren(route, 'route-point').map(point => {
+      const ident = XmlParser.childText(point, 'waypoint-identifier')?.trim() ?? '';
+      const typeName = XmlParser.childText(point, 'waypoint-type')?.trim() ?? '';
+      const country = XmlParser.childText(point, 'waypoint-country-code')?.trim() ?? '';
+      const entry = entries.get(key(ident, typeName, country));
+      if (!entry) {
+        throw new Error(`Garmin FPL route point "${ident}" is not in the waypoint table`);
+      }
+
+      const waypoint = located(
+        types[typeName],
+        ident,
+        coordinate(XmlParser.childText(entry, 'lat'), 'latitude', 'Garmin FPL'),
+        coordinate(XmlParser.childText(entry, 'lon'), 'longitude', 'Garmin FPL')
+      );
+      if (waypoint.type === 'NAMED' && country) {
+        waypoint.region = country;
+      }
+      return waypoint;
+    });
+
+    return withProcedures(waypoints, 'Garmin FPL');
+  }
+};
+
+export const XPLANE_FMS_IMPORTER: FlightPlanImporter = {
+  id: 'xplane',
+  label: 'X-Plane FMS',
+  extensions: ['fms'],
+  sniff: text => /^\s*[IA]\s*\r?\n\s*(?:3|1100)\s+version/i.test(text),
+  import(text) {
+    const codes: Record<string, NavaidType> = { 1: 'Airport', 2: 'NDB', 3: 'VOR', 11: 'Intersection' };
+    const lines = text.split(/\r?\n/).map(line => line.trim().split(/\s+/));
+    const version = lines[1]?.[0];
+    if (version !== '3' && version !== '1100') {
+      throw new Error('X-Plane FMS file must be version 3 or 1100');
+    }
+
+    let sid: string | undefined;
+    let star: string | undefined;
+    const waypoints: Waypoint[] = [];
+    lines.slice(2).forEach(fields => {
+      const [first = '', second] = fields;
+      if (first === 'SID') {
+        sid = second;
+      } else if (first === 'STAR') {
+        star = second;
+      } else if (/^\d+$/.test(first) && fields.length >= (version === '3' ? 5 : 6)) {
+        const [, ident = '', ...rest] = fields;
+        const [via, altitude = '', latitude, longitude] = version === '3' ? [undefined, ...rest] : rest;
+        const type = codes[first];
+        const waypoint = located(
+          type,
+          ident,
+          coordinate(latitude, 'latitude', 'X-Plane FMS'),
+          coordinate(longitude, 'longitude', 'X-Plane FMS')
+        );
+        const feet = parseFloat(altitude);
+        if (type === 'Airport' && !Number.isNaN(feet)) {
+          waypoint.elevation = feet;
+        } else if (!type && feet > 0) {
+          waypoint.altitude = feet;
+          waypoint.altitudeConstraint = 'AT';
+        }
+        if (via && !['ADEP', 'ADES', 'DRCT', 'DEP', 'DES'].includes(via)) {
+          waypoint.airway = via;
+        }
+        waypoints.push(waypoint);
+      }
+    });
+
+    return withProcedures(waypoints, 'X-Plane FMS', sid, star);
+  }
+};
+
+export const LNM_IMPORTER: FlightPlanImporter = {
+  id: 'lnm',
+  label: 'Little Navmap',
+  extensions: ['lnmpln'],
+  sniff: text => /<LittleNavmap[\s>]/.test(text),
+  import(text) {
+    const types: Record<string, NavaidType> = { AIRPORT: 'Airport', VOR: 'VOR', NDB: 'NDB', WAYPOINT: 'Intersection' };
+    const root = XmlParser.parse(text);
+    const plan = XmlParser.findChild(root, 'Flightplan');
+    const list = plan && XmlParser.findChild(plan, 'Waypoints');
+    if (root.name !== 'LittleNavmap' || !plan || !list) {
+      throw new Error('Little Navmap file does not contain a Flightplan with Waypoints');
+    }
+
+    const waypoints = XmlParser.findChildren(list, 'Waypoint').map(element => {
+      const position = XmlParser.findChild(element, 'Pos');
+      const type = types[XmlParser.childText(element, 'Type')?.trim() ?? ''];
+      const ident = XmlParser.childText(element, 'Ident')?.trim() ?? '';
+      const waypoint = located(
+        type,
+        type ? ident : XmlParser.childText(element, 'Name')?.trim() || ident,
+        coordinate(position?.attributes.Lat, 'latitude', 'Little Navmap'),
+        coordinate(position?.attributes.Lon, 'longitude', 'Little Navmap')
+      );
+      const region = XmlParser.childText(element, 'Region')?.trim();
+      const airway = XmlParser.childText(element, 'Airway')?.trim();
+      const feet = parseFloat(position?.attributes.Alt ?? '');
+      if (type && region) {
+        waypoint.region = region;
+      }
+      if (airway) {
+        waypoint.airway = airway;
+      }
+      if (type === 'Airport' && !Number.isNaN(feet)) {
+        waypoint.elevation = feet;
+      } else if (!type && feet > 0) {
+        waypoint.altitude = feet;
+        waypoint.altitudeConstraint = 'AT';
+      }
+      return waypoint;
+    });
+
+    const procedures = XmlParser.findChild(plan, 'Procedures');
+    const procedure = (name: string) => {
+      const element = procedures && XmlParser.findChild(procedures, name);
+      return element && XmlParser.childText(element, 'Name')?.trim();
+    };
+    return withProcedures(waypoints, 'Little Navmap', procedure('SID'), procedure('STAR'));
+  }
+};
+
+export class FlightPlanImporters {
+  private static standardRegistry: FlightPlanImporters | undefined;
+  private readonly importers: FlightPlanImporter[] = [];
+
+  constructor(importers: FlightPlanImporter[] = []) {
+    importers.forEach(importer => this.register(importer));
+  }
+
+  static standard(): FlightPlanImporters {
+    if (!this.standardRegistry) {
+      this.standardRegistry = new FlightPlanImporters([
+        PLN_IMPORTER, GPX_IMPORTER, GARMIN_FPL_IMPORTER, XPLANE_FMS_IMPORTER, LNM_IMPORTER
+      ]);
+    }
+    return this.standardRegistry;
+  }
+
+  register(importer: FlightPlanImporter): void {
+    if (this.importers.some(existing => existing.id === importer.id)) {
+      throw new Error(`Importer "${importer.id}" is already registered`);
+    }
+    this.importers.push(importer);
+  }
+
+  get all(): FlightPlanImporter[] {
+    return [...this.importers];
+  }
+
+  get extensions(): string[] {
+    return this.importers.flatMap(importer => importer.extensions);
+  }
+
+  detect(fileName: string, text: string): FlightPlanImporter | undefined {
+    const extension = fileName.toLowerCase().match(/\.([^./\\]+)$/)?.[1];
+    return this.importers.find(importer => extension !== undefined && importer.extensions.includes(extension))
+      ?? this.importers.find(importer => importer.sniff(text));
+  }
+}
@@ -0,0 +1,63 @@
+import { PlnOptions } from './types.js';
+import { NavDatabase } from './navdata.js';
+import { AirwayDatabase } from './airways.js';
+import { ConversionResult, RouteCheckData, RouteConverter } from './pipeline.js';
+
+export type {
+  AltitudeConstraint,
+  ConversionError,
+  FlightPlan,
+  FlightType,
+  NavaidRecord,
+  NavaidType,
+  PlnOptions,
+  QuickFix,
+  RouteType,
+  Runway,
+  Severity,
+  SourceSpan,
+  Waypoint,
+  WaypointConstraint,
+  WaypointType
+} from './types.js';
+export type { ConversionResult, ConversionStage, RouteCheckData } from './pipeline.js';
+export type { DecodedRoute, RouteInputFormat, SpeedLevel } from './decoder.js';
+export type { FlightPlanExporter } from './exporters.js';
+export type { FlightPlanImporter } from './importer.js';
+export type { AnalysisOptions, LegAnalysis, RouteAnalysis } from './analysis.js';
+export type { Airspace, AirspaceCrossing, AltitudeLimit } from './airspace.js';
+export type { TerrainLeg, TerrainProfile, TerrainSample } from './terrain.js';
+
+export { RouteConverter } from './pipeline.js';
+export { NavDatabase } from './navdata.js';
+export { AirwayDatabase } from './airways.js';
+export { CoordinateConverter, RouteFormatter } from './converter.js';
+export { FlightPlanExporters } from './exporters.js';
+export { FlightPlanImporters } from './importer.js';
+export { RouteAnalyzer } from './analysis.js';
+export { MagneticModel } from './magvar.js';
+export { DEFAULT_TERRAIN_CLEARANCE, ElevationGrid, TerrainAnalyzer, TerrainModel } from './terrain.js';
+export { AirspaceChecker, AirspaceDatabase, FLAGGED_AIRSPACE_CLASSES } from './airspace.js';
+
+export interface ConvertOptions extends PlnOptions, RouteCheckData {
+  navdata?: NavDatabase;
+  airways?: AirwayDatabase;
+}
+
+export function convert(input: string, options: ConvertOptions = {}): ConversionResult {
+  const { navdata, airways, terrain, airspaces, ...planOptions } = options;
+  return RouteConverter.convert(input, planOptions, navdata, airways, { terrain, airspaces });
+}
+
+export function parse(input: string): ConversionResult {
+  return RouteConverter.parse(input);
+}
+
+export function validate(parsed: ConversionResult, options: ConvertOptions = {}): ConversionResult {
+  const { navdata, airways, terrain, airspaces, ...planOptions } = options;
+  return RouteConverter.validate(parsed, planOptions, navdata, airways, { terrain, airspaces });
+}
+
+export function generate(checked: ConversionResult, options: PlnOptions = {}): ConversionResult {
+  return RouteConverter.generate(checked, options);
+}
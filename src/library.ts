@@ -0,0 +1,212 @@
+export interface SavedRoute {
+  id: string;
+  name: string;
+  route: string;
+  tags: string[];
+  notes: string;
+  aircraft: string;
+  createdAt: string;
+  lastUsed: string;
+}
+
+export type RouteDraft = Pick<SavedRoute, 'name' | 'route'> & Partial<Pick<SavedRoute, 'tags' | 'notes' | 'aircraft'>>;
+
+export type RouteSort = 'lastUsed' | 'name' | 'createdAt';
+
+export interface RouteStore {
+  list(): Promise<SavedRoute[]>;
+  get(id: string): Promise<SavedRoute | undefined>;
+  put(route: SavedRoute): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const LIBRARY_VERSION = 1;
+const OBJECT_STORE = 'routes';
+
+export class MemoryRouteStore implements RouteStore {
+  private readonly routes = new Map<string, SavedRoute>();
+
+  async list(): Promise<SavedRoute[]> {
+    return [...this.routes.values()].map(route => ({ ...route, tags: [...route.tags] }));
+  }
+
+  async get(id: string): Promise<SavedRoute | undefined> {
+    const route = this.routes.get(id);
+    return route ? { ...route, tags: [...route.tags] } : undefined;
+  }
+
+  async put(route: SavedRoute): Promise<void> {
+    this.routes.set(route.id, { ...route, tags: [...route.tags] });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.routes.delete(id);
+  }
+}
+
+export class IndexedDbRouteStore implements RouteStore {
+  private database: Promise<IDBDatabase> | undefined;
+
+  constructor(private readonly factory: IDBFactory, private readonly name = 'sv2msfs-library') {}
+
+  list(): Promise<SavedRoute[]> {
+    return this.request('readonly', store => store.getAll() as IDBRequest<SavedRoute[]>);
+  }
+
+  get(id: string): Promise<SavedRoute | undefined> {
+    return this.request('readonly', store => store.get(id) as IDBRequest<SavedRoute | undefined>);
+  }
+
+  async put(route: SavedRoute): Promise<void> {
+    await this.request('readwrite', store => store.put(route));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = this.factory.open(this.name, LIBRARY_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE, { keyPath: 'id' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(OBJECT_STORE, mode);
+      const request = action(transaction.objectStore(OBJECT_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(request.error ?? transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Route library transaction was aborted'));
+    });
+  }
+}
+
+export class RouteLibrary {
+  constructor(
+    private readonly store: RouteStore = new MemoryRouteStore(),
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  static local(): RouteLibrary {
+    return new RouteLibrary(typeof indexedDB === 'undefined' ? new MemoryRouteStore() : new IndexedDbRouteStore(indexedDB));
+  }
+
+  static parseTags(text: string): string[] {
+    return [...new Set(text.split(/[,\s]+/).map(tag => tag.replace(/^#/, '').trim().toLowerCase()).filter(Boolean))];
+  }
+
+  static search(routes: SavedRoute[], query: string, sort: RouteSort = 'lastUsed'): SavedRoute[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = routes.filter(route => terms.every(term => term.startsWith('#')
+      ? route.tags.includes(term.slice(1))
+      : [route.name, route.route, route.notes, route.aircraft, ...route.tags].some(field => field.toLowerCase().includes(term))));
+
+    return matches.sort((a, b) => sort === 'name'
+      ? a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+      : b[sort].localeCompare(a[sort]));
+  }
+
+  async list(query = '', sort: RouteSort = 'lastUsed'): Promise<SavedRoute[]> {
+    return RouteLibrary.search(await this.store.list(), query, sort);
+  }
+
+  async mostRecent(): Promise<SavedRoute | undefined> {
+    return (await this.list())[0];
+  }
+
+  async save(draft: RouteDraft, id?: string): Promise<SavedRoute> {
+    const name = draft.name.trim();
+    if (!name) {
+      throw new Error('Saved routes need a name');
+    }
+    if (!draft.route.trim()) {
+      throw new Error('Cannot save an empty route');
+    }
+
+    const existing = id === undefined ? undefined : await this.store.get(id);
+    const timestamp = this.now().toISOString();
+    const route: SavedRoute = {
+      id: existing?.id ?? this.createId(),
+      name,
+      route: draft.route.trim(),
+      tags: draft.tags ?? existing?.tags ?? [],
+      notes: draft.notes ?? existing?.notes ?? '',
+      aircraft: draft.aircraft ?? existing?.aircraft ?? '',
+      createdAt: existing?.createdAt ?? timestamp,
+      lastUsed: timestamp
+    };
+    await this.store.put(route);
+    return route;
+  }
+
+  async use(id: string): Promise<SavedRoute> {
+    const route = await this.store.get(id);
+    if (!route) {
+      throw new Error(`Saved route "${id}" not found`);
+    }
+    const used = { ...route, lastUsed: this.now().toISOString() };
+    await this.store.put(used);
+    return used;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  async exportJson(): Promise<string> {
+    const routes = await this.list('', 'createdAt');
+    return JSON.stringify({ version: LIBRARY_VERSION, routes: routes.reverse() }, null, 2);
+  }
+
+  async importJson(text: string): Promise<number> {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Route library file is not valid JSON');
+    }
+
+    const routes = (data as { routes?: unknown } | null)?.routes;
+    if (!Array.isArray(routes)) {
+      throw new Error('Route library file has no "routes" list');
+    }
+
+    const imported = routes.map((entry, index) => this.readEntry(entry, index));
+    for (const route of imported) {
+      await this.store.put(route);
+    }
+    return imported.length;
+  }
+
+  private readEntry(entry: unknown, index: number): SavedRoute {
+    const value = (entry ?? {}) as Record<string, unknown>;
+    const text = (key: string): string => typeof value[key] === 'string' ? value[key] as string : '';
+    if (!text('name').trim() || !text('route').trim()) {
+      throw new Error(`Route ${index + 1} in the library file needs a name and a route`);
+    }
+
+    const timestamp = this.now().toISOString();
+    return {
+      id: text('id') || this.createId(),
+      name: text('name').trim(),
+      route: text('route').trim(),
+      tags: Array.isArray(value.tags) ? RouteLibrary.parseTags(value.tags.filter(tag => typeof tag === 'string').join(' ')) : [],
+      notes: text('notes'),
+      aircraft: text('aircraft'),
+      createdAt: text('createdAt') || timestamp,
+      lastUsed: text('lastUsed') || text('createdAt') || timestamp
+    };
+  }
+
+  private createId(): string {
+    return `${this.now().getTime().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+}
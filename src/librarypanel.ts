@@ -0,0 +1,249 @@
+import { RouteLibrary, RouteSort, SavedRoute } from './library.js';
+
+export interface LibraryPanelHost {
+  currentRoute(): { route: string; name: string };
+  load(route: SavedRoute): void;
+  notify(message: string, isError?: boolean): void;
+}
+
+export class RouteLibraryPanel {
+  private readonly nameInput: HTMLInputElement;
+  private readonly tagsInput: HTMLInputElement;
+  private readonly aircraftInput: HTMLInputElement;
+  private readonly notesInput: HTMLInputElement;
+  private readonly searchInput: HTMLInputElement;
+  private readonly sortSelect: HTMLSelectElement;
+  private readonly importInput: HTMLInputElement;
+  private readonly list: HTMLUListElement;
+  private loaded: SavedRoute | undefined;
+
+  constructor(
+    private readonly container: HTMLElement,
+    private readonly library: RouteLibrary,
+    private readonly host: LibraryPanelHost
+  ) {
+    this.container.innerHTML = `
+      <h3 class="library-title">Route Library</h3>
+      <div class="library-form">
+        <label class="option-field">
+          <span>Name</span>
+          <input type="text" class="option-input" data-library="name" placeholder="Defaults to the plan title">
+        </label>
+        <label class="option-field">
+          <span>Tags</span>
+          <input type="text" class="option-input" data-library="tags" placeholder="e.g. vfr, ridge">
+        </label>
+        <label class="option-field">
+          <span>Aircraft</span>
+          <input type="text" class="option-input" data-library="aircraft" placeholder="e.g. C172">
+        </label>
+        <label class="option-field">
+          <span>Notes</span>
+          <input type="text" class="option-input" data-library="notes" placeholder="Optional">
+        </label>
+      </div>
+      <div class="library-actions">
+        <button type="button" class="action-button" data-library="save">💾 Save route</button>
+        <button type="button" class="action-button secondary" data-library="export">Export library</button>
+        <button type="button" class="action-button secondary" data-library="import">Import library</button>
+        <input type="file" accept=".json,application/json" data-library="file" hidden>
+      </div>
+      <div class="library-toolbar">
+        <input type="search" class="option-input" data-library="search" placeholder="Search name, route, tags (#tag), notes, aircraft">
+        <select class="option-input" data-library="sort">
+          <option value="lastUsed">Last used</option>
+          <option value="name">Name</option>
+          <option value="createdAt">Newest</option>
+        </select>
+      </div>
+      <ul class="library-list"></ul>
+    `;
+
+    const field = <T extends HTMLElement>(name: string) => this.container.querySelector(`[data-library="${name}"]`) as T;
+    this.nameInput = field('name');
+    this.tagsInput = field('tags');
+    this.aircraftInput = field('aircraft');
+    this.notesInput = field('notes');
+    this.searchInput = field('search');
+    this.sortSelect = field('sort');
+    this.importInput = field('file');
+    this.list = this.container.querySelector('.library-list') as HTMLUListElement;
+
+    field<HTMLButtonElement>('save').addEventListener('click', () => this.save());
+    field<HTMLButtonElement>('export').addEventListener('click', () => this.exportLibrary());
+    field<HTMLButtonElement>('import').addEventListener('click', () => this.importInput.click());
+    this.importInput.addEventListener('change', () => this.importLibrary());
+    this.searchInput.addEventListener('input', () => this.reload());
+    this.sortSelect.addEventListener('change', () => this.reload());
+  }
+
+  async refresh(): Promise<void> {
+    const routes = await this.library.list(this.searchInput.value, this.sortSelect.value as RouteSort);
+    this.list.innerHTML = '';
+
+    if (routes.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'library-empty';
+      empty.textContent = this.searchInput.value.trim() ? 'No saved routes match your search' : 'No saved routes yet';
+      this.list.appendChild(empty);
+      return;
+    }
+
+    routes.forEach(route => this.list.appendChild(this.renderEntry(route)));
+  }
+
+  private reload(): void {
+    this.refresh().catch(error => {
+      this.host.notify(error instanceof Error ? error.message : 'Failed to list saved routes', true);
+    });
+  }
+
+  private renderEntry(route: SavedRoute): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = 'library-entry';
+
+    const header = document.createElement('div');
+    header.className = 'library-entry-header';
+    const name = document.createElement('strong');
+    name.textContent = route.name;
+    const meta = document.createElement('span');
+    meta.className = 'library-entry-meta';
+    meta.textContent = [route.aircraft, `used ${new Date(route.lastUsed).toLocaleDateString()}`].filter(Boolean).join(' · ');
+    header.append(name, meta);
+
+    const text = document.createElement('code');
+    text.className = 'library-entry-route';
+    text.textContent = route.route;
+
+    const tags = document.createElement('div');
+    tags.className = 'library-entry-tags';
+    route.tags.forEach(tag => {
+      const chip = document.createElement('button');
+      chip.type = 'button';
+      chip.className = 'library-tag';
+      chip.textContent = `#${tag}`;
+      chip.addEventListener('click', () => {
+        this.searchInput.value = `#${tag}`;
+        this.reload();
+      });
+      tags.appendChild(chip);
+    });
+
+    const actions = document.createElement('div');
+    actions.className = 'library-entry-actions';
+    actions.append(
+      this.button('Load', () => this.load(route)),
+      this.button('Delete', () => this.remove(route))
+    );
+
+    item.append(header, text);
+    if (route.notes) {
+      const notes = document.createElement('p');
+      notes.className = 'library-entry-notes';
+      notes.textContent = route.notes;
+      item.appendChild(notes);
+    }
+    item.append(tags, actions);
+    return item;
+  }
+
+  private button(label: string, action: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'library-button';
+    button.textContent = label;
+    button.addEventListener('click', action);
+    return button;
+  }
+
+  private async save(): Promise<void> {
+    const current = this.host.currentRoute();
+    const name = this.nameInput.value.trim() || current.name;
+    const id = this.loaded && this.loaded.name === name ? this.loaded.id : undefined;
+
+    try {
+      this.loaded = await this.library.save({
+        name,
+        route: current.route,
+        tags: RouteLibrary.parseTags(this.tagsInput.value),
+        aircraft: this.aircraftInput.value.trim(),
+        notes: this.notesInput.value.trim()
+      }, id);
+      this.fill(this.loaded);
+      this.host.notify(`Saved "${name}" to the route library`);
+      await this.refresh();
+    } catch (error) {
+      this.host.notify(error instanceof Error ? error.message : 'Failed to save route', true);
+    }
+  }
+
+  private async load(route: SavedRoute): Promise<void> {
+    try {
+      this.loaded = await this.library.use(route.id);
+      this.fill(this.loaded);
+      this.host.load(this.loaded);
+      await this.refresh();
+    } catch (error) {
+      this.host.notify(error instanceof Error ? error.message : 'Failed to load route', true);
+    }
+  }
+
+  private async remove(route: SavedRoute): Promise<void> {
+    if (!confirm(`Delete "${route.name}" from the route library?`)) {
+      return;
+    }
+
+    try {
+      await this.library.remove(route.id);
+      if (this.loaded?.id === route.id) {
+        this.loaded = undefined;
+      }
+      await this.refresh();
+    } catch (error) {
+      this.host.notify(error instanceof Error ? error.message : 'Failed to delete route', true);
+    }
+  }
+
+  private fill(route: SavedRoute): void {
+    this.nameInput.value = route.name;
+    this.tagsInput.value = route.tags.join(', ');
+    this.aircraftInput.value = route.aircraft;
+    this.notesInput.value = route.notes;
+  }
+
+  private async exportLibrary(): Promise<void> {
+    let json: string;
+    try {
+      json = await this.library.exportJson();
+    } catch (error) {
+      this.host.notify(error instanceof Error ? error.message : 'Failed to export route library', true);
+      return;
+    }
+
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'route-library.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  private async importLibrary(): Promise<void> {
+    const file = this.importInput.files?.[0];
+    this.importInput.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const count = await this.library.importJson(await file.text());
+      this.host.notify(`Imported ${count} route(s) from "${file.name}"`);
+      await this.refresh();
+    } catch (error) {
+      this.host.notify(error instanceof Error ? error.message : 'Failed to import route library', true);
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { GeoMath } from './geo.js';
+import { WMM_COF } from './data/wmm.js';
+
+export interface MagneticCoefficient {
+  n: number;
+  m: number;
+  g: number;
+  h: number;
+  gDot: number;
+  hDot: number;
+}
+
+const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+const REFERENCE_RADIUS = 6371.2;
+
+export class MagneticModel {
+  private static bundledModel: MagneticModel | undefined;
+  readonly maxDegree: number;
+  private readonly g: number[][];
+  private readonly h: number[][];
+  private readonly gDot: number[][];
+  private readonly hDot: number[][];
+
+  constructor(
+    readonly epoch: number,
+    readonly name: string,
+    coefficients: MagneticCoefficient[]
+  ) {
+    this.maxDegree = coefficients.reduce((max, c) => Math.max(max, c.n), 0);
+    const table = () => Array.from({ length: this.maxDegree + 1 }, () => new Array<number>(this.maxDegree + 1).fill(0));
+    this.g = table();
+    this.h = table();
+    this.gDot = table();
+    this.hDot = table();
+
+    coefficients.forEach(({ n, m, g, h, gDot, hDot }) => {
+      const schmidt = this.schmidtFactor(n, m);
+      (this.g[n] as number[])[m] = g * schmidt;
+      (this.h[n] as number[])[m] = h * schmidt;
+      (this.gDot[n] as number[])[m] = gDot * schmidt;
+      (this.hDot[n] as number[])[m] = hDot * schmidt;
+    });
+  }
+
+  static bundled(): MagneticModel {
+    if (!this.bundledModel) {
+      this.bundledModel = this.fromCof(WMM_COF);
+    }
+    return this.bundledModel;
+  }
+
+  static fromCof(text: string): MagneticModel {
+    const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const header = lines.shift()?.trim().split(/\s+/) ?? [];
+    const epoch = parseFloat(header[0] ?? '');
+    if (Number.isNaN(epoch)) {
+      throw new Error('Magnetic model file has no epoch header');
+    }
+
+    const coefficients: MagneticCoefficient[] = [];
+    for (const line of lines) {
+      if (/^\s*9{6,}/.test(line)) {
+        break;
+      }
+      const values = line.trim().split(/\s+/).map(Number);
+      if (values.length < 6 || values.some(Number.isNaN)) {
+        throw new Error(`Invalid magnetic model line: ${line.trim()}`);
+      }
+      const [n = 0, m = 0, g = 0, h = 0, gDot = 0, hDot = 0] = values;
+      if (m > n || n < 1) {
+        throw new Error(`Invalid magnetic model degree/order: ${line.trim()}`);
+      }
+      coefficients.push({ n, m, g, h, gDot, hDot });
+    }
+
+    if (coefficients.length === 0) {
+      throw new Error('Magnetic model file has no coefficients');
+    }
+
+    return new MagneticModel(epoch, header[1] ?? 'unknown', coefficients);
+  }
+
+  static decimalYear(date: Date): number {
+    const year = date.getUTCFullYear();
+    const start = Date.UTC(year, 0, 1);
+    const end = Date.UTC(year + 1, 0, 1);
+    return year + (date.getTime() - start) / (end - start);
+  }
+
+  declination(latitude: number, longitude: number, date: Date = new Date(), altitudeFeet = 0): number {
+    const phi = GeoMath.toRadians(latitude);
+    const lambda = GeoMath.toRadians(longitude);
+    const heightKm = altitudeFeet * 0.0003048;
+    const dt = MagneticModel.decimalYear(date) - this.epoch;
+
+    const sinPhi = Math.sin(phi);
+    const rc = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinPhi * sinPhi);
+    const p = (rc + heightKm) * Math.cos(phi);
+    const z = (rc * (1 - WGS84_E2) + heightKm) * sinPhi;
+    const r = Math.sqrt(p * p + z * z);
+    const phiPrime = Math.asin(z / r);
+
+    const theta = Math.PI / 2 - phiPrime;
+    const cosTheta = Math.cos(theta);
+    const sinTheta = Math.max(Math.sin(theta), 1e-10);
+
+    const size = this.maxDegree + 1;
+    const P = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    const dP = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    (P[0] as number[])[0] = 1;
+
+    let bTheta = 0;
+    let bPhi = 0;
+    let bR = 0;
+
+    for (let n = 1; n <= this.maxDegree; n++) {
+      const ratio = Math.pow(REFERENCE_RADIUS / r, n + 2);
+      const Pn = P[n] as number[];
+      const dPn = dP[n] as number[];
+      const Pn1 = P[n - 1] as number[];
+      const dPn1 = dP[n - 1] as number[];
+      const Pn2 = P[n - 2] ?? [];
+      const dPn2 = dP[n - 2] ?? [];
+
+      for (let m = 0; m <= n; m++) {
+        if (m === n) {
+          Pn[m] = sinTheta * (Pn1[m - 1] ?? 0);
+          dPn[m] = sinTheta * (dPn1[m - 1] ?? 0) + cosTheta * (Pn1[m - 1] ?? 0);
+        } else {
+          const k = n === 1 ? 0 : ((n - 1) * (n - 1) - m * m) / ((2 * n - 1) * (2 * n - 3));
+          Pn[m] = cosTheta * (Pn1[m] ?? 0) - k * (Pn2[m] ?? 0);
+          dPn[m] = cosTheta * (dPn1[m] ?? 0) - sinTheta * (Pn1[m] ?? 0) - k * (dPn2[m] ?? 0);
+        }
+
+        const g = (this.g[n]?.[m] ?? 0) + dt * (this.gDot[n]?.[m] ?? 0);
+        const h = (this.h[n]?.[m] ?? 0) + dt * (this.hDot[n]?.[m] ?? 0);
+        const cosM = Math.cos(m * lambda);
+        const sinM = Math.sin(m * lambda);
+        const pnm = Pn[m] ?? 0;
+        const dpnm = dPn[m] ?? 0;
+
+        bR += ratio * (n + 1) * (g * cosM + h * sinM) * pnm;
+        bTheta -= ratio * (g * cosM + h * sinM) * dpnm;
+        bPhi -= ratio * m * (-g * sinM + h * cosM) * pnm / sinTheta;
+      }
+    }
+
+    const psi = phiPrime - phi;
+    const north = -bTheta * Math.cos(psi) - bR * Math.sin(psi);
+    const east = bPhi;
+
+    return GeoMath.toDegrees(Math.atan2(east, north));
+  }
+
+  private schmidtFactor(n: number, m: number): number {
+    let factor = 1;
+    for (let i = 1; i <= n; i++) {
+      factor *= (2 * i - 1) / i;
+    }
+    for (let j = 1; j <= m; j++) {
+      factor *= Math.sqrt((n - j + 1) * (j === 1 ? 2 : 1) / (n + j));
+    }
+    return factor;
+  }
+}
@@ -1,22 +1,72 @@
 import './style.css';
-import { RouteParser, PlnGenerator, CoordinateConverter } from './converter.js';
+import { RouteFormatter } from './converter.js';
+import { FlightPlanImporters } from './importer.js';
+import { RouteCheckData, RouteConverter } from './pipeline.js';
+import { RouteDecoder, DecodedRoute } from './decoder.js';
+import { NavlogPanel } from './navlog.js';
+import { FlightPlannerPanel } from './plannerpanel.js';
+import { TerrainPanel } from './terrainpanel.js';
+import { AirspacePanel } from './airspacepanel.js';
+import { AircraftProfiles } from './aircraft.js';
+import { RouteMap } from './map.js';
+import { RouteEditor } from './editor.js';
+import { RouteInputEditor } from './routeinput.js';
+import { RouteLibrary } from './library.js';
+import { RouteLibraryPanel } from './librarypanel.js';
+import { BatchConverter, BatchInput } from './batch.js';
+import { BatchPanel } from './batchpanel.js';
+import { FlightPlanExporter, FlightPlanExporters } from './exporters.js';
+import { PlnOptions, FlightType, RouteType, SourceSpan, Waypoint, FlightPlan } from './types.js';
 import { InputValidator } from './validation.js';
+import { DEFAULT_FILE_NAME_TEMPLATE, DEFAULT_USER_WAYPOINT_TEMPLATE, NameTemplates } from './naming.js';
+import { LaunchInput, OfflineApp } from './pwa.js';
 
 class SkyVectorConverter {
-  private textInput: HTMLTextAreaElement;
-  private fileInput: HTMLInputElement;
-  private convertButton: HTMLButtonElement;
-  private outputPreview: HTMLTextAreaElement;
-  private downloadButton: HTMLButtonElement;
-  private copyButton: HTMLButtonElement;
-  private errorContainer: HTMLDivElement;
-  private successContainer: HTMLDivElement;
-  private fileUploadArea: HTMLDivElement;
+  private routeInput!: RouteInputEditor;
+  private fileInput!: HTMLInputElement;
+  private convertButton!: HTMLButtonElement;
+  private batchButton!: HTMLButtonElement;
+  private outputPreview!: HTMLTextAreaElement;
+  private outputFormatSelect!: HTMLSelectElement;
+  private downloadButton!: HTMLButtonElement;
+  private copyButton!: HTMLButtonElement;
+  private errorContainer!: HTMLDivElement;
+  private successContainer!: HTMLDivElement;
+  private fileUploadArea!: HTMLDivElement;
+  private titleInput!: HTMLInputElement;
+  private descriptionInput!: HTMLInputElement;
+  private flightTypeSelect!: HTMLSelectElement;
+  private routeTypeSelect!: HTMLSelectElement;
+  private cruisingAltitudeInput!: HTMLInputElement;
+  private cruisingAltitudeEdited = false;
+  private departureRunwayInput!: HTMLInputElement;
+  private departureParkingInput!: HTMLInputElement;
+  private arrivalRunwayInput!: HTMLInputElement;
+  private warningsAsErrorsInput!: HTMLInputElement;
+  private fileNameInput!: HTMLInputElement;
+  private waypointNamesInput!: HTMLInputElement;
+  private navlog!: NavlogPanel;
+  private planner!: FlightPlannerPanel;
+  private terrain!: TerrainPanel;
+  private airspace!: AirspacePanel;
+  private routeMap!: RouteMap;
+  private libraryPanel!: RouteLibraryPanel;
+  private batchPanel!: BatchPanel;
+  private batchInputs: BatchInput[] = [];
+  private readonly library = RouteLibrary.local();
+  private readonly editor = new RouteEditor();
+  private flightPlan: FlightPlan | undefined;
+  private routeWaypoints: Waypoint[] = [];
+  private routeSources: number[] = [];
+  private sourceSpans: SourceSpan[] = [];
+  private imported: { text: string; waypoints: Waypoint[] } | undefined;
+  private liveUpdate = false;
+  private liveTimer: number | undefined;
 
   constructor() {
     this.initializeDOM();
     this.setupEventListeners();
-    this.showExample();
+    void this.restoreSession().then(() => OfflineApp.onLaunch(input => this.openLaunched(input)));
   }
 
   private initializeDOM(): void {
@@ -38,19 +88,65 @@ class SkyVectorConverter {
           <div class="file-upload" id="fileUpload">
             <div class="file-upload-icon">📁</div>
             <div class="file-upload-text">Drop a file here or click to select</div>
-            <div class="file-upload-text" style="font-size: 0.9rem; color: #9ca3af;">Supports .txt and .pln files</div>
-            <input type="file" id="fileInput" accept=".txt,.pln">
+            <div class="file-upload-text" style="font-size: 0.9rem; color: #9ca3af;">Supports .txt, ${FlightPlanImporters.standard().extensions.map(extension => `.${extension}`).join(', ')} files</div>
+            <input type="file" id="fileInput" multiple accept=".txt,${FlightPlanImporters.standard().extensions.map(extension => `.${extension}`).join(',')}">
           </div>
 
-          <textarea 
-            id="textInput" 
-            class="text-input" 
-            placeholder="Or paste your SkyVector route here...&#10;&#10;Example:&#10;P34 403210N0772310W 402507N0773505W 401034N0774923W N68"
-          ></textarea>
+          <div id="routeInput"></div>
+
+          <div class="plan-options">
+            <label class="option-field wide">
+              <span>Title</span>
+              <input type="text" id="planTitle" class="option-input" placeholder="Defaults to departure to arrival">
+            </label>
+            <label class="option-field wide">
+              <span>Description</span>
+              <input type="text" id="planDescription" class="option-input" placeholder="Optional">
+            </label>
+            <label class="option-field">
+              <span>Flight rules</span>
+              <select id="flightType" class="option-input">
+                <option value="VFR">VFR</option>
+                <option value="IFR">IFR</option>
+              </select>
+            </label>
+            <label class="option-field">
+              <span>Route type</span>
+              <select id="routeType" class="option-input">
+                <option value="Direct">Direct</option>
+                <option value="VOR">VOR</option>
+                <option value="LowAlt">Low altitude airways</option>
+                <option value="HighAlt">High altitude airways</option>
+              </select>
+            </label>
+            <label class="option-field">
+              <span>Cruising altitude (ft)</span>
+              <input type="number" id="cruisingAltitude" class="option-input" value="3500" min="0" max="60000" step="500">
+            </label>
+            <label class="option-field">
+              <span>Departure runway</span>
+              <input type="text" id="departureRunway" class="option-input" placeholder="e.g. 24">
+            </label>
+            <label class="option-field">
+              <span>Departure parking</span>
+              <input type="text" id="departureParking" class="option-input" placeholder="e.g. PARKING 3">
+            </label>
+            <label class="option-field">
+              <span>Arrival runway</span>
+              <input type="text" id="arrivalRunway" class="option-input" placeholder="e.g. 10L">
+            </label>
+            <label class="option-field wide checkbox-field">
+              <input type="checkbox" id="warningsAsErrors">
+              <span>Block export when the route has warnings</span>
+            </label>
+          </div>
 
           <button id="convertButton" class="convert-button">
             Convert to MSFS 2024
           </button>
+          <button id="batchButton" class="batch-button">
+            📦 Convert each line (or blank-line separated block) as a separate route
+          </button>
 
           <div id="errorContainer" class="error-message hidden"></div>
           <div id="successContainer" class="success-message hidden"></div>
@@ -59,16 +155,36 @@ class SkyVectorConverter {
             <div class="example-title">Example Input:</div>
             <div class="example-text">P34 403210N0772310W 402507N0773505W N68</div>
           </div>
+
+          <div id="routeLibrary" class="route-library"></div>
         </div>
 
         <div class="card">
           <h2 class="section-title">Output</h2>
+
+          <label class="option-field output-format">
+            <span>Format</span>
+            <select id="outputFormat" class="option-input">
+              ${FlightPlanExporters.standard().all.map(exporter => `<option value="${exporter.id}">${exporter.label}</option>`).join('')}
+            </select>
+          </label>
+
+          <div class="plan-options">
+            <label class="option-field">
+              <span>File name</span>
+              <input type="text" id="fileNameTemplate" class="option-input" value="${DEFAULT_FILE_NAME_TEMPLATE}" title="{dep}, {arr}, {name}, {title}, {date}, {time}, {ext}">
+            </label>
+            <label class="option-field">
+              <span>User waypoint names</span>
+              <input type="text" id="waypointNameTemplate" class="option-input" value="${DEFAULT_USER_WAYPOINT_TEMPLATE}" title="{n}, {index}, {lat}, {lon}; name a single point with 403210N0772310W:BRIDGE">
+            </label>
+          </div>
           
           <textarea 
             id="outputPreview" 
             class="output-preview" 
             readonly 
-            placeholder="Your converted .PLN file will appear here..."
+            placeholder="Your converted flight plan will appear here..."
           ></textarea>
 
           <div class="output-actions">
@@ -79,33 +195,139 @@ class SkyVectorConverter {
               📋 Copy to Clipboard
             </button>
           </div>
+
+          <div id="batchResults" class="batch-results"></div>
+
+          <div id="routeMap" class="route-map"></div>
+
+          <div id="navlog" class="navlog"></div>
+
+          <div id="planner" class="navlog"></div>
+
+          <div id="terrain" class="navlog"></div>
+
+          <div id="airspace" class="navlog"></div>
         </div>
       </div>
     `;
 
-    this.textInput = document.getElementById('textInput') as HTMLTextAreaElement;
+    this.routeInput = new RouteInputEditor(
+      document.getElementById('routeInput') as HTMLDivElement,
+      'Or paste your SkyVector route here...\n\nExample:\nP34 403210N0772310W 402507N0773505W 401034N0774923W N68',
+      () => this.readPlanOptions()
+    );
     this.fileInput = document.getElementById('fileInput') as HTMLInputElement;
     this.convertButton = document.getElementById('convertButton') as HTMLButtonElement;
+    this.batchButton = document.getElementById('batchButton') as HTMLButtonElement;
     this.outputPreview = document.getElementById('outputPreview') as HTMLTextAreaElement;
+    this.outputFormatSelect = document.getElementById('outputFormat') as HTMLSelectElement;
     this.downloadButton = document.getElementById('downloadButton') as HTMLButtonElement;
     this.copyButton = document.getElementById('copyButton') as HTMLButtonElement;
     this.errorContainer = document.getElementById('errorContainer') as HTMLDivElement;
     this.successContainer = document.getElementById('successContainer') as HTMLDivElement;
     this.fileUploadArea = document.getElementById('fileUpload') as HTMLDivElement;
+    this.titleInput = document.getElementById('planTitle') as HTMLInputElement;
+    this.descriptionInput = document.getElementById('planDescription') as HTMLInputElement;
+    this.flightTypeSelect = document.getElementById('flightType') as HTMLSelectElement;
+    this.routeTypeSelect = document.getElementById('routeType') as HTMLSelectElement;
+    this.cruisingAltitudeInput = document.getElementById('cruisingAltitude') as HTMLInputElement;
+    this.departureRunwayInput = document.getElementById('departureRunway') as HTMLInputElement;
+    this.departureParkingInput = document.getElementById('departureParking') as HTMLInputElement;
+    this.arrivalRunwayInput = document.getElementById('arrivalRunway') as HTMLInputElement;
+    this.warningsAsErrorsInput = document.getElementById('warningsAsErrors') as HTMLInputElement;
+    this.fileNameInput = document.getElementById('fileNameTemplate') as HTMLInputElement;
+    this.waypointNamesInput = document.getElementById('waypointNameTemplate') as HTMLInputElement;
+    this.navlog = new NavlogPanel(document.getElementById('navlog') as HTMLDivElement);
+    this.planner = new FlightPlannerPanel(document.getElementById('planner') as HTMLDivElement, AircraftProfiles.local());
+    this.terrain = new TerrainPanel(document.getElementById('terrain') as HTMLDivElement);
+    this.airspace = new AirspacePanel(document.getElementById('airspace') as HTMLDivElement, () => {
+      this.routeInput.validate();
+      if (this.flightPlan) {
+        this.convertRoute();
+      }
+    });
+    this.batchPanel = new BatchPanel(document.getElementById('batchResults') as HTMLDivElement);
+    this.routeMap = new RouteMap(document.getElementById('routeMap') as HTMLDivElement, {
+      select: index => this.highlightToken(index),
+      move: (index, latitude, longitude) => this.editRoute(() => this.editor.moveTo(this.sourceIndex(index), latitude, longitude)),
+      insert: (latitude, longitude) => this.editRoute(() => this.insertWaypoint(latitude, longitude)),
+      remove: index => this.editRoute(() => this.removeWaypoint(index)),
+      reorder: (index, offset) => this.editRoute(() => this.reorderWaypoint(index, offset)),
+      undo: () => this.editor.undo(),
+      redo: () => this.editor.redo()
+    });
+    this.libraryPanel = new RouteLibraryPanel(document.getElementById('routeLibrary') as HTMLDivElement, this.library, {
+      currentRoute: () => ({ route: this.routeInput.value, name: this.flightPlan?.title ?? (this.titleInput.value.trim() || 'Untitled route') }),
+      load: route => {
+        this.routeInput.value = route.route;
+        this.convertRoute();
+      },
+      notify: (message, isError) => isError ? this.showError(message) : this.showSuccess(message)
+    });
   }
 
   private setupEventListeners(): void {
     this.convertButton.addEventListener('click', () => this.convertRoute());
+    this.batchButton.addEventListener('click', () => this.convertPastedBatch());
     this.downloadButton.addEventListener('click', () => this.downloadPln());
     this.copyButton.addEventListener('click', () => this.copyToClipboard());
+    this.outputFormatSelect.addEventListener('change', () => {
+      this.updateDownloadLabel();
+      if (this.flightPlan) {
+        this.clearMessages();
+        this.renderOutput();
+      }
+      if (this.batchInputs.length > 0) {
+        this.convertBatch(this.batchInputs);
+      }
+    });
     this.fileInput.addEventListener('change', (e) => this.handleFileSelect(e));
+    this.cruisingAltitudeInput.addEventListener('input', () => {
+      this.cruisingAltitudeEdited = true;
+    });
     
     this.fileUploadArea.addEventListener('click', () => this.fileInput.click());
     this.fileUploadArea.addEventListener('dragover', (e) => this.handleDragOver(e));
     this.fileUploadArea.addEventListener('drop', (e) => this.handleDrop(e));
     this.fileUploadArea.addEventListener('dragleave', () => this.handleDragLeave());
 
-    this.textInput.addEventListener('input', () => this.clearMessages());
+    this.routeInput.textarea.addEventListener('input', () => {
+      this.clearMessages();
+      this.sourceSpans = [];
+      this.scheduleLiveUpdate();
+    });
+
+    this.editor.onChange(() => {
+      this.routeInput.value = this.editor.toRouteString();
+      this.routeMap.setHistory(this.editor.canUndo, this.editor.canRedo);
+      this.convertRoute();
+    });
+
+    document.addEventListener('keydown', (e) => this.handleShortcut(e));
+  }
+
+  private handleShortcut(e: KeyboardEvent): void {
+    const target = e.target as HTMLElement | null;
+    if (!(e.ctrlKey || e.metaKey) || target?.closest('input, textarea, select')) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      this.editor.undo();
+    } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+      e.preventDefault();
+      this.editor.redo();
+    }
+  }
+
+  private scheduleLiveUpdate(): void {
+    if (!this.liveUpdate) {
+      return;
+    }
+    window.clearTimeout(this.liveTimer);
+    this.liveTimer = window.setTimeout(() => this.convertRoute(), 800);
   }
 
   private handleDragOver(e: DragEvent): void {
@@ -121,24 +343,87 @@ class SkyVectorConverter {
     e.preventDefault();
     this.fileUploadArea.classList.remove('dragover');
     
-    const files = e.dataTransfer?.files;
-    if (files && files.length > 0) {
-      this.processFile(files[0]);
-    }
+    this.processFiles(Array.from(e.dataTransfer?.files ?? []));
   }
 
   private handleFileSelect(e: Event): void {
     const target = e.target as HTMLInputElement;
-    const files = target.files;
-    if (files && files.length > 0) {
-      this.processFile(files[0]);
+    this.processFiles(Array.from(target.files ?? []));
+    target.value = '';
+  }
+
+  private async processFiles(files: File[]): Promise<void> {
+    const [file] = files;
+    if (!file) {
+      return;
+    }
+    if (files.length === 1) {
+      await this.processFile(file);
+      return;
+    }
+
+    try {
+      this.convertBatch(await Promise.all(files.map(async entry => ({ name: entry.name, text: await entry.text(), file: true }))));
+    } catch (error) {
+      this.showError(`Failed to read files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async openLaunched(input: LaunchInput): Promise<void> {
+    if (input.files.length > 0) {
+      await this.processFiles(input.files);
+    } else if (input.route) {
+      this.routeInput.value = input.route;
+      this.clearMessages();
+      this.showSuccess('Shared route loaded');
+    }
+  }
+
+  private convertPastedBatch(): void {
+    const routes = BatchConverter.splitRoutes(this.routeInput.value);
+    if (routes.length < 2) {
+      this.showError('Enter one route per line, or separate routes with blank lines, to convert a batch');
+      return;
+    }
+    this.convertBatch(routes.map(text => ({ name: '', text })));
+  }
+
+  private convertBatch(inputs: BatchInput[]): void {
+    const options = this.readPlanOptions();
+    const exporter = this.selectedExporter();
+    const items = BatchConverter.convert(inputs, exporter, {
+      flightType: options.flightType,
+      routeType: options.routeType,
+      cruisingAltitude: options.cruisingAltitude,
+      userWaypointTemplate: options.userWaypointTemplate,
+      warningsAsErrors: options.warningsAsErrors
+    }, this.fileNameInput.value);
+
+    this.batchInputs = inputs;
+    this.batchPanel.show(items, exporter);
+    const failed = items.filter(item => item.status === 'error').length;
+    if (failed > 0) {
+      this.showError(`${failed} of ${items.length} route(s) failed to convert; see the batch results for details`);
+    } else {
+      this.showSuccess(`✅ Converted ${items.length} route(s) to ${exporter.label}`);
     }
   }
 
   private async processFile(file: File): Promise<void> {
     try {
       const text = await file.text();
-      this.textInput.value = text;
+
+      const importer = FlightPlanImporters.standard().detect(file.name, text);
+      if (importer) {
+        const waypoints = importer.import(text);
+        this.routeInput.value = RouteFormatter.formatRoute(waypoints);
+        this.imported = { text: this.routeInput.value, waypoints };
+        this.clearMessages();
+        this.showSuccess(`Imported ${waypoints.length} waypoint(s) from ${importer.label} file "${file.name}"`);
+        return;
+      }
+
+      this.routeInput.value = text;
       this.clearMessages();
       this.showSuccess(`File "${file.name}" loaded successfully`);
     } catch (error) {
@@ -147,7 +432,7 @@ class SkyVectorConverter {
   }
 
   private convertRoute(): void {
-    const inputText = this.textInput.value.trim();
+    const inputText = this.routeInput.value.trim();
     
     if (!inputText) {
       this.showError('Please enter a route or upload a file');
@@ -159,31 +444,70 @@ class SkyVectorConverter {
       this.convertButton.disabled = true;
       this.convertButton.textContent = 'Converting...';
 
-      const validationErrors = InputValidator.validateRouteInput(inputText);
-      
-      if (validationErrors.length > 0) {
-        const errorMessage = InputValidator.generateHelpfulErrorMessage(validationErrors);
-        this.showError(errorMessage);
-        return;
+      this.applyRouteSpeedLevel();
+      const { options, data } = this.checkContext();
+      const parsed = this.imported?.text === this.routeInput.value
+        ? RouteConverter.fromWaypoints(this.imported.waypoints)
+        : RouteConverter.parse(this.routeInput.value);
+      const result = RouteConverter.generate(RouteConverter.validate(parsed, options, undefined, undefined, data), options);
+
+      if (result.sourceWaypoints.length > 0) {
+        this.editor.load(result.sourceWaypoints, this.routeInput.value, result.spans);
+        this.routeMap.setHistory(this.editor.canUndo, this.editor.canRedo);
       }
 
-      const waypoints = RouteParser.parseSourceRoute(inputText);
-      
-      if (waypoints.length === 0) {
-        throw new Error('No valid waypoints found in the input');
+      if (result.errors.length > 0 || result.plan === undefined) {
+        this.routeInput.validate();
+        this.outputPreview.value = '';
+        this.flightPlan = undefined;
+        this.downloadButton.disabled = true;
+        this.copyButton.disabled = true;
+        this.routeMap.markStale();
+        if (result.stage === 'options') {
+          this.showError(result.errors.map(error => `• ${error.message}`).join('\n'));
+        } else if (result.errors.length > 0 && result.errors.every(error => error.span)) {
+          this.showError(`Found ${result.errors.length} problem(s) in the route. Hover the underlined tokens for details and quick fixes.`);
+        } else {
+          this.showError(InputValidator.generateHelpfulErrorMessage(result.errors));
+        }
+        return;
       }
 
-      const plnContent = PlnGenerator.generatePln(waypoints);
-      this.outputPreview.value = plnContent;
-      
-      this.downloadButton.disabled = false;
-      this.copyButton.disabled = false;
+      this.flightPlan = result.plan;
+      this.navlog.update(result.waypoints);
+      this.planner.update(result.plan, this.routeInput.value.trim());
+      this.terrain.update(result.plan);
+      this.routeMap.showAirspaces(this.airspace.database?.airspaces ?? [], this.airspace.update(result.plan, this.terrain.model));
+      this.routeWaypoints = result.waypoints;
+      this.routeSources = result.sources;
+      this.sourceSpans = result.spans;
+      this.routeMap.update(result.waypoints);
+      this.liveUpdate = true;
+
+      if (!this.renderOutput()) {
+        return;
+      }
       
-      this.showSuccess(`✅ Converted ${waypoints.length} waypoint(s) successfully`);
+      const source = result.format === 'skyvector-url' ? '\n🔗 Decoded SkyVector link' : result.format === 'icao' ? '\n🛫 Read ICAO route' : '';
+      const cruise = result.format !== 'route' && result.plan.cruiseSpeed !== undefined
+        ? ` (cruise ${result.plan.cruiseSpeed} kt at ${result.plan.cruisingAlt ?? 3500} ft)`
+        : '';
+      const notation = result.notations.length > 0 ? `\n📍 Coordinates read as ${result.notations.join(', ')}` : '';
+      const notes = result.warnings.map(warning => `\n⚠️ ${warning.message}`).join('');
+      this.showSuccess(`✅ Converted ${result.sourceWaypoints.length} waypoint(s) successfully${source}${cruise}${notation}${notes}`);
 
     } catch (error) {
       this.showError(error instanceof Error ? error.message : 'Conversion failed');
       this.outputPreview.value = '';
+      this.flightPlan = undefined;
+      this.navlog.clear();
+      this.planner.clear();
+      this.terrain.clear();
+      this.airspace.clear();
+      this.routeMap.clear();
+      this.routeWaypoints = [];
+      this.routeSources = [];
+      this.sourceSpans = [];
       this.downloadButton.disabled = true;
       this.copyButton.disabled = true;
     } finally {
@@ -192,24 +516,163 @@ class SkyVectorConverter {
     }
   }
 
+  private selectedExporter(): FlightPlanExporter {
+    return FlightPlanExporters.standard().get(this.outputFormatSelect.value);
+  }
+
+  private updateDownloadLabel(): void {
+    this.downloadButton.textContent = `📥 Download .${this.selectedExporter().extension.toUpperCase()}`;
+  }
+
+  private renderOutput(): boolean {
+    if (!this.flightPlan) {
+      return false;
+    }
+
+    const exporter = this.selectedExporter();
+    try {
+      this.outputPreview.value = exporter.export(this.flightPlan);
+    } catch (error) {
+      this.outputPreview.value = '';
+      this.downloadButton.disabled = true;
+      this.copyButton.disabled = true;
+      this.showError(`Cannot export as ${exporter.label}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+
+    this.downloadButton.disabled = false;
+    this.copyButton.disabled = false;
+    return true;
+  }
+
+  private highlightToken(index: number): void {
+    const span = this.sourceSpans[this.sourceIndex(index)];
+    if (!span) {
+      return;
+    }
+
+    this.routeInput.select(span);
+  }
+
+  private sourceIndex(index: number): number {
+    const source = this.routeSources[index];
+    if (source === undefined) {
+      throw new Error(`No waypoint at position ${index + 1}`);
+    }
+    return source;
+  }
+
+  private editRoute(action: () => void): void {
+    try {
+      if (this.routeMap.stale) {
+        throw new Error('Fix the route errors and convert again before editing on the map');
+      }
+      action();
+    } catch (error) {
+      this.clearMessages();
+      this.showError(error instanceof Error ? error.message : 'Route edit failed');
+    }
+  }
+
+  private insertWaypoint(latitude: number, longitude: number): void {
+    const waypoint: Waypoint = { type: 'GPS', latitude, longitude };
+    const leg = RouteEditor.nearestLeg(this.routeWaypoints, latitude, longitude);
+    if (leg === undefined) {
+      this.editor.insert(this.editor.waypoints.length, waypoint);
+      return;
+    }
+
+    const next = this.routeWaypoints[leg + 1];
+    if (next?.airway) {
+      throw new Error(`Cannot add a waypoint along airway ${next.airway}; edit the route text instead`);
+    }
+    this.editor.insert(this.sourceIndex(leg + 1), waypoint);
+  }
+
+  private removeWaypoint(index: number): void {
+    this.assertEditable(index);
+    this.editor.remove(this.sourceIndex(index));
+  }
+
+  private reorderWaypoint(index: number, offset: number): void {
+    this.assertEditable(index);
+    const source = this.sourceIndex(index);
+    this.editor.move(source, source + offset);
+    const moved = this.routeSources.indexOf(source + offset);
+    if (moved !== -1) {
+      this.routeMap.select(moved);
+    }
+  }
+
+  private assertEditable(index: number): void {
+    const waypoint = this.routeWaypoints[index];
+    const source = this.editor.waypoints[this.sourceIndex(index)];
+    if (waypoint && source?.type === 'NAMED' && source.name !== waypoint.name) {
+      throw new Error(`${waypoint.name} is part of airway ${source.name}; edit the route text instead`);
+    }
+  }
+
+  private applyRouteSpeedLevel(): void {
+    let decoded: DecodedRoute;
+    try {
+      decoded = RouteDecoder.decode(this.routeInput.value);
+    } catch {
+      return;
+    }
+    if (!this.cruisingAltitudeEdited) {
+      this.cruisingAltitudeInput.value = decoded.altitude === undefined ? this.cruisingAltitudeInput.defaultValue : String(decoded.altitude);
+    }
+    if (decoded.speed !== undefined) {
+      this.navlog.setTrueAirspeed(decoded.speed);
+    }
+  }
+
+  private checkContext(): { options: PlnOptions; data: RouteCheckData } {
+    return {
+      options: { ...this.readPlanOptions(), terrainClearance: this.terrain?.clearance },
+      data: { terrain: this.terrain?.model, airspaces: this.airspace?.database }
+    };
+  }
+
+  private readPlanOptions(): PlnOptions {
+    const altitude = this.cruisingAltitudeEdited ? this.cruisingAltitudeInput.value.trim() : '';
+
+    return {
+      title: this.titleInput.value.trim() || undefined,
+      description: this.descriptionInput.value.trim() || undefined,
+      flightType: this.flightTypeSelect.value as FlightType,
+      routeType: this.routeTypeSelect.value as RouteType,
+      cruisingAltitude: altitude ? Number(altitude) : undefined,
+      departureRunway: this.departureRunwayInput.value.trim() || undefined,
+      departureParking: this.departureParkingInput.value.trim() || undefined,
+      arrivalRunway: this.arrivalRunwayInput.value.trim() || undefined,
+      userWaypointTemplate: this.waypointNamesInput.value.trim() || undefined,
+      warningsAsErrors: this.warningsAsErrorsInput.checked
+    };
+  }
+
   private downloadPln(): void {
     const content = this.outputPreview.value;
     if (!content) return;
 
     try {
-      const blob = new Blob([content], { type: 'application/xml' });
+      const exporter = this.selectedExporter();
+      const fileName = this.flightPlan
+        ? NameTemplates.fileName(this.fileNameInput.value, { plan: this.flightPlan, extension: exporter.extension })
+        : `flightplan.${exporter.extension}`;
+      const blob = new Blob([content], { type: exporter.mimeType });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = 'flightplan.pln';
+      link.download = fileName;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       URL.revokeObjectURL(url);
       
-      this.showSuccess('Flight plan downloaded successfully');
+      this.showSuccess(`Flight plan downloaded as ${fileName}`);
     } catch (error) {
-      this.showError('Failed to download file');
+      this.showError(error instanceof Error ? error.message : 'Failed to download file');
     }
   }
 
@@ -246,13 +709,28 @@ class SkyVectorConverter {
     this.successContainer.classList.add('hidden');
   }
 
+  private async restoreSession(): Promise<void> {
+    const recent = await this.library.mostRecent().catch(() => undefined);
+    if (recent) {
+      this.routeInput.value = recent.route;
+    } else {
+      this.showExample();
+    }
+    await this.libraryPanel.refresh().catch(() => this.showError('Route library is unavailable in this browser'));
+  }
+
   private showExample(): void {
     setTimeout(() => {
-      this.textInput.value = 'P34 403210N0772310W 402507N0773505W 401034N0774923W N68';
+      if (!this.routeInput.value.trim()) {
+        this.routeInput.value = 'P34 403210N0772310W 402507N0773505W 401034N0774923W N68';
+      }
     }, 500);
   }
 }
 
 document.addEventListener('DOMContentLoaded', () => {
   new SkyVectorConverter();
+  if (import.meta.env.PROD) {
+    OfflineApp.register(import.meta.env.BASE_URL);
+  }
 });
\ No newline at end of file
@@ -0,0 +1,374 @@
+import { Waypoint } from './types.js';
+import { Basemap, MapProjection } from './basemap.js';
+import { CoordinateConverter } from './converter.js';
+import { RouteAnalyzer } from './analysis.js';
+import { Airspace, AirspaceCrossing, AirspaceDatabase, AirspaceLimits } from './airspace.js';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const WIDTH = 600;
+const HEIGHT = 400;
+const DRAG_THRESHOLD = 3;
+const HINT = 'Hover a waypoint for details, click to find it in the route. Drag user waypoints to move them, double-click the map to add one.';
+const STALE = 'The route has errors; the map shows the last successful conversion. Fix the route and convert again to edit it here.';
+
+export interface RouteMapHandlers {
+  select?: (index: number) => void;
+  move?: (index: number, latitude: number, longitude: number) => void;
+  insert?: (latitude: number, longitude: number) => void;
+  remove?: (index: number) => void;
+  reorder?: (index: number, offset: number) => void;
+  undo?: () => void;
+  redo?: () => void;
+}
+
+interface DragState {
+  index: number;
+  marker: SVGElement;
+  startX: number;
+  startY: number;
+  moved: boolean;
+}
+
+export class RouteMap {
+  private readonly svg: SVGSVGElement;
+  private readonly details: HTMLDivElement;
+  private readonly buttons: Record<'undo' | 'redo' | 'earlier' | 'later' | 'remove', HTMLButtonElement>;
+  private waypoints: Waypoint[] = [];
+  private airspaces: Airspace[] = [];
+  private crossings: AirspaceCrossing[] = [];
+  private projection: MapProjection | undefined;
+  private selected: number | undefined;
+  private drag: DragState | undefined;
+  private suppressClick = false;
+
+  constructor(
+    private readonly container: HTMLElement,
+    private readonly handlers: RouteMapHandlers = {},
+    private readonly basemap: Basemap = Basemap.bundled()
+  ) {
+    this.container.innerHTML = `
+      <h3 class="map-title">Route Map</h3>
+      <div class="map-toolbar">
+        <button type="button" class="map-button" data-map="undo" title="Undo (Ctrl+Z)">↶ Undo</button>
+        <button type="button" class="map-button" data-map="redo" title="Redo (Ctrl+Y)">↷ Redo</button>
+        <button type="button" class="map-button" data-map="earlier" title="Move the selected waypoint earlier">◀ Earlier</button>
+        <button type="button" class="map-button" data-map="later" title="Move the selected waypoint later">Later ▶</button>
+        <button type="button" class="map-button" data-map="remove" title="Delete the selected waypoint">✕ Delete</button>
+      </div>
+      <div class="map-details">${HINT}</div>
+    `;
+
+    this.svg = document.createElementNS(SVG_NS, 'svg');
+    this.svg.setAttribute('viewBox', `0 0 ${WIDTH} ${HEIGHT}`);
+    this.svg.setAttribute('class', 'map-canvas');
+    this.container.insertBefore(this.svg, this.container.lastElementChild);
+    this.details = this.container.querySelector('.map-details') as HTMLDivElement;
+
+    const button = (name: string) => this.container.querySelector(`[data-map="${name}"]`) as HTMLButtonElement;
+    this.buttons = {
+      undo: button('undo'),
+      redo: button('redo'),
+      earlier: button('earlier'),
+      later: button('later'),
+      remove: button('remove')
+    };
+    this.buttons.undo.addEventListener('click', () => this.handlers.undo?.());
+    this.buttons.redo.addEventListener('click', () => this.handlers.redo?.());
+    this.buttons.earlier.addEventListener('click', () => this.withSelection(index => this.handlers.reorder?.(index, -1)));
+    this.buttons.later.addEventListener('click', () => this.withSelection(index => this.handlers.reorder?.(index, 1)));
+    this.buttons.remove.addEventListener('click', () => this.withSelection(index => this.handlers.remove?.(index)));
+
+    this.svg.addEventListener('pointermove', event => this.dragTo(event));
+    this.svg.addEventListener('pointerup', event => this.endDrag(event));
+    this.svg.addEventListener('pointerleave', () => this.cancelDrag());
+    this.svg.addEventListener('dblclick', event => {
+      const target = event.target as Element;
+      if (!this.projection || target.closest('.map-marker')) {
+        return;
+      }
+      const { x, y } = this.svgPoint(event);
+      const { latitude, longitude } = this.projection.unproject(x, y);
+      this.handlers.insert?.(latitude, longitude);
+    });
+
+    this.setHistory(false, false);
+    this.container.classList.add('hidden');
+  }
+
+  get stale(): boolean {
+    return this.container.classList.contains('stale');
+  }
+
+  update(waypoints: Waypoint[]): void {
+    if (this.stale) {
+      this.container.classList.remove('stale');
+      this.details.textContent = HINT;
+    }
+    this.waypoints = waypoints;
+    if (this.selected !== undefined && this.selected >= waypoints.length) {
+      this.selected = undefined;
+    }
+    this.render();
+    if (this.selected !== undefined) {
+      this.select(this.selected);
+    }
+  }
+
+  showAirspaces(airspaces: Airspace[], crossings: AirspaceCrossing[]): void {
+    this.airspaces = airspaces;
+    this.crossings = crossings;
+    if (this.waypoints.length > 0) {
+      this.render();
+    }
+  }
+
+  clear(): void {
+    this.waypoints = [];
+    this.projection = undefined;
+    this.selected = undefined;
+    this.drag = undefined;
+    this.container.classList.remove('stale');
+    this.details.textContent = HINT;
+    this.container.classList.add('hidden');
+  }
+
+  markStale(): void {
+    this.cancelDrag();
+    this.container.classList.add('stale');
+    this.details.textContent = STALE;
+  }
+
+  setHistory(canUndo: boolean, canRedo: boolean): void {
+    this.buttons.undo.disabled = !canUndo;
+    this.buttons.redo.disabled = !canRedo;
+  }
+
+  select(index: number): void {
+    this.selected = index;
+    this.buttons.earlier.disabled = index <= 0;
+    this.buttons.later.disabled = index >= this.waypoints.length - 1;
+    this.buttons.remove.disabled = false;
+    this.svg.querySelectorAll('.map-marker').forEach(marker => {
+      marker.classList.toggle('selected', marker.getAttribute('data-index') === String(index));
+    });
+    const waypoint = this.waypoints[index];
+    if (waypoint) {
+      this.details.textContent = this.describe(waypoint);
+    }
+  }
+
+  private render(): void {
+    const positioned = this.waypoints
+      .map((waypoint, index) => ({ waypoint, index }))
+      .filter(({ waypoint }) => waypoint.latitude !== undefined && waypoint.longitude !== undefined);
+
+    if (positioned.length === 0) {
+      this.clear();
+      return;
+    }
+
+    this.container.classList.remove('hidden');
+    this.svg.innerHTML = '';
+    this.drag = undefined;
+    this.buttons.earlier.disabled = true;
+    this.buttons.later.disabled = true;
+    this.buttons.remove.disabled = true;
+
+    const projection = new MapProjection(
+      MapProjection.boundsOf(positioned.map(({ waypoint }) => ({
+        latitude: waypoint.latitude as number,
+        longitude: waypoint.longitude as number
+      }))),
+      WIDTH,
+      HEIGHT
+    );
+    this.projection = projection;
+
+    this.drawGraticule(projection);
+
+    this.basemap.within(projection.bounds).forEach(feature => {
+      feature.lines.forEach(line => {
+        const path = this.element('path', {
+          d: line.map(([lon, lat], i) => {
+            const { x, y } = projection.project(lat, lon);
+            return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+          }).join(' ') + (feature.closed ? ' Z' : ''),
+          class: `map-feature map-${feature.kind}`
+        });
+        this.svg.appendChild(path);
+      });
+    });
+
+    this.drawAirspaces(projection);
+
+    const points = positioned.map(({ waypoint }) => projection.project(waypoint.latitude as number, waypoint.longitude as number));
+    this.svg.appendChild(this.element('polyline', {
+      points: points.map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' '),
+      class: 'map-route'
+    }));
+
+    positioned.forEach(({ waypoint, index }, i) => {
+      const point = points[i];
+      if (!point) {
+        return;
+      }
+
+      const draggable = waypoint.type === 'GPS' && this.handlers.move !== undefined;
+      const marker = this.element('g', { class: draggable ? 'map-marker draggable' : 'map-marker', 'data-index': String(index) });
+      const title = this.element('title', {});
+      title.textContent = this.describe(waypoint);
+      const label = this.element('text', { x: (point.x + 7).toFixed(1), y: (point.y - 7).toFixed(1), class: 'map-label' });
+      label.textContent = RouteAnalyzer.waypointLabel(waypoint);
+
+      marker.appendChild(title);
+      marker.appendChild(this.element('circle', {
+        cx: point.x.toFixed(1),
+        cy: point.y.toFixed(1),
+        r: '5',
+        class: waypoint.type === 'GPS' ? 'map-point gps' : 'map-point'
+      }));
+      marker.appendChild(label);
+
+      marker.addEventListener('mouseenter', () => {
+        this.details.textContent = this.describe(waypoint);
+      });
+      marker.addEventListener('click', () => {
+        if (this.suppressClick) {
+          this.suppressClick = false;
+          return;
+        }
+        this.select(index);
+        this.handlers.select?.(index);
+      });
+      marker.addEventListener('contextmenu', event => {
+        if (this.handlers.remove) {
+          event.preventDefault();
+          this.handlers.remove(index);
+        }
+      });
+      if (draggable) {
+        marker.addEventListener('pointerdown', event => {
+          const { x, y } = this.svgPoint(event);
+          this.drag = { index, marker, startX: x, startY: y, moved: false };
+          this.suppressClick = false;
+          event.preventDefault();
+        });
+      }
+      this.svg.appendChild(marker);
+    });
+
+    this.crossings.flatMap(crossing => [crossing.entry, crossing.exit]).forEach(point => {
+      if (point) {
+        const { x, y } = projection.project(point.latitude, point.longitude);
+        this.svg.appendChild(this.element('circle', { cx: x.toFixed(1), cy: y.toFixed(1), r: '3.5', class: 'map-crossing' }));
+      }
+    });
+
+    const hidden = this.waypoints.length - positioned.length;
+    this.details.textContent = hidden > 0
+      ? `${hidden} waypoint(s) without a known position are not shown.`
+      : HINT;
+  }
+
+  private withSelection(action: (index: number) => void): void {
+    if (this.selected !== undefined) {
+      action(this.selected);
+    }
+  }
+
+  private svgPoint(event: MouseEvent): { x: number; y: number } {
+    const rect = this.svg.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      return { x: event.clientX, y: event.clientY };
+    }
+    return {
+      x: (event.clientX - rect.left) * WIDTH / rect.width,
+      y: (event.clientY - rect.top) * HEIGHT / rect.height
+    };
+  }
+
+  private dragTo(event: PointerEvent): void {
+    if (!this.drag) {
+      return;
+    }
+    const { x, y } = this.svgPoint(event);
+    const dx = x - this.drag.startX;
+    const dy = y - this.drag.startY;
+    if (!this.drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) {
+      return;
+    }
+    this.drag.moved = true;
+    this.drag.marker.setAttribute('transform', `translate(${dx.toFixed(1)},${dy.toFixed(1)})`);
+  }
+
+  private endDrag(event: PointerEvent): void {
+    const drag = this.drag;
+    this.drag = undefined;
+    if (!drag?.moved || !this.projection) {
+      return;
+    }
+    this.suppressClick = true;
+    const { x, y } = this.svgPoint(event);
+    const { latitude, longitude } = this.projection.unproject(x, y);
+    this.handlers.move?.(drag.index, latitude, longitude);
+  }
+
+  private cancelDrag(): void {
+    if (this.drag) {
+      this.drag.marker.removeAttribute('transform');
+      this.drag = undefined;
+    }
+  }
+
+  private drawGraticule(projection: MapProjection): void {
+    const step = projection.gridStep();
+    const topLeft = projection.unproject(0, 0);
+    const bottomRight = projection.unproject(WIDTH, HEIGHT);
+
+    for (let lat = Math.ceil(bottomRight.latitude / step) * step; lat <= topLeft.latitude; lat += step) {
+      const { y } = projection.project(lat, topLeft.longitude);
+      this.svg.appendChild(this.element('line', { x1: '0', y1: y.toFixed(1), x2: String(WIDTH), y2: y.toFixed(1), class: 'map-grid' }));
+    }
+    for (let lon = Math.ceil(topLeft.longitude / step) * step; lon <= bottomRight.longitude; lon += step) {
+      const { x } = projection.project(topLeft.latitude, lon);
+      this.svg.appendChild(this.element('line', { x1: x.toFixed(1), y1: '0', x2: x.toFixed(1), y2: String(HEIGHT), class: 'map-grid' }));
+    }
+  }
+
+  private drawAirspaces(projection: MapProjection): void {
+    const crossed = new Set(this.crossings.map(crossing => crossing.airspace));
+    new AirspaceDatabase(this.airspaces).within(projection.bounds).forEach(airspace => {
+      const path = this.element('path', {
+        d: airspace.points.map(({ latitude, longitude }, i) => {
+          const { x, y } = projection.project(latitude, longitude);
+          return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+        }).join(' ') + ' Z',
+        class: `map-airspace map-airspace-${airspace.type.toLowerCase()}${crossed.has(airspace) ? ' crossed' : ''}`
+      });
+      const title = this.element('title', {});
+      title.textContent = `${AirspaceDatabase.describe(airspace)} · ${AirspaceLimits.format(airspace.floor)} to ${AirspaceLimits.format(airspace.ceiling)}`;
+      path.appendChild(title);
+      this.svg.appendChild(path);
+    });
+  }
+
+  private describe(waypoint: Waypoint): string {
+    const parts = [RouteAnalyzer.waypointLabel(waypoint), waypoint.waypointType ?? (waypoint.type === 'GPS' ? 'User waypoint' : 'Unknown')];
+    if (waypoint.latitude !== undefined && waypoint.longitude !== undefined) {
+      parts.push(`${CoordinateConverter.decimalToSkyVector(waypoint.latitude, 'latitude')} ${CoordinateConverter.decimalToSkyVector(waypoint.longitude, 'longitude')}`);
+    }
+    if (waypoint.airway) {
+      parts.push(`via ${waypoint.airway}`);
+    }
+    if (waypoint.altitude !== undefined) {
+      parts.push(`${waypoint.altitude} ft`);
+    }
+    return parts.join(' · ');
+  }
+
+  private element(name: string, attributes: Record<string, string>): SVGElement {
+    const element = document.createElementNS(SVG_NS, name);
+    Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, value));
+    return element;
+  }
+}
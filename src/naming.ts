@@ -0,0 +1,56 @@
+import { FlightPlan, Waypoint } from './types.js';
+
+export const MAX_USER_WAYPOINT_ID = 12;
+export const DEFAULT_FILE_NAME_TEMPLATE = '{dep}-{arr}.{ext}';
+export const DEFAULT_USER_WAYPOINT_TEMPLATE = 'WP{n}';
+
+export interface FileNameContext {
+  plan: FlightPlan;
+  extension: string;
+  name?: string;
+  date?: Date;
+}
+
+const pad = (value: number, length: number): string => value.toString().padStart(length, '0');
+
+const expand = (template: string, values: Record<string, string>, kind: string): string =>
+  template.replace(/\{([^{}]*)\}/g, (_, key: string) => {
+    const value = values[key.toLowerCase()];
+    if (value === undefined) {
+      throw new Error(`Unknown ${kind} placeholder {${key}}. Use ${Object.keys(values).map(name => `{${name}}`).join(', ')}.`);
+    }
+    return value;
+  });
+
+const minutes = (decimal: number, positive: string, negative: string, degrees: number): string => {
+  const total = Math.round(Math.abs(decimal) * 60);
+  return `${decimal < 0 ? negative : positive}${pad(Math.floor(total / 60), degrees)}${pad(total % 60, 2)}`;
+};
+
+export class NameTemplates {
+  static fileName(template: string, context: FileNameContext): string {
+    const { plan, extension } = context;
+    const date = context.date ?? new Date();
+    const name = expand(template.trim() || DEFAULT_FILE_NAME_TEMPLATE, {
+      name: context.name ?? `${plan.departureId}-${plan.arrivalId}`,
+      dep: plan.departureId,
+      arr: plan.arrivalId,
+      title: plan.title,
+      date: `${date.getFullYear()}-${pad(date.getMonth() + 1, 2)}-${pad(date.getDate(), 2)}`,
+      time: `${pad(date.getHours(), 2)}${pad(date.getMinutes(), 2)}`,
+      ext: extension
+    }, 'file name');
+
+    const safe = name.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^[-.]+|-+$/g, '') || 'route';
+    return safe.toLowerCase().endsWith(`.${extension.toLowerCase()}`) ? safe : `${safe}.${extension}`;
+  }
+
+  static userWaypointId(template: string, waypoint: Waypoint, sequence: number, index: number): string {
+    return expand(template.trim() || DEFAULT_USER_WAYPOINT_TEMPLATE, {
+      n: String(sequence),
+      index: String(index + 1),
+      lat: waypoint.latitude === undefined ? '' : minutes(waypoint.latitude, 'N', 'S', 2),
+      lon: waypoint.longitude === undefined ? '' : minutes(waypoint.longitude, 'E', 'W', 3)
+    }, 'waypoint name');
+  }
+}
@@ -0,0 +1,186 @@
+import { Waypoint, NavaidRecord, NavaidType, ConversionError } from './types.js';
+import { GeoMath } from './geo.js';
+import { CsvParser } from './csv.js';
+import { NAVDATA_CSV } from './data/navdata.js';
+
+export interface NavResolution {
+  waypoints: Waypoint[];
+  warnings: ConversionError[];
+}
+
+const NAVAID_TYPES: NavaidType[] = ['Airport', 'VOR', 'NDB', 'Intersection'];
+const REQUIRED_COLUMNS = ['ident', 'type', 'latitude', 'longitude'];
+
+export class NavDatabase {
+  private static bundledDatabase: NavDatabase | undefined;
+  private readonly records = new Map<string, NavaidRecord[]>();
+
+  constructor(records: NavaidRecord[] = []) {
+    records.forEach(record => this.add(record));
+  }
+
+  static bundled(): NavDatabase {
+    if (!this.bundledDatabase) {
+      this.bundledDatabase = this.fromCsv(NAVDATA_CSV);
+    }
+    return this.bundledDatabase;
+  }
+
+  static fromCsv(csv: string): NavDatabase {
+    const rows = CsvParser.parseRecords(csv, REQUIRED_COLUMNS, 'Navdata');
+
+    const records = rows.map((row, index) => {
+      const field = (column: string) => row[column] ?? '';
+      const lineNumber = index + 2;
+
+      const type = NAVAID_TYPES.find(candidate => candidate.toLowerCase() === field('type').toLowerCase());
+      if (!type) {
+        throw new Error(`Unknown navaid type "${field('type')}" on line ${lineNumber}`);
+      }
+
+      const latitude = parseFloat(field('latitude'));
+      const longitude = parseFloat(field('longitude'));
+      if (Number.isNaN(latitude) || Number.isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        throw new Error(`Invalid coordinates on line ${lineNumber}`);
+      }
+
+      const ident = field('ident').toUpperCase();
+      if (!ident) {
+        throw new Error(`Missing ident on line ${lineNumber}`);
+      }
+
+      return {
+        ident,
+        type,
+        name: field('name') || ident,
+        latitude,
+        longitude,
+        elevation: parseFloat(field('elevation')) || 0,
+        region: field('region').toUpperCase()
+      };
+    });
+
+    return new NavDatabase(records);
+  }
+
+  add(record: NavaidRecord): void {
+    const existing = this.records.get(record.ident) ?? [];
+    existing.push(record);
+    this.records.set(record.ident, existing);
+  }
+
+  lookup(ident: string): NavaidRecord[] {
+    return this.records.get(ident.toUpperCase()) ?? [];
+  }
+
+  get size(): number {
+    let count = 0;
+    this.records.forEach(records => {
+      count += records.length;
+    });
+    return count;
+  }
+
+  resolveRoute(waypoints: Waypoint[]): NavResolution {
+    const warnings: ConversionError[] = [];
+    const resolved: Waypoint[] = waypoints.map(waypoint => ({ ...waypoint }));
+    const pending: number[] = [];
+
+    resolved.forEach((waypoint, index) => {
+      if (waypoint.type !== 'NAMED' || !waypoint.name || waypoint.waypointType) {
+        return;
+      }
+
+      const candidates = this.lookup(waypoint.name);
+      if (candidates.length === 0) {
+        if (waypoint.latitude === undefined || waypoint.longitude === undefined) {
+          warnings.push({
+            message: `Unknown waypoint "${waypoint.name}" at position ${index + 1}. It will be exported as an airport without coordinates.`,
+            position: index,
+            input: waypoint.name
+          });
+        }
+      } else if (candidates.length === 1 && candidates[0]) {
+        this.apply(waypoint, candidates[0]);
+      } else {
+        pending.push(index);
+      }
+    });
+
+    pending.forEach(index => {
+      const waypoint = resolved[index];
+      if (!waypoint?.name) {
+        return;
+      }
+
+      const candidates = this.lookup(waypoint.name);
+      const references = this.neighbourPositions(resolved, index);
+      const choice = references.length > 0
+        ? this.closestTo(candidates, references)
+        : candidates[0];
+
+      if (!choice) {
+        return;
+      }
+
+      if (references.length === 0) {
+        warnings.push({
+          message: `Ambiguous waypoint "${waypoint.name}" at position ${index + 1} exists in regions ${candidates.map(c => c.region || '?').join(', ')}. Using ${choice.type} in ${choice.region || 'unknown region'}.`,
+          position: index,
+          input: waypoint.name
+        });
+      }
+
+      this.apply(waypoint, choice);
+    });
+
+    return { waypoints: resolved, warnings };
+  }
+
+  private apply(waypoint: Waypoint, record: NavaidRecord): void {
+    waypoint.waypointType = record.type;
+    waypoint.region ??= record.region || undefined;
+    waypoint.elevation ??= record.elevation;
+    if (waypoint.latitude === undefined || waypoint.longitude === undefined) {
+      waypoint.latitude = record.latitude;
+      waypoint.longitude = record.longitude;
+    }
+  }
+
+  private neighbourPositions(waypoints: Waypoint[], index: number): Array<[number, number]> {
+    const positions: Array<[number, number]> = [];
+    const own = waypoints[index];
+    if (own?.latitude !== undefined && own.longitude !== undefined) {
+      return [[own.latitude, own.longitude]];
+    }
+
+    for (const step of [-1, 1]) {
+      for (let i = index + step; i >= 0 && i < waypoints.length; i += step) {
+        const neighbour = waypoints[i];
+        if (neighbour?.latitude !== undefined && neighbour.longitude !== undefined) {
+          positions.push([neighbour.latitude, neighbour.longitude]);
+          break;
+        }
+      }
+    }
+    return positions;
+  }
+
+  private closestTo(candidates: NavaidRecord[], references: Array<[number, number]>): NavaidRecord | undefined {
+    let best: NavaidRecord | undefined;
+    let bestDistance = Infinity;
+
+    candidates.forEach(candidate => {
+      const distance = references.reduce(
+        (total, [lat, lon]) => total + GeoMath.distanceNm(candidate.latitude, candidate.longitude, lat, lon),
+        0
+      );
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    });
+
+    return best;
+  }
+}
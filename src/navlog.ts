@@ -0,0 +1,129 @@
+import { Waypoint } from './types.js';
+import { RouteAnalyzer, RouteAnalysis } from './analysis.js';
+
+const COLUMNS = ['Leg', 'Dist', 'TC', 'MC', 'MH', 'GS', 'ETE', 'Total', 'Time'];
+
+export class NavlogPanel {
+  private readonly tasInput: HTMLInputElement;
+  private readonly windDirectionInput: HTMLInputElement;
+  private readonly windSpeedInput: HTMLInputElement;
+  private readonly table: HTMLDivElement;
+  private waypoints: Waypoint[] = [];
+
+  constructor(private readonly container: HTMLElement) {
+    this.container.innerHTML = `
+      <h3 class="navlog-title">Navlog</h3>
+      <div class="navlog-options">
+        <label class="option-field">
+          <span>TAS (kt)</span>
+          <input type="number" class="option-input" data-navlog="tas" value="100" min="1" max="999">
+        </label>
+        <label class="option-field">
+          <span>Wind from (°T)</span>
+          <input type="number" class="option-input" data-navlog="windDirection" value="0" min="0" max="360">
+        </label>
+        <label class="option-field">
+          <span>Wind speed (kt)</span>
+          <input type="number" class="option-input" data-navlog="windSpeed" value="0" min="0" max="250">
+        </label>
+      </div>
+      <div class="navlog-table"></div>
+    `;
+
+    this.tasInput = this.container.querySelector('[data-navlog="tas"]') as HTMLInputElement;
+    this.windDirectionInput = this.container.querySelector('[data-navlog="windDirection"]') as HTMLInputElement;
+    this.windSpeedInput = this.container.querySelector('[data-navlog="windSpeed"]') as HTMLInputElement;
+    this.table = this.container.querySelector('.navlog-table') as HTMLDivElement;
+
+    [this.tasInput, this.windDirectionInput, this.windSpeedInput].forEach(input => {
+      input.addEventListener('input', () => this.render());
+    });
+
+    this.container.classList.add('hidden');
+  }
+
+  setTrueAirspeed(knots: number): void {
+    this.tasInput.value = String(knots);
+    this.render();
+  }
+
+  update(waypoints: Waypoint[]): void {
+    this.waypoints = waypoints;
+    this.render();
+  }
+
+  clear(): void {
+    this.waypoints = [];
+    this.container.classList.add('hidden');
+  }
+
+  private render(): void {
+    if (this.waypoints.length < 2) {
+      this.clear();
+      return;
+    }
+
+    this.container.classList.remove('hidden');
+    this.table.innerHTML = '';
+
+    let analysis: RouteAnalysis;
+    try {
+      analysis = RouteAnalyzer.analyze(this.waypoints, {
+        trueAirspeed: Number(this.tasInput.value) || undefined,
+        windDirection: Number(this.windDirectionInput.value) || 0,
+        windSpeed: Number(this.windSpeedInput.value) || 0
+      });
+    } catch (error) {
+      this.table.textContent = error instanceof Error ? error.message : 'Unable to compute navlog';
+      return;
+    }
+
+    const table = document.createElement('table');
+    const header = table.createTHead().insertRow();
+    COLUMNS.forEach(column => {
+      const cell = document.createElement('th');
+      cell.textContent = column;
+      header.appendChild(cell);
+    });
+
+    const body = table.createTBody();
+    analysis.legs.forEach(leg => {
+      this.addRow(body, [
+        `${leg.from} → ${leg.to}`,
+        leg.distance.toFixed(1),
+        RouteAnalyzer.formatCourse(leg.trueCourse),
+        RouteAnalyzer.formatCourse(leg.magneticCourse),
+        leg.magneticHeading !== undefined ? RouteAnalyzer.formatCourse(leg.magneticHeading) : '—',
+        leg.groundSpeed !== undefined ? Math.round(leg.groundSpeed).toString() : '—',
+        leg.ete !== undefined ? RouteAnalyzer.formatDuration(leg.ete) : '—',
+        leg.cumulativeDistance.toFixed(1),
+        leg.cumulativeTime !== undefined ? RouteAnalyzer.formatDuration(leg.cumulativeTime) : '—'
+      ]);
+    });
+
+    const footer = table.createTFoot();
+    this.addRow(footer, [
+      'Total',
+      analysis.totalDistance.toFixed(1),
+      '', '', '', '',
+      analysis.totalTime !== undefined ? RouteAnalyzer.formatDuration(analysis.totalTime) : '—',
+      '', ''
+    ]);
+
+    this.table.appendChild(table);
+
+    if (analysis.unpositioned.length > 0) {
+      const note = document.createElement('p');
+      note.className = 'navlog-note';
+      note.textContent = `Not included (no known position): ${analysis.unpositioned.join(', ')}`;
+      this.table.appendChild(note);
+    }
+  }
+
+  private addRow(section: HTMLTableSectionElement, values: string[]): void {
+    const row = section.insertRow();
+    values.forEach(value => {
+      row.insertCell().textContent = value;
+    });
+  }
+}
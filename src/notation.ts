@@ -0,0 +1,224 @@
+export type CoordinateAxis = 'latitude' | 'longitude';
+
+export interface CoordinateComponent {
+  axis: CoordinateAxis;
+  text: string;
+  degrees: number;
+  minutes: number;
+  seconds: number;
+  negative: boolean;
+}
+
+export interface CoordinateNotation {
+  name: string;
+  example: string;
+  match(token: string): CoordinateComponent[] | undefined;
+}
+
+export interface CoordinateDetection {
+  notation: CoordinateNotation;
+  components: CoordinateComponent[];
+}
+
+export interface CoordinateIssue {
+  problem: 'minutes' | 'seconds' | 'degrees';
+  component: CoordinateComponent;
+}
+
+export interface CoordinateReading {
+  notation: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+const NUMBER = '\\d+(?:\\.\\d+)?';
+const SYMBOL_AXIS = `([NSEW])?(\\d{1,3})[°º](\\d{1,2}(?:\\.\\d+)?)['′’](?:(\\d{1,2}(?:\\.\\d+)?)["″”])?([NSEW])?`;
+
+const component = (
+  text: string,
+  hemisphere: string,
+  degrees: string,
+  minutes = '0',
+  seconds = '0'
+): CoordinateComponent => ({
+  axis: hemisphere === 'N' || hemisphere === 'S' ? 'latitude' : 'longitude',
+  text,
+  degrees: parseFloat(degrees),
+  minutes: parseFloat(minutes),
+  seconds: parseFloat(seconds),
+  negative: hemisphere === 'S' || hemisphere === 'W'
+});
+
+const hemisphereNotation = (name: string, example: string, latitude: string, longitude: string): CoordinateNotation => {
+  const lat = new RegExp(`^${latitude}([NS])$`);
+  const lon = new RegExp(`^${longitude}([EW])$`);
+  const combined = new RegExp(`^(${latitude.replace(/\((?!\?)/g, '(?:')}[NS])(${longitude.replace(/\((?!\?)/g, '(?:')}[EW])$`);
+
+  const single = (text: string): CoordinateComponent | undefined => {
+    const match = text.match(lat) ?? text.match(lon);
+    if (!match) {
+      return undefined;
+    }
+    const groups = match.slice(1);
+    const hemisphere = groups.pop() ?? '';
+    const [degrees = '', minutes, seconds] = groups;
+    return component(text, hemisphere, degrees, minutes, seconds);
+  };
+
+  return {
+    name,
+    example,
+    match(token: string) {
+      const pair = token.match(combined);
+      if (pair) {
+        const first = single(pair[1] ?? '');
+        const second = single(pair[2] ?? '');
+        return first && second ? [first, second] : undefined;
+      }
+      const axis = single(token);
+      return axis ? [axis] : undefined;
+    }
+  };
+};
+
+export const DDMMSS_NOTATION = hemisphereNotation(
+  'DDMMSS',
+  '403210N0772310W',
+  `(\\d{2})(\\d{2})(\\d{2}(?:\\.\\d+)?)`,
+  `(\\d{3})(\\d{2})(\\d{2}(?:\\.\\d+)?)`
+);
+
+export const DDMM_NOTATION = hemisphereNotation(
+  'DDMM',
+  '4032N07723W',
+  `(\\d{2})(\\d{2}(?:\\.\\d+)?)`,
+  `(\\d{3})(\\d{2}(?:\\.\\d+)?)`
+);
+
+export const DECIMAL_NOTATION: CoordinateNotation = {
+  name: 'decimal',
+  example: '40.5361,-77.3861',
+  match(token: string) {
+    const match = token.match(new RegExp(`^([+-]?)(${NUMBER}),([+-]?)(${NUMBER})$`));
+    if (!match) {
+      return undefined;
+    }
+    const [, latSign = '', lat = '', lonSign = '', lon = ''] = match;
+    return [
+      { axis: 'latitude', text: `${latSign}${lat}`, degrees: parseFloat(lat), minutes: 0, seconds: 0, negative: latSign === '-' },
+      { axis: 'longitude', text: `${lonSign}${lon}`, degrees: parseFloat(lon), minutes: 0, seconds: 0, negative: lonSign === '-' }
+    ];
+  }
+};
+
+export const SYMBOL_NOTATION: CoordinateNotation = {
+  name: 'degrees-minutes',
+  example: 'N40°32.17\' W077°23.17\'',
+  match(token: string) {
+    const single = (text: string): CoordinateComponent | undefined => {
+      const match = text.match(new RegExp(`^${SYMBOL_AXIS}$`));
+      if (!match) {
+        return undefined;
+      }
+      const [, prefix, degrees = '', minutes, seconds, suffix] = match;
+      if (!prefix === !suffix) {
+        return undefined;
+      }
+      return component(text, prefix ?? suffix ?? '', degrees, minutes, seconds);
+    };
+
+    const axis = single(token);
+    if (axis) {
+      return [axis];
+    }
+
+    for (let split = 1; split < token.length; split++) {
+      const first = single(token.substring(0, split));
+      const second = first?.axis === 'latitude' ? single(token.substring(split)) : undefined;
+      if (first && second?.axis === 'longitude') {
+        return [first, second];
+      }
+    }
+    return undefined;
+  }
+};
+
+export class CoordinateNotations {
+  private static standardRegistry: CoordinateNotations | undefined;
+  private readonly notations: CoordinateNotation[] = [];
+
+  constructor(notations: CoordinateNotation[] = []) {
+    notations.forEach(notation => this.register(notation));
+  }
+
+  static standard(): CoordinateNotations {
+    if (!this.standardRegistry) {
+      this.standardRegistry = new CoordinateNotations([DDMMSS_NOTATION, DDMM_NOTATION, DECIMAL_NOTATION, SYMBOL_NOTATION]);
+    }
+    return this.standardRegistry;
+  }
+
+  static issues(components: CoordinateComponent[]): CoordinateIssue[] {
+    const issues: CoordinateIssue[] = [];
+    components.forEach(component => {
+      if (component.minutes >= 60) {
+        issues.push({ problem: 'minutes', component });
+      }
+      if (component.seconds >= 60) {
+        issues.push({ problem: 'seconds', component });
+      }
+      const limit = component.axis === 'latitude' ? 90 : 180;
+      if (component.degrees + component.minutes / 60 + component.seconds / 3600 > limit) {
+        issues.push({ problem: 'degrees', component });
+      }
+    });
+    return issues;
+  }
+
+  static toDecimal(component: CoordinateComponent): number {
+    const decimal = component.degrees + component.minutes / 60 + component.seconds / 3600;
+    return Math.round((component.negative ? -decimal : decimal) * 1000000) / 1000000;
+  }
+
+  register(notation: CoordinateNotation): void {
+    if (this.notations.some(existing => existing.name === notation.name)) {
+      throw new Error(`Coordinate notation "${notation.name}" is already registered`);
+    }
+    this.notations.push(notation);
+  }
+
+  get all(): CoordinateNotation[] {
+    return [...this.notations];
+  }
+
+  detect(token: string): CoordinateDetection | undefined {
+    for (const notation of this.notations) {
+      const components = notation.match(token);
+      if (components && components.length > 0) {
+        return { notation, components };
+      }
+    }
+    return undefined;
+  }
+
+  read(token: string): CoordinateReading | undefined {
+    const detection = this.detect(token);
+    if (!detection) {
+      return undefined;
+    }
+
+    const [issue] = CoordinateNotations.issues(detection.components);
+    if (issue) {
+      const { axis, text } = issue.component;
+      throw new Error(issue.problem === 'degrees'
+        ? `${axis === 'latitude' ? 'Latitude' : 'Longitude'} degrees out of range: ${text}`
+        : `Invalid minutes/seconds in coordinate: ${text}`);
+    }
+
+    const reading: CoordinateReading = { notation: detection.notation.name };
+    detection.components.forEach(component => {
+      reading[component.axis] = CoordinateNotations.toDecimal(component);
+    });
+    return reading;
+  }
+}
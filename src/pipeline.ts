@@ -0,0 +1,191 @@
+import { Waypoint, PlnOptions, ConversionError, SourceSpan, FlightPlan, Severity } from './types.js';
+import { RouteParser, PlnGenerator } from './converter.js';
+import { InputValidator } from './validation.js';
+import { NavDatabase } from './navdata.js';
+import { AirwayDatabase } from './airways.js';
+import { RouteDecoder, DecodedRoute, RouteInputFormat } from './decoder.js';
+import { RouteChecker } from './checks.js';
+import { TerrainAnalyzer, TerrainModel } from './terrain.js';
+import { AirspaceChecker, AirspaceDatabase } from './airspace.js';
+import { AceXmlDocument, PlnSchema } from './acexml.js';
+import { XmlWriter } from './xml.js';
+
+export type ConversionStage = 'input' | 'route' | 'check' | 'options' | 'generate';
+
+export interface RouteCheckData {
+  terrain?: TerrainModel;
+  airspaces?: AirspaceDatabase;
+}
+
+export interface ConversionResult {
+  format?: RouteInputFormat;
+  decoded?: DecodedRoute;
+  pln?: string;
+  plan?: FlightPlan;
+  waypoints: Waypoint[];
+  sourceWaypoints: Waypoint[];
+  spans: SourceSpan[];
+  notations: string[];
+  sources: number[];
+  errors: ConversionError[];
+  warnings: ConversionError[];
+  stage?: ConversionStage;
+}
+
+export class RouteConverter {
+  static convert(
+    text: string,
+    options: PlnOptions = {},
+    navdata: NavDatabase = NavDatabase.bundled(),
+    airways: AirwayDatabase = AirwayDatabase.bundled(),
+    data: RouteCheckData = {}
+  ): ConversionResult {
+    const parsed = this.parse(text);
+    if (parsed.stage) {
+      return parsed;
+    }
+    const checked = this.validate(parsed, options, navdata, airways, data);
+    return checked.stage ? checked : this.generate(checked, options);
+  }
+
+  static parse(text: string): ConversionResult {
+    const result: ConversionResult = {
+      waypoints: [], sourceWaypoints: [], spans: [], notations: [], sources: [], errors: [], warnings: []
+    };
+
+    if (!text.trim()) {
+      return this.fail(result, 'input', [{ message: 'No route provided' }]);
+    }
+
+    let decoded: DecodedRoute;
+    try {
+      decoded = RouteDecoder.decode(text);
+    } catch (error) {
+      return this.fail(result, 'input', [{ message: error instanceof Error ? error.message : 'Failed to decode route' }]);
+    }
+    result.format = decoded.format;
+    result.decoded = decoded;
+
+    if (!decoded.route.trim()) {
+      return this.fail(result, 'input', [{ message: 'No route provided' }]);
+    }
+
+    const validationErrors = InputValidator.validateRouteInput(decoded.route);
+    if (validationErrors.length > 0) {
+      return this.fail(result, 'input', validationErrors.map(error => error.span
+        ? { ...error, span: RouteDecoder.sourceSpan(decoded, error.span) }
+        : error));
+    }
+
+    try {
+      const { waypoints, spans, notations } = RouteParser.parseSourceRouteWithSpans(decoded.route);
+      result.sourceWaypoints = waypoints;
+      result.spans = spans.map(span => RouteDecoder.sourceSpan(decoded, span));
+      result.notations = [...new Set(notations.filter((notation): notation is string => notation !== undefined))];
+    } catch (error) {
+      return this.fail(result, 'input', [{ message: error instanceof Error ? error.message : 'Failed to parse route' }]);
+    }
+
+    if (result.sourceWaypoints.length === 0) {
+      return this.fail(result, 'input', [{ message: 'No valid waypoints found in the input' }]);
+    }
+    return result;
+  }
+
+  static fromWaypoints(waypoints: Waypoint[]): ConversionResult {
+    const result: ConversionResult = {
+      waypoints: [], sourceWaypoints: waypoints.map(waypoint => ({ ...waypoint })), spans: [], notations: [], sources: [], errors: [], warnings: []
+    };
+    return waypoints.length === 0 ? this.fail(result, 'input', [{ message: 'No valid waypoints found in the input' }]) : result;
+  }
+
+  static validate(
+    parsed: ConversionResult,
+    options: PlnOptions = {},
+    navdata: NavDatabase = NavDatabase.bundled(),
+    airways: AirwayDatabase = AirwayDatabase.bundled(),
+    data: RouteCheckData = {}
+  ): ConversionResult {
+    const result: ConversionResult = { ...parsed, warnings: [...parsed.warnings] };
+    if (result.stage) {
+      return result;
+    }
+
+    const expansion = airways.expandRoute(result.sourceWaypoints, navdata);
+    result.sources = expansion.sources;
+    result.warnings.push(...this.locate(expansion.warnings, 'warning', result.spans, position => position));
+    if (expansion.errors.length > 0) {
+      return this.fail(result, 'route', this.locate(expansion.errors, 'error', result.spans, position => position));
+    }
+
+    const resolution = navdata.resolveRoute(expansion.waypoints);
+    result.waypoints = resolution.waypoints;
+    result.warnings.push(...this.locate(resolution.warnings, 'warning', result.spans, position => result.sources[position]));
+    result.warnings.push(...this.locate(RouteChecker.check(result.waypoints), 'warning', result.spans, position => result.sources[position]));
+    const cruiseAltitude = options.cruisingAltitude ?? result.decoded?.altitude ?? 3500;
+    if (options.terrainClearance !== undefined) {
+      const terrainWarnings = TerrainAnalyzer.check(result.waypoints, { cruiseAltitude, clearance: options.terrainClearance, terrain: data.terrain });
+      result.warnings.push(...this.locate(terrainWarnings, 'warning', result.spans, position => result.sources[position]));
+    }
+    if (data.airspaces) {
+      const airspaceWarnings = AirspaceChecker.check(result.waypoints, data.airspaces, {
+        cruiseAltitude,
+        terrain: data.terrain ?? TerrainModel.bundled()
+      });
+      result.warnings.push(...this.locate(airspaceWarnings, 'warning', result.spans, position => result.sources[position]));
+    }
+
+    if (options.warningsAsErrors && result.warnings.length > 0) {
+      return { ...this.fail(result, 'check', result.warnings), warnings: [] };
+    }
+    return result;
+  }
+
+  static generate(checked: ConversionResult, options: PlnOptions = {}): ConversionResult {
+    const result: ConversionResult = { ...checked };
+    if (result.stage) {
+      return result;
+    }
+
+    const planOptions: PlnOptions = {
+      ...options,
+      cruisingAltitude: options.cruisingAltitude ?? result.decoded?.altitude,
+      cruiseSpeed: options.cruiseSpeed ?? result.decoded?.speed
+    };
+    const optionErrors = InputValidator.validatePlanOptions(planOptions, result.waypoints);
+    if (optionErrors.length > 0) {
+      return this.fail(result, 'options', optionErrors);
+    }
+
+    try {
+      result.plan = PlnGenerator.buildFlightPlan(result.waypoints, planOptions);
+      const document = AceXmlDocument.toElement(PlnGenerator.buildDocument(result.plan));
+      const issues = PlnSchema.validate(document);
+      if (issues.length > 0) {
+        return this.fail(result, 'generate', issues.map(issue => ({ message: `Generated .PLN does not match the MSFS flight plan schema: ${issue}` })));
+      }
+      result.pln = XmlWriter.serialize(document);
+    } catch (error) {
+      return this.fail(result, 'generate', [{ message: error instanceof Error ? error.message : 'Failed to generate flight plan' }]);
+    }
+
+    return result;
+  }
+
+  private static fail(result: ConversionResult, stage: ConversionStage, errors: ConversionError[]): ConversionResult {
+    return { ...result, errors: errors.map(error => ({ ...error, severity: 'error' as const })), stage };
+  }
+
+  private static locate(
+    errors: ConversionError[],
+    severity: Severity,
+    spans: SourceSpan[],
+    sourceIndex: (position: number) => number | undefined
+  ): ConversionError[] {
+    return errors.map(error => {
+      const index = error.position === undefined ? undefined : sourceIndex(error.position);
+      const span = index === undefined ? undefined : spans[index];
+      return span ? { ...error, severity, span } : { ...error, severity };
+    });
+  }
+}
@@ -0,0 +1,378 @@
+import { Waypoint } from './types.js';
+import { AircraftProfile } from './aircraft.js';
+import { GeoMath } from './geo.js';
+import { MagneticModel } from './magvar.js';
+import { RouteAnalyzer } from './analysis.js';
+import { XmlWriter } from './xml.js';
+
+export interface WindLayer {
+  altitude: number;
+  direction: number;
+  speed: number;
+}
+
+export type FlightPhase = 'climb' | 'cruise' | 'descent';
+
+export interface PlannerOptions {
+  profile: AircraftProfile;
+  cruiseAltitude: number;
+  winds?: WindLayer[];
+  date?: Date;
+  magneticModel?: MagneticModel;
+}
+
+export interface ProfilePoint {
+  latitude: number;
+  longitude: number;
+  distance: number;
+  altitude: number;
+}
+
+export interface PlannedLeg {
+  from: string;
+  to: string;
+  phase: FlightPhase;
+  altitude: number;
+  distance: number;
+  trueCourse: number;
+  magneticCourse: number;
+  windDirection: number;
+  windSpeed: number;
+  trueAirspeed: number;
+  trueHeading: number;
+  magneticHeading: number;
+  groundSpeed: number;
+  time: number;
+  fuel: number;
+  cumulativeDistance: number;
+  cumulativeTime: number;
+  fuelRemaining: number;
+}
+
+export interface FlightLog {
+  legs: PlannedLeg[];
+  topOfClimb?: ProfilePoint;
+  topOfDescent?: ProfilePoint;
+  totalDistance: number;
+  totalTime: number;
+  taxiFuel: number;
+  tripFuel: number;
+  reserveFuel: number;
+  requiredFuel: number;
+  landingFuel: number;
+  warnings: string[];
+  unpositioned: string[];
+}
+
+export interface NavlogHeader {
+  title: string;
+  route: string;
+  profile: AircraftProfile;
+  cruiseAltitude: number;
+  date?: Date;
+}
+
+interface LegGeometry {
+  from: Waypoint;
+  to: Waypoint;
+  start: number;
+  distance: number;
+  trueCourse: number;
+  magneticVariation: number;
+}
+
+export const NAVLOG_COLUMNS = ['Leg', 'Phase', 'Alt', 'Dist', 'MC', 'Wind', 'MH', 'GS', 'ETE', 'Fuel', 'Rem'];
+
+const WIND_REGEX = /^(\d{1,5})\s*[: ]\s*(\d{1,3})\s*[/@]\s*(\d{1,3})$/;
+
+export class WindsAloft {
+  static parse(text: string): WindLayer[] {
+    return text.split(/[,;\n]+/).map(entry => entry.trim()).filter(Boolean).map(entry => {
+      const match = entry.match(WIND_REGEX);
+      const [, altitude = '', direction = '', speed = ''] = match ?? [];
+      if (!match || Number(direction) > 360 || Number(speed) > 250) {
+        throw new Error(`Invalid winds aloft entry "${entry}". Use altitude direction/speed, e.g. 6000 270/25.`);
+      }
+      return { altitude: Number(altitude), direction: Number(direction) % 360, speed: Number(speed) };
+    }).sort((a, b) => a.altitude - b.altitude);
+  }
+
+  static format(layers: WindLayer[]): string {
+    return layers.map(layer => `${layer.altitude} ${layer.direction.toString().padStart(3, '0')}/${layer.speed}`).join(', ');
+  }
+
+  static at(layers: WindLayer[], altitude: number): { direction: number; speed: number } {
+    const above = layers.findIndex(layer => layer.altitude >= altitude);
+    const upper = layers[above === -1 ? layers.length - 1 : above];
+    const lower = above > 0 ? layers[above - 1] : undefined;
+    if (!upper) {
+      return { direction: 0, speed: 0 };
+    }
+    if (!lower || upper.altitude === altitude) {
+      return { direction: upper.direction, speed: upper.speed };
+    }
+
+    const fraction = (altitude - lower.altitude) / (upper.altitude - lower.altitude);
+    const component = (layer: WindLayer, axis: typeof Math.sin) => layer.speed * axis(GeoMath.toRadians(layer.direction));
+    const x = component(lower, Math.sin) + (component(upper, Math.sin) - component(lower, Math.sin)) * fraction;
+    const y = component(lower, Math.cos) + (component(upper, Math.cos) - component(lower, Math.cos)) * fraction;
+    const speed = Math.hypot(x, y);
+    return { direction: speed === 0 ? 0 : RouteAnalyzer.normalizeDegrees(GeoMath.toDegrees(Math.atan2(x, y))), speed };
+  }
+}
+
+export class FlightPlanner {
+  static plan(waypoints: Waypoint[], options: PlannerOptions): FlightLog {
+    const { profile, cruiseAltitude, winds = [] } = options;
+    const model = options.magneticModel ?? MagneticModel.bundled();
+    const date = options.date ?? new Date();
+
+    const unpositioned = waypoints.filter(waypoint => waypoint.latitude === undefined || waypoint.longitude === undefined)
+      .map(waypoint => RouteAnalyzer.waypointLabel(waypoint));
+    const positioned = waypoints.filter(waypoint => waypoint.latitude !== undefined && waypoint.longitude !== undefined);
+    const geometry = this.geometry(positioned, model, date);
+    const totalDistance = geometry.reduce((total, leg) => total + leg.distance, 0);
+    const warnings: string[] = [];
+
+    const departureElevation = positioned[0]?.elevation ?? 0;
+    const arrivalElevation = positioned[positioned.length - 1]?.elevation ?? 0;
+    const climbFeet = Math.max(0, cruiseAltitude - departureElevation);
+    const descentFeet = Math.max(0, cruiseAltitude - arrivalElevation);
+    const climbWind = WindsAloft.at(winds, (departureElevation + Math.max(cruiseAltitude, departureElevation)) / 2);
+    const descentWind = WindsAloft.at(winds, (arrivalElevation + Math.max(cruiseAltitude, arrivalElevation)) / 2);
+
+    let climbDistance = this.phaseDistance(geometry, climbFeet / profile.climbRate / 60, profile.climbSpeed, climbWind);
+    let descentDistance = this.phaseDistance([...geometry].reverse(), descentFeet / profile.descentRate / 60, profile.descentSpeed, descentWind);
+    let topAltitude = cruiseAltitude;
+    if (climbDistance + descentDistance > totalDistance && totalDistance > 0) {
+      const scale = totalDistance / (climbDistance + descentDistance);
+      climbDistance *= scale;
+      descentDistance *= scale;
+      topAltitude = Math.round(departureElevation + climbFeet * scale);
+      warnings.push(`Route is too short to reach ${cruiseAltitude} ft; the climb and descent meet at about ${topAltitude} ft`);
+    }
+
+    const topOfClimb = climbFeet > 0 ? this.pointAt(geometry, climbDistance, topAltitude) : undefined;
+    const topOfDescent = descentFeet > 0 ? this.pointAt(geometry, totalDistance - descentDistance, topAltitude) : undefined;
+
+    const legs: PlannedLeg[] = [];
+    let cumulativeDistance = 0;
+    let cumulativeTime = 0;
+    let fuelRemaining = profile.usableFuel - profile.taxiFuel;
+    const meet = topOfClimb !== undefined && topOfDescent !== undefined && topOfDescent.distance - topOfClimb.distance < 1e-6;
+    const cuts: Array<[number, string]> = [];
+    if (topOfClimb) {
+      cuts.push([topOfClimb.distance, meet ? 'TOC/TOD' : 'TOC']);
+    }
+    if (topOfDescent && !meet) {
+      cuts.push([topOfDescent.distance, 'TOD']);
+    }
+
+    geometry.forEach(leg => {
+      const end = leg.start + leg.distance;
+      const inside = cuts.filter(([distance]) => distance > leg.start + 1e-6 && distance < end - 1e-6);
+      const stops: Array<[number, string]> = [[leg.start, RouteAnalyzer.waypointLabel(leg.from)], ...inside, [end, RouteAnalyzer.waypointLabel(leg.to)]];
+
+      for (let i = 1; i < stops.length; i++) {
+        const [start, from] = stops[i - 1] as [number, string];
+        const [stop, to] = stops[i] as [number, string];
+        const distance = stop - start;
+        if (distance <= 1e-6) {
+          continue;
+        }
+
+        const middle = (start + stop) / 2;
+        const phase: FlightPhase = topOfClimb && middle < climbDistance
+          ? 'climb'
+          : topOfDescent && middle > totalDistance - descentDistance ? 'descent' : 'cruise';
+        const trueAirspeed = phase === 'climb' ? profile.climbSpeed : phase === 'descent' ? profile.descentSpeed : profile.cruiseSpeed;
+        const fuelFlow = phase === 'climb' ? profile.climbFuelFlow : phase === 'descent' ? profile.descentFuelFlow : profile.cruiseFuelFlow;
+        const wind = phase === 'climb' ? climbWind : phase === 'descent' ? descentWind : WindsAloft.at(winds, cruiseAltitude);
+        const { trueHeading, groundSpeed } = RouteAnalyzer.windCorrection(leg.trueCourse, trueAirspeed, wind.direction, wind.speed);
+        const time = distance / groundSpeed;
+        const fuel = time * fuelFlow;
+        cumulativeDistance += distance;
+        cumulativeTime += time;
+        fuelRemaining -= fuel;
+
+        legs.push({
+          from,
+          to,
+          phase,
+          altitude: this.altitudeAt(stop, climbDistance, totalDistance - descentDistance, totalDistance, departureElevation, topAltitude, arrivalElevation),
+          distance,
+          trueCourse: leg.trueCourse,
+          magneticCourse: RouteAnalyzer.normalizeDegrees(leg.trueCourse - leg.magneticVariation),
+          windDirection: wind.direction,
+          windSpeed: wind.speed,
+          trueAirspeed,
+          trueHeading,
+          magneticHeading: RouteAnalyzer.normalizeDegrees(trueHeading - leg.magneticVariation),
+          groundSpeed,
+          time,
+          fuel,
+          cumulativeDistance,
+          cumulativeTime,
+          fuelRemaining
+        });
+      }
+    });
+
+    const tripFuel = legs.reduce((total, leg) => total + leg.fuel, 0);
+    const reserveFuel = profile.reserveMinutes / 60 * profile.cruiseFuelFlow;
+    const requiredFuel = profile.taxiFuel + tripFuel + reserveFuel;
+    const landingFuel = profile.usableFuel - profile.taxiFuel - tripFuel;
+    if (requiredFuel > profile.usableFuel) {
+      warnings.push(`Fuel required (${requiredFuel.toFixed(1)} gal with ${profile.reserveMinutes} min reserve) exceeds the ${profile.usableFuel} gal usable in the ${profile.name}`);
+    }
+
+    const log: FlightLog = {
+      legs, totalDistance, totalTime: cumulativeTime, taxiFuel: profile.taxiFuel, tripFuel, reserveFuel, requiredFuel, landingFuel, warnings, unpositioned
+    };
+    if (topOfClimb) {
+      log.topOfClimb = topOfClimb;
+    }
+    if (topOfDescent) {
+      log.topOfDescent = topOfDescent;
+    }
+    return log;
+  }
+
+  private static geometry(waypoints: Waypoint[], model: MagneticModel, date: Date): LegGeometry[] {
+    const legs: LegGeometry[] = [];
+    let start = 0;
+    for (let i = 1; i < waypoints.length; i++) {
+      const from = waypoints[i - 1] as Waypoint;
+      const to = waypoints[i] as Waypoint;
+      const lat1 = from.latitude as number;
+      const lon1 = from.longitude as number;
+      const lat2 = to.latitude as number;
+      const lon2 = to.longitude as number;
+      const distance = GeoMath.distanceNm(lat1, lon1, lat2, lon2);
+      legs.push({
+        from,
+        to,
+        start,
+        distance,
+        trueCourse: GeoMath.initialBearing(lat1, lon1, lat2, lon2),
+        magneticVariation: model.declination(lat1, lon1, date)
+      });
+      start += distance;
+    }
+    return legs;
+  }
+
+  private static phaseDistance(legs: LegGeometry[], hours: number, trueAirspeed: number, wind: { direction: number; speed: number }): number {
+    let remaining = hours;
+    let distance = 0;
+    let groundSpeed = trueAirspeed;
+    for (const leg of legs) {
+      if (remaining <= 0) {
+        break;
+      }
+      groundSpeed = RouteAnalyzer.windCorrection(leg.trueCourse, trueAirspeed, wind.direction, wind.speed).groundSpeed;
+      const covered = Math.min(leg.distance, remaining * groundSpeed);
+      distance += covered;
+      remaining -= covered / groundSpeed;
+    }
+    return distance + Math.max(0, remaining) * groundSpeed;
+  }
+
+  private static pointAt(legs: LegGeometry[], distance: number, altitude: number): ProfilePoint | undefined {
+    const leg = legs.find(candidate => distance <= candidate.start + candidate.distance) ?? legs[legs.length - 1];
+    if (!leg) {
+      return undefined;
+    }
+    const fraction = leg.distance === 0 ? 0 : Math.min(1, Math.max(0, (distance - leg.start) / leg.distance));
+    const point = GeoMath.intermediatePoint(
+      leg.from.latitude as number, leg.from.longitude as number, leg.to.latitude as number, leg.to.longitude as number, fraction
+    );
+    return { ...point, distance, altitude };
+  }
+
+  private static altitudeAt(
+    distance: number,
+    topOfClimb: number,
+    topOfDescent: number,
+    total: number,
+    departure: number,
+    top: number,
+    arrival: number
+  ): number {
+    if (distance < topOfClimb) {
+      return Math.round(departure + (top - departure) * distance / topOfClimb);
+    }
+    if (distance > topOfDescent) {
+      return Math.round(arrival + (top - arrival) * (total - distance) / (total - topOfDescent));
+    }
+    return top;
+  }
+}
+
+export class NavlogDocument {
+  static row(leg: PlannedLeg): string[] {
+    return [
+      `${leg.from} → ${leg.to}`,
+      leg.phase,
+      String(leg.altitude),
+      leg.distance.toFixed(1),
+      RouteAnalyzer.formatCourse(leg.magneticCourse),
+      `${RouteAnalyzer.formatCourse(leg.windDirection)}/${Math.round(leg.windSpeed)}`,
+      RouteAnalyzer.formatCourse(leg.magneticHeading),
+      String(Math.round(leg.groundSpeed)),
+      RouteAnalyzer.formatDuration(leg.time),
+      leg.fuel.toFixed(1),
+      leg.fuelRemaining.toFixed(1)
+    ];
+  }
+
+  static html(log: FlightLog, header: NavlogHeader): string {
+    const escape = XmlWriter.escape;
+    const { profile } = header;
+    const rows = log.legs.map(leg => [...this.row(leg), '', '']);
+    const cells = (values: string[], tag: string) => `<tr>${values.map(value => `<${tag}>${escape(value)}</${tag}>`).join('')}</tr>`;
+    const point = (label: string, value: ProfilePoint | undefined) => value
+      ? `<li>${label}: ${value.distance.toFixed(1)} NM from departure at ${value.altitude} ft</li>`
+      : '';
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="UTF-8">',
+      `<title>Navlog – ${escape(header.title)}</title>`,
+      '<style>',
+      'body { font-family: sans-serif; font-size: 11pt; margin: 1.5cm; }',
+      'table { border-collapse: collapse; width: 100%; }',
+      'th, td { border: 1px solid #000; padding: 3px 5px; text-align: right; }',
+      'th:first-child, td:first-child, td:nth-child(2) { text-align: left; }',
+      'td:nth-last-child(-n+2) { min-width: 3em; }',
+      '.summary { columns: 2; }',
+      '@page { size: landscape; }',
+      '</style>',
+      '</head>',
+      '<body>',
+      `<h1>${escape(header.title)}</h1>`,
+      `<p>${escape(header.route)}</p>`,
+      `<p>${escape(profile.name)} · cruise ${header.cruiseAltitude} ft at ${profile.cruiseSpeed} kt TAS${header.date ? ` · ${header.date.toISOString().slice(0, 10)}` : ''}</p>`,
+      '<table>',
+      `<thead>${cells([...NAVLOG_COLUMNS, 'ATE', 'ATA'], 'th')}</thead>`,
+      `<tbody>${rows.map(row => cells(row, 'td')).join('')}</tbody>`,
+      '</table>',
+      '<ul class="summary">',
+      `<li>Distance: ${log.totalDistance.toFixed(1)} NM</li>`,
+      `<li>Time en route: ${RouteAnalyzer.formatDuration(log.totalTime)}</li>`,
+      point('Top of climb', log.topOfClimb),
+      point('Top of descent', log.topOfDescent),
+      `<li>Taxi fuel: ${log.taxiFuel.toFixed(1)} gal</li>`,
+      `<li>Trip fuel: ${log.tripFuel.toFixed(1)} gal</li>`,
+      `<li>Reserve (${profile.reserveMinutes} min): ${log.reserveFuel.toFixed(1)} gal</li>`,
+      `<li>Required: ${log.requiredFuel.toFixed(1)} of ${profile.usableFuel} gal usable</li>`,
+      `<li>Fuel at landing: ${log.landingFuel.toFixed(1)} gal</li>`,
+      '</ul>',
+      ...log.warnings.map(warning => `<p><strong>⚠ ${escape(warning)}</strong></p>`),
+      '</body>',
+      '</html>'
+    ].filter(Boolean).join('\n');
+  }
+}
@@ -0,0 +1,254 @@
+import { FlightPlan } from './types.js';
+import { AircraftProfile, AircraftProfiles } from './aircraft.js';
+import { FlightLog, FlightPlanner, NAVLOG_COLUMNS, NavlogDocument, WindsAloft } from './planner.js';
+import { RouteAnalyzer } from './analysis.js';
+
+const PROFILE_FIELDS: Array<[Exclude<keyof AircraftProfile, 'id' | 'name'>, string]> = [
+  ['cruiseSpeed', 'Cruise TAS (kt)'],
+  ['cruiseFuelFlow', 'Cruise fuel (gal/h)'],
+  ['climbSpeed', 'Climb TAS (kt)'],
+  ['climbRate', 'Climb rate (ft/min)'],
+  ['climbFuelFlow', 'Climb fuel (gal/h)'],
+  ['descentSpeed', 'Descent TAS (kt)'],
+  ['descentRate', 'Descent rate (ft/min)'],
+  ['descentFuelFlow', 'Descent fuel (gal/h)'],
+  ['taxiFuel', 'Taxi fuel (gal)'],
+  ['usableFuel', 'Usable fuel (gal)'],
+  ['reserveMinutes', 'Reserve (min)']
+];
+
+export class FlightPlannerPanel {
+  private readonly profileSelect: HTMLSelectElement;
+  private readonly windsInput: HTMLInputElement;
+  private readonly nameInput: HTMLInputElement;
+  private readonly fieldInputs = new Map<keyof AircraftProfile, HTMLInputElement>();
+  private readonly deleteButton: HTMLButtonElement;
+  private readonly printButton: HTMLButtonElement;
+  private readonly summary: HTMLDivElement;
+  private readonly table: HTMLDivElement;
+  private plan: FlightPlan | undefined;
+  private route = '';
+  private log: FlightLog | undefined;
+
+  constructor(private readonly container: HTMLElement, private readonly profiles: AircraftProfiles) {
+    this.container.innerHTML = `
+      <h3 class="navlog-title">Flight Planner</h3>
+      <div class="navlog-options">
+        <label class="option-field">
+          <span>Aircraft</span>
+          <select class="option-input" data-planner="profile"></select>
+        </label>
+        <label class="option-field planner-winds">
+          <span>Winds aloft (ft dir/kt)</span>
+          <input type="text" class="option-input" data-planner="winds" placeholder="e.g. 3000 270/15, 6000 280/25">
+        </label>
+      </div>
+      <details class="planner-profile">
+        <summary>Edit aircraft profile</summary>
+        <div class="planner-profile-fields">
+          <label class="option-field">
+            <span>Name</span>
+            <input type="text" class="option-input" data-planner="name">
+          </label>
+          ${PROFILE_FIELDS.map(([key, label]) => `
+          <label class="option-field">
+            <span>${label}</span>
+            <input type="number" class="option-input" data-planner="${key}" min="0" step="any">
+          </label>`).join('')}
+        </div>
+        <div class="planner-actions">
+          <button type="button" class="action-button secondary" data-planner="save">Save profile</button>
+          <button type="button" class="action-button secondary" data-planner="saveAs">Save as new</button>
+          <button type="button" class="action-button secondary" data-planner="delete">Delete</button>
+        </div>
+      </details>
+      <div class="planner-summary"></div>
+      <div class="navlog-table"></div>
+      <button type="button" class="action-button planner-print" data-planner="print">🖨️ Print navlog</button>
+    `;
+
+    const field = <T extends HTMLElement>(name: string) => this.container.querySelector(`[data-planner="${name}"]`) as T;
+    this.profileSelect = field('profile');
+    this.windsInput = field('winds');
+    this.nameInput = field('name');
+    PROFILE_FIELDS.forEach(([key]) => this.fieldInputs.set(key, field(key)));
+    this.deleteButton = field('delete');
+    this.printButton = field('print');
+    this.summary = this.container.querySelector('.planner-summary') as HTMLDivElement;
+    this.table = this.container.querySelector('.navlog-table') as HTMLDivElement;
+
+    this.profileSelect.addEventListener('change', () => {
+      this.fill();
+      this.render();
+    });
+    this.windsInput.addEventListener('input', () => this.render());
+    field<HTMLButtonElement>('save').addEventListener('click', () => this.saveProfile(this.profileSelect.value));
+    field<HTMLButtonElement>('saveAs').addEventListener('click', () => this.saveProfile());
+    this.deleteButton.addEventListener('click', () => this.deleteProfile());
+    this.printButton.addEventListener('click', () => this.print());
+
+    this.refreshProfiles();
+    this.container.classList.add('hidden');
+  }
+
+  update(plan: FlightPlan, route: string): void {
+    this.plan = plan;
+    this.route = route;
+    this.render();
+  }
+
+  clear(): void {
+    this.plan = undefined;
+    this.log = undefined;
+    this.container.classList.add('hidden');
+  }
+
+  private selectedProfile(): AircraftProfile | undefined {
+    return this.profiles.get(this.profileSelect.value);
+  }
+
+  private refreshProfiles(selected?: string): void {
+    const current = selected ?? this.profileSelect.value;
+    this.profileSelect.innerHTML = '';
+    this.profiles.list().forEach(profile => this.profileSelect.add(new Option(profile.name, profile.id)));
+    if (current && this.profiles.get(current)) {
+      this.profileSelect.value = current;
+    }
+    this.fill();
+  }
+
+  private fill(): void {
+    const profile = this.selectedProfile();
+    if (!profile) {
+      return;
+    }
+    this.nameInput.value = profile.name;
+    this.fieldInputs.forEach((input, key) => {
+      input.value = String(profile[key]);
+    });
+    this.deleteButton.textContent = this.profiles.isDefault(profile.id) ? 'Reset to default' : 'Delete';
+  }
+
+  private readProfile(): Omit<AircraftProfile, 'id'> {
+    const value = (key: keyof AircraftProfile) => Number(this.fieldInputs.get(key)?.value);
+    return {
+      name: this.nameInput.value,
+      cruiseSpeed: value('cruiseSpeed'),
+      cruiseFuelFlow: value('cruiseFuelFlow'),
+      climbSpeed: value('climbSpeed'),
+      climbRate: value('climbRate'),
+      climbFuelFlow: value('climbFuelFlow'),
+      descentSpeed: value('descentSpeed'),
+      descentRate: value('descentRate'),
+      descentFuelFlow: value('descentFuelFlow'),
+      taxiFuel: value('taxiFuel'),
+      usableFuel: value('usableFuel'),
+      reserveMinutes: value('reserveMinutes')
+    };
+  }
+
+  private saveProfile(id?: string): void {
+    try {
+      const saved = this.profiles.save(this.readProfile(), id || undefined);
+      this.refreshProfiles(saved.id);
+      this.render();
+    } catch (error) {
+      this.summary.textContent = error instanceof Error ? error.message : 'Failed to save aircraft profile';
+    }
+  }
+
+  private deleteProfile(): void {
+    const profile = this.selectedProfile();
+    if (!profile || !confirm(this.profiles.isDefault(profile.id) ? `Reset "${profile.name}" to its default values?` : `Delete "${profile.name}"?`)) {
+      return;
+    }
+    this.profiles.remove(profile.id);
+    this.refreshProfiles();
+    this.render();
+  }
+
+  private render(): void {
+    const profile = this.selectedProfile();
+    if (!this.plan || !profile || this.plan.waypoints.length < 2) {
+      this.clear();
+      return;
+    }
+
+    this.container.classList.remove('hidden');
+    this.table.innerHTML = '';
+    this.summary.innerHTML = '';
+    this.log = undefined;
+    this.printButton.disabled = true;
+
+    let log: FlightLog;
+    try {
+      log = FlightPlanner.plan(this.plan.waypoints, {
+        profile,
+        cruiseAltitude: this.plan.cruisingAlt ?? 3500,
+        winds: WindsAloft.parse(this.windsInput.value)
+      });
+    } catch (error) {
+      this.summary.textContent = error instanceof Error ? error.message : 'Unable to plan the flight';
+      return;
+    }
+
+    const table = document.createElement('table');
+    const header = table.createTHead().insertRow();
+    NAVLOG_COLUMNS.forEach(column => {
+      const cell = document.createElement('th');
+      cell.textContent = column;
+      header.appendChild(cell);
+    });
+
+    const body = table.createTBody();
+    log.legs.forEach(leg => {
+      const row = body.insertRow();
+      NavlogDocument.row(leg).forEach(value => {
+        row.insertCell().textContent = value;
+      });
+    });
+    this.table.appendChild(table);
+
+    const lines = [
+      `${log.totalDistance.toFixed(1)} NM in ${RouteAnalyzer.formatDuration(log.totalTime)}` +
+        ` · trip ${log.tripFuel.toFixed(1)} gal + taxi ${log.taxiFuel.toFixed(1)} + reserve ${log.reserveFuel.toFixed(1)}` +
+        ` = ${log.requiredFuel.toFixed(1)} of ${profile.usableFuel} gal · ${log.landingFuel.toFixed(1)} gal at landing`,
+      ...log.warnings.map(warning => `⚠️ ${warning}`)
+    ];
+    if (log.unpositioned.length > 0) {
+      lines.push(`Not included (no known position): ${log.unpositioned.join(', ')}`);
+    }
+    lines.forEach(line => {
+      const paragraph = document.createElement('p');
+      paragraph.className = 'navlog-note';
+      paragraph.textContent = line;
+      this.summary.appendChild(paragraph);
+    });
+
+    this.log = log;
+    this.printButton.disabled = false;
+  }
+
+  private print(): void {
+    const profile = this.selectedProfile();
+    if (!this.log || !this.plan || !profile) {
+      return;
+    }
+
+    const page = window.open('', '_blank');
+    if (!page) {
+      this.summary.textContent = 'Allow pop-ups to print the navlog';
+      return;
+    }
+    page.document.write(NavlogDocument.html(this.log, {
+      title: this.plan.title,
+      route: this.route,
+      profile,
+      cruiseAltitude: this.plan.cruisingAlt ?? 3500,
+      date: new Date()
+    }));
+    page.document.close();
+    page.focus();
+    page.print();
+  }
+}
@@ -0,0 +1,86 @@
+import { RouteDecoder } from './decoder.js';
+
+export const SHARE_CACHE = 'sv2msfs-share';
+export const SHARE_ACTION = 'share-target';
+
+export interface SharedData {
+  title?: string;
+  text?: string;
+  url?: string;
+  files: string[];
+}
+
+export interface LaunchInput {
+  files: File[];
+  route?: string;
+}
+
+interface LaunchParams {
+  files: readonly FileSystemFileHandle[];
+}
+
+interface LaunchQueue {
+  setConsumer(consumer: (params: LaunchParams) => void): void;
+}
+
+const URL_REGEX = /https?:\/\/\S+/gi;
+
+export class OfflineApp {
+  static register(base: string): void {
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.register(`${base}sw.js`).catch(() => undefined);
+    }
+  }
+
+  static onLaunch(handler: (input: LaunchInput) => void): void {
+    const launchQueue = (window as Window & { launchQueue?: LaunchQueue }).launchQueue;
+    launchQueue?.setConsumer(params => {
+      if (params.files.length > 0) {
+        void Promise.all(params.files.map(handle => handle.getFile())).then(files => handler({ files }));
+      }
+    });
+
+    const location = new URL(window.location.href);
+    if (location.searchParams.has(SHARE_ACTION) && 'caches' in window) {
+      location.searchParams.delete(SHARE_ACTION);
+      window.history.replaceState(null, '', location.href);
+      void caches.open(SHARE_CACHE)
+        .then(cache => this.readShare(cache, document.baseURI))
+        .then(input => {
+          void caches.delete(SHARE_CACHE);
+          if (input) {
+            handler(input);
+          }
+        });
+    }
+  }
+
+  static async readShare(cache: Pick<Cache, 'match'>, base: string): Promise<LaunchInput | undefined> {
+    const response = await cache.match(new URL(`${SHARE_ACTION}/data`, base).href);
+    if (!response) {
+      return undefined;
+    }
+
+    const data = await response.json() as SharedData;
+    const files: File[] = [];
+    for (const [index, name] of data.files.entries()) {
+      const file = await cache.match(new URL(`${SHARE_ACTION}/${index}`, base).href);
+      if (file) {
+        files.push(new File([await file.arrayBuffer()], name));
+      }
+    }
+    const route = this.sharedRoute(data);
+    return route === undefined ? { files } : { files, route };
+  }
+
+  static sharedRoute(data: Omit<SharedData, 'files'>): string | undefined {
+    const links = [data.url, data.text, data.title]
+      .flatMap(value => value?.match(URL_REGEX) ?? [])
+      .filter(link => RouteDecoder.isSkyVectorUrl(link));
+    if (links[0]) {
+      return links[0];
+    }
+    const text = data.text?.trim();
+    return text || undefined;
+  }
+}
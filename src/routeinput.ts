@@ -0,0 +1,214 @@
+import { PlnOptions, QuickFix, SourceSpan } from './types.js';
+import { RouteDiagnostics, RouteDiagnostic } from './diagnostics.js';
+
+const REVALIDATE_DELAY_MS = 250;
+
+export class RouteInputEditor {
+  readonly textarea: HTMLTextAreaElement;
+  private readonly backdrop: HTMLDivElement;
+  private readonly highlights: HTMLDivElement;
+  private readonly popup: HTMLDivElement;
+  private readonly problems: HTMLUListElement;
+  private diagnostics: RouteDiagnostic[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private hoveredSpan: SourceSpan | undefined;
+
+  constructor(
+    private readonly container: HTMLElement,
+    placeholder: string,
+    private readonly options: () => PlnOptions = () => ({})
+  ) {
+    this.container.classList.add('route-input');
+    this.container.innerHTML = `
+      <div class="route-input-field">
+        <div class="route-input-backdrop" aria-hidden="true"><div class="route-input-highlights"></div></div>
+        <textarea class="text-input route-input-text" spellcheck="false"></textarea>
+      </div>
+      <div class="route-input-popup hidden" role="tooltip"></div>
+      <ul class="route-input-problems hidden"></ul>
+    `;
+
+    this.textarea = this.container.querySelector('textarea') as HTMLTextAreaElement;
+    this.backdrop = this.container.querySelector('.route-input-backdrop') as HTMLDivElement;
+    this.highlights = this.container.querySelector('.route-input-highlights') as HTMLDivElement;
+    this.popup = this.container.querySelector('.route-input-popup') as HTMLDivElement;
+    this.problems = this.container.querySelector('.route-input-problems') as HTMLUListElement;
+    this.textarea.placeholder = placeholder;
+
+    this.textarea.addEventListener('input', () => {
+      this.renderHighlights();
+      this.schedule();
+    });
+    this.textarea.addEventListener('scroll', () => this.syncScroll());
+    this.textarea.addEventListener('mousemove', (e) => this.handleHover(e));
+    this.textarea.addEventListener('mouseleave', (e) => {
+      if (!this.popup.contains(e.relatedTarget as Node | null)) {
+        this.hidePopup();
+      }
+    });
+    this.popup.addEventListener('mouseleave', () => this.hidePopup());
+  }
+
+  get value(): string {
+    return this.textarea.value;
+  }
+
+  set value(text: string) {
+    this.textarea.value = text;
+    this.validate();
+  }
+
+  validate(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.diagnostics = RouteDiagnostics.analyze(this.textarea.value, this.options());
+    this.hidePopup();
+    this.renderHighlights();
+    this.renderProblems();
+  }
+
+  select(span: SourceSpan): void {
+    this.textarea.focus();
+    this.textarea.setSelectionRange(span.start, span.end);
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.validate(), REVALIDATE_DELAY_MS);
+  }
+
+  private renderHighlights(): void {
+    const text = this.textarea.value;
+    const spans = this.markedSpans(text.length);
+    this.highlights.innerHTML = '';
+
+    let position = 0;
+    spans.forEach(({ span, severity }) => {
+      this.highlights.append(text.slice(position, span.start));
+      const mark = document.createElement('mark');
+      mark.className = `route-input-mark ${severity}`;
+      mark.dataset.start = String(span.start);
+      mark.dataset.end = String(span.end);
+      mark.textContent = text.slice(span.start, span.end);
+      this.highlights.append(mark);
+      position = span.end;
+    });
+    this.highlights.append(text.slice(position) + '\n');
+    this.syncScroll();
+  }
+
+  private markedSpans(length: number): { span: SourceSpan; severity: RouteDiagnostic['severity'] }[] {
+    const spans = this.diagnostics
+      .filter(diagnostic => diagnostic.span && diagnostic.span.end <= length)
+      .map(diagnostic => ({ span: diagnostic.span as SourceSpan, severity: diagnostic.severity }))
+      .sort((a, b) => a.span.start - b.span.start || (a.severity === 'error' ? -1 : 1));
+
+    return spans.filter((entry, index) => {
+      const previous = spans.slice(0, index).find(other => other.span.end > entry.span.start);
+      return previous === undefined;
+    });
+  }
+
+  private renderProblems(): void {
+    this.problems.innerHTML = '';
+    this.problems.classList.toggle('hidden', this.diagnostics.length === 0);
+
+    this.diagnostics.forEach(diagnostic => {
+      const item = document.createElement('li');
+      item.className = `route-input-problem ${diagnostic.severity}`;
+
+      const message = document.createElement('span');
+      message.textContent = `${diagnostic.severity === 'error' ? '❌' : '⚠️'} ${diagnostic.message}`;
+      const span = diagnostic.span;
+      if (span) {
+        message.classList.add('locatable');
+        message.addEventListener('click', () => this.select(span));
+      }
+      item.append(message, ...this.fixButtons(diagnostic));
+      this.problems.append(item);
+    });
+  }
+
+  private fixButtons(diagnostic: RouteDiagnostic): HTMLButtonElement[] {
+    const span = diagnostic.span;
+    if (!span) {
+      return [];
+    }
+
+    return diagnostic.fixes.map(fix => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'route-input-fix';
+      button.textContent = fix.title;
+      button.addEventListener('click', () => this.applyFix(span, fix));
+      return button;
+    });
+  }
+
+  private applyFix(span: SourceSpan, fix: QuickFix): void {
+    this.textarea.value = RouteDiagnostics.applyFix(this.textarea.value, span, fix);
+    const caret = span.start + fix.replacement.length;
+    this.textarea.focus();
+    this.textarea.setSelectionRange(caret, caret);
+    this.textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    this.validate();
+  }
+
+  private handleHover(event: MouseEvent): void {
+    const marks = Array.from(this.highlights.querySelectorAll<HTMLElement>('mark'));
+    for (const mark of marks) {
+      const rect = Array.from(mark.getClientRects()).find(r =>
+        event.clientX >= r.left && event.clientX <= r.right && event.clientY >= r.top && event.clientY <= r.bottom);
+      if (rect) {
+        this.showPopup({ start: Number(mark.dataset.start), end: Number(mark.dataset.end) }, rect);
+        return;
+      }
+    }
+    this.hidePopup();
+  }
+
+  private showPopup(span: SourceSpan, anchor: DOMRect): void {
+    if (this.hoveredSpan?.start === span.start && this.hoveredSpan.end === span.end) {
+      return;
+    }
+    this.hoveredSpan = span;
+
+    const diagnostics = this.diagnostics.filter(diagnostic =>
+      diagnostic.span && diagnostic.span.start < span.end && diagnostic.span.end > span.start);
+    this.popup.innerHTML = '';
+    diagnostics.forEach(diagnostic => {
+      const message = document.createElement('div');
+      message.className = `route-input-popup-message ${diagnostic.severity}`;
+      message.textContent = diagnostic.message;
+      this.popup.append(message);
+    });
+
+    const seen = new Set<string>();
+    const fixes = diagnostics.flatMap(diagnostic => this.fixButtons(diagnostic)).filter(button => {
+      const duplicate = seen.has(button.textContent ?? '');
+      seen.add(button.textContent ?? '');
+      return !duplicate;
+    });
+    if (fixes.length > 0) {
+      const actions = document.createElement('div');
+      actions.className = 'route-input-popup-fixes';
+      actions.append(...fixes);
+      this.popup.append(actions);
+    }
+
+    const bounds = this.container.getBoundingClientRect();
+    this.popup.style.left = `${Math.max(0, anchor.left - bounds.left)}px`;
+    this.popup.style.top = `${anchor.bottom - bounds.top}px`;
+    this.popup.classList.remove('hidden');
+  }
+
+  private hidePopup(): void {
+    this.hoveredSpan = undefined;
+    this.popup.classList.add('hidden');
+  }
+
+  private syncScroll(): void {
+    this.backdrop.scrollTop = this.textarea.scrollTop;
+    this.backdrop.scrollLeft = this.textarea.scrollLeft;
+  }
+}
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { Cli, EXIT_CONVERSION_ERROR } from './cli.js';
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// mkdir with { recursive: true } never settles for some paths (e.g. under /proc), so create one level at a time.
+const makeDirectory = async (path: string): Promise<void> => {
+  const directory = resolve(path);
+  if (dirname(directory) !== directory) {
+    await makeDirectory(dirname(directory));
+  }
+  try {
+    await mkdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  }
+};
+
+Cli.run(process.argv.slice(2), {
+  readFile: path => readFile(path, 'utf8'),
+  writeFile: (path, content) => writeFile(path, content, 'utf8'),
+  makeDirectory,
+  readStdin,
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text)
+}).then(code => {
+  process.exitCode = code;
+}).catch((error: unknown) => {
+  process.stderr.write(`sv2msfs: ${error instanceof Error ? error.message : error}\n`);
+  process.exitCode = EXIT_CONVERSION_ERROR;
+});
@@ -0,0 +1,76 @@
+/// <reference lib="webworker" />
+
+export interface PrecacheManifest {
+  version: string;
+  urls: string[];
+}
+
+declare const self: ServiceWorkerGlobalScope & { __PRECACHE_MANIFEST: PrecacheManifest };
+
+// Keep in sync with pwa.ts; the worker is bundled on its own and cannot share modules with the app.
+const PRECACHE_PREFIX = 'sv2msfs-precache-';
+const SHARE_CACHE = 'sv2msfs-share';
+const SHARE_ACTION = 'share-target';
+
+const manifest = self.__PRECACHE_MANIFEST;
+const precache = `${PRECACHE_PREFIX}${manifest.version}`;
+const scoped = (path: string) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(precache)
+    .then(cache => cache.addAll(manifest.urls.map(scoped)))
+    .then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(caches.keys()
+    .then(keys => Promise.all(keys
+      .filter(key => key.startsWith(PRECACHE_PREFIX) && key !== precache)
+      .map(key => caches.delete(key))))
+    .then(() => self.clients.claim()));
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.method === 'POST' && url.href === scoped(SHARE_ACTION)) {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cache = await caches.open(precache);
+    const cached = request.mode === 'navigate'
+      ? await cache.match(scoped('index.html'))
+      : await cache.match(request, { ignoreSearch: true });
+    return cached ?? fetch(request);
+  })());
+});
+
+async function receiveShare(request: Request): Promise<Response> {
+  const form = await request.formData();
+  const files = form.getAll('files').filter((entry): entry is File => entry instanceof File);
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === 'string' && value.trim() ? value : undefined;
+  };
+
+  await caches.delete(SHARE_CACHE);
+  const cache = await caches.open(SHARE_CACHE);
+  await Promise.all(files.map((file, index) => cache.put(scoped(`${SHARE_ACTION}/${index}`), new Response(file))));
+  await cache.put(scoped(`${SHARE_ACTION}/data`), new Response(JSON.stringify({
+    title: field('title'),
+    text: field('text'),
+    url: field('url'),
+    files: files.map(file => file.name)
+  }), { headers: { 'Content-Type': 'application/json' } }));
+
+  return Response.redirect(scoped(`./?${SHARE_ACTION}`), 303);
+}
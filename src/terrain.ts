@@ -0,0 +1,219 @@
+import { ConversionError, Waypoint } from './types.js';
+import { GeoMath } from './geo.js';
+import { RouteAnalyzer } from './analysis.js';
+import { TERRAIN_GRID } from './data/terrain.js';
+
+export const DEFAULT_TERRAIN_CLEARANCE = 1000;
+export const OBSTACLE_ALLOWANCE = 200;
+export const FEET_PER_METRE = 3.28084;
+const SAMPLE_SPACING_NM = 0.5;
+
+export type ElevationUnit = 'm' | 'ft';
+
+export interface TerrainSample {
+  distance: number;
+  latitude: number;
+  longitude: number;
+  elevation?: number;
+}
+
+export interface TerrainLeg {
+  from: string;
+  to: string;
+  position: number;
+  start: number;
+  distance: number;
+  altitude: number;
+  coverage: number;
+  highest?: TerrainSample;
+  maxElevationFigure?: number;
+  clearance?: number;
+  conflict: boolean;
+}
+
+export interface TerrainProfile {
+  samples: TerrainSample[];
+  legs: TerrainLeg[];
+  totalDistance: number;
+  requiredClearance: number;
+}
+
+export interface TerrainOptions {
+  cruiseAltitude: number;
+  clearance?: number;
+  terrain?: TerrainModel;
+}
+
+const HEADER_KEYS = ['ncols', 'nrows', 'xllcorner', 'yllcorner', 'xllcenter', 'yllcenter', 'cellsize', 'nodata_value'];
+
+export class ElevationGrid {
+  constructor(
+    readonly columns: number,
+    readonly rows: number,
+    readonly west: number,
+    readonly south: number,
+    readonly cellSize: number,
+    private readonly values: ArrayLike<number>,
+    readonly noData?: number
+  ) {
+    if (values.length !== columns * rows) {
+      throw new Error(`Elevation grid has ${values.length} values, expected ${columns * rows}`);
+    }
+  }
+
+  static fromAsciiGrid(text: string, unit: ElevationUnit = 'm'): ElevationGrid {
+    const tokens = text.trim().split(/\s+/);
+    const header: Record<string, number> = {};
+    while (tokens.length > 0 && HEADER_KEYS.includes(tokens[0]?.toLowerCase() ?? '')) {
+      const key = tokens.shift()?.toLowerCase() ?? '';
+      const value = Number(tokens.shift());
+      if (Number.isNaN(value)) {
+        throw new Error(`Invalid elevation grid: ${key} is not a number`);
+      }
+      header[key] = value;
+    }
+
+    const { ncols, nrows, cellsize, nodata_value: noData } = header;
+    if (!ncols || !nrows || !cellsize || ncols < 1 || nrows < 1 || cellsize <= 0) {
+      throw new Error('Invalid elevation grid: ncols, nrows and cellsize are required');
+    }
+    const west = header.xllcorner ?? (header.xllcenter === undefined ? undefined : header.xllcenter - cellsize / 2);
+    const south = header.yllcorner ?? (header.yllcenter === undefined ? undefined : header.yllcenter - cellsize / 2);
+    if (west === undefined || south === undefined) {
+      throw new Error('Invalid elevation grid: xllcorner and yllcorner are required');
+    }
+
+    const scale = unit === 'm' ? FEET_PER_METRE : 1;
+    const values = tokens.map((token, index) => {
+      const value = Number(token);
+      if (Number.isNaN(value)) {
+        throw new Error(`Invalid elevation grid: value ${index + 1} "${token}" is not a number`);
+      }
+      return value === noData ? value : value * scale;
+    });
+    return new ElevationGrid(ncols, nrows, west, south, cellsize, values, noData);
+  }
+
+  covers(latitude: number, longitude: number): boolean {
+    return longitude >= this.west && longitude < this.west + this.columns * this.cellSize
+      && latitude >= this.south && latitude < this.south + this.rows * this.cellSize;
+  }
+
+  elevationAt(latitude: number, longitude: number): number | undefined {
+    if (!this.covers(latitude, longitude)) {
+      return undefined;
+    }
+    const column = Math.floor((longitude - this.west) / this.cellSize);
+    const row = this.rows - 1 - Math.floor((latitude - this.south) / this.cellSize);
+    const value = this.values[row * this.columns + column];
+    return value === undefined || value === this.noData ? undefined : value;
+  }
+}
+
+export class TerrainModel {
+  private static bundledModel: TerrainModel | undefined;
+
+  constructor(readonly grids: ElevationGrid[] = []) {}
+
+  static bundled(): TerrainModel {
+    if (!this.bundledModel) {
+      this.bundledModel = new TerrainModel([ElevationGrid.fromAsciiGrid(TERRAIN_GRID)]);
+    }
+    return this.bundledModel;
+  }
+
+  withGrid(grid: ElevationGrid): TerrainModel {
+    return new TerrainModel([grid, ...this.grids]);
+  }
+
+  elevationAt(latitude: number, longitude: number): number | undefined {
+    for (const grid of this.grids) {
+      const elevation = grid.elevationAt(latitude, longitude);
+      if (elevation !== undefined) {
+        return elevation;
+      }
+    }
+    return undefined;
+  }
+}
+
+export class TerrainAnalyzer {
+  static profile(waypoints: Waypoint[], options: TerrainOptions): TerrainProfile {
+    const terrain = options.terrain ?? TerrainModel.bundled();
+    const requiredClearance = options.clearance ?? DEFAULT_TERRAIN_CLEARANCE;
+    const samples: TerrainSample[] = [];
+    const legs: TerrainLeg[] = [];
+    let start = 0;
+    let previous: { waypoint: Waypoint & { latitude: number; longitude: number }; position: number } | undefined;
+
+    waypoints.forEach((waypoint, position) => {
+      if (waypoint.latitude === undefined || waypoint.longitude === undefined) {
+        return;
+      }
+      const current = { waypoint: { ...waypoint, latitude: waypoint.latitude, longitude: waypoint.longitude }, position };
+      if (!previous) {
+        previous = current;
+        return;
+      }
+
+      const from = previous.waypoint;
+      const to = current.waypoint;
+      const distance = GeoMath.distanceNm(from.latitude, from.longitude, to.latitude, to.longitude);
+      const count = Math.max(1, Math.ceil(distance / SAMPLE_SPACING_NM));
+      const legSamples: TerrainSample[] = [];
+      for (let i = samples.length === 0 ? 0 : 1; i <= count; i++) {
+        const point = GeoMath.intermediatePoint(from.latitude, from.longitude, to.latitude, to.longitude, i / count);
+        const sample: TerrainSample = { distance: start + distance * i / count, ...point };
+        const elevation = terrain.elevationAt(point.latitude, point.longitude);
+        if (elevation !== undefined) {
+          sample.elevation = elevation;
+        }
+        legSamples.push(sample);
+      }
+      samples.push(...legSamples);
+
+      const covered = legSamples.filter(sample => sample.elevation !== undefined);
+      const altitude = RouteAnalyzer.legAltitude(from, to, options.cruiseAltitude);
+      const leg: TerrainLeg = {
+        from: RouteAnalyzer.waypointLabel(from),
+        to: RouteAnalyzer.waypointLabel(to),
+        position,
+        start,
+        distance,
+        altitude,
+        coverage: legSamples.length === 0 ? 0 : covered.length / legSamples.length,
+        conflict: false
+      };
+      const highest = covered.reduce<TerrainSample | undefined>(
+        (max, sample) => max === undefined || (sample.elevation ?? 0) > (max.elevation ?? 0) ? sample : max, undefined);
+      if (highest?.elevation !== undefined) {
+        leg.highest = highest;
+        leg.maxElevationFigure = Math.ceil((highest.elevation + OBSTACLE_ALLOWANCE) / 100) * 100;
+        leg.clearance = altitude - highest.elevation;
+        leg.conflict = leg.clearance < requiredClearance;
+      }
+      legs.push(leg);
+
+      start += distance;
+      previous = current;
+    });
+
+    return { samples, legs, totalDistance: start, requiredClearance };
+  }
+
+  static check(waypoints: Waypoint[], options: TerrainOptions): ConversionError[] {
+    const { legs, requiredClearance } = this.profile(waypoints, options);
+    return legs.filter(leg => leg.conflict && leg.highest).map(leg => {
+      const elevation = Math.round(leg.highest?.elevation ?? 0);
+      const minimum = Math.ceil((elevation + requiredClearance) / 100) * 100;
+      return {
+        message: `Leg ${leg.from} → ${leg.to} crosses terrain of about ${elevation} ft ` +
+          `${((leg.highest?.distance ?? 0) - leg.start).toFixed(1)} NM after ${leg.from}; ` +
+          `${leg.altitude} ft leaves ${Math.round(leg.clearance ?? 0)} ft clearance (${requiredClearance} ft required). ` +
+          `Fly at or above ${minimum} ft on this leg.`,
+        severity: 'warning' as const,
+        position: leg.position
+      };
+    });
+  }
+}
@@ -0,0 +1,229 @@
+import { FlightPlan } from './types.js';
+import { DEFAULT_TERRAIN_CLEARANCE, ElevationGrid, OBSTACLE_ALLOWANCE, TerrainAnalyzer, TerrainModel, TerrainProfile, TerrainSample } from './terrain.js';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const WIDTH = 600;
+const HEIGHT = 220;
+const MARGIN = { top: 16, right: 12, bottom: 24, left: 48 };
+const COLUMNS = ['Leg', 'Alt', 'Terrain', 'MEF', 'Clearance'];
+
+export class TerrainPanel {
+  private readonly clearanceInput: HTMLInputElement;
+  private readonly gridInput: HTMLInputElement;
+  private readonly svg: SVGSVGElement;
+  private readonly table: HTMLDivElement;
+  private readonly notes: HTMLDivElement;
+  private plan: FlightPlan | undefined;
+  private terrain = TerrainModel.bundled();
+  private gridName: string | undefined;
+
+  constructor(private readonly container: HTMLElement) {
+    this.container.innerHTML = `
+      <h3 class="navlog-title">Terrain Profile</h3>
+      <div class="navlog-options">
+        <label class="option-field">
+          <span>Required clearance (ft)</span>
+          <input type="number" class="option-input" data-terrain="clearance" value="${DEFAULT_TERRAIN_CLEARANCE}" min="0" max="10000" step="100">
+        </label>
+        <label class="option-field terrain-grid">
+          <span>Elevation grid (ESRI ASCII .asc, metres)</span>
+          <input type="file" class="option-input" data-terrain="grid" accept=".asc,.txt">
+        </label>
+      </div>
+      <div class="navlog-table"></div>
+      <div class="terrain-notes"></div>
+    `;
+
+    this.clearanceInput = this.container.querySelector('[data-terrain="clearance"]') as HTMLInputElement;
+    this.gridInput = this.container.querySelector('[data-terrain="grid"]') as HTMLInputElement;
+    this.table = this.container.querySelector('.navlog-table') as HTMLDivElement;
+    this.notes = this.container.querySelector('.terrain-notes') as HTMLDivElement;
+    this.svg = document.createElementNS(SVG_NS, 'svg');
+    this.svg.setAttribute('viewBox', `0 0 ${WIDTH} ${HEIGHT}`);
+    this.svg.setAttribute('class', 'terrain-chart');
+    this.container.insertBefore(this.svg, this.table);
+
+    this.clearanceInput.addEventListener('input', () => this.render());
+    this.gridInput.addEventListener('change', () => {
+      const file = this.gridInput.files?.[0];
+      if (file) {
+        void this.loadGrid(file);
+      }
+    });
+    this.container.classList.add('hidden');
+  }
+
+  get model(): TerrainModel {
+    return this.terrain;
+  }
+
+  get clearance(): number {
+    const value = Number(this.clearanceInput.value);
+    return this.clearanceInput.value.trim() && Number.isFinite(value) && value >= 0 ? value : DEFAULT_TERRAIN_CLEARANCE;
+  }
+
+  update(plan: FlightPlan): void {
+    this.plan = plan;
+    this.render();
+  }
+
+  clear(): void {
+    this.plan = undefined;
+    this.container.classList.add('hidden');
+  }
+
+  private async loadGrid(file: File): Promise<void> {
+    try {
+      this.terrain = TerrainModel.bundled().withGrid(ElevationGrid.fromAsciiGrid(await file.text()));
+      this.gridName = file.name;
+      this.render();
+    } catch (error) {
+      this.notes.textContent = `Failed to load ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  }
+
+  private render(): void {
+    if (!this.plan) {
+      return;
+    }
+
+    const profile = TerrainAnalyzer.profile(this.plan.waypoints, {
+      cruiseAltitude: this.plan.cruisingAlt ?? 3500,
+      clearance: this.clearance,
+      terrain: this.terrain
+    });
+    if (profile.legs.length === 0) {
+      this.clear();
+      return;
+    }
+
+    this.container.classList.remove('hidden');
+    this.drawChart(profile);
+    this.renderTable(profile);
+
+    const notes: string[] = [];
+    const conflicts = profile.legs.filter(leg => leg.conflict).length;
+    notes.push(conflicts > 0
+      ? `⚠️ ${conflicts} leg(s) below ${profile.requiredClearance} ft terrain clearance`
+      : `All legs with elevation data clear terrain by at least ${profile.requiredClearance} ft`);
+    if (profile.legs.some(leg => leg.coverage < 1)) {
+      notes.push('Parts of the route are outside the elevation grid and were not checked; load a grid that covers them.');
+    }
+    notes.push(`Terrain from ${this.gridName ? `${this.gridName} and the bundled grid` : 'the bundled coarse grid'}. MEF adds ${OBSTACLE_ALLOWANCE} ft for obstacles and rounds up to the next 100 ft.`);
+    this.notes.innerHTML = '';
+    notes.forEach(note => {
+      const paragraph = document.createElement('p');
+      paragraph.className = 'navlog-note';
+      paragraph.textContent = note;
+      this.notes.appendChild(paragraph);
+    });
+  }
+
+  private drawChart(profile: TerrainProfile): void {
+    this.svg.innerHTML = '';
+    const ceiling = Math.max(
+      ...profile.legs.map(leg => leg.altitude),
+      ...profile.samples.map(sample => sample.elevation ?? 0)
+    ) + profile.requiredClearance;
+    const top = Math.max(1000, Math.ceil(ceiling / 1000) * 1000);
+    const x = (distance: number) => MARGIN.left + distance / (profile.totalDistance || 1) * (WIDTH - MARGIN.left - MARGIN.right);
+    const y = (altitude: number) => HEIGHT - MARGIN.bottom - altitude / top * (HEIGHT - MARGIN.top - MARGIN.bottom);
+    const step = top / 4;
+
+    for (let altitude = 0; altitude <= top; altitude += step) {
+      this.svg.appendChild(this.element('line', {
+        x1: String(MARGIN.left), x2: String(WIDTH - MARGIN.right), y1: y(altitude).toFixed(1), y2: y(altitude).toFixed(1), class: 'terrain-grid-line'
+      }));
+      const label = this.element('text', { x: String(MARGIN.left - 4), y: (y(altitude) + 4).toFixed(1), class: 'terrain-axis' });
+      label.textContent = String(altitude);
+      this.svg.appendChild(label);
+    }
+
+    this.runs(profile.samples).forEach(run => {
+      const first = run[0];
+      const last = run[run.length - 1];
+      if (!first || !last) {
+        return;
+      }
+      const points = run.map(sample => `${x(sample.distance).toFixed(1)},${y(sample.elevation ?? 0).toFixed(1)}`);
+      this.svg.appendChild(this.element('polygon', {
+        points: [`${x(first.distance).toFixed(1)},${y(0).toFixed(1)}`, ...points, `${x(last.distance).toFixed(1)},${y(0).toFixed(1)}`].join(' '),
+        class: 'terrain-ground'
+      }));
+    });
+
+    profile.legs.forEach(leg => {
+      const x1 = x(leg.start).toFixed(1);
+      const x2 = x(leg.start + leg.distance).toFixed(1);
+      const line = this.element('line', {
+        x1, x2, y1: y(leg.altitude).toFixed(1), y2: y(leg.altitude).toFixed(1),
+        class: leg.conflict ? 'terrain-altitude conflict' : 'terrain-altitude'
+      });
+      const title = this.element('title', {});
+      title.textContent = `${leg.from} → ${leg.to}: ${leg.altitude} ft`;
+      line.appendChild(title);
+      this.svg.appendChild(line);
+      this.svg.appendChild(this.element('line', {
+        x1: x2, x2, y1: String(MARGIN.top), y2: y(0).toFixed(1), class: 'terrain-fix'
+      }));
+      const label = this.element('text', { x: x2, y: String(HEIGHT - 6), class: 'terrain-label' });
+      label.textContent = leg.to;
+      this.svg.appendChild(label);
+    });
+  }
+
+  private renderTable(profile: TerrainProfile): void {
+    this.table.innerHTML = '';
+    const table = document.createElement('table');
+    const header = table.createTHead().insertRow();
+    COLUMNS.forEach(column => {
+      const cell = document.createElement('th');
+      cell.textContent = column;
+      header.appendChild(cell);
+    });
+
+    const body = table.createTBody();
+    profile.legs.forEach(leg => {
+      const row = body.insertRow();
+      if (leg.conflict) {
+        row.className = 'terrain-conflict';
+      }
+      const unknown = leg.coverage === 0 ? 'no data' : undefined;
+      [
+        `${leg.from} → ${leg.to}`,
+        String(leg.altitude),
+        unknown ?? `${Math.round(leg.highest?.elevation ?? 0)}`,
+        unknown ?? String(leg.maxElevationFigure),
+        unknown ?? `${Math.round(leg.clearance ?? 0)}${leg.conflict ? ' ⚠️' : ''}`
+      ].forEach(value => {
+        row.insertCell().textContent = value;
+      });
+    });
+    this.table.appendChild(table);
+  }
+
+  private runs(samples: TerrainSample[]): TerrainSample[][] {
+    const runs: TerrainSample[][] = [];
+    let current: TerrainSample[] = [];
+    samples.forEach(sample => {
+      if (sample.elevation === undefined) {
+        if (current.length > 0) {
+          runs.push(current);
+        }
+        current = [];
+      } else {
+        current.push(sample);
+      }
+    });
+    if (current.length > 0) {
+      runs.push(current);
+    }
+    return runs;
+  }
+
+  private element(name: string, attributes: Record<string, string>): SVGElement {
+    const element = document.createElementNS(SVG_NS, name);
+    Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, value));
+    return element;
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { AceXmlDocument, PlnSchema } from '../acexml.js';
+import { PlnGenerator } from '../converter.js';
+import { RouteConverter } from '../pipeline.js';
+import { XmlParser } from '../xml.js';
+import { PlnOptions } from '../types.js';
+
+const golden = (path: string): string => readFileSync(resolve(__dirname, path), 'utf-8').replace(/\r\n/g, '\n').trimEnd();
+
+const GOLDEN_FILES: Array<{ file: string; route: string; options: PlnOptions }> = [
+  {
+    file: '../../route.pln',
+    route: 'P34 403210N0772310W 402507N0773505W 401034N0774923W N68',
+    options: { userWaypointTemplate: 'WP{index}' }
+  },
+  {
+    file: 'golden/ifr-airways.pln',
+    route: 'KMDT.HAR1 HAR V162 ETX 403210N0772310W:RIDGE/A045S120+ KLNS.BUNTS4/A030-',
+    options: {
+      flightType: 'IFR',
+      routeType: 'LowAlt',
+      cruisingAltitude: 7000,
+      title: 'Harrisburg & Allentown',
+      description: 'Ridge <practice>',
+      departureRunway: '13',
+      departureParking: 'GATE 3',
+      arrivalRunway: '06L'
+    }
+  },
+  {
+    file: 'golden/gps-only.pln',
+    route: '403210N0772310W 402507N 0773505W/5500 40.1761,-77.8231',
+    options: {}
+  }
+];
+
+const validPln = (): string => RouteConverter.convert('P34 403210N0772310W N68').pln as string;
+
+describe('AceXmlDocument', () => {
+  GOLDEN_FILES.forEach(({ file, route, options }) => {
+    it(`should reproduce ${file.replace(/^.*\//, '')}`, () => {
+      const result = RouteConverter.convert(route, options);
+
+      expect(result.errors).toEqual([]);
+      expect(result.pln).toBe(golden(file));
+      expect(PlnSchema.validate(XmlParser.parse(golden(file)))).toEqual([]);
+    });
+  });
+
+  it('should build a typed document from a flight plan', () => {
+    const plan = PlnGenerator.buildFlightPlan([
+      { type: 'NAMED', name: 'P34', region: 'K6', latitude: 40.6776, longitude: -77.6267, elevation: 819 },
+      { type: 'GPS', latitude: 40.536111, longitude: -77.386111, altitude: 4500, altitudeConstraint: 'AT_OR_BELOW' },
+      { type: 'NAMED', name: 'N68' }
+    ], { departureRunway: '24' });
+    const document = PlnGenerator.buildDocument(plan);
+
+    expect(document.waypoints[0]).toMatchObject({
+      id: 'P34', type: 'Airport', position: { altitude: 819 }, runway: { number: 24 }, icao: { region: 'K6', ident: 'P34' }
+    });
+    expect(document.waypoints[1]).toMatchObject({ id: 'WP1', type: 'User', altitude: 4500, altitudeDescription: 'AT_OR_BELOW' });
+    expect(document.waypoints[2]?.position).toBeUndefined();
+    expect(PlnSchema.validate(AceXmlDocument.toElement(document))).toEqual([]);
+  });
+});
+
+describe('PlnSchema', () => {
+  it('should report missing and unexpected elements', () => {
+    const pln = validPln().replace(/\s*<FPType>VFR<\/FPType>/, '').replace('<Title>', '<Notes>x</Notes><Title>');
+
+    expect(PlnSchema.validate(XmlParser.parse(pln))).toEqual([
+      'SimBase.Document/FlightPlan.FlightPlan has unexpected element <Notes>',
+      'SimBase.Document/FlightPlan.FlightPlan is missing <FPType>'
+    ]);
+  });
+
+  it('should report elements out of order', () => {
+    const pln = validPln().replace(/(\s*<CruisingAlt>3500<\/CruisingAlt>)(\s*<DepartureID>P34<\/DepartureID>)/, '$2$1');
+
+    expect(PlnSchema.validate(XmlParser.parse(pln))).toEqual([
+      'SimBase.Document/FlightPlan.FlightPlan is missing <CruisingAlt>',
+      'SimBase.Document/FlightPlan.FlightPlan/CruisingAlt is repeated or out of order'
+    ]);
+  });
+
+  it('should check coordinates, enumerations and identifiers', () => {
+    const pln = validPln()
+      .replace('<WorldPosition>40.536111,-77.386111,0</WorldPosition>', '<WorldPosition>N40° 32\' 10",-77.386111,0</WorldPosition>')
+      .replace('<DepartureLLA>40.6776,-77.6267,819</DepartureLLA>', '<DepartureLLA>95,-77.6267,819</DepartureLLA>')
+      .replace('<ATCWaypointType>User</ATCWaypointType>', '<ATCWaypointType>GPS</ATCWaypointType>')
+      .replace('<ATCWaypoint id="WP1">', '<ATCWaypoint id="wp-1">');
+
+    expect(PlnSchema.validate(XmlParser.parse(pln))).toEqual([
+      'SimBase.Document/FlightPlan.FlightPlan/DepartureLLA: "95,-77.6267,819" is out of range',
+      'SimBase.Document/FlightPlan.FlightPlan/ATCWaypointList/ATCWaypoint[2] attribute id: "wp-1" is not an identifier of 1-12 upper-case letters or digits',
+      'SimBase.Document/FlightPlan.FlightPlan/ATCWaypointList/ATCWaypoint[2]/ATCWaypointType: "GPS" is not one of Airport, VOR, NDB, Intersection, User',
+      'SimBase.Document/FlightPlan.FlightPlan/ATCWaypointList/ATCWaypoint[2]/WorldPosition: "N40° 32\' 10",-77.386111,0" is not "latitude,longitude,altitude" in decimal degrees and feet'
+    ]);
+  });
+
+  it('should reject other documents', () => {
+    expect(PlnSchema.validate(XmlParser.parse('<gpx/>'))).toEqual(['Root element is <gpx>, expected <SimBase.Document>']);
+  });
+});
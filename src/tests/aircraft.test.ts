@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { AircraftProfiles, DEFAULT_AIRCRAFT_PROFILES, MemoryStorage } from '../aircraft.js';
+
+const c172 = DEFAULT_AIRCRAFT_PROFILES[0]!;
+
+describe('AircraftProfiles', () => {
+  it('should list the default profiles', () => {
+    expect(new AircraftProfiles().list().map(profile => profile.id)).toEqual(['c172', 'pa28', 'sr22']);
+  });
+
+  it('should save custom profiles with unique ids and keep them in storage', () => {
+    const storage = new MemoryStorage();
+    const profiles = new AircraftProfiles(storage);
+
+    const first = profiles.save({ ...c172, name: ' My Skyhawk ' });
+    const second = profiles.save({ ...c172, name: 'My Skyhawk' });
+
+    expect(first).toMatchObject({ id: 'my-skyhawk', name: 'My Skyhawk' });
+    expect(second.id).toBe('my-skyhawk-2');
+    expect(new AircraftProfiles(storage).list().map(profile => profile.id)).toEqual(['c172', 'pa28', 'sr22', 'my-skyhawk', 'my-skyhawk-2']);
+  });
+
+  it('should override and reset default profiles', () => {
+    const profiles = new AircraftProfiles();
+
+    profiles.save({ ...c172, cruiseSpeed: 115 }, 'c172');
+    expect(profiles.get('c172')?.cruiseSpeed).toBe(115);
+    expect(profiles.list()).toHaveLength(3);
+
+    profiles.remove('c172');
+    expect(profiles.get('c172')?.cruiseSpeed).toBe(110);
+    expect(profiles.isDefault('c172')).toBe(true);
+  });
+
+  it('should reject invalid profiles', () => {
+    const profiles = new AircraftProfiles();
+
+    expect(() => profiles.save({ ...c172, name: ' ' })).toThrow('Aircraft profiles need a name');
+    expect(() => profiles.save({ ...c172, climbRate: 0 })).toThrow('Climb rate must be between 1 and 20000');
+    expect(() => profiles.save({ ...c172, cruiseSpeed: Number.NaN })).toThrow('Cruise TAS must be between 1 and 999');
+    expect(() => profiles.save({ ...c172, taxiFuel: 60 })).toThrow('Taxi fuel cannot exceed usable fuel');
+  });
+
+  it('should ignore unreadable storage', () => {
+    const storage = new MemoryStorage();
+    storage.setItem('sv2msfs-aircraft-profiles', '{not json');
+
+    expect(new AircraftProfiles(storage).list()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { AirspaceChecker, AirspaceDatabase, AirspaceLimits } from '../airspace.js';
+import { ElevationGrid, TerrainModel } from '../terrain.js';
+import { Waypoint } from '../types.js';
+
+const OPENAIR = `* Test airspace
+AC D
+AN BOX
+AL SFC
+AH 2500 MSL
+DP 00:12:00 N 000:06:00 E
+DP 00:12:00 N 000:24:00 E
+DP 00:00:00 N 000:24:00 E
+DP 00:00:00 N 000:06:00 E
+
+AC R
+AN R-1
+AL 1000 AGL
+AH FL100
+V X=00:06:00 N 000:30:00 E
+DC 3
+
+AC Q
+AN DANGER
+DP 00:12:00 N 000:00:00 E
+DP 00:12:00 N 000:36:00 E
+DP 00:00:00 N 000:36:00 E
+`;
+
+const airspaces = AirspaceDatabase.fromOpenAir(OPENAIR);
+
+const route: Waypoint[] = [
+  { type: 'NAMED', name: 'AAA', latitude: 0.1, longitude: 0 },
+  { type: 'NAMED', name: 'BBB', latitude: 0.1, longitude: 0.6, altitude: 2000 }
+];
+
+describe('AirspaceLimits', () => {
+  it('should parse OpenAir altitude limits', () => {
+    expect(AirspaceLimits.parse('GND')).toEqual({ value: 0, reference: 'SFC' });
+    expect(AirspaceLimits.parse('unlim')).toEqual({ value: 0, reference: 'UNL' });
+    expect(AirspaceLimits.parse('FL 95')).toEqual({ value: 95, reference: 'FL' });
+    expect(AirspaceLimits.parse('2500ft MSL')).toEqual({ value: 2500, reference: 'MSL' });
+    expect(AirspaceLimits.parse('1500 AGL')).toEqual({ value: 1500, reference: 'AGL' });
+    expect(AirspaceLimits.parse('300M')).toEqual({ value: 984, reference: 'MSL' });
+    expect(() => AirspaceLimits.parse('high')).toThrow('Invalid airspace altitude "high"');
+  });
+
+  it('should convert limits to feet above sea level and format them', () => {
+    expect(AirspaceLimits.feet({ value: 0, reference: 'SFC' }, 800)).toBe(800);
+    expect(AirspaceLimits.feet({ value: 1000, reference: 'AGL' }, 800)).toBe(1800);
+    expect(AirspaceLimits.feet({ value: 85, reference: 'FL' })).toBe(8500);
+    expect(AirspaceLimits.feet({ value: 0, reference: 'UNL' })).toBe(Infinity);
+    expect(AirspaceLimits.format({ value: 85, reference: 'FL' })).toBe('FL085');
+    expect(AirspaceLimits.format({ value: 2500, reference: 'MSL' })).toBe('2500 ft MSL');
+  });
+});
+
+describe('AirspaceDatabase', () => {
+  it('should read polygons and circles from OpenAir', () => {
+    expect(airspaces.airspaces.map(airspace => [airspace.type, airspace.name])).toEqual([['D', 'BOX'], ['R', 'R-1'], ['Q', 'DANGER']]);
+
+    const [box, circle] = airspaces.airspaces;
+    expect(box?.points).toHaveLength(4);
+    expect(box?.points[1]).toEqual({ latitude: 0.2, longitude: 0.4 });
+    expect(circle?.floor).toEqual({ value: 1000, reference: 'AGL' });
+    expect(circle?.points.length).toBeGreaterThan(70);
+    expect(AirspaceDatabase.contains(circle!, 0.1, 0.5)).toBe(true);
+    expect(AirspaceDatabase.contains(circle!, 0.1, 0.56)).toBe(false);
+    expect(AirspaceDatabase.describe(circle!)).toBe('Restricted area R-1');
+    expect(AirspaceDatabase.describe(box!)).toBe('Class D BOX');
+  });
+
+  it('should follow arcs between two points', () => {
+    const [arc] = AirspaceDatabase.fromOpenAir(`AC C
+AN ARC
+DP 00:00:00 N 000:00:00 E
+V X=00:00:00 N 000:00:00 E
+V D=-
+DB 00:10:00 N 000:00:00 E, 00:00:00 N 000:10:00 E`).airspaces;
+
+    expect(arc?.points.some(point => point.latitude > 0.01 && point.longitude > 0.01)).toBe(false);
+    expect(arc?.points[1]).toEqual({ latitude: 10 / 60, longitude: 0 });
+    expect(arc?.points.some(point => point.longitude < 0)).toBe(true);
+  });
+
+  it('should report the failing OpenAir line', () => {
+    expect(() => AirspaceDatabase.fromOpenAir('AN ORPHAN')).toThrow('OpenAir line 1: AN before the first AC record');
+    expect(() => AirspaceDatabase.fromOpenAir('AC D\nDP 40N 78W')).toThrow('OpenAir line 2: Invalid coordinate "40N 78W"');
+    expect(() => AirspaceDatabase.fromOpenAir('AC D\nDC 5')).toThrow('OpenAir line 2: Arc without a V X= centre');
+    expect(() => AirspaceDatabase.fromOpenAir('AC D\nAN TINY\nDP 00:00:00 N 000:00:00 E')).toThrow('Airspace TINY has fewer than 3 points');
+  });
+
+  it('should read GeoJSON feature collections', () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { name: 'TFR 1', class: 'r', ceiling: 'FL180' },
+          geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] }
+        },
+        {
+          type: 'Feature',
+          properties: { name: 'Twin', class: 'C', floor: 1200 },
+          geometry: { type: 'MultiPolygon', coordinates: [[[[2, 2], [3, 2], [3, 3], [2, 2]]], [[[4, 4], [5, 4], [5, 5], [4, 4]]]] }
+        }
+      ]
+    });
+
+    const database = AirspaceDatabase.load('tfr.geojson', geojson);
+    expect(database.airspaces).toHaveLength(3);
+    expect(database.airspaces[0]).toMatchObject({
+      name: 'TFR 1', type: 'R', floor: { reference: 'SFC' }, ceiling: { value: 180, reference: 'FL' }
+    });
+    expect(database.airspaces[0]?.points[1]).toEqual({ latitude: 0, longitude: 1 });
+    expect(database.airspaces[2]).toMatchObject({ name: 'Twin', floor: { value: 1200, reference: 'MSL' } });
+    expect(database.within({ minLat: 3.5, maxLat: 6, minLon: 3.5, maxLon: 6 }).map(airspace => airspace.name)).toEqual(['Twin']);
+    expect(() => AirspaceDatabase.fromGeoJson('{"type":"Feature"}')).toThrow('Airspace GeoJSON must be a FeatureCollection');
+    expect(() => AirspaceDatabase.load('bad.json', 'nope')).toThrow('Airspace file is not valid JSON');
+  });
+});
+
+describe('AirspaceChecker', () => {
+  it('should find entry and exit points of flagged airspace on each leg', () => {
+    const crossings = AirspaceChecker.crossings(route, airspaces, { cruiseAltitude: 3500 });
+
+    expect(crossings.map(crossing => crossing.airspace.name)).toEqual(['BOX', 'R-1']);
+    const [box, circle] = crossings;
+    expect(box).toMatchObject({ from: 'AAA', to: 'BBB', position: 1, altitude: 2000 });
+    expect(box?.entry?.distance).toBeCloseTo(6, 0);
+    expect(box?.exit?.distance).toBeCloseTo(24, 0);
+    expect(box?.entry?.longitude).toBeCloseTo(0.1, 3);
+    expect(circle?.entry?.distance).toBeCloseTo(27, 0);
+    expect(circle?.exit?.distance).toBeCloseTo(33, 0);
+  });
+
+  it('should report legs that start or end inside an airspace', () => {
+    const inside: Waypoint[] = [
+      { type: 'GPS', latitude: 0.1, longitude: 0.2 },
+      { type: 'GPS', latitude: 0.1, longitude: 0.3 }
+    ];
+
+    const [crossing] = AirspaceChecker.crossings(inside, airspaces, { cruiseAltitude: 1500 });
+    expect(crossing?.entry).toBeUndefined();
+    expect(crossing?.exit).toBeUndefined();
+    expect(AirspaceChecker.check(inside, airspaces, { cruiseAltitude: 1500 })[0]?.message).toContain('starts inside and ends inside Class D BOX');
+  });
+
+  it('should skip airspace the leg passes above or below', () => {
+    expect(AirspaceChecker.crossings(route, airspaces, { cruiseAltitude: 3500, classes: ['D'] })).toHaveLength(1);
+    const high = route.map(waypoint => ({ ...waypoint, altitude: 3000 }));
+    expect(AirspaceChecker.crossings(high, airspaces, { cruiseAltitude: 3500 }).map(crossing => crossing.airspace.name)).toEqual(['R-1']);
+
+    const ground = new TerrainModel([ElevationGrid.fromAsciiGrid('ncols 1\nnrows 1\nxllcorner 0\nyllcorner 0\ncellsize 1\n2500', 'ft')]);
+    expect(AirspaceChecker.crossings(high, airspaces, { cruiseAltitude: 3500, terrain: ground })).toEqual([]);
+  });
+
+  it('should warn with the airspace, its limits and the crossing points', () => {
+    const [warning] = AirspaceChecker.check(route, airspaces, { cruiseAltitude: 3500, classes: ['D'] });
+
+    expect(warning).toMatchObject({ severity: 'warning', position: 1 });
+    expect(warning?.message).toMatch(/^Leg AAA → BBB at 2000 ft enters at \S+ \(6\.0 NM after AAA\) and leaves at \S+ \(24\.0 NM after AAA\) Class D BOX \(SFC to 2500 ft MSL\)$/);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { AirwayDatabase } from '../airways.js';
+import { NavDatabase } from '../navdata.js';
+import { PlnGenerator, RouteFormatter, RouteParser } from '../converter.js';
+
+const expand = (route: string) => AirwayDatabase.bundled().expandRoute(RouteParser.parseSourceRoute(route));
+
+describe('AirwayDatabase', () => {
+  describe('fromCsv', () => {
+    it('should order fixes by sequence', () => {
+      const db = AirwayDatabase.fromCsv(`airway,sequence,ident,type,latitude,longitude,region
+V9,20,BBB,VOR,40.1,-75.1,K6
+V9,10,AAA,Intersection,40.0,-75.0,K6
+`);
+
+      expect(db.has('v9')).toBe(true);
+      expect(db.fixes('V9').map(fix => fix.ident)).toEqual(['AAA', 'BBB']);
+      expect(db.fixes('V9')[0]?.type).toBe('Intersection');
+    });
+
+    it('should reject malformed rows', () => {
+      expect(() => AirwayDatabase.fromCsv('airway,ident')).toThrow('missing column');
+      expect(() => AirwayDatabase.fromCsv('airway,sequence,ident,latitude,longitude\nV9,x,AAA,40,-75')).toThrow('Invalid sequence');
+      expect(() => AirwayDatabase.fromCsv('airway,sequence,ident,latitude,longitude\nV9,1,AAA,40,-195')).toThrow('Invalid coordinates');
+    });
+  });
+
+  describe('looksLikeAirway', () => {
+    it('should recognise victor, jet, T and Q routes', () => {
+      expect(AirwayDatabase.looksLikeAirway('V3')).toBe(true);
+      expect(AirwayDatabase.looksLikeAirway('j60')).toBe(true);
+      expect(AirwayDatabase.looksLikeAirway('Q812')).toBe(true);
+      expect(AirwayDatabase.looksLikeAirway('N68')).toBe(false);
+      expect(AirwayDatabase.looksLikeAirway('KLAX')).toBe(false);
+    });
+  });
+
+  describe('expandRoute', () => {
+    it('should insert intermediate fixes and tag them with the airway', () => {
+      const { waypoints, errors, warnings } = expand('KMDT HAR V162 ETX KABE');
+
+      expect(errors).toHaveLength(0);
+      expect(warnings).toHaveLength(0);
+      expect(waypoints.map(wp => wp.name)).toEqual(['KMDT', 'HAR', 'RAV', 'ETX', 'KABE']);
+      expect(waypoints.map(wp => wp.airway)).toEqual([undefined, undefined, 'V162', 'V162', undefined]);
+      expect(waypoints[2]).toMatchObject({ waypointType: 'VOR', latitude: 40.5533, longitude: -76.5993, region: 'K6' });
+    });
+
+    it('should expand airways flown against their sequence order', () => {
+      const { waypoints } = expand('SBJ J60 PSB');
+
+      expect(waypoints.map(wp => wp.name)).toEqual(['SBJ', 'RAV', 'PSB']);
+    });
+
+    it('should keep constraints written on the exit fix', () => {
+      const { waypoints } = expand('EMI V143 SEG/A065');
+
+      expect(waypoints[2]).toMatchObject({ name: 'SEG', airway: 'V143', altitude: 6500 });
+    });
+
+    it('should join and leave at the nearest fix when the neighbours are off the airway', () => {
+      const { waypoints, errors, warnings } = expand('KPHL V3 SBJ');
+
+      expect(errors).toHaveLength(0);
+      expect(warnings[0]?.message).toContain('joining at PHL');
+      expect(waypoints.map(wp => wp.name)).toEqual(['KPHL', 'PHL', 'ARD', 'SBJ']);
+    });
+
+    it('should map expanded waypoints back to the source waypoints', () => {
+      expect(expand('KMDT HAR V162 ETX KABE').sources).toEqual([0, 1, 2, 3, 4]);
+      expect(expand('KPHL V3 SBJ').sources).toEqual([0, 1, 1, 2]);
+    });
+
+    it('should report unknown airways and missing entry or exit fixes', () => {
+      expect(expand('KPHL V999 SBJ').errors[0]?.message).toContain('Unknown airway "V999"');
+      expect(expand('V3 SBJ').errors[0]?.message).toContain('needs an entry fix');
+      expect(expand('PHL V3 J60 SBJ').errors[0]?.message).toContain('must be followed by an exit fix');
+      expect(expand('ZZZZ V3 SBJ').errors[0]?.message).toContain('no known position');
+      expect(expand('SBJ V3 SBJ').errors[0]?.message).toContain('same fix');
+    });
+
+    it('should treat airway-shaped airport idents as waypoints', () => {
+      const navdata = NavDatabase.fromCsv(`ident,type,name,latitude,longitude,elevation,region
+T82,Airport,Gillespie County,30.243200,-98.909500,1695,K4`);
+      const route = (text: string) => AirwayDatabase.bundled().expandRoute(RouteParser.parseSourceRoute(text), navdata);
+
+      expect(route('KAUS 301500N0974500W T82')).toMatchObject({ errors: [], sources: [0, 1, 2] });
+      expect(route('T41 301500N0974500W T82').waypoints.map(wp => wp.name)).toEqual(['T41', undefined, 'T82']);
+      expect(route('KAUS T82 301500N0974500W').errors).toEqual([]);
+      expect(route('KAUS T41 301500N0974500W').errors[0]?.message).toContain('Unknown airway "T41"');
+    });
+
+    it('should leave routes without airways untouched', () => {
+      const waypoints = RouteParser.parseSourceRoute('P34 403210N0772310W N68');
+
+      expect(AirwayDatabase.bundled().expandRoute(waypoints, new NavDatabase()).waypoints).toEqual(waypoints);
+    });
+  });
+});
+
+describe('airway routes end to end', () => {
+  it('should emit ATCAirway and collapse back to the route string', () => {
+    const { waypoints } = expand('KMDT HAR V162 ETX KABE');
+
+    expect(PlnGenerator.generatePln(waypoints)).toContain('<ATCAirway>V162</ATCAirway>');
+    expect(RouteFormatter.formatRoute(waypoints)).toBe('KMDT HAR V162 ETX KABE');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { RouteAnalyzer } from '../analysis.js';
+import { MagneticModel } from '../magvar.js';
+import { Waypoint } from '../types.js';
+
+const ZERO_VARIATION = MagneticModel.fromCof('2025.0 ZERO\n 1 0 -30000 0 0 0\n');
+
+const route: Waypoint[] = [
+  { type: 'NAMED', name: 'EQ1', latitude: 0, longitude: 0 },
+  { type: 'NAMED', name: 'EQ2', latitude: 0, longitude: 1 },
+  { type: 'GPS', latitude: 1, longitude: 1 }
+];
+
+describe('RouteAnalyzer', () => {
+  describe('analyze', () => {
+    it('should compute leg distances, courses and cumulative distance', () => {
+      const { legs, totalDistance, totalTime } = RouteAnalyzer.analyze(route, { magneticModel: ZERO_VARIATION });
+
+      expect(legs).toHaveLength(2);
+      expect(legs[0]?.from).toBe('EQ1');
+      expect(legs[1]?.to).toBe('010000N0010000E');
+      expect(legs[0]?.distance).toBeCloseTo(60.04, 1);
+      expect(legs[0]?.trueCourse).toBeCloseTo(90, 5);
+      expect(legs[1]?.trueCourse).toBeCloseTo(0, 5);
+      expect(legs[1]?.cumulativeDistance).toBeCloseTo(120.08, 1);
+      expect(totalDistance).toBeCloseTo(120.08, 1);
+      expect(totalTime).toBeUndefined();
+    });
+
+    it('should apply magnetic variation', () => {
+      const waypoints: Waypoint[] = [
+        { type: 'NAMED', name: 'KMDT', latitude: 40.1935, longitude: -76.7634 },
+        { type: 'NAMED', name: 'KPHL', latitude: 39.8719, longitude: -75.2411 }
+      ];
+      const leg = RouteAnalyzer.analyze(waypoints, { date: new Date(Date.UTC(2025, 6, 1)) }).legs[0];
+
+      expect(leg?.magneticVariation).toBeCloseTo(-11.4, 0);
+      expect(leg?.magneticCourse).toBeCloseTo((leg?.trueCourse ?? 0) + 11.4, 0);
+    });
+
+    it('should compute ground speed and ETE with wind', () => {
+      const analysis = RouteAnalyzer.analyze(route, {
+        magneticModel: ZERO_VARIATION,
+        trueAirspeed: 120,
+        windDirection: 90,
+        windSpeed: 20
+      });
+
+      expect(analysis.legs[0]?.groundSpeed).toBeCloseTo(100, 5);
+      expect(analysis.legs[0]?.ete).toBeCloseTo(60.04 / 100, 3);
+      expect(analysis.legs[1]?.trueHeading).toBeCloseTo(9.59, 1);
+      expect(analysis.totalTime).toBeCloseTo(analysis.legs[1]?.cumulativeTime ?? 0, 10);
+    });
+
+    it('should list waypoints without a position', () => {
+      const analysis = RouteAnalyzer.analyze([...route, { type: 'NAMED', name: 'ZZZZ' }], { magneticModel: ZERO_VARIATION });
+
+      expect(analysis.legs).toHaveLength(2);
+      expect(analysis.unpositioned).toEqual(['ZZZZ']);
+    });
+  });
+
+  describe('windCorrection', () => {
+    it('should reject impossible wind triangles', () => {
+      expect(() => RouteAnalyzer.windCorrection(90, 0, 0, 0)).toThrow('greater than zero');
+      expect(() => RouteAnalyzer.windCorrection(90, 50, 0, 60)).toThrow('exceeds true airspeed');
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format hours as h:mm', () => {
+      expect(RouteAnalyzer.formatDuration(1.5)).toBe('1:30');
+      expect(RouteAnalyzer.formatDuration(0.0833)).toBe('0:05');
+    });
+  });
+});
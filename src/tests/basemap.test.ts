@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Basemap, MapProjection } from '../basemap.js';
+
+describe('Basemap', () => {
+  describe('bundled', () => {
+    it('should load the bundled outlines', () => {
+      const names = Basemap.bundled().features.map(feature => feature.name);
+
+      expect(names).toContain('United States');
+      expect(names).toContain('Pennsylvania');
+    });
+
+    it('should only return features overlapping the bounds', () => {
+      const names = Basemap.bundled()
+        .within({ minLat: 40.0, maxLat: 40.5, minLon: -78.0, maxLon: -77.0 })
+        .map(feature => feature.name);
+
+      expect(names).toContain('Pennsylvania');
+      expect(names).not.toContain('Lake Ontario');
+    });
+  });
+
+  describe('fromGeoJson', () => {
+    it('should read lines, polygons and feature properties', () => {
+      const basemap = Basemap.fromGeoJson(JSON.stringify({
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', properties: { name: 'Shore', kind: 'coast' }, geometry: { type: 'LineString', coordinates: [[-75, 40], [-74, 41]] } },
+          { type: 'Feature', properties: {}, geometry: { type: 'MultiPolygon', coordinates: [[[[-76, 39], [-75, 39], [-75, 40], [-76, 39]]]] } },
+          { type: 'Feature', properties: { name: 'Tower' }, geometry: { type: 'Point', coordinates: [-75, 40] } }
+        ]
+      }));
+
+      expect(basemap.features).toHaveLength(2);
+      expect(basemap.features[0]).toEqual({ name: 'Shore', kind: 'coast', closed: false, lines: [[[-75, 40], [-74, 41]]] });
+      expect(basemap.features[1]).toMatchObject({ name: '', kind: 'border', closed: true });
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => Basemap.fromGeoJson('{')).toThrow('not valid GeoJSON');
+      expect(() => Basemap.fromGeoJson('{"type":"Point","coordinates":[0,0]}')).toThrow('no Polygon or LineString');
+      expect(() => Basemap.fromGeoJson('{"type":"LineString","coordinates":[["a",0]]}')).toThrow('invalid position');
+    });
+  });
+});
+
+describe('MapProjection', () => {
+  it('should frame points with padding and a minimum span', () => {
+    const bounds = MapProjection.boundsOf([{ latitude: 40, longitude: -77 }]);
+
+    expect(bounds.minLat).toBeCloseTo(39.7, 5);
+    expect(bounds.maxLat).toBeCloseTo(40.3, 5);
+    expect(bounds.minLon).toBeCloseTo(-77.3, 5);
+    expect(() => MapProjection.boundsOf([])).toThrow('without positioned waypoints');
+  });
+
+  it('should project north up and east right within the viewport', () => {
+    const projection = new MapProjection({ minLat: 40, maxLat: 41, minLon: -78, maxLon: -77 }, 600, 400);
+    const southWest = projection.project(40, -78);
+    const northEast = projection.project(41, -77);
+
+    expect(northEast.x).toBeGreaterThan(southWest.x);
+    expect(northEast.y).toBeLessThan(southWest.y);
+    expect(southWest.y).toBeCloseTo(400, 5);
+    expect(northEast.y).toBeCloseTo(0, 5);
+  });
+
+  it('should round-trip through unproject', () => {
+    const projection = new MapProjection({ minLat: 40, maxLat: 41, minLon: -78, maxLon: -77 }, 600, 400);
+    const { x, y } = projection.project(40.5362, -77.3897);
+    const position = projection.unproject(x, y);
+
+    expect(position.latitude).toBeCloseTo(40.5362, 6);
+    expect(position.longitude).toBeCloseTo(-77.3897, 6);
+  });
+
+  it('should pick a grid step that keeps the graticule readable', () => {
+    expect(new MapProjection({ minLat: 40, maxLat: 41, minLon: -78, maxLon: -77 }, 600, 400).gridStep()).toBe(0.25);
+    expect(new MapProjection({ minLat: 30, maxLat: 45, minLon: -90, maxLon: -70 }, 600, 400).gridStep()).toBe(5);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { BatchConverter } from '../batch.js';
+import { FlightPlanExporters, GPX_EXPORTER, MSFS2024_EXPORTER } from '../exporters.js';
+import { RouteConverter } from '../pipeline.js';
+import { FlightPlan } from '../types.js';
+
+describe('BatchConverter', () => {
+  it('should split pasted text into one route per line', () => {
+    expect(BatchConverter.splitRoutes('P34 N68\r\n\n  \nKMDT HAR KLNS\n')).toEqual(['P34 N68', 'KMDT HAR KLNS']);
+    expect(BatchConverter.splitRoutes('P34 N68\nKMDT HAR KLNS')).toEqual(['P34 N68', 'KMDT HAR KLNS']);
+    expect(BatchConverter.splitRoutes('P34 N68')).toEqual(['P34 N68']);
+  });
+
+  it('should keep multi-line routes together when routes are separated by blank lines', () => {
+    expect(BatchConverter.splitRoutes('P34\n403210N0772310W\nN68\n\nKMDT\nKLNS')).toEqual(['P34\n403210N0772310W\nN68', 'KMDT\nKLNS']);
+  });
+
+  it('should convert each route and report its status', () => {
+    const items = BatchConverter.convert([
+      { name: '', text: 'KMDT KLNS' },
+      { name: '', text: 'P34 9999 N68' },
+      { name: '', text: 'KMDT ZZZZ KLNS' },
+      { name: '', text: 'KMDT KLNS' }
+    ], MSFS2024_EXPORTER);
+
+    expect(items.map(item => [item.status, item.fileName])).toEqual([
+      ['ok', 'KMDT-KLNS.pln'],
+      ['error', undefined],
+      ['warning', 'KMDT-KLNS-2.pln'],
+      ['ok', 'KMDT-KLNS-3.pln']
+    ]);
+    expect(items[0]).toMatchObject({ name: 'KMDT to KLNS', waypoints: 2 });
+    expect(items[1]?.name).toBe('Route 2');
+    expect(items[1]?.errors[0]?.message).toContain('Invalid coordinate format');
+    expect(items[2]?.warnings[0]?.message).toContain('Unknown waypoint "ZZZZ"');
+  });
+
+  it('should read flight plan files and name outputs after them', () => {
+    const gpx = GPX_EXPORTER.export(RouteConverter.convert('KMDT KLNS').plan as FlightPlan);
+    const items = BatchConverter.convert([
+      { name: 'leg 1.gpx', text: gpx, file: true },
+      { name: 'broken.fpl', text: '<flight-plan/>', file: true }
+    ], FlightPlanExporters.standard().get('xplane'));
+
+    expect(items[0]).toMatchObject({ status: 'ok', fileName: 'leg-1.fms', waypoints: 2 });
+    expect(items[1]).toMatchObject({ status: 'error', name: 'broken.fpl' });
+  });
+
+  it('should convert imported waypoints without losing their positions and elevations', () => {
+    const fms = 'I\n3 version\n1\n2\n1 KMDT 310.000000 40.193500 -76.763400\n28 PTA 4500.000000 40.536111 -77.386111\n1 PA99 1234 40.8 -77.9\n';
+    const [item] = BatchConverter.convert([{ name: 'ridge.fms', text: fms, file: true }], MSFS2024_EXPORTER);
+
+    expect(item).toMatchObject({ status: 'ok', waypoints: 3 });
+    expect(item?.content).toContain('<DestinationLLA>40.8,-77.9,1234</DestinationLLA>');
+    expect(item?.content).toContain('<WorldPosition>40.536111,-77.386111,4500</WorldPosition>');
+  });
+
+  it('should name outputs from a file name template', () => {
+    const items = BatchConverter.convert([
+      { name: 'ridge.txt', text: 'P34 N68', file: true },
+      { name: 'ridge.txt', text: 'P34 N68', file: true }
+    ], MSFS2024_EXPORTER, {}, '{name}_{dep}-{arr}');
+
+    expect(items.map(item => item.fileName)).toEqual(['ridge_P34-N68.pln', 'ridge_P34-N68-2.pln']);
+  });
+
+  it('should package converted plans into a ZIP archive', () => {
+    const items = BatchConverter.convert([{ name: '', text: 'P34 N68' }, { name: '', text: 'P34 9999 N68' }], MSFS2024_EXPORTER);
+    const archive = BatchConverter.archive(items);
+    const view = new DataView(archive.buffer);
+
+    expect(view.getUint16(archive.length - 12, true)).toBe(1);
+    expect(new TextDecoder().decode(archive.subarray(30, 41))).toBe('P34-N68.pln');
+  });
+});
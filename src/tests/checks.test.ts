@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { RouteChecker } from '../checks.js';
+import { Waypoint } from '../types.js';
+
+const KMDT: Waypoint = { type: 'NAMED', name: 'KMDT', waypointType: 'Airport', latitude: 40.1935, longitude: -76.7634 };
+const KLNS: Waypoint = { type: 'NAMED', name: 'KLNS', waypointType: 'Airport', latitude: 40.1217, longitude: -76.2961 };
+const HAR: Waypoint = { type: 'NAMED', name: 'HAR', waypointType: 'VOR', latitude: 40.3023, longitude: -77.0699 };
+const gps = (latitude: number, longitude: number): Waypoint => ({ type: 'GPS', latitude, longitude });
+
+describe('RouteChecker', () => {
+  it('should accept a sensible route', () => {
+    expect(RouteChecker.check([HAR, KMDT, gps(40.15, -76.5), KLNS])).toEqual([]);
+  });
+
+  it('should flag a coordinate in the wrong hemisphere and suggest the mirrored one', () => {
+    const warnings = RouteChecker.check([KMDT, gps(40.536111, 77.386111), KLNS]);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ severity: 'warning', position: 1 });
+    expect(warnings[0]?.message).toBe(
+      '403210N0772310E is in the eastern hemisphere but the waypoints around it are western. Did you mean W instead of E?'
+    );
+    expect(warnings[0]?.fixes).toEqual([{ title: 'Change to 403210N0772310W', replacement: '403210N0772310W' }]);
+  });
+
+  it('should not flag routes that cross the prime meridian', () => {
+    expect(RouteChecker.check([gps(51.5, -0.5), gps(51.6, 0.2), gps(51.7, -0.1)])).toEqual([]);
+  });
+
+  it('should flag consecutive duplicate fixes', () => {
+    expect(RouteChecker.check([KMDT, HAR, HAR, KLNS])).toMatchObject([
+      { message: 'HAR appears twice in a row', position: 2 }
+    ]);
+  });
+
+  it('should flag implausibly long legs', () => {
+    expect(RouteChecker.check([gps(40, -77), gps(40, -90)])).toMatchObject([
+      { message: 'Leg 400000N0770000W → 400000N0900000W is 597 NM long. Check the coordinates.', position: 1 }
+    ]);
+  });
+
+  it('should flag routes that double back', () => {
+    expect(RouteChecker.check([gps(40, -77), gps(40, -76), gps(40.05, -76.9)])).toMatchObject([
+      { message: 'Route doubles back at 400000N0760000W (175° turn)', position: 1 }
+    ]);
+  });
+
+  it('should flag GPS points far from the departure and arrival airports', () => {
+    const messages = RouteChecker.check([KMDT, gps(45, -77), KLNS]).map(warning => warning.message);
+
+    expect(messages).toContain('450000N0770000W is 289 NM from KMDT and KLNS');
+  });
+});
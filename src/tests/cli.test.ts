@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { Cli, CliIo, EXIT_OK, EXIT_CONVERSION_ERROR, EXIT_USAGE_ERROR } from '../cli.js';
+import { RouteConverter } from '../pipeline.js';
+import { FlightPlan } from '../types.js';
+
+const memoryIo = (files: Record<string, string> = {}, stdin = '') => {
+  const written: Record<string, string> = {};
+  const directories: string[] = [];
+  let stdout = '';
+  let stderr = '';
+
+  const io: CliIo = {
+    readFile: async path => {
+      const content = files[path];
+      if (content === undefined) {
+        throw new Error('ENOENT');
+      }
+      return content;
+    },
+    writeFile: async (path, content) => {
+      written[path] = content;
+    },
+    makeDirectory: async path => {
+      directories.push(path);
+    },
+    readStdin: async () => stdin,
+    stdout: text => {
+      stdout += text;
+    },
+    stderr: text => {
+      stderr += text;
+    }
+  };
+
+  return { io, written, directories, output: () => ({ stdout, stderr }) };
+};
+
+describe('Cli', () => {
+  describe('parseArguments', () => {
+    it('should read the command, inputs and plan options', () => {
+      const args = Cli.parseArguments([
+        'convert', 'a.txt', '-o', 'pln', '--flight-type=ifr', '--route-type', 'lowalt', '--altitude', '7000', 'b.txt'
+      ]);
+
+      expect(args.command).toBe('convert');
+      expect(args.inputs).toEqual(['a.txt', 'b.txt']);
+      expect(args.out).toBe('pln');
+      expect(args.name).toBe('{name}.pln');
+      expect(args.options).toMatchObject({ flightType: 'IFR', routeType: 'LowAlt', cruisingAltitude: 7000 });
+    });
+
+    it('should reject unknown options and missing values', () => {
+      expect(() => Cli.parseArguments(['convert', '--frob'])).toThrow('Unknown option "--frob"');
+      expect(() => Cli.parseArguments(['convert', '--out'])).toThrow('--out requires a value');
+      expect(() => Cli.parseArguments(['convert', '--altitude', 'high'])).toThrow('Invalid altitude');
+      expect(() => Cli.parseArguments(['convert', '--terrain-clearance', '-5'])).toThrow('Invalid terrain clearance');
+      expect(() => Cli.parseArguments(['convert', '--flight-type', 'foo'])).toThrow('Invalid flight type "foo". Use VFR or IFR.');
+      expect(() => Cli.parseArguments(['convert', '--route-type=airways'])).toThrow('Invalid route type "airways"');
+    });
+  });
+
+  describe('outputPath', () => {
+    it('should name outputs after the input file', () => {
+      expect(Cli.outputPath('routes/p34-n68.txt', '{name}.pln')).toBe('routes/p34-n68.pln');
+      expect(Cli.outputPath('routes/p34-n68.txt', '{name}-ifr.pln', 'pln/')).toBe('pln/p34-n68-ifr.pln');
+      expect(Cli.outputPath('-', '{name}.pln', 'out')).toBe('out/route.pln');
+    });
+
+    it('should fill plan placeholders when a plan is given', () => {
+      const plan = RouteConverter.convert('P34 N68').plan as FlightPlan;
+
+      expect(Cli.outputPath('routes/a.txt', '{dep}-{arr}-{name}.{ext}', 'out', plan, 'fms')).toBe('out/P34-N68-a.fms');
+      expect(() => Cli.outputPath('routes/a.txt', '{route}.pln', undefined, plan)).toThrow('Unknown file name placeholder {route}');
+    });
+  });
+
+  describe('run', () => {
+    it('should convert files into the output directory', async () => {
+      const { io, written, directories, output } = memoryIo({ 'routes/a.txt': 'P34 403210N0772310W N68\n' });
+
+      const code = await Cli.run(['convert', 'routes/a.txt', '--out', 'pln', '--title', 'Ridge run'], io);
+
+      expect(code).toBe(EXIT_OK);
+      expect(directories).toEqual(['pln']);
+      expect(written['pln/a.pln']).toContain('<Title>Ridge run</Title>');
+      expect(output().stdout).toBe('routes/a.txt -> pln/a.pln\n');
+    });
+
+    it('should report an output directory that cannot be created', async () => {
+      const { io, written, output } = memoryIo({ 'a.txt': 'P34 N68' });
+      io.makeDirectory = async () => {
+        throw new Error('ENOTDIR: not a directory, mkdir \'afile/sub\'');
+      };
+
+      expect(await Cli.run(['convert', 'a.txt', '--out', 'afile/sub'], io)).toBe(EXIT_CONVERSION_ERROR);
+      expect(output().stderr).toBe('sv2msfs: cannot create output directory afile/sub: ENOTDIR: not a directory, mkdir \'afile/sub\'\n');
+      expect(written).toEqual({});
+    });
+
+    it('should apply file name and user waypoint templates', async () => {
+      const { io, written } = memoryIo({ 'a.txt': 'P34 403210N0772310W 402507N0773505W:GAP N68\n' });
+
+      const code = await Cli.run(['convert', 'a.txt', '--name', '{dep}-{arr}.{ext}', '--waypoint-names', 'R{n}'], io);
+
+      expect(code).toBe(EXIT_OK);
+      expect(written['P34-N68.pln']).toContain('<ATCWaypoint id="R1">');
+      expect(written['P34-N68.pln']).toContain('<ATCWaypoint id="GAP">');
+    });
+
+    it('should read stdin and write the flight plan to stdout', async () => {
+      const { io, written, output } = memoryIo({}, 'P34 N68');
+
+      expect(await Cli.run(['convert'], io)).toBe(EXIT_OK);
+      expect(output().stdout).toContain('<?xml version="1.0" encoding="UTF-8"?>');
+      expect(written).toEqual({});
+    });
+
+    it('should only validate in check mode', async () => {
+      const { io, written, directories, output } = memoryIo({ 'a.txt': 'P34 N68' });
+
+      expect(await Cli.run(['convert', '--check', '--out', 'pln', 'a.txt'], io)).toBe(EXIT_OK);
+      expect(written).toEqual({});
+      expect(directories).toEqual([]);
+      expect(output().stdout).toBe('a.txt: OK (2 waypoints)\n');
+    });
+
+    it('should print errors and keep converting the remaining files', async () => {
+      const { io, written, output } = memoryIo({ 'bad.txt': 'P34 9999 N68', 'good.txt': 'P34 N68' });
+
+      const code = await Cli.run(['convert', 'bad.txt', 'missing.txt', 'good.txt'], io);
+
+      expect(code).toBe(EXIT_CONVERSION_ERROR);
+      expect(output().stderr).toContain('bad.txt: error: Invalid coordinate format at position 2');
+      expect(output().stderr).toContain('missing.txt: error: cannot read file');
+      expect(Object.keys(written)).toEqual(['good.pln']);
+    });
+
+    it('should export other formats with a matching extension', async () => {
+      const { io, written, output } = memoryIo({ 'a.txt': 'KMDT HAR KLNS' });
+
+      expect(await Cli.run(['convert', '--format', 'xplane', 'a.txt'], io)).toBe(EXIT_OK);
+      expect(written['a.fms']).toContain('ADEP KMDT');
+      expect(output().stdout).toBe('a.txt -> a.fms\n');
+
+      expect(await Cli.run(['convert', '--format', 'garmin', '-'], memoryIo({}, 'KMDT ZZZZ KLNS').io)).toBe(EXIT_CONVERSION_ERROR);
+      expect(await Cli.run(['convert', '--format', 'kml', 'a.txt'], memoryIo().io)).toBe(EXIT_USAGE_ERROR);
+    });
+
+    it('should print warnings to stderr', async () => {
+      const { io, output } = memoryIo({}, 'P34 ZZZZ N68');
+
+      expect(await Cli.run(['convert', '-'], io)).toBe(EXIT_OK);
+      expect(output().stderr).toContain('<stdin>: warning: Unknown waypoint "ZZZZ"');
+    });
+
+    it('should fail on warnings in strict mode', async () => {
+      const { io, output } = memoryIo({}, 'KMDT 403210N0772310E KLNS');
+
+      expect(await Cli.run(['convert', '--strict', '-'], io)).toBe(EXIT_CONVERSION_ERROR);
+      expect(output().stderr).toBe(
+        '<stdin>: error: 403210N0772310E is in the eastern hemisphere but the waypoints around it are western. Did you mean W instead of E?\n'
+      );
+      expect(output().stdout).toBe('');
+    });
+
+    it('should check terrain clearance against the bundled and user-supplied grids', async () => {
+      const bundled = memoryIo({}, 'KAOO 401500N0785000W');
+      expect(await Cli.run(['convert', '--check', '--strict', '--terrain-clearance', '1500', '-'], bundled.io)).toBe(EXIT_CONVERSION_ERROR);
+      expect(bundled.output().stderr).toContain('<stdin>: error: Leg KAOO → 401500N0785000W crosses terrain of about 2362 ft');
+
+      const grid = 'ncols 1\nnrows 1\nxllcorner -79\nyllcorner 40\ncellsize 1\n900';
+      const supplied = memoryIo({ 'high.asc': grid }, 'KAOO 401500N0785000W');
+      expect(await Cli.run(['convert', '--check', '--terrain', 'high.asc', '-'], supplied.io)).toBe(EXIT_OK);
+      expect(supplied.output().stderr).toContain('crosses terrain of about 2953 ft');
+
+      const missing = memoryIo({}, 'KAOO KUNV');
+      expect(await Cli.run(['convert', '--terrain', 'missing.asc', '-'], missing.io)).toBe(EXIT_USAGE_ERROR);
+      expect(missing.output().stderr).toBe('sv2msfs: cannot load terrain grid missing.asc (ENOENT)\n');
+    });
+
+    it('should check routes against airspace files', async () => {
+      const openair = 'AC D\nAN TEST\nAH 4000 MSL\nV X=40:15:00 N 078:30:00 W\nDC 5\n';
+      const geojson = JSON.stringify({
+        type: 'FeatureCollection',
+        features: [{ properties: { name: 'TFR', class: 'R' }, geometry: { type: 'Polygon', coordinates: [[[-78.7, 40.2], [-78.6, 40.2], [-78.6, 40.4], [-78.7, 40.2]]] } }]
+      });
+      const files = { 'class-d.txt': openair, 'tfr.geojson': geojson };
+      const { io, output } = memoryIo(files, 'KAOO 401500N0785000W');
+
+      expect(await Cli.run(['convert', '--check', '--airspace', 'class-d.txt', '--airspace', 'tfr.geojson', '-'], io)).toBe(EXIT_OK);
+      expect(output().stderr).toContain('<stdin>: warning: Leg KAOO → 401500N0785000W at 3500 ft enters at');
+      expect(output().stderr).toContain('Class D TEST');
+      expect(output().stderr).toContain('Restricted area TFR');
+
+      const missing = memoryIo({}, 'KAOO KUNV');
+      expect(await Cli.run(['convert', '--airspace', 'missing.txt', '-'], missing.io)).toBe(EXIT_USAGE_ERROR);
+      expect(missing.output().stderr).toBe('sv2msfs: cannot load airspace file missing.txt (ENOENT)\n');
+    });
+
+    it('should report usage errors', async () => {
+      expect(await Cli.run([], memoryIo().io)).toBe(EXIT_USAGE_ERROR);
+      expect(await Cli.run(['export'], memoryIo().io)).toBe(EXIT_USAGE_ERROR);
+      expect(await Cli.run(['convert', '-', '-'], memoryIo().io)).toBe(EXIT_USAGE_ERROR);
+
+      const flightType = memoryIo({}, 'P34 N68');
+      expect(await Cli.run(['convert', '--flight-type', 'foo', '-'], flightType.io)).toBe(EXIT_USAGE_ERROR);
+      expect(flightType.output().stderr).toContain('sv2msfs: Invalid flight type "foo"');
+      expect(flightType.output().stdout).toBe('');
+      expect(await Cli.run(['convert', '--route-type', 'airways', '-'], memoryIo({}, 'P34 N68').io)).toBe(EXIT_USAGE_ERROR);
+
+      const help = memoryIo();
+      expect(await Cli.run(['--help'], help.io)).toBe(EXIT_OK);
+      expect(help.output().stdout).toContain('Usage: sv2msfs convert');
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { CoordinateConverter, RouteParser, PlnGenerator } from '../converter.js';
+import { CoordinateConverter, RouteParser, RouteFormatter, PlnGenerator } from '../converter.js';
 
 describe('CoordinateConverter', () => {
   describe('skyVectorToDecimal', () => {
@@ -31,6 +31,24 @@ describe('CoordinateConverter', () => {
       expect(() => CoordinateConverter.skyVectorToDecimal('1810000W')).toThrow('Longitude degrees out of range');
     });
   });
+
+  describe('decimalToSkyVector', () => {
+    it('should format latitude and longitude', () => {
+      expect(CoordinateConverter.decimalToSkyVector(40.536111, 'latitude')).toBe('403210N');
+      expect(CoordinateConverter.decimalToSkyVector(-40.176111, 'latitude')).toBe('401034S');
+      expect(CoordinateConverter.decimalToSkyVector(-77.386111, 'longitude')).toBe('0772310W');
+      expect(CoordinateConverter.decimalToSkyVector(120.5, 'longitude')).toBe('1203000E');
+    });
+
+    it('should carry rounded seconds into minutes', () => {
+      expect(CoordinateConverter.decimalToSkyVector(40.9999999, 'latitude')).toBe('410000N');
+    });
+
+    it('should throw error for out of range values', () => {
+      expect(() => CoordinateConverter.decimalToSkyVector(91, 'latitude')).toThrow('Latitude out of range');
+      expect(() => CoordinateConverter.decimalToSkyVector(-181, 'longitude')).toThrow('Longitude out of range');
+    });
+  });
 });
 
 describe('RouteParser', () => {
@@ -89,6 +107,49 @@ describe('RouteParser', () => {
       expect(waypoints.every(wp => wp.type === 'NAMED')).toBe(true);
     });
 
+    it('should parse altitude and speed constraints', () => {
+      const waypoints = RouteParser.parseSourceRoute('KLAX/5500 403210N0772310W/A045 403210N 0772310W/N0120A065+ LRP/S120');
+
+      expect(waypoints[0]).toEqual({ type: 'NAMED', name: 'KLAX', altitude: 5500, altitudeConstraint: 'AT' });
+      expect(waypoints[1]).toEqual({
+        type: 'GPS',
+        latitude: 40.536111,
+        longitude: -77.386111,
+        altitude: 4500,
+        altitudeConstraint: 'AT'
+      });
+      expect(waypoints[2]).toMatchObject({ type: 'GPS', altitude: 6500, altitudeConstraint: 'AT_OR_ABOVE', speed: 120 });
+      expect(waypoints[3]).toEqual({ type: 'NAMED', name: 'LRP', speed: 120 });
+    });
+
+    it('should throw error for constraints on a bare latitude', () => {
+      expect(() => RouteParser.parseSourceRoute('KLAX 403210N/A045 0772310W')).toThrow('must follow the longitude');
+    });
+
+    it('should parse departure and arrival procedures', () => {
+      const waypoints = RouteParser.parseSourceRoute('KORD.ORD5 PSB KPHL.BUNTS4');
+
+      expect(waypoints[0]).toEqual({ type: 'NAMED', name: 'KORD', departureProcedure: 'ORD5' });
+      expect(waypoints[2]).toEqual({ type: 'NAMED', name: 'KPHL', arrivalProcedure: 'BUNTS4' });
+    });
+
+    it('should throw error for procedures in the middle of a route', () => {
+      expect(() => RouteParser.parseSourceRoute('KORD PSB.J60 KPHL')).toThrow('must be attached to the departure or arrival airport');
+    });
+
+    it('should parse custom names on coordinates', () => {
+      const waypoints = RouteParser.parseSourceRoute('P34 403210N0772310W:bridge/A045 402507N 0773505W:GAP1 N68');
+
+      expect(waypoints[1]).toMatchObject({ type: 'GPS', name: 'BRIDGE', altitude: 4500 });
+      expect(waypoints[2]).toMatchObject({ type: 'GPS', name: 'GAP1', latitude: 40.418611 });
+    });
+
+    it('should reject misplaced or invalid waypoint names', () => {
+      expect(() => RouteParser.parseSourceRoute('P34 403210N:GAP 0772310W N68')).toThrow('must follow the longitude');
+      expect(() => RouteParser.parseSourceRoute('P34:HOME 403210N0772310W N68')).toThrow('Only coordinates can be given a name');
+      expect(() => RouteParser.parseSourceRoute('P34 403210N0772310W:TOO-LONG-NAME N68')).toThrow('1-12 letters or digits');
+    });
+
     it('should throw error for latitude without longitude', () => {
       expect(() => RouteParser.parseSourceRoute('KLAX 403210N')).toThrow('missing longitude');
     });
@@ -99,6 +160,167 @@ describe('RouteParser', () => {
   });
 });
 
+describe('PlnGenerator flight plan model', () => {
+  describe('coordinate notations', () => {
+    it('should parse every supported notation into GPS waypoints', () => {
+      const route = 'P34 4032N 07723W 40.5361,-77.3861 N40°32.17\' W077°23.17\' 403210.5N0772310.5W/A045 N68';
+      const { waypoints, notations } = RouteParser.parseSourceRouteWithSpans(route);
+
+      expect(waypoints.map(wp => wp.type)).toEqual(['NAMED', 'GPS', 'GPS', 'GPS', 'GPS', 'NAMED']);
+      expect(waypoints[1]).toEqual({ type: 'GPS', latitude: 40.533333, longitude: -77.383333 });
+      expect(waypoints[2]).toEqual({ type: 'GPS', latitude: 40.5361, longitude: -77.3861 });
+      expect(waypoints[3]).toEqual({ type: 'GPS', latitude: 40.536167, longitude: -77.386167 });
+      expect(waypoints[4]).toMatchObject({ latitude: 40.53625, longitude: -77.38625, altitude: 4500 });
+      expect(notations).toEqual([undefined, 'DDMM', 'decimal', 'degrees-minutes', 'DDMMSS', undefined]);
+    });
+
+    it('should report mixed notations for split coordinates', () => {
+      const { notations } = RouteParser.parseSourceRouteWithSpans('P34 4032N 0772310W N68');
+
+      expect(notations[1]).toBe('DDMM, DDMMSS');
+    });
+
+    it('should reject a longitude without a latitude', () => {
+      expect(() => RouteParser.parseSourceRoute('P34 07723W N68')).toThrow('must follow a latitude');
+      expect(() => RouteParser.parseSourceRoute('P34 4032N 4033N N68')).toThrow('not followed by valid longitude');
+    });
+  });
+
+  describe('parseSourceRouteWithSpans', () => {
+    it('should record the source characters of each waypoint', () => {
+      const route = '  P34 403210N 0772310W/A045\n  KMDT.SID ';
+      const { waypoints, spans } = RouteParser.parseSourceRouteWithSpans(route);
+
+      expect(waypoints).toHaveLength(3);
+      expect(spans.map(span => route.slice(span.start, span.end))).toEqual(['P34', '403210N 0772310W/A045', 'KMDT.SID']);
+    });
+
+    it('should tokenize with character offsets', () => {
+      expect(RouteParser.tokenize(' P34  N68')).toEqual([
+        { text: 'P34', start: 1, end: 4 },
+        { text: 'N68', start: 6, end: 9 }
+      ]);
+    });
+  });
+
+  describe('buildFlightPlan', () => {
+    it('should build a FlightPlan from waypoints and options', () => {
+      const waypoints = [
+        { type: 'NAMED' as const, name: 'KMDT', latitude: 40.1935, longitude: -76.7634, elevation: 310 },
+        { type: 'NAMED' as const, name: 'KPHL' }
+      ];
+
+      expect(PlnGenerator.buildFlightPlan(waypoints, { flightType: 'IFR', arrivalRunway: '9R' })).toEqual({
+        title: 'KMDT to KPHL',
+        departureId: 'KMDT',
+        arrivalId: 'KPHL',
+        departureLLA: '40.1935,-76.7634,310',
+        destinationLLA: '0,0,0',
+        waypoints,
+        fpType: 'IFR',
+        routeType: 'Direct',
+        cruisingAlt: 3500,
+        arrivalRunway: { number: 9, designator: 'RIGHT' }
+      });
+    });
+  });
+
+  describe('generateFlightPlan', () => {
+    it('should serialize an existing FlightPlan', () => {
+      const pln = PlnGenerator.generateFlightPlan({
+        title: 'Imported',
+        departureId: 'KMDT',
+        arrivalId: 'KPHL',
+        departureLLA: '0,0,0',
+        destinationLLA: '0,0,0',
+        waypoints: [],
+        cruisingAlt: 9000
+      });
+
+      expect(pln).toContain('<Title>Imported</Title>');
+      expect(pln).toContain('<CruisingAlt>9000</CruisingAlt>');
+    });
+  });
+});
+
+describe('PlnGenerator runways', () => {
+  describe('parseRunway', () => {
+    it('should parse runway numbers and designators', () => {
+      expect(PlnGenerator.parseRunway('9')).toEqual({ number: 9, designator: 'NONE' });
+      expect(PlnGenerator.parseRunway('27l')).toEqual({ number: 27, designator: 'LEFT' });
+      expect(PlnGenerator.parseRunway('RW04R')).toEqual({ number: 4, designator: 'RIGHT' });
+      expect(PlnGenerator.parseRunway('18C')).toEqual({ number: 18, designator: 'CENTER' });
+    });
+
+    it('should reject invalid runways', () => {
+      expect(() => PlnGenerator.parseRunway('0')).toThrow('Invalid runway');
+      expect(() => PlnGenerator.parseRunway('37')).toThrow('Invalid runway');
+      expect(() => PlnGenerator.parseRunway('27X')).toThrow('Invalid runway');
+    });
+  });
+});
+
+describe('RouteParser constraints', () => {
+  describe('parseConstraint', () => {
+    it('should parse altitude forms', () => {
+      expect(RouteParser.parseConstraint('A045')).toEqual({ altitude: 4500, altitudeConstraint: 'AT' });
+      expect(RouteParser.parseConstraint('F085')).toEqual({ altitude: 8500, altitudeConstraint: 'AT' });
+      expect(RouteParser.parseConstraint('2300-')).toEqual({ altitude: 2300, altitudeConstraint: 'AT_OR_BELOW' });
+    });
+
+    it('should parse speed forms', () => {
+      expect(RouteParser.parseConstraint('s95')).toEqual({ speed: 95 });
+      expect(RouteParser.parseConstraint('N0110A045')).toEqual({ speed: 110, altitude: 4500, altitudeConstraint: 'AT' });
+    });
+
+    it('should reject invalid constraints', () => {
+      expect(() => RouteParser.parseConstraint('')).toThrow('Invalid waypoint constraint');
+      expect(() => RouteParser.parseConstraint('X12')).toThrow('Invalid waypoint constraint');
+      expect(() => RouteParser.parseConstraint('99000')).toThrow('Altitude must be 0-60000 ft');
+      expect(() => RouteParser.parseConstraint('S00')).toThrow('Speed must be 1-999 knots');
+      expect(() => RouteParser.parseConstraint('S120+')).toThrow('requires an altitude');
+    });
+  });
+});
+
+describe('RouteFormatter', () => {
+  describe('formatRoute', () => {
+    it('should format mixed routes as SkyVector tokens', () => {
+      const waypoints = [
+        { type: 'NAMED' as const, name: 'p34' },
+        { type: 'GPS' as const, latitude: 40.536111, longitude: -77.386111 },
+        { type: 'NAMED' as const, name: 'N68' }
+      ];
+
+      expect(RouteFormatter.formatRoute(waypoints)).toBe('P34 403210N0772310W N68');
+    });
+
+    it('should format constraints as route annotations', () => {
+      const route = 'KLAX/A055 403210N0772310W/A045S120+ LRP/2350- KORD/S90';
+
+      expect(RouteFormatter.formatRoute(RouteParser.parseSourceRoute(route))).toBe(route);
+    });
+
+    it('should keep custom coordinate names', () => {
+      const route = 'P34 403210N0772310W:BRIDGE/A045 402507N0773505W N68';
+
+      expect(RouteFormatter.formatRoute(RouteParser.parseSourceRoute(route))).toBe(route);
+      expect(RouteFormatter.formatWaypoint({ type: 'GPS', latitude: 40, longitude: -77, name: 'Home Field' })).toBe('400000N0770000W');
+    });
+
+    it('should format procedures on the endpoint airports', () => {
+      const route = 'KORD.ORD5 PSB KPHL.BUNTS4';
+
+      expect(RouteFormatter.formatRoute(RouteParser.parseSourceRoute(route))).toBe(route);
+    });
+
+    it('should throw error for incomplete waypoints', () => {
+      expect(() => RouteFormatter.formatRoute([{ type: 'GPS', latitude: 40 }])).toThrow('missing coordinates');
+      expect(() => RouteFormatter.formatRoute([{ type: 'NAMED' }])).toThrow('missing an identifier');
+    });
+  });
+});
+
 describe('PlnGenerator', () => {
   describe('escapeXml', () => {
     it('should escape XML characters', () => {
@@ -139,6 +361,117 @@ describe('PlnGenerator', () => {
       expect(pln).toContain('<DestinationID>UNKNOWN</DestinationID>');
     });
 
+    it('should take departure and destination positions from the endpoint airports', () => {
+      const waypoints = [
+        { type: 'NAMED' as const, name: 'P34', waypointType: 'Airport' as const, latitude: 40.6776, longitude: -77.6267, elevation: 819 },
+        { type: 'GPS' as const, latitude: 40.536111, longitude: -77.386111 },
+        { type: 'NAMED' as const, name: 'N68', waypointType: 'Airport' as const, latitude: 39.9729, longitude: -77.6433, elevation: 694 }
+      ];
+
+      const pln = PlnGenerator.generatePln(waypoints);
+
+      expect(pln).toContain('<DepartureLLA>40.6776,-77.6267,819</DepartureLLA>');
+      expect(pln).toContain('<DestinationLLA>39.9729,-77.6433,694</DestinationLLA>');
+      expect(pln).not.toContain('<DeparturePosition>');
+    });
+
+    it('should not use enroute GPS fixes as endpoint positions', () => {
+      const waypoints = [
+        { type: 'NAMED' as const, name: 'P34' },
+        { type: 'GPS' as const, latitude: 40.536111, longitude: -77.386111 },
+        { type: 'NAMED' as const, name: 'N68' }
+      ];
+
+      const pln = PlnGenerator.generatePln(waypoints);
+
+      expect(pln).toContain('<DepartureLLA>0,0,0</DepartureLLA>');
+      expect(pln).toContain('<DestinationLLA>0,0,0</DestinationLLA>');
+    });
+
+    it('should emit departure and arrival runway and parking elements', () => {
+      const waypoints = [
+        { type: 'NAMED' as const, name: 'KMDT', waypointType: 'Airport' as const },
+        { type: 'NAMED' as const, name: 'LRP', waypointType: 'VOR' as const },
+        { type: 'NAMED' as const, name: 'KPHL', waypointType: 'Airport' as const }
+      ];
+
+      const pln = PlnGenerator.generatePln(waypoints, {
+        departureRunway: '31',
+        departureParking: 'PARKING 3',
+        arrivalRunway: '27L'
+      });
+
+      expect(pln).toContain('<DeparturePosition>PARKING 3</DeparturePosition>');
+      expect(pln).toContain('<RunwayNumberFP>31</RunwayNumberFP>\n        <RunwayDesignatorFP>NONE</RunwayDesignatorFP>');
+      expect(pln).toContain('<RunwayNumberFP>27</RunwayNumberFP>\n        <RunwayDesignatorFP>LEFT</RunwayDesignatorFP>');
+    });
+
+    it('should fall back to the departure runway as departure position', () => {
+      const pln = PlnGenerator.generatePln([{ type: 'NAMED', name: 'KMDT' }], { departureRunway: '13' });
+
+      expect(pln).toContain('<DeparturePosition>13</DeparturePosition>');
+    });
+
+    it('should write flight plan metadata from options', () => {
+      const pln = PlnGenerator.generatePln([{ type: 'NAMED', name: 'KMDT' }, { type: 'NAMED', name: 'KPHL' }], {
+        title: 'Club <fly-out>',
+        description: 'Lunch run',
+        flightType: 'IFR',
+        routeType: 'LowAlt',
+        cruisingAltitude: 7000
+      });
+
+      expect(pln).toContain('<Title>Club &lt;fly-out&gt;</Title>');
+      expect(pln).toContain('<FPType>IFR</FPType>');
+      expect(pln).toContain('<RouteType>LowAlt</RouteType>');
+      expect(pln).toContain('<CruisingAlt>7000</CruisingAlt>');
+      expect(pln).toContain('    <Descr>Lunch run</Descr>');
+    });
+
+    it('should default to a VFR direct plan at 3500 ft', () => {
+      const pln = PlnGenerator.generatePln([{ type: 'NAMED', name: 'KMDT' }]);
+
+      expect(pln).toContain('<FPType>VFR</FPType>');
+      expect(pln).toContain('<RouteType>Direct</RouteType>');
+      expect(pln).toContain('<CruisingAlt>3500</CruisingAlt>');
+      expect(pln).not.toContain('    <Descr>');
+    });
+
+    it('should write waypoint altitude and speed constraints', () => {
+      const pln = PlnGenerator.generatePln(RouteParser.parseSourceRoute('P34 403210N0772310W/A045S110 N68/A030+'));
+
+      expect(pln).toContain('<WorldPosition>40.536111,-77.386111,4500</WorldPosition>\n' +
+        '        <SpeedMaxFP>110</SpeedMaxFP>\n' +
+        '        <AltDescFP>AT</AltDescFP>\n' +
+        '        <Alt1FP>4500</Alt1FP>');
+      expect(pln).toContain('<AltDescFP>AT_OR_ABOVE</AltDescFP>');
+      expect(pln).toContain('<Alt1FP>3000</Alt1FP>');
+    });
+
+    it('should write departure and arrival procedures', () => {
+      const pln = PlnGenerator.generatePln(RouteParser.parseSourceRoute('KORD.ORD5 PSB KPHL.BUNTS4'));
+
+      expect(pln).toContain('<DepartureFP>ORD5</DepartureFP>');
+      expect(pln).toContain('<ArrivalFP>BUNTS4</ArrivalFP>');
+    });
+
+    it('should number user waypoints and keep custom names', () => {
+      const pln = PlnGenerator.generatePln(RouteParser.parseSourceRoute('P34 403210N0772310W 402507N0773505W:GAP 401034N0774923W N68'));
+
+      expect(pln).toContain('<ATCWaypoint id="WP1">');
+      expect(pln).toContain('<ATCWaypoint id="GAP">');
+      expect(pln).toContain('<ATCWaypoint id="WP2">');
+    });
+
+    it('should name user waypoints from a template within the MSFS length limit', () => {
+      const waypoints = RouteParser.parseSourceRoute('P34 403210N0772310W 403210N0772312W 402507N0773505W:N68 N68');
+      const plan = PlnGenerator.buildFlightPlan(waypoints, { userWaypointTemplate: '{lat}{lon}' });
+
+      expect(PlnGenerator.waypointIds(plan)).toEqual(['P34', 'N4032W07723', 'N4032W077232', 'N682', 'N68']);
+      expect(PlnGenerator.waypointIds({ ...plan, userWaypointTemplate: 'RIDGE{n}' }, 6)).toEqual(['P34', 'RIDGE1', 'RIDGE2', 'N682', 'N68']);
+      expect(PlnGenerator.waypointIds({ ...plan, userWaypointTemplate: 'RIDGEPOINT{n}' }, 6)).toEqual(['P34', 'RIDGEP', 'RIDGE2', 'N682', 'N68']);
+    });
+
     it('should handle empty waypoint array', () => {
       const pln = PlnGenerator.generatePln([]);
       
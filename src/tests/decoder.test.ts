@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { RouteDecoder } from '../decoder.js';
+
+describe('RouteDecoder', () => {
+  describe('parseSpeedLevel', () => {
+    it('should read knots with altitudes and flight levels', () => {
+      expect(RouteDecoder.parseSpeedLevel('N0110A045')).toEqual({ speed: 110, altitude: 4500 });
+      expect(RouteDecoder.parseSpeedLevel('N0450F350')).toEqual({ speed: 450, altitude: 35000 });
+      expect(RouteDecoder.parseSpeedLevel('N0095VFR')).toEqual({ speed: 95 });
+    });
+
+    it('should convert metric speeds, Mach numbers and metric levels', () => {
+      expect(RouteDecoder.parseSpeedLevel('K0200A045')).toEqual({ speed: 108, altitude: 4500 });
+      expect(RouteDecoder.parseSpeedLevel('M082F350')).toEqual({ speed: 473, altitude: 35000 });
+      expect(RouteDecoder.parseSpeedLevel('K0830S1130')).toEqual({ speed: 448, altitude: 37073 });
+    });
+
+    it('should not match waypoints', () => {
+      expect(RouteDecoder.parseSpeedLevel('N68')).toBeUndefined();
+      expect(RouteDecoder.parseSpeedLevel('KMDT')).toBeUndefined();
+      expect(RouteDecoder.parseSpeedLevel('N0110')).toBeUndefined();
+    });
+  });
+
+  describe('decode', () => {
+    it('should leave plain SkyVector routes unchanged', () => {
+      const decoded = RouteDecoder.decode('P34 403210N0772310W N68');
+
+      expect(decoded).toMatchObject({ format: 'route', route: 'P34 403210N0772310W N68' });
+      expect(decoded.offsets).toHaveLength(23);
+    });
+
+    it('should strip speed/level groups, DCT and flight-rule changes from ICAO routes', () => {
+      const decoded = RouteDecoder.decode('N0110A045 P34 DCT 403210N0772310W DCT HAR IFR N68');
+
+      expect(decoded.format).toBe('icao');
+      expect(decoded.speed).toBe(110);
+      expect(decoded.altitude).toBe(4500);
+      expect(decoded.route.trim().split(/\s+/)).toEqual(['P34', '403210N0772310W', 'HAR', 'N68']);
+      expect(decoded.route.indexOf('HAR')).toBe(38);
+    });
+
+    it('should rewrite change points as waypoint constraints', () => {
+      const decoded = RouteDecoder.decode('N0110A045 P34 HAR/K0220F080 N68');
+
+      expect(decoded.route.trim()).toBe('P34 HAR/N0119A080 N68');
+      expect(RouteDecoder.sourceSpan(decoded, { start: 14, end: 27 })).toEqual({ start: 14, end: 27 });
+    });
+
+    it('should decode SkyVector share links and map spans back into the link', () => {
+      const url = 'https://skyvector.com/?ll=40.6,-77.6&chart=301&zoom=3&fpl=N0110A045%20P34%20403210N0772310W+N68';
+      const decoded = RouteDecoder.decode(url);
+
+      expect(decoded.format).toBe('skyvector-url');
+      expect(decoded.altitude).toBe(4500);
+      expect(decoded.route.trim()).toBe('P34 403210N0772310W N68');
+
+      const start = decoded.route.indexOf('P34');
+      expect(RouteDecoder.sourceSpan(decoded, { start, end: start + 3 })).toEqual({
+        start: url.indexOf('P34'),
+        end: url.indexOf('P34') + 3
+      });
+    });
+
+    it('should reject links without a flight plan', () => {
+      expect(() => RouteDecoder.decode('https://skyvector.com/?ll=40.6,-77.6&chart=301')).toThrow('does not contain a flight plan');
+      expect(() => RouteDecoder.decode('skyvector.com/?fpl=P34%E0%A4N68')).toThrow('invalid percent-encoding');
+    });
+  });
+});
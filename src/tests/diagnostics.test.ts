@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { RouteDiagnostics } from '../diagnostics.js';
+import { RouteConverter } from '../pipeline.js';
+
+describe('RouteDiagnostics', () => {
+  describe('analyze', () => {
+    it('should underline invalid tokens and offer fixes', () => {
+      const [diagnostic, ...rest] = RouteDiagnostics.analyze('KMDT 40321N KLNS');
+
+      expect(rest).toHaveLength(0);
+      expect(diagnostic).toMatchObject({ severity: 'error', span: { start: 5, end: 11 } });
+      expect(diagnostic?.message).toContain('Invalid coordinate format');
+      expect(diagnostic?.fixes).toEqual([{ title: 'Pad to 403210N', replacement: '403210N' }]);
+    });
+
+    it('should report unknown waypoints as warnings', () => {
+      expect(RouteDiagnostics.analyze('P34 ZZZZ N68')).toMatchObject([
+        { severity: 'warning', span: { start: 4, end: 8 }, fixes: [] }
+      ]);
+    });
+
+    it('should flag a coordinate in the wrong hemisphere', () => {
+      const text = 'KMDT 403210N 0772310E KLNS';
+      const [diagnostic] = RouteDiagnostics.analyze(text);
+
+      expect(diagnostic?.severity).toBe('warning');
+      expect(diagnostic?.message).toContain('is in the eastern hemisphere');
+      expect(text.substring(diagnostic?.span?.start ?? 0, diagnostic?.span?.end)).toBe('403210N 0772310E');
+      expect(diagnostic?.fixes[0]?.replacement).toBe('403210N0772310W');
+    });
+
+    it('should leave terrain checks to the conversion', () => {
+      expect(RouteDiagnostics.analyze('KAOO 401500N0785000W', { terrainClearance: 1500 })).toEqual([]);
+      expect(RouteConverter.convert('KAOO 401500N0785000W', { terrainClearance: 1500 }).warnings).toMatchObject([
+        { severity: 'warning', span: { start: 5, end: 20 } }
+      ]);
+    });
+
+    it('should not report anything for empty or valid routes', () => {
+      expect(RouteDiagnostics.analyze('  ')).toEqual([]);
+      expect(RouteDiagnostics.analyze('P34 403210N0772310W 402507N0773505W N68')).toEqual([]);
+    });
+  });
+
+  describe('quickFixes', () => {
+    it('should split glued coordinate pairs', () => {
+      expect(RouteDiagnostics.quickFixes('403210N0772310W402507N0773505W')).toEqual([
+        { title: 'Split into 2 coordinates', replacement: '403210N0772310W 402507N0773505W' }
+      ]);
+    });
+
+    it('should pad short coordinates and swap hemisphere letters', () => {
+      expect(RouteDiagnostics.quickFixes('772310W/A045').map(fix => fix.replacement))
+        .toEqual(['0772310W/A045', '772310N/A045', '772310S/A045']);
+      expect(RouteDiagnostics.quickFixes('0772310N').map(fix => fix.replacement))
+        .toEqual(['772310N', '0772310W', '0772310E']);
+    });
+
+    it('should only offer fixes that produce valid coordinates', () => {
+      expect(RouteDiagnostics.quickFixes('99999N')).toEqual([]);
+      expect(RouteDiagnostics.quickFixes('HAR')).toEqual([]);
+    });
+  });
+
+  it('should apply a fix to the text', () => {
+    expect(RouteDiagnostics.applyFix('KMDT 40321N KLNS', { start: 5, end: 11 }, { title: '', replacement: '403210N' }))
+      .toBe('KMDT 403210N KLNS');
+  });
+});
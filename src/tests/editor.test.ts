@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { RouteEditor } from '../editor.js';
+import { RouteParser } from '../converter.js';
+import { RouteConverter } from '../pipeline.js';
+import { Waypoint } from '../types.js';
+
+const editorFor = (route: string) => new RouteEditor(RouteParser.parseSourceRoute(route));
+
+describe('RouteEditor', () => {
+  describe('editing', () => {
+    it('should insert, remove and reorder waypoints', () => {
+      const editor = editorFor('P34 N68 KMDT');
+
+      editor.insert(1, { type: 'GPS', latitude: 40.5361, longitude: -77.3861 });
+      expect(editor.toRouteString()).toBe('P34 403210N0772310W N68 KMDT');
+
+      editor.move(1, 2);
+      expect(editor.toRouteString()).toBe('P34 N68 403210N0772310W KMDT');
+
+      editor.remove(2);
+      expect(editor.toRouteString()).toBe('P34 N68 KMDT');
+    });
+
+    it('should move user waypoints and keep their constraints', () => {
+      const editor = editorFor('P34 403210N0772310W/A045 N68');
+
+      editor.moveTo(1, 40.4186, -77.5931);
+      expect(editor.toRouteString()).toBe('P34 402507N0773535W/A045 N68');
+    });
+
+    it('should refuse invalid edits', () => {
+      const editor = editorFor('P34 N68');
+
+      expect(() => editor.moveTo(0, 40, -77)).toThrow('Only user waypoints can be moved');
+      expect(() => editor.remove(5)).toThrow('No waypoint at position 6');
+      expect(() => editor.insert(4, { type: 'NAMED', name: 'KMDT' })).toThrow('Cannot insert');
+      expect(() => editor.move(0, 2)).toThrow('No waypoint at position 3');
+    });
+  });
+
+  describe('history', () => {
+    it('should undo and redo edits', () => {
+      const editor = editorFor('P34 N68');
+      editor.insert(2, { type: 'NAMED', name: 'KMDT' });
+      editor.remove(0);
+
+      expect(editor.undo()).toBe(true);
+      expect(editor.toRouteString()).toBe('P34 N68 KMDT');
+      expect(editor.undo()).toBe(true);
+      expect(editor.toRouteString()).toBe('P34 N68');
+      expect(editor.undo()).toBe(false);
+      expect(editor.redo()).toBe(true);
+      expect(editor.toRouteString()).toBe('P34 N68 KMDT');
+    });
+
+    it('should drop the redo branch after a new edit', () => {
+      const editor = editorFor('P34 N68');
+      editor.remove(1);
+      editor.undo();
+      editor.insert(0, { type: 'NAMED', name: 'KMDT' });
+
+      expect(editor.canRedo).toBe(false);
+      expect(editor.toRouteString()).toBe('KMDT P34 N68');
+    });
+
+    it('should cap the history length', () => {
+      const editor = new RouteEditor(RouteParser.parseSourceRoute('P34'), 2);
+      ['N68', 'KMDT', 'KCXY'].forEach(name => editor.insert(0, { type: 'NAMED', name }));
+
+      expect(editor.undo()).toBe(true);
+      expect(editor.undo()).toBe(true);
+      expect(editor.undo()).toBe(false);
+      expect(editor.toRouteString()).toBe('N68 P34');
+    });
+
+    it('should record loaded routes only when they change', () => {
+      const editor = new RouteEditor();
+
+      expect(editor.load(RouteParser.parseSourceRoute('P34 N68'))).toBe(true);
+      expect(editor.canUndo).toBe(false);
+      expect(editor.load(RouteParser.parseSourceRoute('P34  N68'))).toBe(false);
+      expect(editor.load(RouteParser.parseSourceRoute('P34 KMDT'))).toBe(true);
+      editor.undo();
+      expect(editor.toRouteString()).toBe('P34 N68');
+    });
+  });
+
+  describe('source text', () => {
+    const editorForText = (text: string) => {
+      const { sourceWaypoints, spans } = RouteConverter.parse(text);
+      const editor = new RouteEditor();
+      editor.load(sourceWaypoints, text, spans);
+      return editor;
+    };
+
+    it('should replace only the edited waypoint and keep the rest of the text', () => {
+      const editor = editorForText('N0110A045 P34 DCT 403210N 0772310W  N68/A035');
+
+      editor.moveTo(1, 40.4186, -77.5931);
+      expect(editor.toRouteString()).toBe('N0110A045 P34 DCT 402507N0773535W  N68/A035');
+
+      editor.insert(3, { type: 'NAMED', name: 'KMDT' });
+      expect(editor.toRouteString()).toBe('N0110A045 P34 DCT 402507N0773535W  N68/A035 KMDT');
+
+      editor.remove(1);
+      expect(editor.toRouteString()).toBe('N0110A045 P34 DCT N68/A035 KMDT');
+
+      editor.move(2, 1);
+      expect(editor.toRouteString()).toBe('N0110A045 P34 DCT KMDT N68/A035');
+
+      editor.undo();
+      editor.undo();
+      expect(editor.toRouteString()).toBe('N0110A045 P34 DCT 402507N0773535W  N68/A035 KMDT');
+    });
+
+    it('should keep the SkyVector link form', () => {
+      const editor = editorForText('https://skyvector.com/?ll=40.6,-77.6&fpl=P34%20403210N0772310W%20N68');
+
+      editor.insert(1, { type: 'GPS', latitude: 40.4186, longitude: -77.5931, altitude: 4500 });
+      expect(editor.toRouteString()).toBe('https://skyvector.com/?ll=40.6,-77.6&fpl=P34%20402507N0773535W%2FA045%20403210N0772310W%20N68');
+      expect(RouteConverter.parse(editor.toRouteString()).sourceWaypoints).toHaveLength(4);
+
+      editor.remove(0);
+      expect(editor.toRouteString()).toBe('https://skyvector.com/?ll=40.6,-77.6&fpl=402507N0773535W%2FA045%20403210N0772310W%20N68');
+    });
+
+    it('should fall back to formatting the route without matching spans', () => {
+      const editor = new RouteEditor();
+      editor.load(RouteParser.parseSourceRoute('P34 N68'), 'P34  N68 ');
+
+      editor.remove(1);
+      expect(editor.toRouteString()).toBe('P34');
+    });
+  });
+
+  describe('notifications', () => {
+    it('should notify listeners on edits but not on loads', () => {
+      const editor = editorFor('P34 N68');
+      const seen: Waypoint[][] = [];
+      editor.onChange(waypoints => seen.push(waypoints));
+
+      editor.remove(1);
+      editor.load(RouteParser.parseSourceRoute('KMDT'));
+      editor.undo();
+
+      expect(seen.map(waypoints => waypoints.length)).toEqual([1, 1]);
+    });
+  });
+
+  describe('nearestLeg', () => {
+    it('should pick the leg with the smallest detour', () => {
+      const waypoints: Waypoint[] = [
+        { type: 'GPS', latitude: 40, longitude: -78 },
+        { type: 'GPS', latitude: 40, longitude: -77 },
+        { type: 'NAMED', name: 'ZZZZ' },
+        { type: 'GPS', latitude: 41, longitude: -77 }
+      ];
+
+      expect(RouteEditor.nearestLeg(waypoints, 40.05, -77.5)).toBe(0);
+      expect(RouteEditor.nearestLeg(waypoints.slice(0, 1), 40, -77)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FlightPlanExporters, FlightPlanExporter, MSFS2020_EXPORTER, GARMIN_FPL_EXPORTER, XPLANE_FMS_EXPORTER, GPX_EXPORTER, LNM_EXPORTER
+} from '../exporters.js';
+import { PlnGenerator } from '../converter.js';
+import { PlnParser } from '../importer.js';
+import { Waypoint } from '../types.js';
+
+const waypoints: Waypoint[] = [
+  { type: 'NAMED', name: 'KMDT', waypointType: 'Airport', latitude: 40.1935, longitude: -76.7634, elevation: 310, region: 'K6', departureProcedure: 'HAR1' },
+  { type: 'NAMED', name: 'HAR', waypointType: 'VOR', latitude: 40.3023, longitude: -77.0699, region: 'K6' },
+  { type: 'NAMED', name: 'ETX', waypointType: 'VOR', latitude: 40.5812, longitude: -75.6826, region: 'K6', airway: 'V162' },
+  { type: 'GPS', latitude: 40.536111, longitude: -77.386111, altitude: 4500, altitudeConstraint: 'AT' },
+  { type: 'NAMED', name: 'KABE', waypointType: 'Airport', latitude: 40.6521, longitude: -75.4408, elevation: 393, region: 'K6' }
+];
+
+const plan = PlnGenerator.buildFlightPlan(waypoints, {
+  title: 'Harrisburg & Allentown',
+  departureRunway: '13',
+  arrivalRunway: '6L',
+  cruisingAltitude: 5500
+});
+
+describe('FlightPlanExporters', () => {
+  it('should register the standard formats with their file extensions', () => {
+    const exporters = FlightPlanExporters.standard();
+
+    expect(exporters.all.map(exporter => `${exporter.id}.${exporter.extension}`))
+      .toEqual(['msfs2024.pln', 'msfs2020.pln', 'garmin.fpl', 'xplane.fms', 'gpx.gpx', 'lnm.lnmpln']);
+    expect(exporters.get('MSFS2024').export(plan)).toBe(PlnGenerator.generateFlightPlan(plan));
+    expect(() => exporters.get('kml')).toThrow('Unknown export format "kml"');
+  });
+
+  it('should reject duplicate registrations', () => {
+    const custom: FlightPlanExporter = { id: 'gpx', label: 'Other', extension: 'gpx', mimeType: 'text/plain', export: () => '' };
+
+    expect(() => new FlightPlanExporters([GPX_EXPORTER, custom])).toThrow('Exporter "gpx" is already registered');
+  });
+
+  it('should number AIRAC cycles from the start of each year', () => {
+    expect(FlightPlanExporters.airacCycle(new Date(Date.UTC(2024, 0, 25)))).toBe('2401');
+    expect(FlightPlanExporters.airacCycle(new Date(Date.UTC(2024, 0, 24)))).toBe('2313');
+    expect(FlightPlanExporters.airacCycle(new Date(Date.UTC(2020, 11, 31)))).toBe('2014');
+  });
+
+  describe('MSFS 2020', () => {
+    it('should write degree-minute-second positions that import back', () => {
+      const pln = MSFS2020_EXPORTER.export(plan);
+
+      expect(pln).toContain('<SimBase.Document Type="AceXML" version="1,0">');
+      expect(pln).toContain('<DepartureLLA>N40° 11\' 36.60",W76° 45\' 48.24",+000310.00</DepartureLLA>');
+      expect(pln).toContain('<ATCWaypoint id="WP1">');
+      expect(pln).toContain('<RunwayNumberFP>6</RunwayNumberFP>');
+      expect(pln).not.toContain('ATCWaypointList');
+
+      const imported = PlnParser.parsePln(pln);
+      expect(imported.waypoints.map(wp => wp.name ?? 'GPS')).toEqual(['KMDT', 'HAR', 'ETX', 'GPS', 'KABE']);
+      expect(imported.waypoints[3]).toMatchObject({ latitude: 40.536111, longitude: -77.386111, altitude: 4500 });
+      expect(imported.waypoints[2]?.airway).toBe('V162');
+    });
+  });
+
+  describe('Garmin FPL', () => {
+    it('should list each waypoint once in the table and in order in the route', () => {
+      const fpl = GARMIN_FPL_EXPORTER.export({ ...plan, waypoints: [...waypoints, waypoints[0] as Waypoint] });
+
+      expect(fpl).toContain('<flight-plan xmlns="http://www8.garmin.com/xmlschemas/FlightPlan/v1">');
+      expect(fpl.match(/<identifier>KMDT<\/identifier>/g)).toHaveLength(1);
+      expect(fpl.match(/<waypoint-identifier>KMDT<\/waypoint-identifier>/g)).toHaveLength(2);
+      expect(fpl).toContain('<type>USER WAYPOINT</type>');
+      expect(fpl).toContain('<route-name>HARRISBURG ALLENTOWN</route-name>');
+    });
+
+    it('should require a position for every waypoint', () => {
+      expect(() => GARMIN_FPL_EXPORTER.export({ ...plan, waypoints: [{ type: 'NAMED', name: 'ZZZZ' }] }))
+        .toThrow('ZZZZ has no known position; Garmin FPL needs coordinates for every waypoint');
+    });
+  });
+
+  describe('X-Plane FMS', () => {
+    it('should write the 1100 header and one line per waypoint', () => {
+      const lines = XPLANE_FMS_EXPORTER.export(plan).trimEnd().split('\n');
+
+      expect(lines.slice(0, 2)).toEqual(['I', '1100 Version']);
+      expect(lines[2]).toMatch(/^CYCLE \d{4}$/);
+      expect(lines.slice(3)).toEqual([
+        'ADEP KMDT',
+        'DEPRWY RW13',
+        'SID HAR1',
+        'ADES KABE',
+        'DESRWY RW06L',
+        'NUMENR 5',
+        '1 KMDT ADEP 310.000000 40.193500 -76.763400',
+        '3 HAR DRCT 0.000000 40.302300 -77.069900',
+        '3 ETX V162 0.000000 40.581200 -75.682600',
+        '28 WP1 DRCT 4500.000000 40.536111 -77.386111',
+        '1 KABE ADES 393.000000 40.652100 -75.440800'
+      ]);
+    });
+
+    it('should use DEP and DES when the route does not start or end at an airport', () => {
+      const fms = XPLANE_FMS_EXPORTER.export({ ...plan, waypoints: waypoints.slice(1, 4) });
+
+      expect(fms).toContain('DEP HAR\n');
+      expect(fms).toContain('DES WP1\n');
+      expect(fms).not.toContain('DEPRWY');
+    });
+  });
+
+  describe('GPX', () => {
+    it('should write a route with elevations in meters', () => {
+      const gpx = GPX_EXPORTER.export(plan);
+
+      expect(gpx).toContain('<gpx version="1.1" creator="SkyVector to MSFS 2024" xmlns="http://www.topografix.com/GPX/1/1">');
+      expect(gpx).toContain('<name>Harrisburg &amp; Allentown</name>');
+      expect(gpx).toContain('<rtept lat="40.1935" lon="-76.7634">\n      <ele>94.5</ele>\n      <name>KMDT</name>');
+      expect(gpx.match(/<rtept /g)).toHaveLength(5);
+    });
+  });
+
+  describe('Little Navmap', () => {
+    it('should write waypoints, procedures and the departure position', () => {
+      const lnm = LNM_EXPORTER.export({ ...plan, departurePosition: 'PARKING 3' });
+
+      expect(lnm).toContain('<FlightplanType>VFR</FlightplanType>');
+      expect(lnm).toContain('<CruisingAlt>5500</CruisingAlt>');
+      expect(lnm).toContain('<Start>PARKING 3</Start>');
+      expect(lnm).toContain('<SID>\n        <Name>HAR1</Name>\n        <Runway>13</Runway>');
+      expect(lnm).toContain('<Airway>V162</Airway>');
+      expect(lnm).toContain('<Ident>WP1</Ident>\n        <Type>USER</Type>\n        <Pos Lon="-77.386111" Lat="40.536111" Alt="4500.00"/>');
+    });
+  });
+});
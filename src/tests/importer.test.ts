@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { PlnParser, FlightPlanImporters, GPX_IMPORTER, GARMIN_FPL_IMPORTER, XPLANE_FMS_IMPORTER, LNM_IMPORTER } from '../importer.js';
+import { GARMIN_FPL_EXPORTER, XPLANE_FMS_EXPORTER, GPX_EXPORTER, LNM_EXPORTER } from '../exporters.js';
+import { PlnGenerator, RouteFormatter, RouteParser } from '../converter.js';
+import { AirwayDatabase } from '../airways.js';
+
+const samplePln = readFileSync(resolve(__dirname, '../../route.pln'), 'utf-8');
+
+describe('PlnParser', () => {
+  describe('isPln', () => {
+    it('should detect PLN documents', () => {
+      expect(PlnParser.isPln(samplePln)).toBe(true);
+      expect(PlnParser.isPln('P34 403210N0772310W N68')).toBe(false);
+    });
+  });
+
+  describe('parsePosition', () => {
+    it('should parse decimal world positions', () => {
+      expect(PlnParser.parsePosition('40.536111,-77.386111,0')).toEqual({
+        latitude: 40.536111,
+        longitude: -77.386111,
+        altitude: 0
+      });
+    });
+
+    it('should parse MSFS degree/minute/second world positions', () => {
+      expect(PlnParser.parsePosition('N40° 32\' 10.00",W77° 23\' 10.00",+001500.00')).toEqual({
+        latitude: 40.536111,
+        longitude: -77.386111,
+        altitude: 1500
+      });
+    });
+
+    it('should reject malformed positions', () => {
+      expect(() => PlnParser.parsePosition('40.5')).toThrow('Invalid world position');
+      expect(() => PlnParser.parsePosition('E40° 32\' 10.00",W77° 23\' 10.00",0')).toThrow('hemisphere');
+      expect(() => PlnParser.parsePosition('95.0,10.0,0')).toThrow('out of range');
+    });
+  });
+
+  describe('parsePln', () => {
+    it('should parse the sample route.pln', () => {
+      const plan = PlnParser.parsePln(samplePln);
+
+      expect(plan.title).toBe('P34 to N68');
+      expect(plan.fpType).toBe('VFR');
+      expect(plan.routeType).toBe('Direct');
+      expect(plan.cruisingAlt).toBe(3500);
+      expect(plan.departureId).toBe('P34');
+      expect(plan.arrivalId).toBe('N68');
+      expect(plan.departureLLA).toBe('40.6776,-77.6267,819');
+      expect(plan.waypoints).toHaveLength(5);
+      expect(plan.waypoints[0]).toEqual({
+        type: 'NAMED',
+        name: 'P34',
+        waypointType: 'Airport',
+        region: 'K6',
+        latitude: 40.6776,
+        longitude: -77.6267
+      });
+      expect(plan.waypoints[1]).toEqual({ type: 'GPS', latitude: 40.536111, longitude: -77.386111 });
+      expect(plan.waypoints[4]).toMatchObject({ type: 'NAMED', name: 'N68', waypointType: 'Airport' });
+    });
+
+    it('should keep world positions of named waypoints', () => {
+      const plan = PlnParser.parsePln(`<?xml version="1.0" encoding="UTF-8"?>
+<SimBase.Document Type="AceXML" version="1,1">
+  <FlightPlan.FlightPlan>
+    <ATCWaypointList>
+      <ATCWaypoint id="LRP">
+        <ATCWaypointType>VOR</ATCWaypointType>
+        <WorldPosition>N40° 7' 12.00",W76° 17' 28.00",+000000.00</WorldPosition>
+        <ICAO><ICAORegion>K6</ICAORegion><ICAOIdent>LRP</ICAOIdent></ICAO>
+      </ATCWaypoint>
+    </ATCWaypointList>
+  </FlightPlan.FlightPlan>
+</SimBase.Document>`);
+
+      expect(plan.waypoints[0]).toEqual({
+        type: 'NAMED',
+        name: 'LRP',
+        waypointType: 'VOR',
+        region: 'K6',
+        latitude: 40.12,
+        longitude: -76.291111
+      });
+    });
+
+    it('should reject documents without a flight plan', () => {
+      expect(() => PlnParser.parsePln('<SimBase.Document></SimBase.Document>')).toThrow('FlightPlan.FlightPlan');
+    });
+
+    it('should reject user waypoints without a position', () => {
+      const xml = '<FlightPlan.FlightPlan><ATCWaypointList><ATCWaypoint id="WP1">' +
+        '<ATCWaypointType>User</ATCWaypointType></ATCWaypoint></ATCWaypointList></FlightPlan.FlightPlan>';
+      expect(() => PlnParser.parsePln(xml)).toThrow('has no WorldPosition');
+    });
+
+    it('should read waypoint constraints', () => {
+      const xml = '<FlightPlan.FlightPlan><ATCWaypointList>' +
+        '<ATCWaypoint id="WP1"><ATCWaypointType>User</ATCWaypointType><WorldPosition>40.5,-77.5,2500</WorldPosition></ATCWaypoint>' +
+        '<ATCWaypoint id="LRP"><ATCWaypointType>VOR</ATCWaypointType><SpeedMaxFP>120</SpeedMaxFP>' +
+        '<AltDescFP>AT_OR_BELOW</AltDescFP><Alt1FP>6000</Alt1FP><ICAO><ICAOIdent>LRP</ICAOIdent></ICAO></ATCWaypoint>' +
+        '</ATCWaypointList></FlightPlan.FlightPlan>';
+      const plan = PlnParser.parsePln(xml);
+
+      expect(plan.waypoints[0]).toMatchObject({ altitude: 2500, altitudeConstraint: 'AT' });
+      expect(plan.waypoints[1]).toMatchObject({ speed: 120, altitude: 6000, altitudeConstraint: 'AT_OR_BELOW' });
+    });
+
+    it('should read airways and procedures', () => {
+      const route = 'KORD.ORD5 HAR V162 ETX KPHL.BUNTS4';
+      const expanded = AirwayDatabase.bundled().expandRoute(RouteParser.parseSourceRoute(route)).waypoints;
+      const waypoints = PlnParser.parsePln(PlnGenerator.generatePln(expanded)).waypoints;
+
+      expect(waypoints[0]?.departureProcedure).toBe('ORD5');
+      expect(waypoints[2]?.airway).toBe('V162');
+      expect(waypoints[4]?.arrivalProcedure).toBe('BUNTS4');
+      expect(RouteFormatter.formatRoute(waypoints)).toBe(route);
+    });
+
+    it('should round-trip through the generator and formatter', () => {
+      const route = 'P34 403210N0772310W/A045 402507N0773505W 401034N0774923W/A035S100 N68';
+      const pln = PlnGenerator.generatePln(RouteParser.parseSourceRoute(route));
+
+      expect(RouteFormatter.formatRoute(PlnParser.parsePln(pln).waypoints)).toBe(route);
+    });
+
+    it('should keep the names of named coordinates', () => {
+      const route = 'P34 403210N0772310W:BRIDGE/A045 402507N0773505W N68';
+      const pln = PlnGenerator.generatePln(RouteParser.parseSourceRoute(route));
+      const waypoints = PlnParser.parsePln(pln).waypoints;
+
+      expect(pln).toContain('<ATCWaypoint id="BRIDGE">');
+      expect(waypoints[1]).toMatchObject({ type: 'GPS', name: 'BRIDGE' });
+      expect(waypoints[2]?.name).toBeUndefined();
+      expect(RouteFormatter.formatRoute(waypoints)).toBe(route);
+    });
+  });
+});
+
+describe('FlightPlanImporters', () => {
+  const route = 'KMDT.HAR1 HAR 403210N0772310W:WP1/A045 KLNS';
+  const plan = PlnGenerator.buildFlightPlan([
+    { type: 'NAMED', name: 'KMDT', waypointType: 'Airport', latitude: 40.1935, longitude: -76.7634, elevation: 310, region: 'K6', departureProcedure: 'HAR1' },
+    { type: 'NAMED', name: 'HAR', waypointType: 'VOR', latitude: 40.3023, longitude: -77.0699, region: 'K6' },
+    { type: 'GPS', latitude: 40.536111, longitude: -77.386111, altitude: 4500, altitudeConstraint: 'AT' },
+    { type: 'NAMED', name: 'KLNS', waypointType: 'Airport', latitude: 40.1217, longitude: -76.2961, elevation: 403, region: 'K6' }
+  ]);
+
+  describe('detect', () => {
+    it('should choose an importer by extension, then by content', () => {
+      const importers = FlightPlanImporters.standard();
+
+      expect(importers.detect('route.FMS', '')?.id).toBe('xplane');
+      expect(importers.detect('route.xml', GARMIN_FPL_EXPORTER.export(plan))?.id).toBe('garmin');
+      expect(importers.detect('route.txt', samplePln)?.id).toBe('pln');
+      expect(importers.detect('download', 'I\n1100 Version\n')?.id).toBe('xplane');
+      expect(importers.detect('route.txt', 'P34 N68')).toBeUndefined();
+    });
+  });
+
+  it('should read routes back from the X-Plane and Little Navmap exporters', () => {
+    [XPLANE_FMS_IMPORTER.import(XPLANE_FMS_EXPORTER.export(plan)), LNM_IMPORTER.import(LNM_EXPORTER.export(plan))].forEach(waypoints => {
+      expect(RouteFormatter.formatRoute(waypoints)).toBe(route);
+      expect(waypoints[0]).toMatchObject({ waypointType: 'Airport', elevation: 310 });
+      expect(waypoints[1]).toMatchObject({ name: 'HAR', waypointType: 'VOR', latitude: 40.3023 });
+    });
+  });
+
+  it('should read Garmin FPL route points from the waypoint table', () => {
+    const waypoints = GARMIN_FPL_IMPORTER.import(GARMIN_FPL_EXPORTER.export(plan));
+
+    expect(RouteFormatter.formatRoute(waypoints)).toBe('KMDT HAR 403210N0772310W:WP1 KLNS');
+    expect(waypoints[1]).toEqual({ type: 'NAMED', name: 'HAR', waypointType: 'VOR', region: 'K6', latitude: 40.3023, longitude: -77.0699 });
+    expect(waypoints[2]).toMatchObject({ type: 'GPS', name: 'WP1' });
+    expect(() => GARMIN_FPL_IMPORTER.import('<flight-plan><waypoint-table/><route><route-point>' +
+      '<waypoint-identifier>KMDT</waypoint-identifier></route-point></route></flight-plan>')).toThrow('not in the waypoint table');
+  });
+
+  it('should read GPX route points with names and elevations in feet', () => {
+    const waypoints = GPX_IMPORTER.import(GPX_EXPORTER.export(plan));
+
+    expect(waypoints.map(wp => wp.type)).toEqual(['NAMED', 'NAMED', 'GPS', 'NAMED']);
+    expect(waypoints[0]).toMatchObject({ name: 'KMDT', elevation: 310 });
+    expect(waypoints[2]).toMatchObject({ name: 'WP1', latitude: 40.536111, elevation: 4500 });
+  });
+
+  it('should thin GPX tracks to points a few miles apart', () => {
+    const points = Array.from({ length: 21 }, (_, i) => `<trkpt lat="${(40 + i * 0.01).toFixed(2)}" lon="-77"><ele>300</ele></trkpt>`);
+    const waypoints = GPX_IMPORTER.import(`<gpx version="1.1"><trk><name>Ridge</name><trkseg>${points.join('')}</trkseg></trk></gpx>`);
+
+    expect(waypoints.map(wp => wp.latitude)).toEqual([40, 40.04, 40.08, 40.12, 40.16, 40.2]);
+    expect(waypoints[0]).toEqual({ type: 'GPS', latitude: 40, longitude: -77, elevation: 984 });
+    expect(() => GPX_IMPORTER.import('<gpx version="1.1"></gpx>')).toThrow('GPX file contains no waypoints');
+    expect(() => GPX_IMPORTER.import('<gpx><wpt lat="95" lon="0"/></gpx>')).toThrow('Invalid latitude in GPX file: 95');
+  });
+
+  it('should read version 3 X-Plane files', () => {
+    const fms = 'I\n3 version\n1\n2\n1 KMDT 310.000000 40.193500 -76.763400\n28 PTA 4500.000000 40.536111 -77.386111\n1 KLNS 403 40.1217 -76.2961\n';
+
+    expect(RouteFormatter.formatRoute(XPLANE_FMS_IMPORTER.import(fms))).toBe('KMDT 403210N0772310W:PTA/A045 KLNS');
+    expect(() => XPLANE_FMS_IMPORTER.import('I\n800 version\n')).toThrow('version 3 or 1100');
+  });
+});
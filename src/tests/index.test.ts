@@ -0,0 +1,55 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { AirspaceDatabase, NavDatabase, convert, generate, parse, validate } from '../index.js';
+
+describe('library entry point', () => {
+  it('should run without a DOM', () => {
+    expect(typeof document).toBe('undefined');
+    expect(typeof window).toBe('undefined');
+  });
+
+  it('should convert a route into a plan, a .PLN and located warnings', () => {
+    const result = convert('KMDT HAR V162 ETX KABE', { cruisingAltitude: 5500 });
+
+    expect(result.stage).toBeUndefined();
+    expect(result.errors).toEqual([]);
+    expect(result.plan).toMatchObject({ title: 'KMDT to KABE', cruisingAlt: 5500 });
+    expect(result.pln).toContain('<ATCAirway>V162</ATCAirway>');
+
+    const low = convert('KAOO 401500N0785000W', { terrainClearance: 1500 });
+    expect(low.warnings).toMatchObject([{ severity: 'warning', span: { start: 5, end: 20 } }]);
+  });
+
+  it('should report errors with character offsets instead of throwing', () => {
+    const text = 'P34 40321N N68';
+    const result = convert(text);
+
+    expect(result.stage).toBe('input');
+    expect(result.pln).toBeUndefined();
+    expect(result.errors).toMatchObject([{ severity: 'error' }]);
+    expect(text.substring(result.errors[0]?.span?.start ?? 0, result.errors[0]?.span?.end)).toBe('40321N');
+  });
+
+  it('should accept replacement databases and airspace', () => {
+    const navdata = NavDatabase.fromCsv('ident,type,name,latitude,longitude,elevation,region\nAAAA,Airport,Alpha,40.3,-78.3,1500,K6\nBBBB,Airport,Bravo,40.25,-78.9,1200,K6');
+    const airspaces = AirspaceDatabase.fromOpenAir('AC C\nAN MID\nV X=40:16:00 N 078:36:00 W\nDC 4');
+
+    const result = convert('AAAA BBBB', { navdata, airspaces });
+    expect(result.plan?.waypoints.map(waypoint => waypoint.waypointType)).toEqual(['Airport', 'Airport']);
+    expect(result.warnings[0]?.message).toContain('Class C MID');
+  });
+
+  it('should run the pipeline one stage at a time', () => {
+    const parsed = parse('N0110A085 P34 403210N0772310W N68');
+    expect(parsed.sourceWaypoints).toHaveLength(3);
+    expect(parsed.waypoints).toEqual([]);
+
+    const checked = validate(parsed);
+    expect(checked.waypoints[0]).toMatchObject({ name: 'P34', waypointType: 'Airport' });
+    expect(checked.plan).toBeUndefined();
+
+    const generated = generate(checked, { title: 'Ridge run' });
+    expect(generated.plan).toMatchObject({ title: 'Ridge run', cruisingAlt: 8500, cruiseSpeed: 110 });
+    expect(generate(parse('P34 9999 N68')).stage).toBe('input');
+  });
+});
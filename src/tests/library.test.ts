@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { IDBFactory, IDBObjectStore } from 'fake-indexeddb';
+import { RouteLibrary, MemoryRouteStore, IndexedDbRouteStore } from '../library.js';
+
+function clock(start = Date.UTC(2026, 0, 1)): () => Date {
+  let time = start;
+  return () => new Date(time += 60000);
+}
+
+describe('RouteLibrary', () => {
+  it('should save routes and update them in place', async () => {
+    const library = new RouteLibrary(new MemoryRouteStore(), clock());
+
+    const saved = await library.save({ name: ' Ridge run ', route: 'P34 403210N0772310W N68 ', tags: ['vfr'], aircraft: 'C172' });
+    expect(saved).toMatchObject({ name: 'Ridge run', route: 'P34 403210N0772310W N68', tags: ['vfr'], notes: '', aircraft: 'C172' });
+    expect(saved.createdAt).toBe(saved.lastUsed);
+
+    const updated = await library.save({ name: 'Ridge run', route: 'P34 N68', notes: 'short version' }, saved.id);
+    expect(updated).toMatchObject({ id: saved.id, createdAt: saved.createdAt, tags: ['vfr'], notes: 'short version' });
+    expect(await library.list()).toHaveLength(1);
+  });
+
+  it('should reject routes without a name or route', async () => {
+    const library = new RouteLibrary();
+
+    await expect(library.save({ name: ' ', route: 'P34 N68' })).rejects.toThrow('Saved routes need a name');
+    await expect(library.save({ name: 'Empty', route: '' })).rejects.toThrow('Cannot save an empty route');
+    await expect(library.use('missing')).rejects.toThrow('Saved route "missing" not found');
+  });
+
+  it('should search all fields, match #tags exactly and sort', async () => {
+    const library = new RouteLibrary(new MemoryRouteStore(), clock());
+    const ridge = await library.save({ name: 'Ridge run', route: 'P34 N68', tags: ['vfr', 'scenic'] });
+    await library.save({ name: 'airways', route: 'KMDT HAR V162 ETX KABE', tags: ['ifr'], aircraft: 'Baron' });
+    await library.save({ name: 'Coast', route: 'KACY KWWD', notes: 'scenic beaches' });
+
+    expect((await library.list('scenic')).map(route => route.name)).toEqual(['Coast', 'Ridge run']);
+    expect((await library.list('#scenic')).map(route => route.name)).toEqual(['Ridge run']);
+    expect((await library.list('baron v162')).map(route => route.name)).toEqual(['airways']);
+    expect((await library.list('', 'name')).map(route => route.name)).toEqual(['airways', 'Coast', 'Ridge run']);
+
+    await library.use(ridge.id);
+    expect((await library.mostRecent())?.name).toBe('Ridge run');
+    expect((await library.list('', 'createdAt')).map(route => route.name)).toEqual(['Coast', 'airways', 'Ridge run']);
+  });
+
+  it('should parse tags from free text', () => {
+    expect(RouteLibrary.parseTags('VFR, #scenic  ridge,vfr')).toEqual(['vfr', 'scenic', 'ridge']);
+  });
+
+  it('should export and import the whole library as JSON', async () => {
+    const source = new RouteLibrary(new MemoryRouteStore(), clock());
+    await source.save({ name: 'Ridge run', route: 'P34 N68', tags: ['vfr'] });
+    await source.save({ name: 'Coast', route: 'KACY KWWD' });
+
+    const json = await source.exportJson();
+    expect(JSON.parse(json)).toMatchObject({ version: 1, routes: [{ name: 'Ridge run' }, { name: 'Coast' }] });
+
+    const target = new RouteLibrary(new MemoryRouteStore(), clock());
+    expect(await target.importJson(json)).toBe(2);
+    expect(await target.importJson(json)).toBe(2);
+    expect(await target.list('', 'name')).toEqual(await source.list('', 'name'));
+  });
+
+  it('should reject malformed library files', async () => {
+    const library = new RouteLibrary();
+
+    await expect(library.importJson('{')).rejects.toThrow('not valid JSON');
+    await expect(library.importJson('{"routes": 3}')).rejects.toThrow('has no "routes" list');
+    await expect(library.importJson('{"routes": [{"name": "No route"}]}')).rejects.toThrow('Route 1 in the library file needs a name and a route');
+  });
+});
+
+describe('IndexedDbRouteStore', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should store, list and delete routes', async () => {
+    const store = new IndexedDbRouteStore(new IDBFactory());
+    const library = new RouteLibrary(store, clock());
+
+    const saved = await library.save({ name: 'Ridge run', route: 'P34 N68', tags: ['vfr'] });
+    expect(await store.get(saved.id)).toEqual(saved);
+    expect(await store.list()).toEqual([saved]);
+
+    await store.delete(saved.id);
+    expect(await store.get(saved.id)).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should keep routes across store instances', async () => {
+    const factory = new IDBFactory();
+    const saved = await new RouteLibrary(new IndexedDbRouteStore(factory), clock()).save({ name: 'Coast', route: 'KACY KWWD' });
+
+    expect(await new IndexedDbRouteStore(factory).list()).toEqual([saved]);
+  });
+
+  it('should reject writes whose transaction does not commit', async () => {
+    const store = new IndexedDbRouteStore(new IDBFactory());
+    const put = IDBObjectStore.prototype.put;
+    vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(function (this: IDBObjectStore, ...args: Parameters<IDBObjectStore['put']>) {
+      const request = put.apply(this, args);
+      request.addEventListener('success', () => this.transaction.abort());
+      return request;
+    });
+    const library = new RouteLibrary(store, clock());
+
+    await expect(library.save({ name: 'Ridge run', route: 'P34 N68' })).rejects.toThrow();
+    vi.restoreAllMocks();
+    expect(await store.list()).toEqual([]);
+  });
+});
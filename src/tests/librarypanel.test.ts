@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RouteLibraryPanel } from '../librarypanel.js';
+import { MemoryRouteStore, RouteLibrary } from '../library.js';
+
+describe('RouteLibraryPanel', () => {
+  it('should report saved routes that cannot be listed', async () => {
+    const store = new MemoryRouteStore();
+    await new RouteLibrary(store).save({ name: 'Ridge run', route: 'P34 N68', tags: ['vfr'] });
+    const notify = vi.fn();
+    const container = document.createElement('div');
+    const panel = new RouteLibraryPanel(container, new RouteLibrary(store), {
+      currentRoute: () => ({ route: 'P34 N68', name: 'Ridge run' }),
+      load: () => undefined,
+      notify
+    });
+    await panel.refresh();
+
+    vi.spyOn(store, 'list').mockRejectedValue(new Error('Route library is unavailable'));
+    (container.querySelector('.library-tag') as HTMLButtonElement).click();
+    container.querySelector('[data-library="search"]')?.dispatchEvent(new Event('input'));
+    container.querySelector('[data-library="sort"]')?.dispatchEvent(new Event('change'));
+    await vi.waitFor(() => expect(notify).toHaveBeenCalledTimes(3));
+
+    expect(notify).toHaveBeenCalledWith('Route library is unavailable', true);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { MagneticModel } from '../magvar.js';
+
+const JULY_2025 = new Date(Date.UTC(2025, 6, 1));
+
+describe('MagneticModel', () => {
+  describe('fromCof', () => {
+    it('should read the epoch, name and coefficients', () => {
+      const model = MagneticModel.fromCof(`    2025.0  TEST  01/01/2025
+  1  0  -29351.8  0.0  12.0  0.0
+  1  1  -1410.8  4545.4  9.7  -21.5
+999999999999999999999999999999999999999999999999
+`);
+
+      expect(model.epoch).toBe(2025);
+      expect(model.name).toBe('TEST');
+      expect(model.maxDegree).toBe(1);
+    });
+
+    it('should reject malformed files', () => {
+      expect(() => MagneticModel.fromCof('')).toThrow('no epoch header');
+      expect(() => MagneticModel.fromCof('2025.0 TEST\n')).toThrow('no coefficients');
+      expect(() => MagneticModel.fromCof('2025.0 TEST\n 1 0 abc 0 0 0\n')).toThrow('Invalid magnetic model line');
+      expect(() => MagneticModel.fromCof('2025.0 TEST\n 1 2 1 0 0 0\n')).toThrow('degree/order');
+    });
+  });
+
+  describe('decimalYear', () => {
+    it('should convert dates to fractional years', () => {
+      expect(MagneticModel.decimalYear(new Date(Date.UTC(2025, 0, 1)))).toBe(2025);
+      expect(MagneticModel.decimalYear(JULY_2025)).toBeCloseTo(2025.496, 3);
+    });
+  });
+
+  describe('declination', () => {
+    it('should match published declinations within a degree', () => {
+      const model = MagneticModel.bundled();
+
+      expect(model.declination(39.87, -75.24, JULY_2025)).toBeCloseTo(-11.7, 0);
+      expect(model.declination(33.94, -118.41, JULY_2025)).toBeCloseTo(11.4, 0);
+      expect(model.declination(47.45, -122.31, JULY_2025)).toBeCloseTo(15.3, 0);
+      expect(model.declination(51.47, -0.46, JULY_2025)).toBeCloseTo(1.0, 0);
+      expect(model.declination(-33.9, 151.2, JULY_2025)).toBeCloseTo(12.9, 0);
+    });
+
+    it('should apply secular variation over time', () => {
+      const model = MagneticModel.bundled();
+      const later = new Date(Date.UTC(2029, 6, 1));
+
+      expect(model.declination(40.5, -77.4, later)).not.toBeCloseTo(model.declination(40.5, -77.4, JULY_2025), 2);
+    });
+  });
+});
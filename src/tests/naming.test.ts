@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { NameTemplates } from '../naming.js';
+import { PlnGenerator } from '../converter.js';
+
+const plan = PlnGenerator.buildFlightPlan([{ type: 'NAMED', name: 'KMDT' }, { type: 'NAMED', name: 'KLNS' }], { title: 'Ridge run: east' });
+const date = new Date(2026, 4, 7, 9, 5);
+
+describe('NameTemplates', () => {
+  describe('fileName', () => {
+    it('should fill plan and date placeholders', () => {
+      expect(NameTemplates.fileName('{dep}-{arr}-{date}.{ext}', { plan, extension: 'pln', date })).toBe('KMDT-KLNS-2026-05-07.pln');
+      expect(NameTemplates.fileName('{NAME}_{time}', { plan, extension: 'fms', date })).toBe('KMDT-KLNS_0905.fms');
+      expect(NameTemplates.fileName('{name}', { plan, extension: 'pln', name: 'leg 1' })).toBe('leg-1.pln');
+    });
+
+    it('should replace characters that are not allowed in file names', () => {
+      expect(NameTemplates.fileName('{title}.{ext}', { plan, extension: 'pln' })).toBe('Ridge-run-east.pln');
+      expect(NameTemplates.fileName('', { plan, extension: 'gpx' })).toBe('KMDT-KLNS.gpx');
+    });
+
+    it('should reject unknown placeholders', () => {
+      expect(() => NameTemplates.fileName('{route}.pln', { plan, extension: 'pln' })).toThrow('Unknown file name placeholder {route}. Use {name}, {dep}');
+    });
+  });
+
+  describe('userWaypointId', () => {
+    it('should fill sequence, index and position placeholders', () => {
+      const waypoint = { type: 'GPS' as const, latitude: 40.536111, longitude: -77.386111 };
+
+      expect(NameTemplates.userWaypointId('WP{n}', waypoint, 3, 5)).toBe('WP3');
+      expect(NameTemplates.userWaypointId('P{index}', waypoint, 3, 5)).toBe('P6');
+      expect(NameTemplates.userWaypointId('{lat}{lon}', waypoint, 1, 1)).toBe('N4032W07723');
+      expect(NameTemplates.userWaypointId('{lat}{lon}', { type: 'GPS', latitude: -33.9999, longitude: 151.2 }, 1, 1)).toBe('S3400E15112');
+    });
+
+    it('should reject unknown placeholders', () => {
+      expect(() => NameTemplates.userWaypointId('{name}', { type: 'GPS' }, 1, 0)).toThrow('Unknown waypoint name placeholder {name}');
+    });
+  });
+});
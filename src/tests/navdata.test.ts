@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { NavDatabase } from '../navdata.js';
+import { PlnGenerator, RouteParser } from '../converter.js';
+
+const AMBIGUOUS_CSV = `ident,type,name,latitude,longitude,elevation,region
+KAAA,Airport,East Field,40.0,-75.0,100,K6
+KBBB,Airport,West Field,34.0,-118.0,200,K2
+DUP,NDB,"Dup, East",40.1,-75.1,0,K6
+DUP,NDB,"Dup, West",34.1,-118.1,0,K2
+`;
+
+describe('NavDatabase', () => {
+  describe('fromCsv', () => {
+    it('should load records with quoted fields', () => {
+      const db = NavDatabase.fromCsv(AMBIGUOUS_CSV);
+
+      expect(db.size).toBe(4);
+      expect(db.lookup('dup').map(record => record.name)).toEqual(['Dup, East', 'Dup, West']);
+      expect(db.lookup('KAAA')[0]).toEqual({
+        ident: 'KAAA',
+        type: 'Airport',
+        name: 'East Field',
+        latitude: 40,
+        longitude: -75,
+        elevation: 100,
+        region: 'K6'
+      });
+    });
+
+    it('should reject malformed CSV data', () => {
+      expect(() => NavDatabase.fromCsv('')).toThrow('empty');
+      expect(() => NavDatabase.fromCsv('ident,type\nLRP,VOR')).toThrow('missing column');
+      expect(() => NavDatabase.fromCsv('ident,type,latitude,longitude\nLRP,TACAN,40,-76')).toThrow('Unknown navaid type');
+      expect(() => NavDatabase.fromCsv('ident,type,latitude,longitude\nLRP,VOR,95,-76')).toThrow('Invalid coordinates');
+    });
+  });
+
+  describe('bundled', () => {
+    it('should contain airports, VORs and intersections', () => {
+      const db = NavDatabase.bundled();
+
+      expect(db.lookup('P34')[0]?.type).toBe('Airport');
+      expect(db.lookup('LRP')[0]?.type).toBe('VOR');
+      expect(db.lookup('BUNTS')[0]?.type).toBe('Intersection');
+    });
+  });
+
+  describe('resolveRoute', () => {
+    it('should fill in type, position, elevation and region', () => {
+      const waypoints = RouteParser.parseSourceRoute('KLNS LRP BUNTS KPHL');
+      const { waypoints: resolved, warnings } = NavDatabase.bundled().resolveRoute(waypoints);
+
+      expect(warnings).toHaveLength(0);
+      expect(resolved.map(wp => wp.waypointType)).toEqual(['Airport', 'VOR', 'Intersection', 'Airport']);
+      expect(resolved[1]).toMatchObject({ latitude: 40.1199, longitude: -76.2912, region: 'K6' });
+      expect(waypoints[1]?.waypointType).toBeUndefined();
+    });
+
+    it('should warn about unknown identifiers', () => {
+      const { waypoints, warnings } = NavDatabase.bundled().resolveRoute(RouteParser.parseSourceRoute('P34 ZZZZZ'));
+
+      expect(waypoints[1]?.waypointType).toBeUndefined();
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({ position: 1, input: 'ZZZZZ' });
+    });
+
+    it('should pick the candidate closest to the neighbouring waypoints', () => {
+      const db = NavDatabase.fromCsv(AMBIGUOUS_CSV);
+
+      const east = db.resolveRoute(RouteParser.parseSourceRoute('KAAA DUP'));
+      expect(east.waypoints[1]?.region).toBe('K6');
+      expect(east.warnings).toHaveLength(0);
+
+      const west = db.resolveRoute(RouteParser.parseSourceRoute('DUP 340000N 1180000W'));
+      expect(west.waypoints[0]?.region).toBe('K2');
+    });
+
+    it('should warn when an ambiguous identifier has no reference position', () => {
+      const db = NavDatabase.fromCsv(AMBIGUOUS_CSV);
+      const { waypoints, warnings } = db.resolveRoute(RouteParser.parseSourceRoute('DUP'));
+
+      expect(waypoints[0]?.region).toBe('K6');
+      expect(warnings[0]?.message).toContain('Ambiguous waypoint "DUP"');
+    });
+  });
+});
+
+describe('PlnGenerator with resolved navdata', () => {
+  it('should emit navaid types, positions and regions', () => {
+    const { waypoints } = NavDatabase.bundled().resolveRoute(RouteParser.parseSourceRoute('KLNS LRP KMDT'));
+    const pln = PlnGenerator.generatePln(waypoints);
+
+    expect(pln).toContain('<ATCWaypointType>VOR</ATCWaypointType>');
+    expect(pln).toContain('<WorldPosition>40.1199,-76.2912,0</WorldPosition>');
+    expect(pln).toContain('<WorldPosition>40.1217,-76.2961,403</WorldPosition>');
+    expect(pln).toContain('<ICAORegion>K6</ICAORegion>');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { CoordinateNotations, CoordinateNotation, DDMMSS_NOTATION } from '../notation.js';
+
+const registry = CoordinateNotations.standard();
+
+describe('CoordinateNotations', () => {
+  describe('read', () => {
+    it('should read DDMMSS with whole and fractional seconds', () => {
+      expect(registry.read('403210N0772310W')).toEqual({ notation: 'DDMMSS', latitude: 40.536111, longitude: -77.386111 });
+      expect(registry.read('403210.5N')).toEqual({ notation: 'DDMMSS', latitude: 40.536250 });
+      expect(registry.read('0772310W')).toEqual({ notation: 'DDMMSS', longitude: -77.386111 });
+    });
+
+    it('should read DDMM with whole and fractional minutes', () => {
+      expect(registry.read('4032N07723W')).toEqual({ notation: 'DDMM', latitude: 40.533333, longitude: -77.383333 });
+      expect(registry.read('4032.17N')).toEqual({ notation: 'DDMM', latitude: 40.536167 });
+      expect(registry.read('07723.17W')).toEqual({ notation: 'DDMM', longitude: -77.386167 });
+    });
+
+    it('should read signed decimal degree pairs', () => {
+      expect(registry.read('40.5361,-77.3861')).toEqual({ notation: 'decimal', latitude: 40.5361, longitude: -77.3861 });
+      expect(registry.read('-33.9461,+151.1772')).toEqual({ notation: 'decimal', latitude: -33.9461, longitude: 151.1772 });
+    });
+
+    it('should read degree-symbol notation with a leading or trailing hemisphere', () => {
+      expect(registry.read('N40°32.17\'')).toEqual({ notation: 'degrees-minutes', latitude: 40.536167 });
+      expect(registry.read('W077°23.17\'')).toEqual({ notation: 'degrees-minutes', longitude: -77.386167 });
+      expect(registry.read('40°32\'10.5"N')).toEqual({ notation: 'degrees-minutes', latitude: 40.53625 });
+      expect(registry.read('N40°32.17\'W077°23.17\'')).toEqual({ notation: 'degrees-minutes', latitude: 40.536167, longitude: -77.386167 });
+      expect(registry.read('40°32.17\'N077°23.17\'W')).toEqual({ notation: 'degrees-minutes', latitude: 40.536167, longitude: -77.386167 });
+    });
+
+    it('should ignore tokens that are not coordinates', () => {
+      ['P34', 'KLAX', 'N68', 'V162', 'KORD.ORD5', '40321N', '40°32.17\''].forEach(token => {
+        expect(registry.read(token)).toBeUndefined();
+      });
+    });
+
+    it('should reject out of range components', () => {
+      expect(() => registry.read('4060N')).toThrow('Invalid minutes/seconds in coordinate: 4060N');
+      expect(() => registry.read('403260.5N')).toThrow('Invalid minutes/seconds');
+      expect(() => registry.read('91.5,10')).toThrow('Latitude degrees out of range: 91.5');
+      expect(() => registry.read('900001N')).toThrow('Latitude degrees out of range');
+      expect(() => registry.read('10,-180.5')).toThrow('Longitude degrees out of range: -180.5');
+    });
+  });
+
+  describe('issues', () => {
+    it('should list every problem in a detected coordinate', () => {
+      const detection = registry.detect('916060N');
+
+      expect(CoordinateNotations.issues(detection?.components ?? []).map(issue => issue.problem))
+        .toEqual(['minutes', 'seconds', 'degrees']);
+    });
+  });
+
+  describe('register', () => {
+    it('should accept custom notations and reject duplicate names', () => {
+      const grid: CoordinateNotation = {
+        name: 'grid',
+        example: 'G40W077',
+        match: token => {
+          const match = token.match(/^G(\d{2})W(\d{3})$/);
+          return match ? [
+            { axis: 'latitude', text: token, degrees: Number(match[1]), minutes: 0, seconds: 0, negative: false },
+            { axis: 'longitude', text: token, degrees: Number(match[2]), minutes: 0, seconds: 0, negative: true }
+          ] : undefined;
+        }
+      };
+      const custom = new CoordinateNotations([DDMMSS_NOTATION, grid]);
+
+      expect(custom.read('G40W077')).toEqual({ notation: 'grid', latitude: 40, longitude: -77 });
+      expect(custom.read('4032N')).toBeUndefined();
+      expect(custom.all.map(notation => notation.name)).toEqual(['DDMMSS', 'grid']);
+      expect(() => custom.register(grid)).toThrow('already registered');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { RouteConverter } from '../pipeline.js';
+import { AirspaceDatabase } from '../airspace.js';
+
+describe('RouteConverter', () => {
+  it('should convert a route and map waypoints back to their source', () => {
+    const result = RouteConverter.convert('KMDT HAR V162 ETX KABE', { cruisingAltitude: 5500 });
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.stage).toBeUndefined();
+    expect(result.pln).toContain('<ATCAirway>V162</ATCAirway>');
+    expect(result.plan?.title).toBe('KMDT to KABE');
+    expect(result.sourceWaypoints).toHaveLength(5);
+    expect(result.waypoints.map(wp => wp.name)).toEqual(['KMDT', 'HAR', 'RAV', 'ETX', 'KABE']);
+    expect(result.sources).toEqual([0, 1, 2, 3, 4]);
+    expect(result.spans[2]).toEqual({ start: 9, end: 13 });
+  });
+
+  it('should convert imported waypoints without going through route text', () => {
+    const result = RouteConverter.generate(RouteConverter.validate(RouteConverter.fromWaypoints([
+      { type: 'NAMED', name: 'KMDT', elevation: 312 },
+      { type: 'NAMED', name: 'V31', latitude: 40.4, longitude: -76.9, elevation: 1500 },
+      { type: 'NAMED', name: 'KLNS' }
+    ])));
+
+    expect(result.stage).toBeUndefined();
+    expect(result.warnings).toEqual([]);
+    expect(result.waypoints.map(wp => [wp.name, wp.latitude, wp.elevation])).toEqual([
+      ['KMDT', 40.1935, 312], ['V31', 40.4, 1500], ['KLNS', 40.1217, 403]
+    ]);
+    expect(RouteConverter.fromWaypoints([])).toMatchObject({ stage: 'input', errors: [{ message: 'No valid waypoints found in the input' }] });
+  });
+
+  it('should list the coordinate notations found in the route', () => {
+    expect(RouteConverter.convert('P34 4032N07723W 40.5361,-77.3861 403210N0772310W N68').notations)
+      .toEqual(['DDMM', 'decimal', 'DDMMSS']);
+  });
+
+  it('should take cruise speed and altitude from SkyVector links unless options override them', () => {
+    const url = 'https://skyvector.com/?ll=40.3,-77.8&chart=301&zoom=3&fpl=N0110A045%20P34%20DCT%20N68';
+    const result = RouteConverter.convert(url);
+
+    expect(result.format).toBe('skyvector-url');
+    expect(result.plan).toMatchObject({ cruisingAlt: 4500, cruiseSpeed: 110 });
+    expect(result.waypoints.map(wp => wp.name)).toEqual(['P34', 'N68']);
+    expect(url.substring(result.spans[1]?.start ?? 0, result.spans[1]?.end)).toBe('N68');
+    expect(RouteConverter.convert(url, { cruisingAltitude: 6500 }).plan?.cruisingAlt).toBe(6500);
+  });
+
+  it('should collect warnings without failing', () => {
+    const result = RouteConverter.convert('P34 ZZZZ N68');
+
+    expect(result.pln).toBeDefined();
+    expect(result.warnings[0]?.message).toContain('Unknown waypoint "ZZZZ"');
+    expect(result.warnings[0]).toMatchObject({ severity: 'warning', span: { start: 4, end: 8 } });
+  });
+
+  it('should run semantic checks on the resolved route', () => {
+    const result = RouteConverter.convert('KMDT HAR HAR KLNS');
+
+    expect(result.pln).toBeDefined();
+    expect(result.warnings).toMatchObject([{ message: 'HAR appears twice in a row', severity: 'warning', span: { start: 9, end: 12 } }]);
+
+    const strict = RouteConverter.convert('KMDT HAR HAR KLNS', { warningsAsErrors: true });
+    expect(strict).toMatchObject({ stage: 'check', warnings: [], errors: [{ message: 'HAR appears twice in a row', severity: 'error' }] });
+    expect(strict.pln).toBeUndefined();
+  });
+
+  it('should not mistake T-prefixed airport idents for airways', () => {
+    const result = RouteConverter.convert('KAUS 301500N0974500W T82');
+
+    expect(result.stage).toBeUndefined();
+    expect(result.pln).toBeDefined();
+    expect(result.warnings.map(warning => warning.message)).toContain(
+      'Unknown waypoint "T82" at position 3. It will be exported as an airport without coordinates.'
+    );
+  });
+
+  it('should check terrain clearance when asked', () => {
+    const route = 'KAOO 401500N0785000W';
+
+    expect(RouteConverter.convert(route).warnings).toEqual([]);
+    const result = RouteConverter.convert(route, { terrainClearance: 1500 });
+    expect(result.pln).toBeDefined();
+    expect(result.warnings).toMatchObject([{ severity: 'warning', span: { start: 5, end: 20 } }]);
+    expect(result.warnings[0]?.message).toContain('crosses terrain of about 2362 ft');
+    expect(RouteConverter.convert(route, { terrainClearance: 1500, cruisingAltitude: 4500 }).warnings).toEqual([]);
+  });
+
+  it('should check airspace when a database is given', () => {
+    const route = 'KAOO 401500N0785000W';
+    const airspaces = AirspaceDatabase.fromOpenAir('AC D\nAN TEST\nAH 4000 MSL\nV X=40:15:00 N 078:30:00 W\nDC 5');
+
+    expect(RouteConverter.convert(route).warnings).toEqual([]);
+    const result = RouteConverter.convert(route, {}, undefined, undefined, { airspaces });
+    expect(result.warnings).toMatchObject([{ severity: 'warning', span: { start: 5, end: 20 } }]);
+    expect(result.warnings[0]?.message).toContain('at 3500 ft enters at');
+    expect(result.warnings[0]?.message).toContain('Class D TEST (SFC to 4000 ft MSL)');
+    expect(RouteConverter.convert(route, { cruisingAltitude: 4500 }, undefined, undefined, { airspaces }).warnings).toEqual([]);
+  });
+
+  it('should locate input errors in the original text', () => {
+    expect(RouteConverter.convert('P34  40321N N68').errors[0]?.span).toEqual({ start: 5, end: 11 });
+
+    const url = 'https://skyvector.com/?fpl=P34%2040321N%20N68';
+    const [error] = RouteConverter.convert(url).errors;
+    expect(url.substring(error?.span?.start ?? 0, error?.span?.end)).toBe('40321N');
+  });
+
+  it('should report the stage that failed', () => {
+    expect(RouteConverter.convert('   ')).toMatchObject({ stage: 'input', errors: [{ message: 'No route provided' }] });
+    expect(RouteConverter.convert('P34 9999 N68').stage).toBe('input');
+    expect(RouteConverter.convert('KPHL V999 SBJ').stage).toBe('route');
+
+    const options = RouteConverter.convert('P34 N68', { cruisingAltitude: 18500 });
+    expect(options.stage).toBe('options');
+    expect(options.pln).toBeUndefined();
+    expect(options.waypoints).toHaveLength(2);
+  });
+});
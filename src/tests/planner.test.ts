@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { FlightPlanner, NavlogDocument, WindsAloft } from '../planner.js';
+import { AircraftProfile } from '../aircraft.js';
+import { MagneticModel } from '../magvar.js';
+import { Waypoint } from '../types.js';
+
+const ZERO_VARIATION = MagneticModel.fromCof('2025.0 ZERO\n 1 0 -30000 0 0 0\n');
+
+const profile: AircraftProfile = {
+  id: 'test', name: 'Test', cruiseSpeed: 120, cruiseFuelFlow: 10,
+  climbSpeed: 60, climbRate: 1000, climbFuelFlow: 12, descentSpeed: 120, descentRate: 500, descentFuelFlow: 6,
+  taxiFuel: 1, usableFuel: 40, reserveMinutes: 30
+};
+
+const route: Waypoint[] = [
+  { type: 'NAMED', name: 'EQ1', latitude: 0, longitude: 0 },
+  { type: 'NAMED', name: 'EQ2', latitude: 0, longitude: 2 }
+];
+
+describe('WindsAloft', () => {
+  it('should parse and format winds aloft', () => {
+    const layers = WindsAloft.parse('9000 290/35; 3000 270/15,\n6000:280@25');
+
+    expect(layers).toEqual([
+      { altitude: 3000, direction: 270, speed: 15 },
+      { altitude: 6000, direction: 280, speed: 25 },
+      { altitude: 9000, direction: 290, speed: 35 }
+    ]);
+    expect(WindsAloft.format(layers)).toBe('3000 270/15, 6000 280/25, 9000 290/35');
+    expect(WindsAloft.parse(' ')).toEqual([]);
+    expect(() => WindsAloft.parse('6000 270')).toThrow('Invalid winds aloft entry "6000 270"');
+    expect(() => WindsAloft.parse('6000 400/20')).toThrow('Invalid winds aloft entry');
+  });
+
+  it('should interpolate between levels and hold the nearest level outside them', () => {
+    const layers = WindsAloft.parse('2000 360/10, 4000 090/10');
+
+    expect(WindsAloft.at(layers, 1000)).toEqual({ direction: 0, speed: 10 });
+    expect(WindsAloft.at(layers, 9000)).toEqual({ direction: 90, speed: 10 });
+    const middle = WindsAloft.at(layers, 3000);
+    expect(middle.direction).toBeCloseTo(45, 5);
+    expect(middle.speed).toBeCloseTo(Math.SQRT2 * 5, 5);
+    expect(WindsAloft.at([], 5000)).toEqual({ direction: 0, speed: 0 });
+  });
+});
+
+describe('FlightPlanner', () => {
+  it('should split the route at top of climb and descent and compute fuel', () => {
+    const log = FlightPlanner.plan(route, { profile, cruiseAltitude: 6000, magneticModel: ZERO_VARIATION });
+
+    expect(log.legs.map(leg => [leg.from, leg.to, leg.phase])).toEqual([
+      ['EQ1', 'TOC', 'climb'],
+      ['TOC', 'TOD', 'cruise'],
+      ['TOD', 'EQ2', 'descent']
+    ]);
+    expect(log.topOfClimb?.distance).toBeCloseTo(6, 5);
+    expect(log.topOfDescent?.distance).toBeCloseTo(log.totalDistance - 24, 5);
+    expect(log.topOfClimb?.latitude).toBeCloseTo(0, 5);
+    expect(log.topOfClimb?.longitude).toBeCloseTo(0.1, 2);
+    expect(log.legs.map(leg => leg.altitude)).toEqual([6000, 6000, 0]);
+    expect(log.legs[0]?.fuel).toBeCloseTo(1.2, 5);
+    expect(log.legs[2]?.fuel).toBeCloseTo(1.2, 5);
+    expect(log.tripFuel).toBeCloseTo(2.4 + (log.totalDistance - 30) / 120 * 10, 5);
+    expect(log.reserveFuel).toBe(5);
+    expect(log.requiredFuel).toBeCloseTo(1 + log.tripFuel + 5, 5);
+    expect(log.landingFuel).toBeCloseTo(39 - log.tripFuel, 5);
+    expect(log.legs[2]?.fuelRemaining).toBeCloseTo(log.landingFuel, 5);
+    expect(log.warnings).toEqual([]);
+  });
+
+  it('should correct heading and groundspeed for the wind at each phase', () => {
+    const winds = WindsAloft.parse('3000 360/20, 6000 270/30');
+    const log = FlightPlanner.plan(route, { profile, cruiseAltitude: 6000, winds, magneticModel: ZERO_VARIATION });
+    const cruise = log.legs[1];
+
+    expect(cruise?.windDirection).toBe(270);
+    expect(cruise?.groundSpeed).toBeCloseTo(150, 5);
+    expect(cruise?.magneticHeading).toBeCloseTo(90, 5);
+    expect(log.legs[0]?.windDirection).toBe(0);
+    expect(log.legs[0]?.magneticHeading).toBeLessThan(90);
+    expect(log.topOfClimb?.distance).toBeCloseTo(Math.sqrt(60 ** 2 - 20 ** 2) / 10, 5);
+  });
+
+  it('should warn when the route is too short to reach cruise', () => {
+    const short: Waypoint[] = [route[0]!, { type: 'NAMED', name: 'EQ3', latitude: 0, longitude: 0.25 }];
+    const log = FlightPlanner.plan(short, { profile, cruiseAltitude: 6000, magneticModel: ZERO_VARIATION });
+
+    expect(log.legs.map(leg => [leg.from, leg.to, leg.phase])).toEqual([
+      ['EQ1', 'TOC/TOD', 'climb'],
+      ['TOC/TOD', 'EQ3', 'descent']
+    ]);
+    expect(log.warnings[0]).toMatch(/^Route is too short to reach 6000 ft; the climb and descent meet at about \d+ ft$/);
+    expect(log.topOfClimb?.altitude).toBeLessThan(6000);
+  });
+
+  it('should warn when the fuel required exceeds usable fuel and skip unpositioned waypoints', () => {
+    const far: Waypoint[] = [...route, { type: 'NAMED', name: 'XYZ' }, { type: 'NAMED', name: 'EQ4', latitude: 0, longitude: 8 }];
+    const log = FlightPlanner.plan(far, { profile, cruiseAltitude: 6000, magneticModel: ZERO_VARIATION });
+
+    expect(log.unpositioned).toEqual(['XYZ']);
+    expect(log.legs.at(-1)?.to).toBe('EQ4');
+    expect(log.warnings).toEqual([expect.stringMatching(/^Fuel required \(\d+\.\d gal with 30 min reserve\) exceeds the 40 gal usable in the Test$/)]);
+  });
+});
+
+describe('NavlogDocument', () => {
+  it('should render a printable navlog with blank actual time columns', () => {
+    const log = FlightPlanner.plan(route, { profile, cruiseAltitude: 6000, magneticModel: ZERO_VARIATION });
+    const html = NavlogDocument.html(log, {
+      title: 'EQ1 to <EQ2>', route: 'EQ1 EQ2', profile, cruiseAltitude: 6000, date: new Date(Date.UTC(2026, 0, 2))
+    });
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<h1>EQ1 to &lt;EQ2&gt;</h1>');
+    expect(html).toContain('Test · cruise 6000 ft at 120 kt TAS · 2026-01-02');
+    expect(html).toContain('<th>ATE</th><th>ATA</th>');
+    expect(html).toContain('<td>EQ1 → TOC</td><td>climb</td>');
+    expect(html).toContain('<li>Top of climb: 6.0 NM from departure at 6000 ft</li>');
+    expect(html).toContain('<td></td><td></td></tr>');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { OfflineApp } from '../pwa.js';
+
+const BASE = 'https://example.com/skyvector_to_msfs2024/';
+
+const memoryCache = (entries: Record<string, Response>) => ({
+  match: async (request: RequestInfo | URL) => entries[String(request)]?.clone()
+});
+
+describe('OfflineApp', () => {
+  describe('sharedRoute', () => {
+    it('should prefer a SkyVector link from any shared field', () => {
+      const link = 'https://skyvector.com/?ll=40.6,-77.6&fpl=P34%20N68';
+
+      expect(OfflineApp.sharedRoute({ url: link, text: 'KMDT KLNS' })).toBe(link);
+      expect(OfflineApp.sharedRoute({ title: 'SkyVector', text: `My flight ${link} tomorrow` })).toBe(link);
+      expect(OfflineApp.sharedRoute({ url: 'https://example.com/route', text: ' P34 403210N0772310W N68 ' })).toBe('P34 403210N0772310W N68');
+      expect(OfflineApp.sharedRoute({ title: 'Nothing', text: '  ' })).toBeUndefined();
+    });
+  });
+
+  describe('readShare', () => {
+    it('should read shared files and text stored by the service worker', async () => {
+      const cache = memoryCache({
+        [`${BASE}share-target/data`]: new Response(JSON.stringify({ text: 'ignored', files: ['a.pln', 'b.gpx'] })),
+        [`${BASE}share-target/0`]: new Response('<SimBase.Document/>'),
+        [`${BASE}share-target/1`]: new Response('<gpx/>')
+      });
+
+      const input = await OfflineApp.readShare(cache, BASE);
+      expect(input?.route).toBe('ignored');
+      expect(input?.files.map(file => file.name)).toEqual(['a.pln', 'b.gpx']);
+      expect(input?.files[1]?.size).toBe(6);
+    });
+
+    it('should return nothing when no share is pending', async () => {
+      expect(await OfflineApp.readShare(memoryCache({}), BASE)).toBeUndefined();
+      expect(await OfflineApp.readShare(memoryCache({
+        [`${BASE}share-target/data`]: new Response(JSON.stringify({ url: 'https://skyvector.com/?fpl=P34%20N68', files: [] }))
+      }), BASE)).toEqual({ files: [], route: 'https://skyvector.com/?fpl=P34%20N68' });
+    });
+  });
+});
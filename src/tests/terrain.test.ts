@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { ElevationGrid, TerrainAnalyzer, TerrainModel } from '../terrain.js';
+import { Waypoint } from '../types.js';
+
+const GRID = `ncols 4
+nrows 2
+xllcorner 0
+yllcorner 0
+cellsize 0.25
+NODATA_value -9999
+100 200 300 -9999
+100 200 900 -9999`;
+
+const terrain = new TerrainModel([ElevationGrid.fromAsciiGrid(GRID, 'ft')]);
+
+const route: Waypoint[] = [
+  { type: 'NAMED', name: 'AAA', latitude: 0.1, longitude: 0.05 },
+  { type: 'NAMED', name: 'BBB', latitude: 0.1, longitude: 0.45 },
+  { type: 'GPS', latitude: 0.1, longitude: 0.9 }
+];
+
+describe('ElevationGrid', () => {
+  it('should read ESRI ASCII grids with the first row at the north edge', () => {
+    const grid = ElevationGrid.fromAsciiGrid(GRID, 'ft');
+
+    expect(grid).toMatchObject({ columns: 4, rows: 2, west: 0, south: 0, cellSize: 0.25 });
+    expect(grid.elevationAt(0.3, 0.6)).toBe(300);
+    expect(grid.elevationAt(0.1, 0.6)).toBe(900);
+    expect(grid.elevationAt(0.1, 0.9)).toBeUndefined();
+    expect(grid.elevationAt(0.6, 0.1)).toBeUndefined();
+    expect(grid.covers(0.1, -0.1)).toBe(false);
+  });
+
+  it('should convert metres to feet and accept cell-centre origins', () => {
+    const grid = ElevationGrid.fromAsciiGrid('ncols 1\nnrows 1\nxllcenter 10.5\nyllcenter 20.5\ncellsize 1\n100');
+
+    expect(grid).toMatchObject({ west: 10, south: 20 });
+    expect(grid.elevationAt(20.9, 10.1)).toBeCloseTo(328.084, 3);
+  });
+
+  it('should reject malformed grids', () => {
+    expect(() => ElevationGrid.fromAsciiGrid('ncols 2\nnrows 1\nxllcorner 0\nyllcorner 0\n1 2'))
+      .toThrow('Invalid elevation grid: ncols, nrows and cellsize are required');
+    expect(() => ElevationGrid.fromAsciiGrid('ncols 2\nnrows 1\ncellsize 1\n1 2'))
+      .toThrow('Invalid elevation grid: xllcorner and yllcorner are required');
+    expect(() => ElevationGrid.fromAsciiGrid('ncols 2\nnrows 1\nxllcorner 0\nyllcorner 0\ncellsize 1\n1 x'))
+      .toThrow('Invalid elevation grid: value 2 "x" is not a number');
+    expect(() => ElevationGrid.fromAsciiGrid('ncols 2\nnrows 1\nxllcorner 0\nyllcorner 0\ncellsize 1\n1'))
+      .toThrow('Elevation grid has 1 values, expected 2');
+  });
+});
+
+describe('TerrainModel', () => {
+  it('should prefer grids added later and fall back to earlier ones', () => {
+    const overlay = ElevationGrid.fromAsciiGrid('ncols 1\nnrows 1\nxllcorner 0\nyllcorner 0\ncellsize 0.25\n50', 'ft');
+    const model = terrain.withGrid(overlay);
+
+    expect(model.elevationAt(0.1, 0.1)).toBe(50);
+    expect(model.elevationAt(0.1, 0.3)).toBe(200);
+    expect(model.elevationAt(5, 5)).toBeUndefined();
+  });
+
+  it('should bundle a grid covering central Pennsylvania', () => {
+    const bundled = TerrainModel.bundled();
+
+    expect(bundled.elevationAt(40.2964, -78.32)).toBeGreaterThanOrEqual(1504);
+    expect(bundled.elevationAt(40.1935, -76.7634)).toBeGreaterThanOrEqual(310);
+    expect(bundled.elevationAt(35, -80)).toBeUndefined();
+  });
+});
+
+describe('TerrainAnalyzer', () => {
+  it('should find the highest terrain and clearance on each leg', () => {
+    const profile = TerrainAnalyzer.profile(route, { cruiseAltitude: 1500, terrain });
+    const [first, second] = profile.legs;
+
+    expect(profile.requiredClearance).toBe(1000);
+    expect(profile.samples[0]?.distance).toBe(0);
+    expect(profile.samples.at(-1)?.distance).toBeCloseTo(profile.totalDistance, 6);
+    expect(first).toMatchObject({ from: 'AAA', to: 'BBB', position: 1, altitude: 1500, coverage: 1, maxElevationFigure: 400, clearance: 1300, conflict: false });
+    expect(second).toMatchObject({ from: 'BBB', to: '000600N0005400E', position: 2, maxElevationFigure: 1100, clearance: 600, conflict: true });
+    expect(second?.highest?.elevation).toBe(900);
+    expect(second?.coverage).toBeGreaterThan(0.5);
+    expect(second?.coverage).toBeLessThan(1);
+  });
+
+  it('should fly each leg at the lower of the altitudes at its ends', () => {
+    const constrained = route.map((waypoint, index) => index === 1 ? { ...waypoint, altitude: 1000 } : waypoint);
+    const profile = TerrainAnalyzer.profile(constrained, { cruiseAltitude: 5000, clearance: 500, terrain });
+
+    expect(profile.legs.map(leg => [leg.altitude, leg.conflict])).toEqual([[1000, false], [1000, true]]);
+  });
+
+  it('should skip waypoints without a position and legs outside the grid', () => {
+    const far: Waypoint[] = [
+      { type: 'NAMED', name: 'XYZ' },
+      { type: 'GPS', latitude: 10, longitude: 10 },
+      { type: 'GPS', latitude: 10.5, longitude: 10 }
+    ];
+    const [leg] = TerrainAnalyzer.profile(far, { cruiseAltitude: 100, terrain }).legs;
+
+    expect(leg).toMatchObject({ position: 2, coverage: 0, conflict: false });
+    expect(leg?.highest).toBeUndefined();
+    expect(leg?.maxElevationFigure).toBeUndefined();
+  });
+
+  it('should report legs below the required clearance as warnings', () => {
+    const warnings = TerrainAnalyzer.check(route, { cruiseAltitude: 1500, terrain });
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ severity: 'warning', position: 2 });
+    expect(warnings[0]?.message).toMatch(
+      /^Leg BBB → 000600N0005400E crosses terrain of about 900 ft \d+\.\d NM after BBB; 1500 ft leaves 600 ft clearance \(1000 ft required\)\. Fly at or above 1900 ft on this leg\.$/
+    );
+    expect(TerrainAnalyzer.check(route, { cruiseAltitude: 1500, clearance: 500, terrain })).toEqual([]);
+  });
+});
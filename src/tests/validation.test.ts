@@ -17,6 +17,44 @@ describe('InputValidator', () => {
       });
     });
 
+    it('should accept altitude and speed constraints', () => {
+      expect(InputValidator.validateRouteInput('P34 403210N0772310W/A045 403210N 0772310W/5500 N68/S100')).toHaveLength(0);
+    });
+
+    it('should detect invalid constraints', () => {
+      const errors = InputValidator.validateRouteInput('P34 403210N0772310W/A999 N68/Q1');
+      expect(errors).toHaveLength(2);
+      expect(errors[0]?.message).toContain('Altitude must be 0-60000 ft');
+      expect(errors[0]?.position).toBe(1);
+      expect(errors[1]?.input).toBe('N68/Q1');
+      expect(errors[1]?.span).toEqual({ start: 25, end: 31 });
+    });
+
+    it('should detect constraints placed on a bare latitude', () => {
+      const errors = InputValidator.validateRouteInput('P34 403210N/A045 0772310W N68');
+      expect(errors[0]?.message).toContain('must follow the longitude');
+    });
+
+    it('should accept named coordinates and detect invalid names', () => {
+      expect(InputValidator.validateRouteInput('P34 403210N0772310W:BRIDGE/A045 403210N 0772310W:GAP N68')).toHaveLength(0);
+
+      const errors = InputValidator.validateRouteInput('P34:HOME 403210N:GAP 0772310W 403210N0772310W:BAD-NAME N68');
+      expect(errors.map(error => error.message)).toEqual([
+        expect.stringContaining('Only coordinates can be given a name at position 1'),
+        expect.stringContaining('must follow the longitude, not the latitude "403210N"'),
+        expect.stringContaining("Invalid waypoint name ':BAD-NAME'")
+      ]);
+    });
+
+    it('should accept airway and procedure tokens', () => {
+      expect(InputValidator.validateRouteInput('KORD.ORD5 HAR V162 ETX KPHL.BUNTS4')).toHaveLength(0);
+    });
+
+    it('should detect malformed or misplaced procedures', () => {
+      expect(InputValidator.validateRouteInput('KORD.ORD5.X KPHL')[0]?.message).toContain('Invalid procedure');
+      expect(InputValidator.validateRouteInput('KORD PSB.J60 KPHL')[0]?.message).toContain('must be attached');
+    });
+
     it('should reject empty input', () => {
       const errors = InputValidator.validateRouteInput('');
       expect(errors).toHaveLength(1);
@@ -35,6 +73,11 @@ describe('InputValidator', () => {
       expect(errors[0]?.message).toContain('Invalid coordinate format');
     });
 
+    it('should read hemisphere-prefixed idents as waypoints, not malformed coordinates', () => {
+      expect(InputValidator.validateRouteInput('P34 N68 W57 E25')).toHaveLength(0);
+      expect(InputValidator.validateRouteInput('P34 N40321 N68')[0]?.message).toContain('Invalid coordinate format at position 2: "N40321"');
+    });
+
     it('should detect invalid minutes/seconds', () => {
       const errors = InputValidator.validateRouteInput('KLAX 406010N KORD');
       expect(errors.length).toBeGreaterThan(0);
@@ -47,6 +90,16 @@ describe('InputValidator', () => {
       expect(errors[0]?.message).toContain('Invalid latitude degrees');
     });
 
+    it('should accept other coordinate notations', () => {
+      expect(InputValidator.validateRouteInput('P34 4032.17N 07723.17W 40.5361,-77.3861 N40°32.17\'W077°23.17\' N68')).toHaveLength(0);
+    });
+
+    it('should validate components of other coordinate notations', () => {
+      expect(InputValidator.validateRouteInput('P34 4075N 07723W N68')[0]?.message).toContain('Invalid minutes in latitude');
+      expect(InputValidator.validateRouteInput('P34 40.5,-190.2 N68')[0]?.message).toContain('Invalid longitude degrees');
+      expect(InputValidator.validateRouteInput('P34 40.5,-77.x N68')[0]?.message).toContain('Invalid coordinate format');
+    });
+
     it('should detect invalid waypoint names', () => {
       const errors = InputValidator.validateRouteInput('A VERYLONGWAYPOINTNAME');
       expect(errors.length).toBeGreaterThan(0);
@@ -94,4 +147,60 @@ describe('InputValidator', () => {
       expect(message).toBe('');
     });
   });
+
+  describe('validatePlanOptions', () => {
+    const eastbound = [
+      { type: 'NAMED' as const, name: 'KMDT', latitude: 40.1935, longitude: -76.7634, elevation: 310 },
+      { type: 'NAMED' as const, name: 'KPHL', latitude: 39.8719, longitude: -75.2411, elevation: 36 }
+    ];
+    const westbound = [...eastbound].reverse();
+
+    it('should accept defaults and valid options', () => {
+      expect(InputValidator.validatePlanOptions({})).toHaveLength(0);
+      expect(InputValidator.validatePlanOptions({ flightType: 'VFR', cruisingAltitude: 5500 }, eastbound)).toHaveLength(0);
+      expect(InputValidator.validatePlanOptions({ flightType: 'VFR', cruisingAltitude: 4500 }, westbound)).toHaveLength(0);
+      expect(InputValidator.validatePlanOptions({ flightType: 'IFR', cruisingAltitude: 7000 }, eastbound)).toHaveLength(0);
+      expect(InputValidator.validatePlanOptions({ flightType: 'IFR', cruisingAltitude: 6000 }, westbound)).toHaveLength(0);
+    });
+
+    it('should enforce VFR hemispheric altitudes above 3000 ft AGL', () => {
+      const errors = InputValidator.validatePlanOptions({ flightType: 'VFR', cruisingAltitude: 4500 }, eastbound);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.message).toContain('eastbound');
+      expect(errors[0]?.message).toContain('odd thousands plus 500');
+
+      expect(InputValidator.validatePlanOptions({ flightType: 'VFR', cruisingAltitude: 5000 }, westbound)).toHaveLength(1);
+      expect(InputValidator.validatePlanOptions({ flightType: 'VFR', cruisingAltitude: 2000 }, westbound)).toHaveLength(0);
+    });
+
+    it('should enforce IFR hemispheric altitudes', () => {
+      const errors = InputValidator.validatePlanOptions({ flightType: 'IFR', cruisingAltitude: 6000 }, eastbound);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.message).toContain('IFR cruising altitude 6000 ft');
+    });
+
+    it('should reject VFR in Class A and invalid altitudes', () => {
+      expect(InputValidator.validatePlanOptions({ flightType: 'VFR', cruisingAltitude: 18500 })[0]?.message).toContain('Class A');
+      expect(InputValidator.validatePlanOptions({ cruisingAltitude: -100 })[0]?.message).toContain('Invalid cruising altitude');
+      expect(InputValidator.validatePlanOptions({ cruisingAltitude: NaN })[0]?.message).toContain('Invalid cruising altitude');
+    });
+
+    it('should reject invalid terrain clearances', () => {
+      expect(InputValidator.validatePlanOptions({ terrainClearance: 1000 })).toHaveLength(0);
+      expect(InputValidator.validatePlanOptions({ terrainClearance: -1 })[0]?.message).toBe(
+        'Invalid terrain clearance: -1. Terrain clearance must be a whole number of feet between 0 and 10000.'
+      );
+      expect(InputValidator.validatePlanOptions({ terrainClearance: 20000 })).toHaveLength(1);
+    });
+
+    it('should reject invalid flight types, route types and runways', () => {
+      const errors = InputValidator.validatePlanOptions({
+        flightType: 'SVFR' as never,
+        routeType: 'Jet' as never,
+        arrivalRunway: '40'
+      });
+      expect(errors).toHaveLength(3);
+      expect(errors[2]?.message).toContain('Invalid runway');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { XmlParser, XmlWriter } from '../xml.js';
+
+describe('XmlParser', () => {
+  describe('parse', () => {
+    it('should build an element tree with attributes and text', () => {
+      const root = XmlParser.parse('<?xml version="1.0"?><!-- c --><a x="1"><b id="two">A &amp; B</b><c/></a>');
+
+      expect(root.name).toBe('a');
+      expect(root.attributes).toEqual({ x: '1' });
+      expect(root.children.map(child => child.name)).toEqual(['b', 'c']);
+      expect(XmlParser.childText(root, 'b')).toBe('A & B');
+      expect(XmlParser.findChild(root, 'b')?.attributes.id).toBe('two');
+    });
+
+    it('should read CDATA sections verbatim', () => {
+      expect(XmlParser.parse('<a><![CDATA[<raw>]]></a>').text).toBe('<raw>');
+    });
+
+    it('should reject mismatched and unclosed tags', () => {
+      expect(() => XmlParser.parse('<a><b></a>')).toThrow('Unexpected closing tag');
+      expect(() => XmlParser.parse('<a><b></b>')).toThrow('Unclosed XML element');
+      expect(() => XmlParser.parse('just text')).toThrow('no root element');
+    });
+  });
+});
+
+describe('XmlWriter', () => {
+  it('should serialize elements with escaped text and attributes', () => {
+    const root = XmlWriter.element('a', [
+      XmlWriter.element('b', 'A & <B>', { id: '"two"' }),
+      XmlWriter.element('c', [XmlWriter.element('d', 42)]),
+      XmlWriter.element('e')
+    ]);
+
+    expect(XmlWriter.serialize(root)).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<a>',
+      '  <b id="&quot;two&quot;">A &amp; &lt;B&gt;</b>',
+      '  <c>',
+      '    <d>42</d>',
+      '  </c>',
+      '  <e/>',
+      '</a>'
+    ].join('\n'));
+    expect(XmlParser.parse(XmlWriter.serialize(root))).toEqual(root);
+  });
+});
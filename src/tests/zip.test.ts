@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { ZipArchive } from '../zip.js';
+
+describe('ZipArchive', () => {
+  it('should compute standard CRC-32 checksums', () => {
+    expect(ZipArchive.crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(ZipArchive.crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should store each file with a local header and a central directory entry', () => {
+    const archive = ZipArchive.build([
+      { name: 'KMDT-KLNS.pln', content: '<xml/>' },
+      { name: 'München.gpx', content: new Uint8Array([1, 2, 3]) }
+    ], new Date(2026, 0, 2, 3, 4, 6));
+    const view = new DataView(archive.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(ZipArchive.crc32(new TextEncoder().encode('<xml/>')));
+    expect(view.getUint32(18, true)).toBe(6);
+    expect(new TextDecoder().decode(archive.subarray(30, 43))).toBe('KMDT-KLNS.pln');
+    expect(view.getUint16(10, true)).toBe((3 << 11) | (4 << 5) | 3);
+    expect(view.getUint16(12, true)).toBe((46 << 9) | (1 << 5) | 2);
+
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const directory = view.getUint32(end + 16, true);
+    expect(view.getUint32(directory, true)).toBe(0x02014b50);
+    expect(directory + view.getUint32(end + 12, true)).toBe(end);
+  });
+
+  it('should reject duplicate file names', () => {
+    expect(() => ZipArchive.build([{ name: 'a.pln', content: '' }, { name: 'a.pln', content: '' }]))
+      .toThrow('Duplicate file name in archive: a.pln');
+  });
+});
@@ -1,10 +1,70 @@
 export type WaypointType = 'GPS' | 'NAMED';
 
-export interface Waypoint {
+export type NavaidType = 'Airport' | 'VOR' | 'NDB' | 'Intersection';
+
+export type AltitudeConstraint = 'AT' | 'AT_OR_ABOVE' | 'AT_OR_BELOW';
+
+export interface WaypointConstraint {
+  altitude?: number;
+  altitudeConstraint?: AltitudeConstraint;
+  speed?: number;
+}
+
+export interface Waypoint extends WaypointConstraint {
   type: WaypointType;
   name?: string;
   latitude?: number;
   longitude?: number;
+  waypointType?: NavaidType;
+  elevation?: number;
+  region?: string;
+  airway?: string;
+  departureProcedure?: string;
+  arrivalProcedure?: string;
+}
+
+export interface NavaidRecord {
+  ident: string;
+  type: NavaidType;
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  region: string;
+}
+
+export interface AirwayFix {
+  airway: string;
+  sequence: number;
+  ident: string;
+  type: NavaidType;
+  latitude: number;
+  longitude: number;
+  region: string;
+}
+
+export interface Runway {
+  number: number;
+  designator: 'NONE' | 'LEFT' | 'RIGHT' | 'CENTER';
+}
+
+export type FlightType = 'VFR' | 'IFR';
+
+export type RouteType = 'Direct' | 'VOR' | 'LowAlt' | 'HighAlt';
+
+export interface PlnOptions {
+  title?: string;
+  description?: string;
+  flightType?: FlightType;
+  routeType?: RouteType;
+  cruisingAltitude?: number;
+  cruiseSpeed?: number;
+  departureRunway?: string;
+  departureParking?: string;
+  arrivalRunway?: string;
+  userWaypointTemplate?: string;
+  terrainClearance?: number;
+  warningsAsErrors?: boolean;
 }
 
 export interface FlightPlan {
@@ -14,10 +74,38 @@ export interface FlightPlan {
   departureLLA: string;
   destinationLLA: string;
   waypoints: Waypoint[];
+  fpType?: FlightType;
+  routeType?: RouteType;
+  cruisingAlt?: number;
+  cruiseSpeed?: number;
+  description?: string;
+  departurePosition?: string;
+  departureRunway?: Runway;
+  arrivalRunway?: Runway;
+  userWaypointTemplate?: string;
+}
+
+export type Severity = 'error' | 'warning';
+
+export interface QuickFix {
+  title: string;
+  replacement: string;
 }
 
 export interface ConversionError {
   message: string;
+  severity?: Severity;
   position?: number;
   input?: string;
+  span?: SourceSpan;
+  fixes?: QuickFix[];
+}
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export interface RouteToken extends SourceSpan {
+  text: string;
 }
\ No newline at end of file
@@ -1,4 +1,11 @@
-import { ConversionError } from './types.js';
+import { ConversionError, PlnOptions, Waypoint, FlightType, RouteType } from './types.js';
+import { PlnGenerator, RouteParser } from './converter.js';
+import { GeoMath } from './geo.js';
+import { MagneticModel } from './magvar.js';
+import { CoordinateNotations, CoordinateIssue } from './notation.js';
+
+export const FLIGHT_TYPES: FlightType[] = ['VFR', 'IFR'];
+export const ROUTE_TYPES: RouteType[] = ['Direct', 'VOR', 'LowAlt', 'HighAlt'];
 
 export class ValidationError extends Error {
   constructor(
@@ -24,6 +31,7 @@ export class InputValidator {
     }
 
     const tokens = trimmedInput.split(/\s+/);
+    const spans = RouteParser.tokenize(input);
     
     if (tokens.length < 2) {
       errors.push({
@@ -33,7 +41,18 @@ export class InputValidator {
 
     tokens.forEach((token, index) => {
       const tokenErrors = this.validateToken(token, index);
-      errors.push(...tokenErrors);
+
+      const [base = ''] = RouteParser.splitAnnotation(token);
+      if (base.includes('.') && !CoordinateNotations.standard().detect(base) && index > 0 && index < tokens.length - 1) {
+        tokenErrors.push({
+          message: `Procedure at position ${index + 1}: "${token}" must be attached to the departure or arrival airport.`,
+          position: index,
+          input: token
+        });
+      }
+
+      const span = spans[index];
+      errors.push(...tokenErrors.map(error => span ? { ...error, span: { start: span.start, end: span.end } } : error));
     });
 
     return errors;
@@ -46,117 +65,125 @@ export class InputValidator {
       return errors;
     }
 
-    const cleanToken = token.trim();
-    
-    const latRegex = /^(\d{2})(\d{2})(\d{2})([NS])$/;
-    const lonRegex = /^(\d{3})(\d{2})(\d{2})([EW])$/;
-    const comboRegex = /^(\d{6}[NS]\d{7}[EW])$/;
-    
-    if (comboRegex.test(cleanToken)) {
-      const lat = cleanToken.substring(0, 7);
-      const lon = cleanToken.substring(7);
-      
-      const latErrors = this.validateCoordinate(lat, position, 'latitude');
-      const lonErrors = this.validateCoordinate(lon, position, 'longitude');
-      
-      errors.push(...latErrors, ...lonErrors);
-      return errors;
+    const [labelled, annotation] = RouteParser.splitAnnotation(token.trim());
+    const colon = labelled.indexOf(':');
+    const cleanToken = colon === -1 ? labelled : labelled.substring(0, colon);
+
+    if (colon !== -1) {
+      errors.push(...this.validateName(labelled.substring(colon + 1), position, cleanToken));
+    }
+
+    if (annotation !== undefined) {
+      errors.push(...this.validateConstraint(annotation, position, cleanToken));
     }
     
-    if (latRegex.test(cleanToken) || lonRegex.test(cleanToken)) {
-      const coordinateType = latRegex.test(cleanToken) ? 'latitude' : 'longitude';
-      const coordErrors = this.validateCoordinate(cleanToken, position, coordinateType);
-      errors.push(...coordErrors);
+    const detection = CoordinateNotations.standard().detect(cleanToken);
+    if (detection) {
+      errors.push(...CoordinateNotations.issues(detection.components).map(issue => this.coordinateError(issue, position)));
       return errors;
     }
     
     if (this.looksLikeCoordinate(cleanToken)) {
       errors.push({
-        message: `Invalid coordinate format at position ${position + 1}: "${cleanToken}". Expected formats: DDMMSSN/S for latitude, DDDMMSSE/W for longitude.`,
+        message: `Invalid coordinate format at position ${position + 1}: "${cleanToken}". Expected formats: ${this.coordinateExamples()}.`,
         position,
         input: cleanToken
       });
       return errors;
     }
     
+    if (cleanToken.includes('.')) {
+      return [...errors, ...this.validateProcedure(cleanToken, position)];
+    }
+
     const waypointErrors = this.validateWaypointName(cleanToken, position);
     errors.push(...waypointErrors);
     
     return errors;
   }
 
-  private static validateCoordinate(coord: string, position: number, type: 'latitude' | 'longitude'): ConversionError[] {
+  private static validateConstraint(annotation: string, position: number, base: string): ConversionError[] {
     const errors: ConversionError[] = [];
-    
-    const latRegex = /^(\d{2})(\d{2})(\d{2})([NS])$/;
-    const lonRegex = /^(\d{3})(\d{2})(\d{2})([EW])$/;
-    
-    const match = type === 'latitude' ? coord.match(latRegex) : coord.match(lonRegex);
-    
-    if (!match) {
-      const expectedFormat = type === 'latitude' ? 'DDMMSSN/S' : 'DDDMMSSE/W';
+
+    const detection = CoordinateNotations.standard().detect(base);
+    if (detection?.components.length === 1 && detection.components[0]?.axis === 'latitude') {
       errors.push({
-        message: `Invalid ${type} format at position ${position + 1}: "${coord}". Expected format: ${expectedFormat}.`,
+        message: `Constraint at position ${position + 1} must follow the longitude, not the latitude "${base}".`,
         position,
-        input: coord
+        input: `${base}/${annotation}`
       });
       return errors;
     }
 
-    const [, degStr, minStr, secStr, hemisphere] = match;
-    const deg = parseInt(degStr, 10);
-    const minutes = parseInt(minStr, 10);
-    const seconds = parseInt(secStr, 10);
-
-    if (minutes >= 60) {
+    try {
+      RouteParser.parseConstraint(annotation);
+    } catch (error) {
       errors.push({
-        message: `Invalid minutes in ${type} at position ${position + 1}: "${coord}". Minutes must be 00-59.`,
+        message: `${error instanceof Error ? error.message : 'Invalid waypoint constraint'} (position ${position + 1})`,
         position,
-        input: coord
+        input: `${base}/${annotation}`
       });
     }
 
-    if (seconds >= 60) {
-      errors.push({
-        message: `Invalid seconds in ${type} at position ${position + 1}: "${coord}". Seconds must be 00-59.`,
-        position,
-        input: coord
-      });
-    }
+    return errors;
+  }
 
-    if (type === 'latitude' && deg > 90) {
-      errors.push({
-        message: `Invalid latitude degrees at position ${position + 1}: "${coord}". Latitude degrees must be 00-90.`,
-        position,
-        input: coord
-      });
-    }
+  private static validateName(name: string, position: number, base: string): ConversionError[] {
+    const detection = CoordinateNotations.standard().detect(base);
+    const input = `${base}:${name}`;
 
-    if (type === 'longitude' && deg > 180) {
-      errors.push({
-        message: `Invalid longitude degrees at position ${position + 1}: "${coord}". Longitude degrees must be 000-180.`,
+    if (!detection) {
+      return [{
+        message: `Only coordinates can be given a name at position ${position + 1}: "${base}" is already an identifier.`,
         position,
-        input: coord
-      });
+        input
+      }];
     }
-
-    if (type === 'latitude' && !['N', 'S'].includes(hemisphere)) {
-      errors.push({
-        message: `Invalid latitude hemisphere at position ${position + 1}: "${coord}". Must end with N or S.`,
+    if (detection.components.length === 1 && detection.components[0]?.axis === 'latitude') {
+      return [{
+        message: `Waypoint name at position ${position + 1} must follow the longitude, not the latitude "${base}".`,
         position,
-        input: coord
-      });
+        input
+      }];
     }
-
-    if (type === 'longitude' && !['E', 'W'].includes(hemisphere)) {
-      errors.push({
-        message: `Invalid longitude hemisphere at position ${position + 1}: "${coord}". Must end with E or W.`,
+    try {
+      RouteParser.splitName(input);
+    } catch (error) {
+      return [{
+        message: `${error instanceof Error ? error.message : 'Invalid waypoint name'} (position ${position + 1})`,
         position,
-        input: coord
-      });
+        input
+      }];
     }
+    return [];
+  }
 
-    return errors;
+  private static coordinateError(issue: CoordinateIssue, position: number): ConversionError {
+    const { axis, text } = issue.component;
+    const messages = {
+      minutes: `Invalid minutes in ${axis} at position ${position + 1}: "${text}". Minutes must be 00-59.`,
+      seconds: `Invalid seconds in ${axis} at position ${position + 1}: "${text}". Seconds must be 00-59.`,
+      degrees: axis === 'latitude'
+        ? `Invalid latitude degrees at position ${position + 1}: "${text}". Latitude degrees must be 00-90.`
+        : `Invalid longitude degrees at position ${position + 1}: "${text}". Longitude degrees must be 000-180.`
+    };
+    return { message: messages[issue.problem], position, input: text };
+  }
+
+  private static coordinateExamples(): string {
+    const examples = CoordinateNotations.standard().all.map(notation => notation.example);
+    return `${examples.slice(0, -1).join(', ')} or ${examples[examples.length - 1]}`;
+  }
+
+  private static validateProcedure(token: string, position: number): ConversionError[] {
+    if (/^[A-Za-z0-9]{2,5}\.[A-Za-z0-9]{2,7}$/.test(token)) {
+      return [];
+    }
+    return [{
+      message: `Invalid procedure at position ${position + 1}: "${token}". Expected AIRPORT.PROCEDURE, e.g. KORD.ORD5.`,
+      position,
+      input: token
+    }];
   }
 
   private static validateWaypointName(name: string, position: number): ConversionError[] {
@@ -191,9 +218,123 @@ export class InputValidator {
 
   private static looksLikeCoordinate(token: string): boolean {
     return /^\d+[NSEW]?$/.test(token) || 
-           /^[NSEW]?\d+$/.test(token) ||
+           /^[NSEW]\d{5,}$/.test(token) ||
            /^\d{5,}[NSEW]$/.test(token) ||
-           /^\d{6,}$/.test(token);
+           /^\d{6,}$/.test(token) ||
+           /^[+-]?\d+(\.\d+)?,/.test(token) ||
+           /[°º]/.test(token);
+  }
+
+  static validatePlanOptions(options: PlnOptions, waypoints: Waypoint[] = []): ConversionError[] {
+    const errors: ConversionError[] = [];
+    const flightType = options.flightType ?? 'VFR';
+
+    if (!FLIGHT_TYPES.includes(flightType)) {
+      errors.push({ message: `Invalid flight type "${flightType}". Use VFR or IFR.`, input: flightType });
+    }
+
+    if (options.routeType !== undefined && !ROUTE_TYPES.includes(options.routeType)) {
+      errors.push({
+        message: `Invalid route type "${options.routeType}". Use ${ROUTE_TYPES.join(', ')}.`,
+        input: options.routeType
+      });
+    }
+
+    (['departureRunway', 'arrivalRunway'] as const).forEach(field => {
+      const runway = options[field];
+      if (runway === undefined) {
+        return;
+      }
+      try {
+        PlnGenerator.parseRunway(runway);
+      } catch (error) {
+        errors.push({ message: error instanceof Error ? error.message : `Invalid runway: ${runway}`, input: runway });
+      }
+    });
+
+    const clearance = options.terrainClearance;
+    if (clearance !== undefined && (!Number.isInteger(clearance) || clearance < 0 || clearance > 10000)) {
+      errors.push({
+        message: `Invalid terrain clearance: ${clearance}. Terrain clearance must be a whole number of feet between 0 and 10000.`,
+        input: String(clearance)
+      });
+    }
+
+    const altitude = options.cruisingAltitude;
+    if (altitude === undefined) {
+      return errors;
+    }
+
+    if (!Number.isInteger(altitude) || altitude < 0 || altitude > 60000) {
+      errors.push({
+        message: `Invalid cruising altitude: ${altitude}. Cruising altitude must be a whole number of feet between 0 and 60000.`,
+        input: String(altitude)
+      });
+      return errors;
+    }
+
+    if (flightType === 'VFR' && altitude >= 18000) {
+      errors.push({
+        message: `VFR cruising altitude ${altitude} ft is in Class A airspace. VFR flights must cruise below 18000 ft.`,
+        input: String(altitude)
+      });
+      return errors;
+    }
+
+    const course = this.magneticCourse(waypoints);
+    if (course === undefined) {
+      return errors;
+    }
+
+    const eastbound = course < 180;
+    const direction = eastbound ? 'eastbound (000-179°)' : 'westbound (180-359°)';
+    const courseText = Math.round(course).toString().padStart(3, '0');
+
+    if (flightType === 'VFR') {
+      const fieldElevation = Math.max(0, ...waypoints.map(wp => wp.elevation ?? 0));
+      const thousands = (altitude - 500) / 1000;
+      const matches = Number.isInteger(thousands) && (thousands % 2 === 1) === eastbound;
+      if (altitude - fieldElevation > 3000 && !matches) {
+        errors.push({
+          message: `VFR cruising altitude ${altitude} ft does not match magnetic course ${courseText}°. ` +
+            `Above 3000 ft AGL, ${direction} VFR flights use ${eastbound ? 'odd' : 'even'} thousands plus 500 ft ` +
+            `(e.g. ${eastbound ? '3500, 5500' : '4500, 6500'}).`,
+          input: String(altitude)
+        });
+      }
+    } else if (altitude <= 41000) {
+      const thousands = altitude / 1000;
+      const matches = Number.isInteger(thousands) && (thousands % 2 === 1) === eastbound;
+      if (!matches) {
+        errors.push({
+          message: `IFR cruising altitude ${altitude} ft does not match magnetic course ${courseText}°. ` +
+            `${direction.charAt(0).toUpperCase()}${direction.slice(1)} IFR flights use ${eastbound ? 'odd' : 'even'} thousands ` +
+            `(e.g. ${eastbound ? '5000, 7000' : '4000, 6000'}).`,
+          input: String(altitude)
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  private static magneticCourse(waypoints: Waypoint[]): number | undefined {
+    const positioned = waypoints.filter(wp => wp.latitude !== undefined && wp.longitude !== undefined);
+    const first = positioned[0];
+    const last = positioned[positioned.length - 1];
+
+    if (!first || !last || positioned.length < 2 ||
+        first.latitude === undefined || first.longitude === undefined ||
+        last.latitude === undefined || last.longitude === undefined) {
+      return undefined;
+    }
+    if (first.latitude === last.latitude && first.longitude === last.longitude) {
+      return undefined;
+    }
+
+    const trueCourse = GeoMath.initialBearing(first.latitude, first.longitude, last.latitude, last.longitude);
+    const variation = MagneticModel.bundled().declination(first.latitude, first.longitude);
+    return ((trueCourse - variation) % 360 + 360) % 360;
   }
 
   static generateHelpfulErrorMessage(errors: ConversionError[]): string {
@@ -210,6 +351,8 @@ export class InputValidator {
     message += '• Latitude: 403210N (40°32\'10"N)\n';
     message += '• Longitude: 0772310W (77°23\'10"W)\n';
     message += '• Combined: 403210N0772310W\n';
+    message += '• Airways and procedures: KORD.ORD5 HAR V162 ETX KPHL.BUNTS4\n';
+    message += '• Altitude/speed: 403210N0772310W/A045, KLAX/5500, LRP/A060S120\n';
     message += '• Complete route: P34 403210N0772310W N68';
 
     return message;
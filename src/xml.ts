@@ -0,0 +1,192 @@
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const TAG_REGEX = /<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE_REGEX = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export class XmlParser {
+  static decodeEntities(text: string): string {
+    return text
+      .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  static parse(text: string): XmlElement {
+    const stack: XmlElement[] = [];
+    let root: XmlElement | undefined;
+    let i = 0;
+
+    while (i < text.length) {
+      const next = text.indexOf('<', i);
+      if (next === -1) {
+        this.appendText(stack, text.substring(i));
+        break;
+      }
+
+      this.appendText(stack, text.substring(i, next));
+
+      if (text.startsWith('<?', next)) {
+        i = this.skipPast(text, next, '?>');
+        continue;
+      }
+      if (text.startsWith('<!--', next)) {
+        i = this.skipPast(text, next, '-->');
+        continue;
+      }
+      if (text.startsWith('<![CDATA[', next)) {
+        const end = text.indexOf(']]>', next);
+        if (end === -1) {
+          throw new Error('Unterminated CDATA section');
+        }
+        const current = stack[stack.length - 1];
+        if (current) {
+          current.text += text.substring(next + 9, end);
+        }
+        i = end + 3;
+        continue;
+      }
+      if (text.startsWith('<!', next)) {
+        i = this.skipPast(text, next, '>');
+        continue;
+      }
+
+      TAG_REGEX.lastIndex = next;
+      const match = TAG_REGEX.exec(text);
+      if (!match) {
+        throw new Error(`Malformed XML tag at offset ${next}`);
+      }
+
+      const [whole, closing, name = '', attributeText = '', selfClosing] = match;
+      i = next + whole.length;
+
+      if (closing) {
+        const open = stack.pop();
+        if (!open || open.name !== name) {
+          throw new Error(`Unexpected closing tag </${name}> at offset ${next}`);
+        }
+        open.text = open.text.trim();
+        if (stack.length === 0) {
+          root = open;
+        }
+        continue;
+      }
+
+      const element: XmlElement = {
+        name,
+        attributes: this.parseAttributes(attributeText),
+        children: [],
+        text: ''
+      };
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(element);
+      } else if (root) {
+        throw new Error('XML document has more than one root element');
+      }
+
+      if (selfClosing) {
+        if (!parent) {
+          root = element;
+        }
+      } else {
+        stack.push(element);
+      }
+    }
+
+    if (stack.length > 0) {
+      throw new Error(`Unclosed XML element <${stack[stack.length - 1]?.name}>`);
+    }
+    if (!root) {
+      throw new Error('XML document has no root element');
+    }
+
+    return root;
+  }
+
+  static findChild(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find(child => child.name === name);
+  }
+
+  static findChildren(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(child => child.name === name);
+  }
+
+  static childText(element: XmlElement, name: string): string | undefined {
+    return this.findChild(element, name)?.text;
+  }
+
+  private static parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(ATTRIBUTE_REGEX)) {
+      const [, key = '', doubleQuoted, singleQuoted] = match;
+      attributes[key] = this.decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+    }
+    return attributes;
+  }
+
+  private static appendText(stack: XmlElement[], text: string): void {
+    const current = stack[stack.length - 1];
+    if (current && text) {
+      current.text += this.decodeEntities(text);
+    }
+  }
+
+  private static skipPast(text: string, from: number, terminator: string): number {
+    const end = text.indexOf(terminator, from);
+    if (end === -1) {
+      throw new Error(`Unterminated XML construct at offset ${from}`);
+    }
+    return end + terminator.length;
+  }
+}
+
+export type XmlContent = string | number | XmlElement[];
+
+export class XmlWriter {
+  static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  static element(name: string, content: XmlContent = '', attributes: Record<string, string> = {}): XmlElement {
+    return Array.isArray(content)
+      ? { name, attributes, children: content, text: '' }
+      : { name, attributes, children: [], text: String(content) };
+  }
+
+  static serialize(root: XmlElement, indent = '  '): string {
+    return ['<?xml version="1.0" encoding="UTF-8"?>', ...this.lines(root, indent, '')].join('\n');
+  }
+
+  private static escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private static lines(element: XmlElement, indent: string, prefix: string): string[] {
+    const attributes = Object.entries(element.attributes).map(([key, value]) => ` ${key}="${this.escape(value)}"`).join('');
+    const open = `${prefix}<${element.name}${attributes}`;
+
+    if (element.children.length === 0) {
+      return [element.text ? `${open}>${this.escapeText(element.text)}</${element.name}>` : `${open}/>`];
+    }
+    return [
+      `${open}>`,
+      ...element.children.flatMap(child => this.lines(child, indent, prefix + indent)),
+      `${prefix}</${element.name}>`
+    ];
+  }
+}
@@ -1,9 +1,44 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { existsSync, readdirSync } from 'node:fs'
+import { defineConfig, Plugin } from 'vite'
+
+const SERVICE_WORKER = 'sw.js'
+
+// Injects the list of built files into the service worker so it can precache the whole app.
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const worker = bundle[SERVICE_WORKER]
+    if (!worker || worker.type !== 'chunk') {
+      return
+    }
+
+    const files = Object.values(bundle).filter(file => file.fileName !== SERVICE_WORKER && !file.fileName.endsWith('.map'))
+    const publicFiles = existsSync('public') ? readdirSync('public') : []
+    const urls = [...new Set(['./', 'index.html', ...publicFiles, ...files.map(file => file.fileName)])]
+    const hash = createHash('sha256')
+    files.forEach(file => hash.update(file.type === 'chunk' ? file.code : file.source))
+    const manifest = JSON.stringify({ version: hash.digest('hex').slice(0, 12), urls })
+    worker.code = worker.code.replace('self.__PRECACHE_MANIFEST', manifest)
+  },
+})
 
 export default defineConfig({
   base: '/skyvector_to_msfs2024/',
+  plugins: [precacheManifest()],
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
+    rollupOptions: {
+      input: {
+        main: 'index.html',
+        sw: 'src/sw.ts',
+      },
+      output: {
+        entryFileNames: chunk => chunk.name === 'sw' ? SERVICE_WORKER : 'assets/[name]-[hash].js',
+      },
+    },
   },
 })
\ No newline at end of file